@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import {
+  AttributeField,
+  checkAttributes,
+  describeAttributes,
+  validateAttributeFields,
+} from './attributes';
+
+const FIELDS: AttributeField[] = [
+  { name: 'notice_days', type: 'number', description: 'Notice period in days' },
+  { name: 'mutual', type: 'boolean', description: 'Whether both parties may terminate' },
+  { name: 'basis', type: 'enum', description: 'Grounds', values: ['cause', 'convenience'] },
+  { name: 'exceptions', type: 'string_list', description: 'Carve-outs' },
+];
+
+describe('validateAttributeFields', () => {
+  it('treats a missing entry as no attributes', () => {
+    expect(validateAttributeFields(undefined, 'Termination')).toEqual([]);
+  });
+
+  it('keeps enum values only on enum fields', () => {
+    const [field] = validateAttributeFields(
+      [{ name: 'cap', type: 'number', description: 'Cap', values: ['x'] }],
+      'Liability',
+    );
+
+    expect(field).toEqual({ name: 'cap', type: 'number', description: 'Cap', values: undefined });
+  });
+
+  it.each([
+    ['a non-array', {}, 'has invalid attributes'],
+    ['a name that is not snake_case', [{ name: 'NoticeDays' }], 'snake_case name'],
+    [
+      'duplicate names',
+      [
+        { name: 'cap', type: 'number', description: 'Cap' },
+        { name: 'cap', type: 'number', description: 'Cap' },
+      ],
+      'duplicate attribute "cap"',
+    ],
+    ['an unknown type', [{ name: 'cap', type: 'money', description: 'Cap' }], 'must have a type'],
+    ['a blank description', [{ name: 'cap', type: 'number', description: ' ' }], 'description'],
+    [
+      'an enum without values',
+      [{ name: 'basis', type: 'enum', description: 'Grounds', values: [] }],
+      'needs values',
+    ],
+  ])('rejects %s', (_, value, message) => {
+    expect(() => validateAttributeFields(value, 'Liability')).toThrow(message);
+  });
+});
+
+describe('describeAttributes', () => {
+  it('lists each field with its type and description', () => {
+    expect(describeAttributes(FIELDS)).toBe(
+      [
+        '{',
+        '  "notice_days": number | null, // Notice period in days',
+        '  "mutual": boolean | null, // Whether both parties may terminate',
+        '  "basis": "cause" | "convenience" | null, // Grounds',
+        '  "exceptions": string[] | null // Carve-outs',
+        '}',
+      ].join('\n'),
+    );
+  });
+});
+
+describe('checkAttributes', () => {
+  it('accepts a reply that matches the schema and drops unknown keys', () => {
+    const reply = {
+      notice_days: 30,
+      mutual: true,
+      basis: null,
+      exceptions: ['insolvency'],
+      extra: 'ignored',
+    };
+
+    expect(checkAttributes(FIELDS, reply)).toEqual({
+      attributes: { notice_days: 30, mutual: true, basis: null, exceptions: ['insolvency'] },
+      errors: [],
+    });
+  });
+
+  it('nulls the fields that fail and reports each of them', () => {
+    const { attributes, errors } = checkAttributes(FIELDS, {
+      notice_days: '30 days',
+      mutual: false,
+      basis: 'breach',
+    });
+
+    expect(attributes).toEqual({ notice_days: null, mutual: false, basis: null, exceptions: null });
+    expect(errors).toEqual([
+      '"notice_days" must be a number or null (no units or thousands separators)',
+      '"basis" must be one of "cause", "convenience" or null',
+      '"exceptions" is missing; use null if the clause does not say',
+    ]);
+  });
+
+  it('rejects a reply that is not an object', () => {
+    expect(checkAttributes(FIELDS, ['30'])).toEqual({
+      attributes: { notice_days: null, mutual: null, basis: null, exceptions: null },
+      errors: ['The reply must be a JSON object'],
+    });
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Structured clause attributes
+ *
+ * Clause types in the registry can declare typed fields (notice period, cap
+ * amount, ...) that the model fills in from the extracted clause text. The
+ * schema is declared in the registry JSON next to the clause type, and every
+ * model reply is checked against it before it is stored. A field is null when
+ * the clause does not state it.
+ */
+
+export type AttributeType = 'string' | 'number' | 'boolean' | 'enum' | 'string_list';
+
+export interface AttributeField {
+  // snake_case key in the stored attributes object
+  name: string;
+  type: AttributeType;
+  description: string;
+  // Allowed values for "enum" fields
+  values?: string[];
+}
+
+export type AttributeValue = string | number | boolean | string[] | null;
+
+export type ClauseAttributes = Record<string, AttributeValue>;
+
+const ATTRIBUTE_TYPES: AttributeType[] = ['string', 'number', 'boolean', 'enum', 'string_list'];
+
+// Validate the "attributes" entry of a clause type in the registry
+export function validateAttributeFields(value: unknown, clauseName: string): AttributeField[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value)) {
+    throw new Error(`Clause type "${clauseName}" has invalid attributes`);
+  }
+
+  const names = new Set<string>();
+  return value.map((entry: any) => {
+    if (typeof entry?.name !== 'string' || !/^[a-z][a-z0-9_]*$/.test(entry.name)) {
+      throw new Error(`Clause type "${clauseName}" has an attribute without a snake_case name`);
+    }
+    if (names.has(entry.name)) {
+      throw new Error(`Clause type "${clauseName}" has duplicate attribute "${entry.name}"`);
+    }
+    names.add(entry.name);
+
+    if (!ATTRIBUTE_TYPES.includes(entry.type)) {
+      throw new Error(
+        `Attribute "${entry.name}" of clause type "${clauseName}" must have a type of ${ATTRIBUTE_TYPES.join(', ')}`,
+      );
+    }
+    if (typeof entry.description !== 'string' || !entry.description.trim()) {
+      throw new Error(
+        `Attribute "${entry.name}" of clause type "${clauseName}" needs a description`,
+      );
+    }
+    if (
+      entry.type === 'enum' &&
+      (!Array.isArray(entry.values) ||
+        entry.values.length === 0 ||
+        !entry.values.every((item: unknown) => typeof item === 'string'))
+    ) {
+      throw new Error(`Enum attribute "${entry.name}" of clause type "${clauseName}" needs values`);
+    }
+
+    return {
+      name: entry.name,
+      type: entry.type,
+      description: entry.description,
+      values: entry.type === 'enum' ? entry.values : undefined,
+    };
+  });
+}
+
+// JSON-ish description of the expected reply, for the prompt
+export function describeAttributes(fields: AttributeField[]): string {
+  const typeOf = (field: AttributeField) => {
+    switch (field.type) {
+      case 'enum':
+        return field.values!.map((value) => JSON.stringify(value)).join(' | ');
+      case 'string_list':
+        return 'string[]';
+      default:
+        return field.type;
+    }
+  };
+
+  return [
+    '{',
+    ...fields.map(
+      (field, index) =>
+        `  "${field.name}": ${typeOf(field)} | null${index < fields.length - 1 ? ',' : ''} // ${field.description}`,
+    ),
+    '}',
+  ].join('\n');
+}
+
+function checkValue(field: AttributeField, value: unknown): string | null {
+  if (value === null) {
+    return null;
+  }
+
+  switch (field.type) {
+    case 'string':
+      return typeof value === 'string' ? null : 'must be a string or null';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value)
+        ? null
+        : 'must be a number or null (no units or thousands separators)';
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be true, false or null';
+    case 'enum':
+      return typeof value === 'string' && field.values!.includes(value)
+        ? null
+        : `must be one of ${field.values!.map((item) => JSON.stringify(item)).join(', ')} or null`;
+    case 'string_list':
+      return Array.isArray(value) && value.every((item) => typeof item === 'string')
+        ? null
+        : 'must be an array of strings or null';
+  }
+}
+
+/**
+ * Check a model reply against the schema. Fields that fail are reported and set
+ * to null, so a reply that never validates still yields the fields that did;
+ * keys that are not in the schema are dropped.
+ */
+export function checkAttributes(
+  fields: AttributeField[],
+  value: unknown,
+): { attributes: ClauseAttributes; errors: string[] } {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return {
+      attributes: Object.fromEntries(fields.map((field) => [field.name, null])),
+      errors: ['The reply must be a JSON object'],
+    };
+  }
+
+  const reply = value as Record<string, unknown>;
+  const attributes: ClauseAttributes = {};
+  const errors: string[] = [];
+
+  for (const field of fields) {
+    if (!(field.name in reply)) {
+      errors.push(`"${field.name}" is missing; use null if the clause does not say`);
+      attributes[field.name] = null;
+      continue;
+    }
+
+    const error = checkValue(field, reply[field.name]);
+    if (error) {
+      errors.push(`"${field.name}" ${error}`);
+      attributes[field.name] = null;
+    } else {
+      attributes[field.name] = reply[field.name] as AttributeValue;
+    }
+  }
+
+  return { attributes, errors };
+}
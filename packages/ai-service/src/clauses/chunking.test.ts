@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_CHUNK_OPTIONS, chunkDocument, countTokens, locatePassage } from './chunking';
+
+const section = (number: number, words: number) =>
+  `${number}. Section ${number}\n${Array.from({ length: words }, (_, i) => `word${i}`).join(' ')}`;
+
+describe('chunkDocument', () => {
+  it('keeps a short document in one chunk that remembers its pages', () => {
+    const chunks = chunkDocument([
+      { pageNumber: 1, text: section(1, 20) },
+      { pageNumber: 2, text: section(2, 20) },
+    ]);
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({ index: 0, startPage: 1, endPage: 2 });
+    // Page breaks stay visible to the model
+    expect(chunks[0].text).toBe(`${section(1, 20)}\n\n${section(2, 20)}`);
+    expect(chunks[0].units.map((unit) => unit.pageNumber)).toEqual([1, 2]);
+  });
+
+  it('cuts at section headings, stays within maxTokens and overlaps consecutive chunks', () => {
+    const text = [1, 2, 3, 4, 5, 6].map((number) => section(number, 40)).join('\n');
+    const sectionTokens = countTokens(section(1, 40));
+    const chunks = chunkDocument([{ pageNumber: 1, text }], {
+      maxTokens: sectionTokens * 3,
+      overlapTokens: sectionTokens + 5,
+    });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.tokenCount).toBeLessThanOrEqual(sectionTokens * 3 + 5);
+      // Every chunk starts at a heading, never in the middle of a section
+      expect(chunk.text).toMatch(/^\d+\. Section \d+\n/);
+    }
+    // The last section of one chunk is carried over as the first of the next
+    for (let i = 1; i < chunks.length; i++) {
+      const previous = chunks[i - 1].units;
+      expect(chunks[i].units[0].text).toBe(previous[previous.length - 1].text);
+    }
+    expect(chunks[chunks.length - 1].text).toContain('6. Section 6');
+  });
+
+  it('splits a section longer than maxTokens into pieces that fit', () => {
+    const lines = Array.from({ length: 30 }, (_, i) => `Line ${i} of a very long clause`);
+    const chunks = chunkDocument([{ pageNumber: 3, text: lines.join('\n') }], {
+      maxTokens: 50,
+      overlapTokens: 0,
+    });
+
+    expect(chunks.length).toBeGreaterThan(1);
+    expect(chunks.every((chunk) => chunk.tokenCount <= 50)).toBe(true);
+    expect(chunks.map((chunk) => chunk.text).join('\n')).toBe(lines.join('\n'));
+  });
+
+  it('keeps the defaults for options that are undefined', () => {
+    const text = Array.from({ length: 120 }, (_, i) => section(i + 1, 60)).join('\n');
+    const pages = [{ pageNumber: 1, text }];
+
+    expect(chunkDocument(pages, { maxTokens: undefined, overlapTokens: undefined })).toEqual(
+      chunkDocument(pages, DEFAULT_CHUNK_OPTIONS),
+    );
+  });
+});
+
+describe('locatePassage', () => {
+  const [chunk] = chunkDocument([
+    { pageNumber: 4, text: '7. Term\nThis Agreement lasts\nthree years.' },
+    { pageNumber: 5, text: '8. Termination\nEither party may terminate on 30 days notice.' },
+  ]);
+
+  it('finds the pages a passage spans, ignoring differences in whitespace', () => {
+    expect(locatePassage(chunk, 'This Agreement lasts three years.')).toEqual({
+      pageStart: 4,
+      pageEnd: 4,
+    });
+    expect(locatePassage(chunk, 'three years.\n\n8. Termination')).toEqual({
+      pageStart: 4,
+      pageEnd: 5,
+    });
+  });
+
+  it('returns null for text that is not in the chunk', () => {
+    expect(locatePassage(chunk, 'Governing law is New York')).toBeNull();
+  });
+});
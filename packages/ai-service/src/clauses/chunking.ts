@@ -0,0 +1,249 @@
+import { getEncoding, Tiktoken } from 'js-tiktoken';
+
+/**
+ * Token-aware document chunking
+ *
+ * Splits the OCR text into chunks that fit the model's context, cutting along
+ * section headings and page boundaries where possible. Consecutive chunks
+ * overlap by a few sections so that a clause straddling a boundary is seen
+ * whole at least once. Every chunk remembers which page each part of its text
+ * came from, so passages found in it can be traced back to pages.
+ */
+
+export interface DocumentPage {
+  pageNumber: number;
+  text: string;
+}
+
+// A section (or part of one) from a single page, with its offsets in the chunk text
+export interface ChunkUnit {
+  pageNumber: number;
+  text: string;
+  start: number;
+  end: number;
+}
+
+export interface DocumentChunk {
+  index: number;
+  text: string;
+  units: ChunkUnit[];
+  startPage: number;
+  endPage: number;
+  tokenCount: number;
+}
+
+export interface ChunkOptions {
+  maxTokens: number;
+  overlapTokens: number;
+}
+
+export const DEFAULT_CHUNK_OPTIONS: ChunkOptions = {
+  maxTokens: 6000,
+  overlapTokens: 400,
+};
+
+// Lines that start a new section: "12.", "12.3 Term", "Section 4", "ARTICLE IV", "§ 7"
+const SECTION_HEADING =
+  /^\s*(?:(?:section|article|clause|schedule|exhibit)\s+[\divxlc]+\b|§\s*\d+|\d+(?:\.\d+)*\.?\s+\S)/i;
+
+let encoder: Tiktoken | null = null;
+
+// o200k_base is the gpt-4o tokenizer; for other models it is a close enough estimate
+export function countTokens(text: string): number {
+  encoder ??= getEncoding('o200k_base');
+  return encoder.encode(text).length;
+}
+
+interface Unit {
+  pageNumber: number;
+  text: string;
+  tokens: number;
+}
+
+// Hard-split text that has no usable line breaks into pieces of at most maxTokens
+function splitByTokens(text: string, maxTokens: number): string[] {
+  encoder ??= getEncoding('o200k_base');
+  const tokens = encoder.encode(text);
+  const pieces: string[] = [];
+  for (let start = 0; start < tokens.length; start += maxTokens) {
+    pieces.push(encoder.decode(tokens.slice(start, start + maxTokens)));
+  }
+  return pieces;
+}
+
+// Break an oversized section into line-aligned pieces that fit maxTokens
+function splitOversizedUnit(unit: Unit, maxTokens: number): Unit[] {
+  const pieces: Unit[] = [];
+  let lines: string[] = [];
+  let tokens = 0;
+
+  const flush = () => {
+    if (lines.length > 0) {
+      pieces.push({ pageNumber: unit.pageNumber, text: lines.join('\n'), tokens });
+      lines = [];
+      tokens = 0;
+    }
+  };
+
+  for (const line of unit.text.split('\n')) {
+    const lineTokens = countTokens(line);
+    if (lineTokens > maxTokens) {
+      flush();
+      for (const piece of splitByTokens(line, maxTokens)) {
+        pieces.push({ pageNumber: unit.pageNumber, text: piece, tokens: countTokens(piece) });
+      }
+      continue;
+    }
+    if (tokens + lineTokens > maxTokens) {
+      flush();
+    }
+    lines.push(line);
+    tokens += lineTokens;
+  }
+  flush();
+
+  return pieces;
+}
+
+// Split each page into sections at heading lines
+function pageUnits(page: DocumentPage, maxTokens: number): Unit[] {
+  const sections: string[][] = [];
+
+  for (const line of page.text.split('\n')) {
+    if (sections.length === 0 || SECTION_HEADING.test(line)) {
+      sections.push([line]);
+    } else {
+      sections[sections.length - 1].push(line);
+    }
+  }
+
+  return sections
+    .map((lines) => lines.join('\n').trim())
+    .filter((text) => text.length > 0)
+    .flatMap((text) => {
+      const unit = { pageNumber: page.pageNumber, text, tokens: countTokens(text) };
+      return unit.tokens > maxTokens ? splitOversizedUnit(unit, maxTokens) : [unit];
+    });
+}
+
+function buildChunk(index: number, units: Unit[]): DocumentChunk {
+  const chunkUnits: ChunkUnit[] = [];
+  let text = '';
+
+  units.forEach((unit, position) => {
+    if (position > 0) {
+      // Keep page breaks visible to the model
+      text += units[position - 1].pageNumber === unit.pageNumber ? '\n' : '\n\n';
+    }
+    chunkUnits.push({
+      pageNumber: unit.pageNumber,
+      text: unit.text,
+      start: text.length,
+      end: text.length + unit.text.length,
+    });
+    text += unit.text;
+  });
+
+  return {
+    index,
+    text,
+    units: chunkUnits,
+    startPage: units[0].pageNumber,
+    endPage: units[units.length - 1].pageNumber,
+    tokenCount: units.reduce((sum, unit) => sum + unit.tokens, 0),
+  };
+}
+
+export function chunkDocument(
+  pages: DocumentPage[],
+  options: Partial<ChunkOptions> = {},
+): DocumentChunk[] {
+  // Field by field, as a spread would let an explicitly undefined option replace its default
+  const maxTokens = options.maxTokens ?? DEFAULT_CHUNK_OPTIONS.maxTokens;
+  const overlapTokens = options.overlapTokens ?? DEFAULT_CHUNK_OPTIONS.overlapTokens;
+  const units = pages.flatMap((page) => pageUnits(page, maxTokens));
+  const chunks: DocumentChunk[] = [];
+
+  let current: Unit[] = [];
+  let currentTokens = 0;
+
+  for (const unit of units) {
+    if (current.length > 0 && currentTokens + unit.tokens > maxTokens) {
+      chunks.push(buildChunk(chunks.length, current));
+
+      // Carry the trailing sections of the previous chunk over as overlap
+      const carried: Unit[] = [];
+      let carriedTokens = 0;
+      for (let i = current.length - 1; i >= 0; i--) {
+        if (carriedTokens + current[i].tokens > overlapTokens) {
+          break;
+        }
+        carried.unshift(current[i]);
+        carriedTokens += current[i].tokens;
+      }
+
+      const fits = carriedTokens + unit.tokens <= maxTokens;
+      current = fits ? carried : [];
+      currentTokens = fits ? carriedTokens : 0;
+    }
+
+    current.push(unit);
+    currentTokens += unit.tokens;
+  }
+
+  if (current.length > 0) {
+    chunks.push(buildChunk(chunks.length, current));
+  }
+
+  return chunks;
+}
+
+// Find a passage in the chunk text, ignoring differences in whitespace
+function findPassage(chunkText: string, passage: string): { start: number; end: number } | null {
+  const exact = chunkText.indexOf(passage);
+  if (exact >= 0) {
+    return { start: exact, end: exact + passage.length };
+  }
+
+  // Collapse whitespace in the chunk while remembering where each character came from
+  const offsets: number[] = [];
+  let collapsed = '';
+  for (let i = 0; i < chunkText.length; i++) {
+    if (/\s/.test(chunkText[i])) {
+      if (collapsed.endsWith(' ')) {
+        continue;
+      }
+      collapsed += ' ';
+    } else {
+      collapsed += chunkText[i];
+    }
+    offsets.push(i);
+  }
+
+  const needle = passage.replace(/\s+/g, ' ').trim();
+  const index = needle ? collapsed.indexOf(needle) : -1;
+  if (index < 0) {
+    return null;
+  }
+  return { start: offsets[index], end: offsets[index + needle.length - 1] + 1 };
+}
+
+// Page range a passage from this chunk appears on, or null if the text cannot be located
+export function locatePassage(
+  chunk: DocumentChunk,
+  passage: string,
+): { pageStart: number; pageEnd: number } | null {
+  const range = findPassage(chunk.text, passage);
+  if (!range) {
+    return null;
+  }
+
+  const pages = chunk.units
+    .filter((unit) => unit.start < range.end && unit.end > range.start)
+    .map((unit) => unit.pageNumber);
+  if (pages.length === 0) {
+    return null;
+  }
+
+  return { pageStart: Math.min(...pages), pageEnd: Math.max(...pages) };
+}
@@ -0,0 +1,137 @@
+import { describe, expect, it } from 'vitest';
+import { OcrPageResponse, OcrWord } from '../ocr/types';
+import { locateRegions, PageLayout, pageLayoutFromOcr } from './citations';
+
+// A word whose box spans [left, right] on the line at top..top+0.02
+const word = (text: string, left: number, right: number, top: number): OcrWord => ({
+  symbols: [...text].map((character) => ({ text: character })),
+  boundingBox: {
+    normalizedVertices: [
+      { x: left, y: top },
+      { x: right, y: top },
+      { x: right, y: top + 0.02 },
+      { x: left, y: top + 0.02 },
+    ],
+  },
+});
+
+// Lays the lines out left to right, one word per 0.1 of the page width
+const page = (...lines: string[][]): OcrPageResponse => ({
+  fullTextAnnotation: {
+    text: lines.map((line) => line.join(' ')).join('\n'),
+    pages: [
+      {
+        width: 0,
+        height: 0,
+        blocks: [
+          {
+            paragraphs: lines.map((line, row) => ({
+              words: line.map((text, column) =>
+                word(text, column * 0.1, column * 0.1 + 0.08, 0.1 + row * 0.05),
+              ),
+            })),
+          },
+        ],
+      },
+    ],
+  },
+});
+
+describe('pageLayoutFromOcr', () => {
+  it('splits words into normalized tokens and keeps their boxes', () => {
+    const layout = pageLayoutFromOcr(page(['Non-compete,', 'TERM']), 2);
+
+    expect(layout.pageNumber).toBe(2);
+    expect(layout.words.map((entry) => entry.tokens)).toEqual([['non', 'compete'], ['term']]);
+    expect(layout.words[0]).toMatchObject({ left: 0, top: 0.1, right: 0.08 });
+  });
+
+  it('scales pixel vertices by the page size and fills in omitted zeros', () => {
+    const response: OcrPageResponse = {
+      fullTextAnnotation: {
+        text: 'Term',
+        pages: [
+          {
+            width: 200,
+            height: 100,
+            blocks: [
+              {
+                paragraphs: [
+                  {
+                    words: [
+                      {
+                        symbols: [{ text: 'Term' }],
+                        boundingBox: { vertices: [{ x: 50 } as never, { x: 100, y: 20 }] },
+                      },
+                    ],
+                  },
+                ],
+              },
+            ],
+          },
+        ],
+      },
+    };
+
+    expect(pageLayoutFromOcr(response, 1).words[0]).toMatchObject({
+      left: 0.25,
+      top: 0,
+      right: 0.5,
+      bottom: 0.2,
+    });
+  });
+});
+
+describe('locateRegions', () => {
+  const layouts: PageLayout[] = [
+    pageLayoutFromOcr(page(['The', 'term', 'is', 'one', 'year.']), 1),
+    pageLayoutFromOcr(
+      page(
+        ['Either', 'party', 'may'],
+        ['terminate', 'this', 'agreement', 'on', 'written', 'notice.'],
+      ),
+      2,
+    ),
+  ];
+
+  it('returns one region per line of a verbatim passage', () => {
+    const regions = locateRegions(
+      'Either party may terminate this agreement on written notice',
+      layouts,
+      2,
+      2,
+    );
+
+    expect(regions).toHaveLength(2);
+    expect(regions.every((region) => region.pageNumber === 2)).toBe(true);
+    expect(regions[0].vertices[0]).toEqual({ x: 0, y: 0.1 });
+    expect(regions[0].vertices[2].x).toBeCloseTo(0.28);
+    expect(regions[1].vertices[2].y).toBeCloseTo(0.17);
+  });
+
+  it('ignores case, punctuation and line breaks', () => {
+    expect(locateRegions('THE TERM IS ONE YEAR', layouts, 1, 1)).toHaveLength(1);
+  });
+
+  it('searches the whole document when the passage is not on its pages', () => {
+    const [region] = locateRegions('The term is one year', layouts, 2, 2);
+
+    expect(region.pageNumber).toBe(1);
+  });
+
+  it('matches a passage whose middle differs between its first and last words', () => {
+    const regions = locateRegions(
+      'Either party may terminate the agreement on written notice',
+      layouts,
+      null,
+      null,
+    );
+
+    expect(regions.map((region) => region.pageNumber)).toEqual([2, 2]);
+  });
+
+  it('returns no regions for text that is not in the document', () => {
+    expect(locateRegions('Governing law is Delaware', layouts, null, null)).toEqual([]);
+    expect(locateRegions('...', layouts, null, null)).toEqual([]);
+  });
+});
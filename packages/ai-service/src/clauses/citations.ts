@@ -0,0 +1,208 @@
+import { BoundingRegion } from 'shared';
+import { OcrBoundingPoly, OcrPageResponse } from '../ocr/types';
+
+/**
+ * Source citations
+ *
+ * Maps a passage back onto the OCR word boxes it was read from. Passages are
+ * matched word by word (ignoring case, punctuation and line breaks) against the
+ * pages the chunker placed them on, and the matched words are merged into one
+ * highlight rectangle per line.
+ */
+
+interface LayoutWord {
+  // Normalized tokens of the word; "non-compete," becomes ["non", "compete"]
+  tokens: string[];
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+export interface PageLayout {
+  pageNumber: number;
+  words: LayoutWord[];
+}
+
+interface LocatedToken {
+  token: string;
+  pageNumber: number;
+  word: LayoutWord;
+}
+
+// Number of tokens at each end of a passage used to anchor an inexact match
+const ANCHOR_TOKENS = 5;
+
+function tokenize(text: string): string[] {
+  return text
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((token) => token.length > 0);
+}
+
+// Normalized box of a polygon; Vision omits zero coordinates, so missing values count as 0
+function normalizedBox(
+  poly: OcrBoundingPoly | undefined,
+  width: number,
+  height: number,
+): Pick<LayoutWord, 'left' | 'top' | 'right' | 'bottom'> | null {
+  const vertices =
+    poly?.normalizedVertices?.map((vertex) => ({ x: vertex.x ?? 0, y: vertex.y ?? 0 })) ??
+    (width > 0 && height > 0
+      ? poly?.vertices?.map((vertex) => ({
+          x: (vertex.x ?? 0) / width,
+          y: (vertex.y ?? 0) / height,
+        }))
+      : undefined);
+
+  if (!vertices || vertices.length === 0) {
+    return null;
+  }
+
+  const clamp = (value: number) => Math.min(Math.max(value, 0), 1);
+  return {
+    left: clamp(Math.min(...vertices.map((vertex) => vertex.x))),
+    top: clamp(Math.min(...vertices.map((vertex) => vertex.y))),
+    right: clamp(Math.max(...vertices.map((vertex) => vertex.x))),
+    bottom: clamp(Math.max(...vertices.map((vertex) => vertex.y))),
+  };
+}
+
+// Collect the words of one OCR page with their normalized boxes, in reading order
+export function pageLayoutFromOcr(response: OcrPageResponse, pageNumber: number): PageLayout {
+  const words: LayoutWord[] = [];
+
+  for (const page of response.fullTextAnnotation?.pages ?? []) {
+    for (const block of page.blocks ?? []) {
+      for (const paragraph of block.paragraphs ?? []) {
+        for (const word of paragraph.words ?? []) {
+          const tokens = tokenize((word.symbols ?? []).map((symbol) => symbol.text || '').join(''));
+          const box = normalizedBox(word.boundingBox, page.width, page.height);
+          if (tokens.length > 0 && box) {
+            words.push({ tokens, ...box });
+          }
+        }
+      }
+    }
+  }
+
+  return { pageNumber, words };
+}
+
+function indexOfSequence(haystack: LocatedToken[], needle: string[], from = 0): number {
+  outer: for (let i = from; i <= haystack.length - needle.length; i++) {
+    for (let j = 0; j < needle.length; j++) {
+      if (haystack[i + j].token !== needle[j]) {
+        continue outer;
+      }
+    }
+    return i;
+  }
+  return -1;
+}
+
+// Find the token span of the passage: verbatim if possible, otherwise between its first and
+// last few words, as long as the span is not wildly longer than the passage
+function matchPassage(tokens: LocatedToken[], passage: string[]): [number, number] | null {
+  const exact = indexOfSequence(tokens, passage);
+  if (exact >= 0) {
+    return [exact, exact + passage.length];
+  }
+
+  const anchorLength = Math.min(ANCHOR_TOKENS, Math.floor(passage.length / 2));
+  if (anchorLength === 0) {
+    return null;
+  }
+
+  const start = indexOfSequence(tokens, passage.slice(0, anchorLength));
+  if (start < 0) {
+    return null;
+  }
+  const tail = passage.slice(passage.length - anchorLength);
+  const tailStart = indexOfSequence(tokens, tail, start + anchorLength);
+  if (tailStart < 0 || tailStart + anchorLength - start > passage.length * 1.5) {
+    return null;
+  }
+  return [start, tailStart + anchorLength];
+}
+
+// Merge consecutive words on the same line into one rectangle
+function lineRegions(tokens: LocatedToken[]): BoundingRegion[] {
+  const lines: { pageNumber: number; left: number; top: number; right: number; bottom: number }[] =
+    [];
+  let previous: LayoutWord | null = null;
+
+  for (const { pageNumber, word } of tokens) {
+    if (word === previous) {
+      continue;
+    }
+    previous = word;
+
+    const line = lines[lines.length - 1];
+    const centre = (word.top + word.bottom) / 2;
+    if (
+      line &&
+      line.pageNumber === pageNumber &&
+      centre > line.top &&
+      centre < line.bottom &&
+      word.left >= line.left
+    ) {
+      line.right = Math.max(line.right, word.right);
+      line.top = Math.min(line.top, word.top);
+      line.bottom = Math.max(line.bottom, word.bottom);
+    } else {
+      lines.push({ pageNumber, ...word });
+    }
+  }
+
+  return lines.map(({ pageNumber, left, top, right, bottom }) => ({
+    pageNumber,
+    vertices: [
+      { x: left, y: top },
+      { x: right, y: top },
+      { x: right, y: bottom },
+      { x: left, y: bottom },
+    ],
+  }));
+}
+
+function tokensOf(layouts: PageLayout[]): LocatedToken[] {
+  return layouts.flatMap((layout) =>
+    layout.words.flatMap((word) =>
+      word.tokens.map((token) => ({ token, pageNumber: layout.pageNumber, word })),
+    ),
+  );
+}
+
+/**
+ * Bounding regions of a passage. The pages the chunker located the passage on are
+ * searched first; passages it could not place are looked for in the whole document.
+ */
+export function locateRegions(
+  passage: string,
+  layouts: PageLayout[],
+  pageStart: number | null,
+  pageEnd: number | null,
+): BoundingRegion[] {
+  const passageTokens = tokenize(passage);
+  if (passageTokens.length === 0) {
+    return [];
+  }
+
+  const searches: PageLayout[][] = [layouts];
+  if (pageStart !== null && pageEnd !== null) {
+    searches.unshift(
+      layouts.filter((layout) => layout.pageNumber >= pageStart && layout.pageNumber <= pageEnd),
+    );
+  }
+
+  for (const pages of searches) {
+    const tokens = tokensOf(pages);
+    const span = matchPassage(tokens, passageTokens);
+    if (span) {
+      return lineRegions(tokens.slice(span[0], span[1]));
+    }
+  }
+
+  return [];
+}
@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { mergePassages } from './merge';
+import { ClausePassage } from './registry';
+
+const passage = (
+  text: string,
+  chunkIndex: number,
+  pageStart: number | null = null,
+  pageEnd = pageStart,
+): ClausePassage => ({ text, chunkIndex, pageStart, pageEnd, regions: [] });
+
+describe('mergePassages', () => {
+  it('folds copies contained in a longer passage into it', () => {
+    const full = passage(
+      'The Supplier shall indemnify the Customer against third-party IP claims.',
+      1,
+      3,
+    );
+    const merged = mergePassages([
+      passage('shall indemnify the Customer against third-party IP claims', 0, 3),
+      full,
+    ]);
+
+    expect(merged).toEqual([full]);
+  });
+
+  it('folds near-identical passages that differ in punctuation and a word', () => {
+    const merged = mergePassages([
+      passage(
+        'Either party may terminate this Agreement for convenience on thirty (30) days written notice to the other party',
+        0,
+        5,
+      ),
+      passage(
+        'Either party may terminate this Agreement for convenience on thirty (30) days prior written notice to the other party.',
+        1,
+        5,
+      ),
+    ]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0].text).toContain('prior written notice');
+  });
+
+  it('keeps distinct passages, in document order', () => {
+    const dataBreach = passage(
+      'The Supplier shall indemnify the Customer for data breaches.',
+      2,
+      9,
+    );
+    const ip = passage('The Supplier shall defend the Customer against patent claims.', 0, 4);
+    const unlocated = passage('Indemnities survive termination of this Agreement.', 1);
+
+    expect(mergePassages([dataBreach, unlocated, ip])).toEqual([ip, dataBreach, unlocated]);
+  });
+
+  it('takes the page range of a located copy when the kept passage has none', () => {
+    const merged = mergePassages([
+      passage('Liability is capped at the fees paid in the prior twelve months.', 0),
+      passage('Liability is capped at the fees paid', 1, 6, 7),
+    ]);
+
+    expect(merged).toHaveLength(1);
+    expect(merged[0]).toMatchObject({ chunkIndex: 0, pageStart: 6, pageEnd: 7 });
+  });
+
+  it('drops passages without any words', () => {
+    expect(mergePassages([passage(' -- ', 0, 1)])).toEqual([]);
+  });
+});
@@ -0,0 +1,72 @@
+import { ClausePassage } from './registry';
+
+/**
+ * Reduce step for chunked extraction
+ *
+ * Chunks overlap, so the same passage is often reported twice, sometimes
+ * trimmed differently. Passages that are contained in, or nearly identical to,
+ * a longer passage are dropped; genuinely different passages (say an IP
+ * indemnity and a data breach indemnity) are all kept, in document order.
+ */
+
+// Word-set similarity above which two passages count as the same text
+const NEAR_DUPLICATE_THRESHOLD = 0.85;
+
+function normalize(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let intersection = 0;
+  for (const word of a) {
+    if (b.has(word)) {
+      intersection++;
+    }
+  }
+  const union = a.size + b.size - intersection;
+  return union === 0 ? 1 : intersection / union;
+}
+
+export function mergePassages(passages: ClausePassage[]): ClausePassage[] {
+  const kept: { passage: ClausePassage; normalized: string; words: Set<string> }[] = [];
+
+  // Longest first, so that shorter overlapping copies fold into the fuller passage
+  const candidates = passages
+    .map((passage) => ({ passage, normalized: normalize(passage.text) }))
+    .filter((candidate) => candidate.normalized.length > 0)
+    .sort((a, b) => b.normalized.length - a.normalized.length);
+
+  for (const candidate of candidates) {
+    const words = new Set(candidate.normalized.split(' '));
+    const duplicate = kept.find(
+      (existing) =>
+        existing.normalized.includes(candidate.normalized) ||
+        jaccard(existing.words, words) >= NEAR_DUPLICATE_THRESHOLD,
+    );
+
+    if (duplicate) {
+      // Borrow the page range if the copy was located and the original was not
+      if (duplicate.passage.pageStart === null && candidate.passage.pageStart !== null) {
+        duplicate.passage = {
+          ...duplicate.passage,
+          pageStart: candidate.passage.pageStart,
+          pageEnd: candidate.passage.pageEnd,
+        };
+      }
+      continue;
+    }
+
+    kept.push({ passage: { ...candidate.passage }, normalized: candidate.normalized, words });
+  }
+
+  return kept
+    .map((entry) => entry.passage)
+    .sort(
+      (a, b) =>
+        (a.pageStart ?? Number.MAX_SAFE_INTEGER) - (b.pageStart ?? Number.MAX_SAFE_INTEGER) ||
+        a.chunkIndex - b.chunkIndex,
+    );
+}
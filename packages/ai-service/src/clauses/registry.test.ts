@@ -0,0 +1,74 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'clause-types-'));
+
+// The registry is cached per process, so each test loads a fresh copy of the module
+async function loadClauseTypes(entries?: unknown) {
+  if (entries !== undefined) {
+    const file = path.join(dir, `${Math.random().toString(36).slice(2)}.json`);
+    fs.writeFileSync(file, JSON.stringify(entries));
+    vi.stubEnv('CLAUSE_TYPES_PATH', file);
+  }
+  const { getClauseTypes } = await import('./registry');
+  return getClauseTypes();
+}
+
+const clauseType = (overrides: Record<string, unknown> = {}) => ({
+  name: 'non_compete',
+  label: 'Non-Compete',
+  description: 'Restrictions on competing',
+  instructions: 'Extract the non-compete clause.',
+  keywords: ['Non-Compete', 'compete'],
+  ...overrides,
+});
+
+describe('getClauseTypes', () => {
+  beforeEach(() => {
+    vi.resetModules();
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  afterAll(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads the bundled registry', async () => {
+    const clauseTypes = await loadClauseTypes();
+
+    expect(clauseTypes.length).toBeGreaterThan(0);
+    expect(clauseTypes.map((type) => type.name)).toContain('termination_for_convenience');
+  });
+
+  it('lower-cases keywords and anchors', async () => {
+    const [nonCompete] = await loadClauseTypes([clauseType({ anchors: ['Restrict'] })]);
+
+    expect(nonCompete.keywords).toEqual(['non-compete', 'compete']);
+    expect(nonCompete.anchors).toEqual(['restrict']);
+  });
+
+  it.each([
+    [
+      'a missing field',
+      [clauseType({ instructions: ' ' })],
+      'missing required field "instructions"',
+    ],
+    ['a name that is not snake_case', [clauseType({ name: 'NonCompete' })], 'must be snake_case'],
+    ['no keywords', [clauseType({ keywords: [] })], 'at least one keyword'],
+    ['invalid anchors', [clauseType({ anchors: 'compete' })], 'invalid anchors'],
+    [
+      'an unknown llm provider',
+      [clauseType({ llm: { provider: 'gemini' } })],
+      'invalid llm settings',
+    ],
+    ['a duplicate name', [clauseType(), clauseType()], 'Duplicate clause type "non_compete"'],
+    ['an empty registry', [], 'must be a non-empty array'],
+  ])('rejects %s', async (_, entries, message) => {
+    await expect(loadClauseTypes(entries)).rejects.toThrow(message);
+  });
+});
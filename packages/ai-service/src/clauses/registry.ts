@@ -0,0 +1,135 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BoundingRegion } from 'shared';
+import { LLM_PROVIDERS, LlmSettings } from '../llm';
+import { AttributeField, ClauseAttributes, validateAttributeFields } from './attributes';
+
+/**
+ * Clause type registry
+ *
+ * Each entry describes one kind of clause the extractor looks for. The registry is
+ * loaded from a JSON file so that new clause types can be added without code
+ * changes. Set CLAUSE_TYPES_PATH to use a file other than config/clause-types.json.
+ */
+
+export interface ClauseType {
+  // Stable identifier, stored as Clause.type in the database
+  name: string;
+  // Human readable name shown in the UI
+  label: string;
+  description: string;
+  // Extra guidance passed to the LLM for this clause
+  instructions: string;
+  // Keyword fallback: a paragraph matches if it contains any of these...
+  keywords: string[];
+  // ...and, when anchors are given, also at least one of the anchors
+  anchors?: string[];
+  // Typed fields to extract from the clause text; empty if the clause has none
+  attributes: AttributeField[];
+  // Provider, model or temperature for this clause type, overriding the deployment defaults
+  llm?: Partial<LlmSettings>;
+}
+
+// One matching passage, with the chunk, pages and regions of the PDF it was found in
+export interface ClausePassage {
+  text: string;
+  chunkIndex: number;
+  // Null when the model's text could not be located in the document
+  pageStart: number | null;
+  pageEnd: number | null;
+  // Highlight boxes over the OCR words of the passage, empty if they could not be matched
+  regions: BoundingRegion[];
+}
+
+export interface ExtractedClause {
+  type: string;
+  label: string;
+  // All distinct passages joined together, or null if the clause was not found
+  text: string | null;
+  // Page range covered by all located passages
+  pageStart: number | null;
+  pageEnd: number | null;
+  passages: ClausePassage[];
+  // Typed fields read from the clause text, or null if the clause was not found
+  attributes: ClauseAttributes | null;
+  // Model that produced the passages ("keywords" for the fallback) and the prompt version used
+  model: string;
+  promptVersion: string;
+}
+
+const DEFAULT_CLAUSE_TYPES_PATH = path.resolve(__dirname, '../../config/clause-types.json');
+
+let cachedClauseTypes: ClauseType[] | null = null;
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every((item) => typeof item === 'string');
+}
+
+function validateClauseType(entry: any, index: number): ClauseType {
+  for (const field of ['name', 'label', 'description', 'instructions']) {
+    if (typeof entry?.[field] !== 'string' || !entry[field].trim()) {
+      throw new Error(`Clause type at index ${index} is missing required field "${field}"`);
+    }
+  }
+
+  if (!/^[a-z][a-z0-9_]*$/.test(entry.name)) {
+    throw new Error(`Clause type name "${entry.name}" must be snake_case`);
+  }
+
+  if (!isStringArray(entry.keywords) || entry.keywords.length === 0) {
+    throw new Error(`Clause type "${entry.name}" must define at least one keyword`);
+  }
+
+  if (entry.anchors !== undefined && !isStringArray(entry.anchors)) {
+    throw new Error(`Clause type "${entry.name}" has invalid anchors`);
+  }
+
+  const llm = entry.llm;
+  if (
+    llm !== undefined &&
+    (typeof llm !== 'object' ||
+      llm === null ||
+      (llm.provider !== undefined && !LLM_PROVIDERS.includes(llm.provider)) ||
+      (llm.model !== undefined && typeof llm.model !== 'string') ||
+      (llm.temperature !== undefined && typeof llm.temperature !== 'number'))
+  ) {
+    throw new Error(`Clause type "${entry.name}" has invalid llm settings`);
+  }
+
+  return {
+    name: entry.name,
+    label: entry.label,
+    description: entry.description,
+    instructions: entry.instructions,
+    keywords: entry.keywords.map((keyword: string) => keyword.toLowerCase()),
+    anchors: entry.anchors?.map((anchor: string) => anchor.toLowerCase()),
+    attributes: validateAttributeFields(entry.attributes, entry.name),
+    llm,
+  };
+}
+
+// Load and validate the clause types, caching the result for the life of the process
+export function getClauseTypes(): ClauseType[] {
+  if (cachedClauseTypes) {
+    return cachedClauseTypes;
+  }
+
+  const registryPath = process.env.CLAUSE_TYPES_PATH || DEFAULT_CLAUSE_TYPES_PATH;
+  const raw = JSON.parse(fs.readFileSync(registryPath, 'utf8'));
+
+  if (!Array.isArray(raw) || raw.length === 0) {
+    throw new Error(`Clause type registry at ${registryPath} must be a non-empty array`);
+  }
+
+  const clauseTypes = raw.map(validateClauseType);
+  const names = new Set<string>();
+  for (const clauseType of clauseTypes) {
+    if (names.has(clauseType.name)) {
+      throw new Error(`Duplicate clause type "${clauseType.name}" in ${registryPath}`);
+    }
+    names.add(clauseType.name);
+  }
+
+  cachedClauseTypes = clauseTypes;
+  return clauseTypes;
+}
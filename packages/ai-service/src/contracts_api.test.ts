@@ -0,0 +1,105 @@
+import axios from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { budgetExceeded, progressReporter, reportProgress } from './contracts_api';
+
+vi.mock('axios');
+
+describe('reportProgress', () => {
+  beforeEach(() => {
+    vi.stubEnv('SERVICE_SIGNING_SECRET', 'test-secret');
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    vi.mocked(axios.put).mockReset();
+  });
+
+  it('sends the status, progress and stage to the contract, signed', async () => {
+    vi.mocked(axios.put).mockResolvedValue({});
+
+    await reportProgress('contract-1', 'processing', 20, 'Reading page 2 of 8');
+
+    const [url, body, config] = vi.mocked(axios.put).mock.calls[0];
+    expect(url).toMatch(/\/api\/contracts\/contract-1$/);
+    expect(JSON.parse(body as string)).toEqual({
+      status: 'processing',
+      progress: 20,
+      stage: 'Reading page 2 of 8',
+    });
+    expect(config?.headers).toHaveProperty('x-signature');
+  });
+
+  it('logs a failed report instead of throwing', async () => {
+    vi.mocked(axios.put).mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    await expect(reportProgress('contract-1', 'processing', 20, 'OCR')).resolves.toBeUndefined();
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('ECONNREFUSED'));
+  });
+
+  it('sends the reports of a stage one at a time, in order', async () => {
+    const sent: number[] = [];
+    vi.mocked(axios.put).mockImplementation(async (_, body) => {
+      const { progress } = JSON.parse(body as string);
+      // The first report is the slowest, so it would arrive last if they ran concurrently
+      await new Promise((resolve) => setTimeout(resolve, progress === 60 ? 20 : 0));
+      sent.push(progress);
+    });
+
+    const report = progressReporter('contract-1', 'extracting');
+    await Promise.all([
+      report(60, 'Clause 1 of 3'),
+      report(70, 'Clause 2 of 3'),
+      report(80, 'Clause 3 of 3'),
+    ]);
+
+    expect(sent).toEqual([60, 70, 80]);
+  });
+});
+
+describe('budgetExceeded', () => {
+  beforeEach(() => {
+    vi.stubEnv('SERVICE_SIGNING_SECRET', 'test-secret');
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    vi.mocked(axios.get).mockReset();
+  });
+
+  it("asks the contracts API about the contract's workspace, signed", async () => {
+    vi.mocked(axios.get).mockResolvedValue({ data: { exceeded: false } });
+
+    await expect(budgetExceeded('contract-1')).resolves.toBe(false);
+    const [url, config] = vi.mocked(axios.get).mock.calls[0];
+    expect(url).toMatch(/\/api\/contracts\/contract-1\/budget$/);
+    expect(config?.headers).toHaveProperty('x-signature');
+  });
+
+  it('retries a failed check', async () => {
+    vi.mocked(axios.get)
+      .mockRejectedValueOnce(new Error('connect ECONNREFUSED'))
+      .mockResolvedValueOnce({ data: { exceeded: false } });
+
+    const exceeded = budgetExceeded('contract-1');
+    await vi.advanceTimersByTimeAsync(1000);
+
+    await expect(exceeded).resolves.toBe(false);
+    expect(axios.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('counts the budget as spent when it cannot be checked', async () => {
+    vi.mocked(axios.get).mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    const exceeded = budgetExceeded('contract-1');
+    await vi.advanceTimersByTimeAsync(3000);
+
+    await expect(exceeded).resolves.toBe(true);
+    expect(axios.get).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,185 @@
+import axios from 'axios';
+import { ContractMetadata, ContractStatus, UsageRecord } from 'shared';
+import { ExtractedClause } from './clauses/registry';
+import { PlaybookResult } from './playbook/evaluate';
+import { signedHeaders } from './signing';
+
+// API endpoint for updating contract status, read lazily so that dotenv has loaded by then
+function apiBaseUrl(): string {
+  return process.env.API_BASE_URL || 'http://localhost:3000';
+}
+
+// Send a signed update to PUT /api/contracts/[id]; the signature covers the exact body sent
+function putContract(contractId: string, payload: object) {
+  const url = `${apiBaseUrl()}/api/contracts/${contractId}`;
+  const body = JSON.stringify(payload);
+  return axios.put(url, body, {
+    headers: { 'Content-Type': 'application/json', ...signedHeaders('PUT', url, body) },
+  });
+}
+
+// Vectors for semantic search, all from one embedding model
+export interface ContractEmbeddings {
+  model: string;
+  chunks: {
+    chunkIndex: number;
+    text: string;
+    pageStart: number;
+    pageEnd: number;
+    embedding: number[];
+  }[];
+  // Found clauses only, by clause type
+  clauses: { type: string; embedding: number[] }[];
+}
+
+// Update contract status (and optionally the clauses, playbook results and embeddings) via the
+// contracts API. Failures are thrown: these updates end a contract's processing, so a job whose
+// update did not arrive must fail and be retried rather than leave the contract unfinished.
+export async function updateContractStatus(
+  contractId: string,
+  status: ContractStatus,
+  clauses?: ExtractedClause[],
+  playbook?: PlaybookResult,
+  embeddings?: ContractEmbeddings,
+): Promise<void> {
+  try {
+    console.log(`Updating contract ${contractId} status to: ${status}`);
+
+    const payload: any = { status };
+
+    // Add clauses to payload if provided
+    if (clauses) {
+      payload.clauses = clauses;
+    }
+
+    if (playbook) {
+      payload.riskScore = playbook.riskScore;
+      payload.findings = playbook.findings;
+    }
+
+    if (embeddings) {
+      payload.embeddings = embeddings;
+    }
+
+    const response = await putContract(contractId, payload);
+    console.log(`Status update successful: ${response.status}`);
+  } catch (error) {
+    console.error(
+      `Failed to update contract status: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    throw error;
+  }
+}
+
+// Store the document's page texts with the contract, for search; failures are logged, since the
+// extraction does not depend on them
+export async function storeDocumentText(
+  contractId: string,
+  pages: { pageNumber: number; text: string }[],
+): Promise<void> {
+  try {
+    await putContract(contractId, { status: 'extracting', pages });
+  } catch (error) {
+    console.error(
+      `Failed to store the document text: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+// Store the contract's parties, type, term, value and governing law; like the document text,
+// failures are logged, since the extraction does not depend on them
+export async function storeContractMetadata(
+  contractId: string,
+  metadata: ContractMetadata,
+): Promise<void> {
+  try {
+    await putContract(contractId, { status: 'extracting', metadata });
+  } catch (error) {
+    console.error(
+      `Failed to store the contract metadata: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+// Record what a pipeline stage cost, sent with the status the contract is in; like progress
+// reports, failures are logged and otherwise ignored
+export async function reportUsage(
+  contractId: string,
+  status: ContractStatus,
+  usage: UsageRecord[],
+): Promise<void> {
+  if (usage.length === 0) {
+    return;
+  }
+  try {
+    await putContract(contractId, { status, usage });
+  } catch (error) {
+    console.error(
+      `Failed to report usage: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+// Budget checks that fail are retried after 1 s, then 2 s
+const BUDGET_CHECK_ATTEMPTS = 3;
+const BUDGET_CHECK_RETRY_MS = 1000;
+
+// Whether the contract's workspace has spent its monthly budget. Checked before each model
+// stage; a check that keeps failing counts as spent, so that the contract is paused, and sent
+// again by the contracts API later, rather than run up costs nobody can see
+export async function budgetExceeded(contractId: string): Promise<boolean> {
+  const url = `${apiBaseUrl()}/api/contracts/${contractId}/budget`;
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await axios.get<{ exceeded: boolean }>(url, {
+        headers: signedHeaders('GET', url, ''),
+      });
+      return response.data.exceeded !== false;
+    } catch (error) {
+      console.error(
+        `Failed to check the budget (attempt ${attempt} of ${BUDGET_CHECK_ATTEMPTS}): ${error instanceof Error ? error.message : String(error)}`,
+      );
+      if (attempt === BUDGET_CHECK_ATTEMPTS) {
+        return true;
+      }
+      await new Promise((resolve) => setTimeout(resolve, BUDGET_CHECK_RETRY_MS * attempt));
+    }
+  }
+}
+
+// Leave the contract paused, still extracting, until the contracts API sends it again
+export async function pauseContract(contractId: string): Promise<void> {
+  console.log(`Pausing contract ${contractId}: the workspace has spent its monthly budget`);
+  await putContract(contractId, { status: 'extracting', paused: true });
+}
+
+// Report pipeline progress; like status updates, failures are logged and otherwise ignored
+export async function reportProgress(
+  contractId: string,
+  status: ContractStatus,
+  progress: number,
+  stage: string,
+): Promise<void> {
+  try {
+    await putContract(contractId, { status, progress, stage });
+  } catch (error) {
+    console.error(
+      `Failed to report progress: ${error instanceof Error ? error.message : String(error)}`,
+    );
+  }
+}
+
+/**
+ * Progress reporter for one pipeline stage. Reports are sent one at a time in the
+ * order they were made, so updates from concurrent work cannot overtake each other.
+ */
+export function progressReporter(
+  contractId: string,
+  status: ContractStatus,
+): (progress: number, stage: string) => Promise<void> {
+  let last = Promise.resolve();
+  return (progress, stage) => {
+    last = last.then(() => reportProgress(contractId, status, progress, stage));
+    return last;
+  };
+}
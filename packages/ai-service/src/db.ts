@@ -0,0 +1,20 @@
+import { Pool } from 'pg';
+
+let pool: Pool | null = null;
+
+// Shared Postgres connection pool, created on first use so that dotenv has loaded by then
+export function getPool(): Pool {
+  if (!pool) {
+    const connectionString = process.env.JOB_DATABASE_URL || process.env.DATABASE_URL;
+    if (!connectionString) {
+      throw new Error('JOB_DATABASE_URL or DATABASE_URL must be set');
+    }
+
+    pool = new Pool({ connectionString });
+    pool.on('error', (error) => {
+      console.error('Unexpected Postgres pool error:', error);
+    });
+  }
+
+  return pool;
+}
@@ -0,0 +1,94 @@
+import { strToU8, zipSync } from 'fflate';
+import { describe, expect, it } from 'vitest';
+import { readDocx } from './docx';
+
+const paragraph = (...runs: string[]) => `<w:p>${runs.join('')}</w:p>`;
+const run = (text: string) => `<w:r><w:t xml:space="preserve">${text}</w:t></w:r>`;
+
+// A Word package holding the given body paragraphs and, optionally, comments
+const docx = (body: string, comments?: string) =>
+  Buffer.from(
+    zipSync({
+      'word/document.xml': strToU8(
+        `<?xml version="1.0"?><w:document><w:body>${body}</w:body></w:document>`,
+      ),
+      ...(comments && { 'word/comments.xml': strToU8(`<w:comments>${comments}</w:comments>`) }),
+    }),
+  );
+
+describe('readDocx', () => {
+  it('reads paragraphs, tabs and entities', () => {
+    const pages = readDocx(
+      docx(
+        paragraph(run('1. Term'), '<w:r><w:tab/></w:r>', run('One year &amp; a day')) +
+          paragraph(run('2. Fees')),
+      ),
+    );
+
+    expect(pages).toEqual(['1. Term\tOne year & a day\n2. Fees']);
+  });
+
+  it('marks tracked insertions and deletions inline', () => {
+    const [page] = readDocx(
+      docx(
+        paragraph(
+          run('Notice of '),
+          '<w:del w:id="1"><w:r><w:delText>30</w:delText></w:r></w:del>',
+          '<w:ins w:id="2">',
+          run('60'),
+          '</w:ins>',
+          run(' days'),
+        ),
+      ),
+    );
+
+    expect(page).toBe('Notice of [-30-]{+60+} days');
+  });
+
+  it('places comments where they are anchored', () => {
+    const [page] = readDocx(
+      docx(
+        paragraph(run('Liability is capped'), '<w:r><w:commentReference w:id="7"/></w:r>'),
+        `<w:comment w:id="7" w:author="A. Counsel">${paragraph(run('Too low'))}</w:comment>`,
+      ),
+    );
+
+    expect(page).toBe('Liability is capped [Comment by A. Counsel: Too low]');
+  });
+
+  it('splits pages at page breaks and carries an open tracked change over', () => {
+    const pages = readDocx(
+      docx(
+        paragraph(run('First page')) +
+          '<w:ins w:id="1">' +
+          paragraph(run('Inserted'), '<w:r><w:br w:type="page"/></w:r>', run('still inserted')) +
+          '</w:ins>' +
+          paragraph('<w:r><w:lastRenderedPageBreak/></w:r>', run('Third page')),
+      ),
+    );
+
+    expect(pages).toEqual(['First page\n{+Inserted+}', '{+still inserted\n+}', 'Third page']);
+  });
+
+  it('skips the fallback copy of alternate content', () => {
+    const [page] = readDocx(
+      docx(
+        paragraph(
+          '<mc:AlternateContent><mc:Choice>',
+          run('Shown'),
+          '</mc:Choice><mc:Fallback>',
+          run('Repeated'),
+          '</mc:Fallback></mc:AlternateContent>',
+        ),
+      ),
+    );
+
+    expect(page).toBe('Shown');
+  });
+
+  it('refuses a package without a document body', () => {
+    expect(() => readDocx(Buffer.from(zipSync({ 'a.txt': strToU8('a') })))).toThrow(
+      'word/document.xml is missing',
+    );
+  });
+});
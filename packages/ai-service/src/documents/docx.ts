@@ -0,0 +1,197 @@
+import { strFromU8, unzipSync } from 'fflate';
+import { DOCX_BODY_PART } from 'shared';
+
+/**
+ * Word documents
+ *
+ * A DOCX file is a ZIP package of XML parts; the body text is in word/document.xml
+ * and the review comments in word/comments.xml. The text is read straight from
+ * the XML, so nothing is lost to OCR, with the reviewers' markup kept inline where
+ * the extraction step and the reader can see it:
+ *
+ *   - tracked insertions as {+inserted text+} and deletions as [-deleted text-]
+ *   - comments as [Comment by <author>: <text>] where they are anchored
+ *
+ * A DOCX file has no fixed pages, but Word records where it last broke pages when
+ * it saved the document (w:lastRenderedPageBreak); those and explicit page breaks
+ * split the text into pages, so clauses are still cited by page.
+ */
+
+const COMMENTS_PART = 'word/comments.xml';
+
+// Start tags, end tags and self-closing tags, or the text between tags
+const TOKEN = /<(\/?)([\w:]+)((?:\s[^>]*?)?)(\/?)>|([^<]+)/g;
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+function unescapeXml(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name.startsWith('#x') || name.startsWith('#X')) {
+      return String.fromCodePoint(parseInt(name.slice(2), 16));
+    }
+    if (name.startsWith('#')) {
+      return String.fromCodePoint(Number(name.slice(1)));
+    }
+    return ENTITIES[name] ?? entity;
+  });
+}
+
+function attribute(attributes: string, name: string): string | undefined {
+  const match = attributes.match(new RegExp(`\\s${name}="([^"]*)"`));
+  return match ? unescapeXml(match[1]) : undefined;
+}
+
+// Boolean properties such as <w:pageBreakBefore/> are on unless w:val turns them off
+const isOn = (attributes: string) =>
+  !['0', 'false', 'off'].includes(attribute(attributes, 'w:val') ?? '');
+
+// Markers opened at the start of a tracked change and closed at its end
+const TRACKED_CHANGES: Record<string, { open: string; close: string }> = {
+  'w:ins': { open: '{+', close: '+}' },
+  'w:moveTo': { open: '{+', close: '+}' },
+  'w:del': { open: '[-', close: '-]' },
+  'w:moveFrom': { open: '[-', close: '-]' },
+};
+
+// Comment id -> "[Comment by <author>: <text>]"
+function readComments(xml: string): Map<string, string> {
+  const comments = new Map<string, string>();
+
+  for (const [, attributes, body] of xml.matchAll(/<w:comment\b([^>]*)>([\s\S]*?)<\/w:comment>/g)) {
+    const id = attribute(attributes, 'w:id');
+    const author = attribute(attributes, 'w:author') || 'unknown';
+    const text = [...body.matchAll(/<w:p\b[\s\S]*?<\/w:p>/g)]
+      .map(([paragraph]) =>
+        [...paragraph.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>/g)]
+          .map(([, run]) => unescapeXml(run))
+          .join(''),
+      )
+      .filter((paragraph) => paragraph.trim())
+      .join(' ');
+    if (id !== undefined) {
+      comments.set(id, `[Comment by ${author}: ${text.trim()}]`);
+    }
+  }
+
+  return comments;
+}
+
+// The text of a DOCX file, one entry per page
+export function readDocx(data: Buffer): string[] {
+  const parts = unzipSync(data, {
+    filter: (entry) => entry.name === DOCX_BODY_PART || entry.name === COMMENTS_PART,
+  });
+  if (!parts[DOCX_BODY_PART]) {
+    throw new Error(`Not a Word document: ${DOCX_BODY_PART} is missing`);
+  }
+  const comments = parts[COMMENTS_PART]
+    ? readComments(strFromU8(parts[COMMENTS_PART]))
+    : new Map<string, string>();
+
+  const pages: string[] = [];
+  let page = '';
+  // Tracked changes the text is currently inside, innermost last
+  const openChanges: { open: string; close: string }[] = [];
+  let inText = false;
+  // mc:Fallback repeats the content of mc:Choice for older readers
+  let fallbackDepth = 0;
+
+  const breakPage = () => {
+    if (!page.trim()) {
+      return;
+    }
+    // A tracked change that continues on the next page is closed here and opened again there
+    pages.push(
+      page +
+        openChanges
+          .map((change) => change.close)
+          .reverse()
+          .join(''),
+    );
+    page = openChanges.map((change) => change.open).join('');
+  };
+
+  for (const [, closing, name, attributes, selfClosing, text] of strFromU8(
+    parts[DOCX_BODY_PART],
+  ).matchAll(TOKEN)) {
+    if (text !== undefined) {
+      if (inText && fallbackDepth === 0) {
+        page += unescapeXml(text);
+      }
+      continue;
+    }
+    if (name === 'mc:Fallback' && !selfClosing) {
+      fallbackDepth += closing ? -1 : 1;
+      continue;
+    }
+    if (fallbackDepth > 0) {
+      continue;
+    }
+
+    const change = TRACKED_CHANGES[name];
+    if (closing) {
+      if (name === 'w:t' || name === 'w:delText') {
+        inText = false;
+      } else if (name === 'w:p') {
+        page += '\n';
+      } else if (change) {
+        openChanges.pop();
+        page += change.close;
+      }
+      continue;
+    }
+
+    switch (name) {
+      case 'w:t':
+      case 'w:delText':
+        inText = !selfClosing;
+        break;
+      case 'w:tab':
+        page += '\t';
+        break;
+      case 'w:br':
+        if (attribute(attributes, 'w:type') === 'page') {
+          breakPage();
+        } else {
+          page += '\n';
+        }
+        break;
+      case 'w:cr':
+        page += '\n';
+        break;
+      case 'w:noBreakHyphen':
+        page += '-';
+        break;
+      case 'w:lastRenderedPageBreak':
+        breakPage();
+        break;
+      case 'w:pageBreakBefore':
+        if (isOn(attributes)) {
+          breakPage();
+        }
+        break;
+      case 'w:commentReference': {
+        const comment = comments.get(attribute(attributes, 'w:id') ?? '');
+        if (comment) {
+          page += ` ${comment} `;
+        }
+        break;
+      }
+      default:
+        // Tracked changes to formatting (e.g. a w:ins in a run's properties) are self-closing
+        if (change && !selfClosing) {
+          openChanges.push(change);
+          page += change.open;
+        }
+    }
+  }
+  breakPage();
+
+  return pages.map((text) =>
+    text
+      .replace(/\{\+\+\}|\[--\]/g, '')
+      .replace(/[ \t]+\n/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim(),
+  );
+}
@@ -0,0 +1,114 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { strToU8, zipSync } from 'fflate';
+import { PDFDocument, StandardFonts } from 'pdf-lib';
+import { LocalBlobStore } from 'shared';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ocrOutputPrefix, readOcrOutput } from '../ocr/output';
+import { OcrProvider, OcrRequest } from '../ocr/types';
+import { ingestDocument } from './ingest';
+
+// The service loads pdf.js through an import() that TypeScript leaves alone, which the test
+// runner cannot resolve; load it the test runner's way instead
+vi.mock('../ocr/text_layer', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../ocr/text_layer')>()),
+  openPdf: async (data: Buffer) => {
+    const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+    return pdfjs.getDocument({ data: new Uint8Array(data), verbosity: 0 }).promise;
+  },
+}));
+
+// A PDF with one page per entry; an empty entry is a page with no text, like a scan
+async function pdfWithPages(...texts: string[]): Promise<Buffer> {
+  const pdf = await PDFDocument.create();
+  const font = await pdf.embedFont(StandardFonts.Helvetica);
+  for (const text of texts) {
+    const page = pdf.addPage();
+    if (text) {
+      page.drawText(text, { x: 50, y: 700, size: 12, font });
+    }
+  }
+  return Buffer.from(await pdf.save());
+}
+
+// Returns "OCR page <n>" for each page it is asked to recognize
+class FakeOcrProvider implements OcrProvider {
+  readonly name = 'fake';
+  readonly requests: OcrRequest[] = [];
+
+  async recognize(request: OcrRequest) {
+    this.requests.push(request);
+    return [
+      {
+        responses: (request.pages ?? []).map((pageNumber) => ({
+          fullTextAnnotation: { text: `OCR page ${pageNumber}`, pages: [] },
+          context: { pageNumber },
+        })),
+      },
+    ];
+  }
+}
+
+describe('ingestDocument', () => {
+  const outputPrefix = ocrOutputPrefix('contract-1');
+  let rootDir: string;
+  let store: LocalBlobStore;
+  let provider: FakeOcrProvider;
+
+  const ingest = async (data: Buffer) => {
+    await store.put('input/upload', data);
+    return ingestDocument(store, provider, {
+      contractId: 'contract-1',
+      sourceKey: 'input/upload',
+      outputPrefix,
+    });
+  };
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ingest-'));
+    store = new LocalBlobStore({ rootDir });
+    provider = new FakeOcrProvider();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('reads text layers and sends only the scanned pages to OCR', async () => {
+    const result = await ingest(
+      await pdfWithPages('This Agreement is made between the parties below.', ''),
+    );
+
+    expect(result).toMatchObject({ documentType: 'pdf', pageCount: 2, ocrPages: [2] });
+    expect(provider.requests.map((request) => request.pages)).toEqual([[2]]);
+
+    const [{ content: file }] = await readOcrOutput(store, outputPrefix);
+    expect(file.responses.map((response) => response.fullTextAnnotation?.text)).toEqual([
+      'This Agreement is made between the parties below.',
+      'OCR page 2',
+    ]);
+    expect(file.responses[0].fullTextAnnotation?.pages[0].blocks).not.toHaveLength(0);
+  });
+
+  it('reads Word documents without OCR', async () => {
+    const body = '<w:p><w:r><w:t>Either party may terminate.</w:t></w:r></w:p>';
+    const result = await ingest(
+      Buffer.from(zipSync({ 'word/document.xml': strToU8(`<w:document>${body}</w:document>`) })),
+    );
+
+    expect(result).toMatchObject({ documentType: 'docx', pageCount: 1, ocrPages: [] });
+    expect(result.files[0].responses[0].fullTextAnnotation?.text).toBe(
+      'Either party may terminate.',
+    );
+    expect(provider.requests).toEqual([]);
+  });
+
+  it('refuses anything else', async () => {
+    await expect(ingest(Buffer.from('plain text'))).rejects.toThrow(
+      'neither a PDF nor a Word document',
+    );
+  });
+});
@@ -0,0 +1,185 @@
+import { BlobStore, DocumentType, detectFileKind } from 'shared';
+import { OCR_BATCH_SIZE, ocrScratchPrefix, writeOcrOutput } from '../ocr/output';
+import { hasTextLayer, openPdf, pageText, readTextLayer } from '../ocr/text_layer';
+import { OcrFileResponse, OcrPageResponse, OcrProvider } from '../ocr/types';
+import { readDocx } from './docx';
+
+/**
+ * Document ingestion
+ *
+ * Turns an uploaded document into page texts in the OCR output layout, so the
+ * extraction step reads every document the same way. OCR is the last resort:
+ *
+ *   - DOCX files are read from their XML, with tracked changes and comments
+ *   - PDF pages with an embedded text layer (digitally generated PDFs) are read
+ *     with pdf.js, words and positions included
+ *   - only the remaining, scanned pages go to the OCR provider
+ */
+
+export interface IngestRequest {
+  contractId: string;
+  // Blob key of the uploaded document
+  sourceKey: string;
+  // Key prefix the output-<from>-to-<to>.json files are written under
+  outputPrefix: string;
+  onProgress?: (pagesDone: number, pageCount: number) => Promise<void>;
+}
+
+export interface IngestResult {
+  documentType: DocumentType;
+  files: OcrFileResponse[];
+  pageCount: number;
+  // Pages that were read by OCR, as opposed to from the document's own text
+  ocrPages: number[];
+}
+
+// Pages whose text layer has fewer non-whitespace characters than this are treated as scanned
+const textLayerMinChars = () => Number(process.env.TEXT_LAYER_MIN_CHARS) || 20;
+
+function toFiles(responses: OcrPageResponse[]): OcrFileResponse[] {
+  const files: OcrFileResponse[] = [];
+  for (let start = 0; start < responses.length; start += OCR_BATCH_SIZE) {
+    files.push({ responses: responses.slice(start, start + OCR_BATCH_SIZE) });
+  }
+  return files;
+}
+
+// Read the document's text, running OCR only where it has none, and write it under outputPrefix
+export async function ingestDocument(
+  store: BlobStore,
+  provider: OcrProvider,
+  request: IngestRequest,
+): Promise<IngestResult> {
+  const data = await store.get(request.sourceKey);
+  // Only PDFs and Word documents are read; anything else, other ZIP archives included, is refused
+  const kind = detectFileKind(data);
+  const documentType = kind === 'zip' ? null : kind;
+  const uri = store.nativeUri(request.sourceKey);
+
+  let responses: OcrPageResponse[];
+  let ocrPages: number[] = [];
+
+  if (documentType === 'docx') {
+    // Word documents have no page layout to cite, only the page each passage is on
+    responses = readDocx(data).map((text, index) => ({
+      fullTextAnnotation: { text, pages: [] },
+      context: { uri, pageNumber: index + 1 },
+    }));
+    await request.onProgress?.(responses.length, responses.length);
+  } else if (documentType === 'pdf') {
+    ({ responses, ocrPages } = await ingestPdf(store, provider, request, data, uri));
+  } else {
+    throw new Error(`${request.sourceKey} is neither a PDF nor a Word document`);
+  }
+
+  const files = toFiles(responses);
+  await writeOcrOutput(store, request.outputPrefix, files);
+  return { documentType, files, pageCount: responses.length, ocrPages };
+}
+
+async function ingestPdf(
+  store: BlobStore,
+  provider: OcrProvider,
+  { contractId, sourceKey, onProgress }: IngestRequest,
+  data: Buffer,
+  uri: string,
+): Promise<{ responses: OcrPageResponse[]; ocrPages: number[] }> {
+  // Text layers by page number; scanned pages are missing until OCR fills them in
+  const pages = new Map<number, OcrPageResponse>();
+  const ocrPages: number[] = [];
+  const minTextChars = textLayerMinChars();
+  let pageCount: number;
+
+  try {
+    const document = await openPdf(data);
+    pageCount = document.numPages;
+    try {
+      for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+        const page = await document.getPage(pageNumber);
+        const ocrPage = await readTextLayer(page);
+        page.cleanup();
+        if (hasTextLayer(ocrPage, minTextChars)) {
+          pages.set(pageNumber, {
+            fullTextAnnotation: { text: pageText(ocrPage), pages: [ocrPage] },
+            context: { uri, pageNumber },
+          });
+        } else {
+          ocrPages.push(pageNumber);
+        }
+      }
+    } finally {
+      await document.destroy();
+    }
+  } catch (error) {
+    // pdf.js cannot read every PDF an OCR engine can; leave the whole document to OCR
+    console.warn(
+      `Could not read the text layer of ${sourceKey}, running OCR on every page:`,
+      error,
+    );
+    const responses = await recognize(
+      store,
+      provider,
+      contractId,
+      sourceKey,
+      undefined,
+      onProgress,
+    );
+    return { responses, ocrPages: responses.map((_, index) => index + 1) };
+  }
+
+  console.log(
+    `${pages.size} of ${pageCount} pages have a text layer; ${ocrPages.length} go to ${provider.name} OCR`,
+  );
+  await onProgress?.(pages.size, pageCount);
+
+  if (ocrPages.length > 0) {
+    const responses = await recognize(store, provider, contractId, sourceKey, ocrPages, (done) =>
+      onProgress ? onProgress(pages.size + done, pageCount) : Promise.resolve(),
+    );
+    for (const response of responses) {
+      if (response.context?.pageNumber) {
+        pages.set(response.context.pageNumber, response);
+      }
+    }
+  }
+
+  return {
+    // A page OCR returned nothing for stays in place, empty, so later pages keep their numbers
+    responses: Array.from(
+      { length: pageCount },
+      (_, index) => pages.get(index + 1) ?? { context: { uri, pageNumber: index + 1 } },
+    ),
+    ocrPages,
+  };
+}
+
+// OCR the given pages (all when omitted) into a scratch prefix and return the page responses
+async function recognize(
+  store: BlobStore,
+  provider: OcrProvider,
+  contractId: string,
+  sourceKey: string,
+  pages?: number[],
+  onProgress?: (pagesDone: number, pageCount: number) => Promise<void>,
+): Promise<OcrPageResponse[]> {
+  const scratchPrefix = ocrScratchPrefix(contractId);
+  const clear = async () => {
+    for (const blob of await store.list(scratchPrefix)) {
+      await store.delete(blob.key);
+    }
+  };
+
+  await clear();
+  try {
+    const files = await provider.recognize({
+      contractId,
+      sourceKey,
+      outputPrefix: scratchPrefix,
+      pages,
+      onProgress,
+    });
+    return files.flatMap((file) => file.responses);
+  } finally {
+    await clear();
+  }
+}
@@ -0,0 +1,36 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { embedTexts, getEmbeddingProvider, resolveEmbeddingSettings } from '.';
+
+describe('resolveEmbeddingSettings', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("uses each provider's default model unless one is set", () => {
+    vi.stubEnv('EMBEDDING_PROVIDER', '');
+    vi.stubEnv('EMBEDDING_MODEL', '');
+    expect(resolveEmbeddingSettings()).toEqual({
+      provider: 'openai',
+      model: 'text-embedding-3-small',
+    });
+
+    vi.stubEnv('EMBEDDING_PROVIDER', 'local');
+    expect(resolveEmbeddingSettings()).toEqual({ provider: 'local', model: 'nomic-embed-text' });
+
+    vi.stubEnv('EMBEDDING_MODEL', 'mxbai-embed-large');
+    expect(resolveEmbeddingSettings()?.model).toBe('mxbai-embed-large');
+  });
+
+  it('turns embeddings off for the "none" provider', async () => {
+    vi.stubEnv('EMBEDDING_PROVIDER', 'none');
+
+    expect(resolveEmbeddingSettings()).toBeNull();
+    await expect(embedTexts(['Term'])).resolves.toBeNull();
+  });
+});
+
+describe('getEmbeddingProvider', () => {
+  it('rejects unknown providers', () => {
+    expect(() => getEmbeddingProvider('cohere')).toThrow('Unknown embedding provider "cohere"');
+  });
+});
@@ -0,0 +1,75 @@
+import {
+  createAzureOpenAiEmbeddingProvider,
+  createLocalEmbeddingProvider,
+  createOpenAiEmbeddingProvider,
+} from './openai';
+import { UsageMeter } from '../usage/meter';
+import { EmbeddingProvider, EmbeddingSettings } from './types';
+
+// "none" turns semantic search off: nothing is embedded
+export const EMBEDDING_PROVIDERS = ['openai', 'azure', 'local', 'none'] as const;
+
+const providers = new Map<string, EmbeddingProvider>();
+
+function defaultModel(provider: string): string {
+  switch (provider) {
+    case 'azure':
+      return process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT || 'text-embedding-3-small';
+    case 'local':
+      return 'nomic-embed-text';
+    default:
+      return 'text-embedding-3-small';
+  }
+}
+
+function createEmbeddingProvider(name: string): EmbeddingProvider {
+  switch (name) {
+    case 'openai':
+      return createOpenAiEmbeddingProvider();
+    case 'azure':
+      return createAzureOpenAiEmbeddingProvider();
+    case 'local':
+      return createLocalEmbeddingProvider();
+    default:
+      throw new Error(
+        `Unknown embedding provider "${name}". Expected one of ${EMBEDDING_PROVIDERS.map((p) => `"${p}"`).join(', ')}`,
+      );
+  }
+}
+
+// Providers are created on first use and shared for the life of the process
+export function getEmbeddingProvider(name: string): EmbeddingProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createEmbeddingProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+// The deployment's embedding provider and model, or null if embeddings are turned off
+export function resolveEmbeddingSettings(): EmbeddingSettings | null {
+  const provider = process.env.EMBEDDING_PROVIDER || 'openai';
+  if (provider === 'none') {
+    return null;
+  }
+  return { provider, model: process.env.EMBEDDING_MODEL || defaultModel(provider) };
+}
+
+// Embed texts with the deployment's provider, adding the tokens to `meter`; null if embeddings
+// are turned off
+export async function embedTexts(
+  texts: string[],
+  meter?: UsageMeter,
+): Promise<{ model: string; vectors: number[][] } | null> {
+  const settings = resolveEmbeddingSettings();
+  if (!settings) {
+    return null;
+  }
+  const provider = getEmbeddingProvider(settings.provider);
+  const { vectors, inputTokens } = await provider.embed(settings.model, texts);
+  meter?.add('embedding', provider.name, settings.model, { inputTokens });
+  return { model: settings.model, vectors };
+}
+
+export * from './types';
@@ -0,0 +1,61 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { EmbeddingProvider, EmbeddingResult } from './types';
+
+// Inputs per request; the OpenAI API accepts up to 2048
+const BATCH_SIZE = 100;
+
+// Embeddings through the OpenAI SDK, which also serves Azure OpenAI and local
+// OpenAI-compatible servers (Ollama, vLLM, LM Studio)
+export class OpenAiEmbeddingProvider implements EmbeddingProvider {
+  constructor(
+    readonly name: string,
+    private readonly client: OpenAI,
+  ) {}
+
+  async embed(model: string, texts: string[]): Promise<EmbeddingResult> {
+    const vectors: number[][] = [];
+    let inputTokens = 0;
+    for (let start = 0; start < texts.length; start += BATCH_SIZE) {
+      const response = await this.client.embeddings.create({
+        model,
+        input: texts.slice(start, start + BATCH_SIZE),
+      });
+      // The API does not promise to answer in input order, so place each vector by its index
+      const batch: number[][] = [];
+      for (const item of response.data) {
+        batch[item.index] = item.embedding;
+      }
+      vectors.push(...batch);
+      inputTokens += response.usage?.prompt_tokens ?? 0;
+    }
+    return { vectors, inputTokens };
+  }
+}
+
+export function createOpenAiEmbeddingProvider(): OpenAiEmbeddingProvider {
+  return new OpenAiEmbeddingProvider('openai', new OpenAI({ apiKey: process.env.OPENAI_API_KEY }));
+}
+
+// On Azure the "model" of a request is the deployment name
+export function createAzureOpenAiEmbeddingProvider(): OpenAiEmbeddingProvider {
+  return new OpenAiEmbeddingProvider(
+    'azure',
+    new AzureOpenAI({
+      endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+      apiKey: process.env.AZURE_OPENAI_API_KEY,
+      apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+    }),
+  );
+}
+
+// Runs on the machine, e.g. Ollama with nomic-embed-text; nothing leaves it
+export function createLocalEmbeddingProvider(): OpenAiEmbeddingProvider {
+  return new OpenAiEmbeddingProvider(
+    'local',
+    new OpenAI({
+      baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+      // The SDK insists on a key; local servers ignore it
+      apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+    }),
+  );
+}
@@ -0,0 +1,25 @@
+/**
+ * Embedding provider abstraction
+ *
+ * Semantic search compares vectors from one model only, so the provider and model
+ * are a deployment choice (EMBEDDING_PROVIDER, EMBEDDING_MODEL) and every stored
+ * vector records the model that produced it.
+ */
+
+export interface EmbeddingResult {
+  // One vector per text, in the order given
+  vectors: number[][];
+  // As reported by the backend; local servers may report none
+  inputTokens: number;
+}
+
+export interface EmbeddingProvider {
+  readonly name: string;
+  embed(model: string, texts: string[]): Promise<EmbeddingResult>;
+}
+
+// Provider and model used for every embedding; see resolveEmbeddingSettings
+export interface EmbeddingSettings {
+  provider: string;
+  model: string;
+}
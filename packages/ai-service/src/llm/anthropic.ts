@@ -0,0 +1,46 @@
+import Anthropic from '@anthropic-ai/sdk';
+import { LlmProvider, LlmRequest, LlmResponse } from './types';
+
+// Claude models through the Anthropic Messages API
+export class AnthropicLlmProvider implements LlmProvider {
+  readonly name = 'anthropic';
+  private readonly client: Anthropic;
+
+  constructor(
+    apiKey = process.env.ANTHROPIC_API_KEY,
+    private readonly maxTokens = Number(process.env.ANTHROPIC_MAX_TOKENS || 4096),
+  ) {
+    this.client = new Anthropic({ apiKey });
+  }
+
+  async complete({ model, messages, temperature }: LlmRequest): Promise<LlmResponse> {
+    // The system prompt is a separate parameter rather than a message; there is no JSON mode,
+    // so callers ask for JSON in the prompt and strip any code fences from the reply
+    const system = messages
+      .filter((message) => message.role === 'system')
+      .map((message) => message.content)
+      .join('\n\n');
+
+    const response = await this.client.messages.create({
+      model,
+      max_tokens: this.maxTokens,
+      temperature,
+      system: system || undefined,
+      messages: messages
+        .filter((message) => message.role !== 'system')
+        .map((message) => ({
+          role: message.role as 'user' | 'assistant',
+          content: message.content,
+        })),
+    });
+
+    return {
+      content: response.content.map((block) => (block.type === 'text' ? block.text : '')).join(''),
+      model: response.model,
+      usage: {
+        inputTokens: response.usage.input_tokens,
+        outputTokens: response.usage.output_tokens,
+      },
+    };
+  }
+}
@@ -0,0 +1,53 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FixtureLlmProvider } from './fixture';
+import { LlmProvider, LlmRequest } from './types';
+
+const REQUEST: LlmRequest = {
+  model: 'gpt-4o',
+  messages: [{ role: 'user', content: 'Find the termination clause.' }],
+  temperature: 0,
+  json: true,
+};
+
+const REPLY = { content: '{"passages":[]}', model: 'gpt-4o-2024-08-06' };
+
+describe('FixtureLlmProvider', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-fixtures-'));
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('keys requests by model, messages, temperature and JSON mode', () => {
+    const key = FixtureLlmProvider.requestKey(REQUEST);
+
+    expect(key).toMatch(/^[0-9a-f]{64}$/);
+    expect(FixtureLlmProvider.requestKey({ ...REQUEST })).toBe(key);
+    expect(FixtureLlmProvider.requestKey({ ...REQUEST, temperature: 0.2 })).not.toBe(key);
+    expect(FixtureLlmProvider.requestKey({ ...REQUEST, json: undefined })).not.toBe(key);
+  });
+
+  it('fails on a request that was not recorded', async () => {
+    await expect(new FixtureLlmProvider(dir).complete(REQUEST)).rejects.toThrow(
+      'No LLM fixture for request',
+    );
+  });
+
+  it('records missing replies through the recorder and replays them afterwards', async () => {
+    const recorder: LlmProvider = { name: 'openai', complete: vi.fn(async () => REPLY) };
+
+    await expect(new FixtureLlmProvider(dir, recorder).complete(REQUEST)).resolves.toEqual(REPLY);
+    await expect(new FixtureLlmProvider(dir).complete(REQUEST)).resolves.toEqual(REPLY);
+    expect(recorder.complete).toHaveBeenCalledTimes(1);
+    expect(fs.readdirSync(dir)).toEqual([`${FixtureLlmProvider.requestKey(REQUEST)}.json`]);
+  });
+});
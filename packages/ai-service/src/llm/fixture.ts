@@ -0,0 +1,53 @@
+import { createHash } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { LlmProvider, LlmRequest, LlmResponse } from './types';
+
+interface Fixture {
+  request: LlmRequest;
+  response: LlmResponse;
+}
+
+/**
+ * Deterministic replay of recorded model replies, for tests and offline runs.
+ *
+ * Each reply is stored as <dir>/<sha256 of the request>.json. With a recorder
+ * provider, requests without a fixture are sent to it and the reply is saved;
+ * without one, a missing fixture is an error so tests never reach a real model.
+ */
+export class FixtureLlmProvider implements LlmProvider {
+  readonly name = 'fixture';
+
+  constructor(
+    private readonly dir: string,
+    private readonly recorder?: LlmProvider,
+  ) {}
+
+  static requestKey(request: LlmRequest): string {
+    const { model, messages, temperature, json = false } = request;
+    return createHash('sha256')
+      .update(JSON.stringify({ model, messages, temperature, json }))
+      .digest('hex');
+  }
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const file = path.join(this.dir, `${FixtureLlmProvider.requestKey(request)}.json`);
+
+    if (fs.existsSync(file)) {
+      const fixture: Fixture = JSON.parse(fs.readFileSync(file, 'utf8'));
+      return fixture.response;
+    }
+
+    if (!this.recorder) {
+      throw new Error(
+        `No LLM fixture for request ${path.basename(file)} in ${this.dir}; record it with LLM_FIXTURE_RECORD`,
+      );
+    }
+
+    const response = await this.recorder.complete(request);
+    fs.mkdirSync(this.dir, { recursive: true });
+    fs.writeFileSync(file, JSON.stringify({ request, response } satisfies Fixture, null, 2));
+    console.log(`Recorded LLM fixture ${path.basename(file)} from ${this.recorder.name}`);
+    return response;
+  }
+}
@@ -0,0 +1,53 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getLlmProvider, resolveLlmSettings } from '.';
+
+describe('resolveLlmSettings', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('uses the deployment defaults', () => {
+    vi.stubEnv('LLM_PROVIDER', '');
+    vi.stubEnv('LLM_MODEL', '');
+    vi.stubEnv('LLM_TEMPERATURE', '');
+
+    expect(resolveLlmSettings()).toEqual({ provider: 'openai', model: 'gpt-4o', temperature: 0 });
+  });
+
+  it('lets a clause type override the model and temperature', () => {
+    vi.stubEnv('LLM_PROVIDER', 'openai');
+    vi.stubEnv('LLM_MODEL', 'gpt-4o-mini');
+
+    expect(resolveLlmSettings()).toMatchObject({ model: 'gpt-4o-mini' });
+    expect(resolveLlmSettings({ model: 'gpt-4.1', temperature: 0.5 })).toEqual({
+      provider: 'openai',
+      model: 'gpt-4.1',
+      temperature: 0.5,
+    });
+  });
+
+  it("gives a clause type that switches provider that provider's default model", () => {
+    vi.stubEnv('LLM_PROVIDER', 'openai');
+    vi.stubEnv('LLM_MODEL', 'gpt-4o-mini');
+
+    expect(resolveLlmSettings({ provider: 'anthropic' }).model).toBe('claude-3-5-sonnet-latest');
+  });
+
+  it('replays fixtures with the model of the recording provider', () => {
+    vi.stubEnv('LLM_PROVIDER', 'fixture');
+    vi.stubEnv('LLM_MODEL', '');
+    vi.stubEnv('LLM_FIXTURE_RECORD', 'anthropic');
+
+    expect(resolveLlmSettings().model).toBe('claude-3-5-sonnet-latest');
+  });
+});
+
+describe('getLlmProvider', () => {
+  it('rejects an unknown provider', () => {
+    expect(() => getLlmProvider('gemini')).toThrow('Unknown LLM provider "gemini"');
+  });
+
+  it('creates each provider once', () => {
+    expect(getLlmProvider('fixture')).toBe(getLlmProvider('fixture'));
+  });
+});
@@ -0,0 +1,82 @@
+import * as path from 'path';
+import { AnthropicLlmProvider } from './anthropic';
+import { FixtureLlmProvider } from './fixture';
+import { createAzureOpenAiProvider, createLocalProvider, createOpenAiProvider } from './openai';
+import { LlmProvider, LlmSettings } from './types';
+
+export const LLM_PROVIDERS = ['openai', 'azure', 'anthropic', 'local', 'fixture'] as const;
+
+const DEFAULT_FIXTURES_DIR = path.resolve(__dirname, '../../fixtures/llm');
+
+const providers = new Map<string, LlmProvider>();
+
+function defaultModel(provider: string): string {
+  switch (provider) {
+    case 'azure':
+      // Azure addresses models by deployment name
+      return process.env.AZURE_OPENAI_DEPLOYMENT || 'gpt-4o';
+    case 'anthropic':
+      return 'claude-3-5-sonnet-latest';
+    case 'local':
+      return 'llama3.1';
+    case 'fixture':
+      // Fixtures are keyed by model, so replay with the model they were recorded with
+      return defaultModel(process.env.LLM_FIXTURE_RECORD || 'openai');
+    default:
+      return 'gpt-4o';
+  }
+}
+
+function createLlmProvider(name: string): LlmProvider {
+  switch (name) {
+    case 'openai':
+      return createOpenAiProvider();
+    case 'azure':
+      return createAzureOpenAiProvider();
+    case 'anthropic':
+      return new AnthropicLlmProvider();
+    case 'local':
+      return createLocalProvider();
+    case 'fixture': {
+      const recordWith = process.env.LLM_FIXTURE_RECORD;
+      return new FixtureLlmProvider(
+        process.env.LLM_FIXTURES_DIR || DEFAULT_FIXTURES_DIR,
+        recordWith ? getLlmProvider(recordWith) : undefined,
+      );
+    }
+    default:
+      throw new Error(
+        `Unknown LLM provider "${name}". Expected one of ${LLM_PROVIDERS.map((p) => `"${p}"`).join(', ')}`,
+      );
+  }
+}
+
+// Providers are created on first use and shared for the life of the process
+export function getLlmProvider(name: string): LlmProvider {
+  let provider = providers.get(name);
+  if (!provider) {
+    provider = createLlmProvider(name);
+    providers.set(name, provider);
+  }
+  return provider;
+}
+
+/**
+ * Settings for one call: the deployment defaults (LLM_PROVIDER, LLM_MODEL,
+ * LLM_TEMPERATURE) overridden by whatever a clause type sets in the registry.
+ * LLM_MODEL only applies to the deployment's own provider; a clause type that
+ * switches provider without naming a model gets that provider's default.
+ */
+export function resolveLlmSettings(overrides: Partial<LlmSettings> = {}): LlmSettings {
+  const deploymentProvider = process.env.LLM_PROVIDER || 'openai';
+  const provider = overrides.provider ?? deploymentProvider;
+  const deploymentModel = provider === deploymentProvider ? process.env.LLM_MODEL : undefined;
+
+  return {
+    provider,
+    model: overrides.model ?? (deploymentModel || defaultModel(provider)),
+    temperature: overrides.temperature ?? Number(process.env.LLM_TEMPERATURE || 0),
+  };
+}
+
+export * from './types';
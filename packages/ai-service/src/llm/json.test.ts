@@ -0,0 +1,75 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { completeJson } from './json';
+import { LlmProvider } from './types';
+
+const { replies, provider } = vi.hoisted(() => {
+  const replies: string[] = [];
+  const provider: LlmProvider = {
+    name: 'fake',
+    complete: vi.fn(async () => ({ content: replies.shift() ?? '', model: 'fake-model-1' })),
+  };
+  return { replies, provider };
+});
+
+vi.mock('./index', () => ({ getLlmProvider: () => provider }));
+
+const SETTINGS = { provider: 'fake', model: 'fake-model', temperature: 0 };
+const MESSAGES = [{ role: 'user' as const, content: 'Reply with {"ok": true}' }];
+const check = (reply: unknown) =>
+  (reply as { ok?: unknown }).ok === true ? [] : ['"ok" must be true'];
+
+describe('completeJson', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    replies.length = 0;
+    vi.mocked(provider.complete).mockClear();
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('returns the first reply that passes the check, without its code fence', async () => {
+    replies.push('```json\n{"ok": true}\n```');
+
+    await expect(completeJson(SETTINGS, MESSAGES, check)).resolves.toEqual({
+      value: { ok: true },
+      errors: [],
+      model: 'fake-model-1',
+    });
+  });
+
+  it('sends invalid replies back with the problems listed', async () => {
+    replies.push('not json', '{"ok": false}', '{"ok": true}');
+
+    const result = await completeJson(SETTINGS, MESSAGES, check);
+
+    expect(result.value).toEqual({ ok: true });
+    const [, , [request]] = vi.mocked(provider.complete).mock.calls;
+    expect(request.messages).toEqual([
+      ...MESSAGES,
+      { role: 'assistant', content: 'not json' },
+      { role: 'user', content: expect.stringContaining('- The reply is not valid JSON') },
+      { role: 'assistant', content: '{"ok": false}' },
+      { role: 'user', content: expect.stringContaining('- "ok" must be true') },
+    ]);
+  });
+
+  it('gives up after LLM_MAX_ATTEMPTS and returns the remaining problems', async () => {
+    vi.stubEnv('LLM_MAX_ATTEMPTS', '2');
+    replies.push('{"ok": false}', '{"ok": 1}', '{"ok": true}');
+
+    await expect(completeJson(SETTINGS, MESSAGES, check)).resolves.toEqual({
+      value: { ok: 1 },
+      errors: ['"ok" must be true'],
+      model: 'fake-model-1',
+    });
+  });
+
+  it('fails on an empty reply', async () => {
+    await expect(completeJson(SETTINGS, MESSAGES, check)).rejects.toThrow(
+      'Empty response from fake model fake-model',
+    );
+  });
+});
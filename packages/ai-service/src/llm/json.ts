@@ -0,0 +1,69 @@
+import { getLlmProvider } from '.';
+import { UsageMeter } from '../usage/meter';
+import { LlmMessage, LlmSettings } from './types';
+
+// Some models wrap JSON in a markdown code fence even when asked not to
+function stripCodeFence(content: string): string {
+  const fenced = content.trim().match(/^```(?:json)?\s*([\s\S]*?)\s*```$/);
+  return fenced ? fenced[1] : content;
+}
+
+/**
+ * Ask the model for a JSON reply and check it with `check`, which returns a list of
+ * problems. Unparseable or invalid replies are sent back to the model with the
+ * problems listed, up to LLM_MAX_ATTEMPTS times. The last reply is returned with
+ * its remaining problems so the caller can decide how to fall back. Every attempt's
+ * tokens are added to `meter`.
+ */
+export async function completeJson(
+  settings: LlmSettings,
+  messages: LlmMessage[],
+  check: (reply: unknown) => string[],
+  meter?: UsageMeter,
+): Promise<{ value: unknown; errors: string[]; model: string }> {
+  const provider = getLlmProvider(settings.provider);
+  const maxAttempts = Number(process.env.LLM_MAX_ATTEMPTS || 3);
+  const conversation = [...messages];
+
+  let value: unknown = null;
+  let errors: string[] = [];
+  let model = settings.model;
+
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const response = await provider.complete({
+      model: settings.model,
+      messages: conversation,
+      temperature: settings.temperature,
+      json: true,
+    });
+    model = response.model;
+    meter?.add('llm', provider.name, response.model, response.usage ?? {});
+
+    if (!response.content) {
+      throw new Error(`Empty response from ${provider.name} model ${settings.model}`);
+    }
+
+    try {
+      value = JSON.parse(stripCodeFence(response.content));
+      errors = check(value);
+    } catch (parseError) {
+      value = null;
+      errors = ['The reply is not valid JSON'];
+    }
+
+    if (errors.length === 0) {
+      return { value, errors, model };
+    }
+
+    console.warn(`AI response failed validation (attempt ${attempt} of ${maxAttempts}):`, errors);
+    conversation.push(
+      { role: 'assistant', content: response.content },
+      {
+        role: 'user',
+        content: `Your reply does not match the requested format:\n- ${errors.join('\n- ')}\nReply again with corrected JSON only.`,
+      },
+    );
+  }
+
+  return { value, errors, model };
+}
@@ -0,0 +1,59 @@
+import OpenAI, { AzureOpenAI } from 'openai';
+import { LlmProvider, LlmRequest, LlmResponse } from './types';
+
+// Chat completions through the OpenAI SDK. Also serves Azure OpenAI and local OpenAI-compatible
+// servers (Ollama, vLLM, LM Studio), which differ only in how the client is constructed.
+export class OpenAiLlmProvider implements LlmProvider {
+  constructor(
+    readonly name: string,
+    private readonly client: OpenAI,
+    // Local servers often reject response_format, so JSON mode can be turned off
+    private readonly supportsJsonMode = true,
+  ) {}
+
+  async complete({ model, messages, temperature, json }: LlmRequest): Promise<LlmResponse> {
+    const completion = await this.client.chat.completions.create({
+      model,
+      messages,
+      temperature,
+      ...(json && this.supportsJsonMode ? { response_format: { type: 'json_object' } } : {}),
+    });
+
+    return {
+      content: completion.choices[0]?.message.content ?? '',
+      model: completion.model || model,
+      usage: completion.usage && {
+        inputTokens: completion.usage.prompt_tokens,
+        outputTokens: completion.usage.completion_tokens,
+      },
+    };
+  }
+}
+
+export function createOpenAiProvider(): OpenAiLlmProvider {
+  return new OpenAiLlmProvider('openai', new OpenAI({ apiKey: process.env.OPENAI_API_KEY }));
+}
+
+// On Azure the "model" of a request is the deployment name
+export function createAzureOpenAiProvider(): OpenAiLlmProvider {
+  return new OpenAiLlmProvider(
+    'azure',
+    new AzureOpenAI({
+      endpoint: process.env.AZURE_OPENAI_ENDPOINT,
+      apiKey: process.env.AZURE_OPENAI_API_KEY,
+      apiVersion: process.env.AZURE_OPENAI_API_VERSION || '2024-10-21',
+    }),
+  );
+}
+
+export function createLocalProvider(): OpenAiLlmProvider {
+  return new OpenAiLlmProvider(
+    'local',
+    new OpenAI({
+      baseURL: process.env.LOCAL_LLM_BASE_URL || 'http://localhost:11434/v1',
+      // The SDK insists on a key; local servers ignore it
+      apiKey: process.env.LOCAL_LLM_API_KEY || 'local',
+    }),
+    process.env.LOCAL_LLM_JSON_MODE !== 'false',
+  );
+}
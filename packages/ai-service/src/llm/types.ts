@@ -0,0 +1,42 @@
+/**
+ * LLM provider abstraction
+ *
+ * Extraction talks to models only through LlmProvider, so the backend (OpenAI,
+ * Azure OpenAI, Anthropic, a local OpenAI-compatible server or recorded
+ * fixtures) is a deployment choice rather than a code change.
+ */
+
+export interface LlmMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LlmRequest {
+  model: string;
+  messages: LlmMessage[];
+  temperature: number;
+  // Ask for a bare JSON object where the backend supports it
+  json?: boolean;
+}
+
+export interface LlmResponse {
+  content: string;
+  // Model that actually answered, as reported by the backend
+  model: string;
+  usage?: {
+    inputTokens: number;
+    outputTokens: number;
+  };
+}
+
+export interface LlmProvider {
+  readonly name: string;
+  complete(request: LlmRequest): Promise<LlmResponse>;
+}
+
+// Provider, model and temperature used for one call; see resolveLlmSettings
+export interface LlmSettings {
+  provider: string;
+  model: string;
+  temperature: number;
+}
@@ -0,0 +1,124 @@
+import { describe, expect, it } from 'vitest';
+import { chunkDocument } from '../clauses/chunking';
+import { UsageMeter } from '../usage/meter';
+import { extractMetadata, readMetadataReply } from './extract';
+
+// Replies come from the recorded fixtures in fixtures/llm; after changing the prompt, record
+// them again with LLM_PROVIDER=fixture LLM_FIXTURE_RECORD=openai
+const settings = { provider: 'fixture', model: 'gpt-4o', temperature: 0 };
+
+const NDA = [
+  {
+    pageNumber: 1,
+    text: [
+      'MUTUAL NON-DISCLOSURE AGREEMENT',
+      'This Mutual Non-Disclosure Agreement is entered into as of March 1, 2025 between',
+      'Acme Corporation, a Delaware corporation ("Acme"), and Globex Ltd, a company',
+      'registered in England ("Globex").',
+      '1. Term',
+      'This Agreement remains in force for two (2) years from its effective date.',
+    ].join('\n'),
+  },
+  {
+    pageNumber: 2,
+    text: [
+      '9. Governing Law',
+      'This Agreement is governed by the laws of the State of New York, and the courts of',
+      'New York County have exclusive jurisdiction.',
+    ].join('\n'),
+  },
+];
+
+describe('extractMetadata', () => {
+  it('reads the metadata from the recorded reply', async () => {
+    const meter = new UsageMeter();
+    const metadata = await extractMetadata(chunkDocument(NDA), settings, meter);
+
+    expect(metadata).toEqual({
+      parties: [
+        { name: 'Acme Corporation', role: 'disclosing and receiving party' },
+        { name: 'Globex Ltd', role: 'disclosing and receiving party' },
+      ],
+      contractType: 'nda',
+      effectiveDate: '2025-03-01',
+      expirationDate: '2027-03-01',
+      renewalTerms: null,
+      contractValue: null,
+      currency: null,
+      governingLaw: 'State of New York',
+      jurisdiction: 'courts of New York County',
+      model: 'gpt-4o-2024-08-06',
+    });
+    expect(meter.take()).toMatchObject([
+      { kind: 'llm', provider: 'fixture', model: 'gpt-4o-2024-08-06' },
+    ]);
+  });
+
+  it('gives up without a recorded reply rather than reaching a real model', async () => {
+    const pages = [{ pageNumber: 1, text: 'A contract that no fixture was recorded for.' }];
+
+    expect(await extractMetadata(chunkDocument(pages), settings, new UsageMeter())).toBeNull();
+  });
+});
+
+describe('readMetadataReply', () => {
+  const reply = {
+    parties: [{ name: ' Acme Corporation ', role: 'Customer' }],
+    contract_type: 'msa',
+    effective_date: '2025-03-01',
+    expiration_date: null,
+    renewal_terms: '',
+    contract_value: 120000,
+    currency: 'usd',
+    governing_law: 'State of New York',
+    jurisdiction: null,
+  };
+
+  it('reads a valid reply, trimming names and normalizing roles and currency', () => {
+    expect(readMetadataReply(reply)).toEqual({
+      metadata: {
+        parties: [{ name: 'Acme Corporation', role: 'customer' }],
+        contractType: 'msa',
+        effectiveDate: '2025-03-01',
+        expirationDate: null,
+        renewalTerms: null,
+        contractValue: 120000,
+        currency: 'USD',
+        governingLaw: 'State of New York',
+        jurisdiction: null,
+      },
+      errors: [],
+    });
+  });
+
+  it('keeps the fields that are valid and reports the others', () => {
+    const { metadata, errors } = readMetadataReply({
+      ...reply,
+      parties: [{ name: 'Acme Corporation', role: null }, { role: 'supplier' }],
+      contract_type: 'lease',
+      effective_date: 'March 1, 2025',
+      contract_value: '120,000',
+      jurisdiction: undefined,
+    });
+
+    expect(metadata).toMatchObject({
+      parties: [{ name: 'Acme Corporation', role: null }],
+      contractType: null,
+      effectiveDate: null,
+      contractValue: null,
+      currency: 'USD',
+      governingLaw: 'State of New York',
+    });
+    expect(errors).toEqual([
+      'Every party must have a non-empty "name" and a "role" string or null',
+      '"jurisdiction" must be a string or null',
+      '"effective_date" must be a date as "YYYY-MM-DD" or null',
+      '"contract_type" must be one of "msa", "sow", "nda", "dpa", "other" or null',
+      '"contract_value" must be a non-negative number or null',
+    ]);
+  });
+
+  it('rejects a reply that is not an object', () => {
+    expect(readMetadataReply('nda').errors).toEqual(['The reply must be a JSON object']);
+  });
+});
@@ -0,0 +1,203 @@
+import {
+  CONTRACT_TYPES,
+  ContractMetadata,
+  ContractParty,
+  ContractType,
+  isCalendarDate,
+  isCurrencyCode,
+} from 'shared';
+import { DocumentChunk } from '../clauses/chunking';
+import { LlmSettings } from '../llm';
+import { completeJson } from '../llm/json';
+import { UsageMeter } from '../usage/meter';
+
+/**
+ * Metadata extraction
+ *
+ * Reads the parties, contract type, term, value and governing law of a contract
+ * in one model call. Parties and dates are usually stated at the start of a
+ * contract and governing law and signatures at its end, so the model is shown the
+ * first and last chunks rather than the whole document.
+ */
+
+const SYSTEM_PROMPT =
+  'You are a legal document analysis assistant. Read contract metadata accurately. Reply with JSON only.';
+
+const RESPONSE_SHAPE = `{
+  "parties": [{ "name": string, "role": string | null }], // every party that signs, with its role, e.g. "customer", "supplier", "licensor"
+  "contract_type": ${CONTRACT_TYPES.map((type) => JSON.stringify(type)).join(' | ')} | null, // master services agreement, statement of work, non-disclosure agreement, data processing agreement, or another kind
+  "effective_date": "YYYY-MM-DD" | null,
+  "expiration_date": "YYYY-MM-DD" | null, // end of the initial term; compute it if the contract gives the term's length
+  "renewal_terms": string | null, // how and for how long the contract renews, in one sentence
+  "contract_value": number | null, // total value over the term, without units or thousands separators
+  "currency": string | null, // ISO 4217 code of contract_value, e.g. "USD"
+  "governing_law": string | null, // e.g. "State of New York"
+  "jurisdiction": string | null // courts or venue for disputes, e.g. "courts of New York County"
+}`;
+
+type MetadataFields = Omit<ContractMetadata, 'model'>;
+
+const EMPTY_METADATA: MetadataFields = {
+  parties: [],
+  contractType: null,
+  effectiveDate: null,
+  expirationDate: null,
+  renewalTerms: null,
+  contractValue: null,
+  currency: null,
+  governingLaw: null,
+  jurisdiction: null,
+};
+
+const optionalString = (value: unknown): string | null | undefined =>
+  value === null ? null : typeof value === 'string' ? value.trim() || null : undefined;
+
+/**
+ * Check a model reply against the expected shape. Fields that fail are reported and
+ * left empty, so a reply that never validates still yields the fields that did.
+ */
+export function readMetadataReply(reply: unknown): { metadata: MetadataFields; errors: string[] } {
+  if (typeof reply !== 'object' || reply === null || Array.isArray(reply)) {
+    return { metadata: { ...EMPTY_METADATA }, errors: ['The reply must be a JSON object'] };
+  }
+
+  const record = reply as Record<string, unknown>;
+  const metadata: MetadataFields = { ...EMPTY_METADATA };
+  const errors: string[] = [];
+  const missing = (key: string) =>
+    errors.push(`"${key}" is missing; use null if the contract does not say`);
+
+  if (!Array.isArray(record.parties)) {
+    errors.push('"parties" must be an array of { "name", "role" }');
+  } else {
+    const parties = record.parties.map((party): ContractParty | null => {
+      const name = optionalString(party?.name);
+      const role = optionalString(party?.role);
+      return name && role !== undefined ? { name, role: role?.toLowerCase() ?? null } : null;
+    });
+    if (parties.some((party) => party === null)) {
+      errors.push('Every party must have a non-empty "name" and a "role" string or null');
+    }
+    metadata.parties = parties.filter((party): party is ContractParty => party !== null);
+  }
+
+  const strings = [
+    ['renewal_terms', 'renewalTerms'],
+    ['governing_law', 'governingLaw'],
+    ['jurisdiction', 'jurisdiction'],
+  ] as const;
+  for (const [key, field] of strings) {
+    if (!(key in record)) {
+      missing(key);
+      continue;
+    }
+    const value = optionalString(record[key]);
+    if (value === undefined) {
+      errors.push(`"${key}" must be a string or null`);
+    } else {
+      metadata[field] = value;
+    }
+  }
+
+  for (const [key, field] of [
+    ['effective_date', 'effectiveDate'],
+    ['expiration_date', 'expirationDate'],
+  ] as const) {
+    if (!(key in record)) {
+      missing(key);
+    } else if (record[key] !== null && !isCalendarDate(record[key])) {
+      errors.push(`"${key}" must be a date as "YYYY-MM-DD" or null`);
+    } else {
+      metadata[field] = record[key] as string | null;
+    }
+  }
+
+  if (!('contract_type' in record)) {
+    missing('contract_type');
+  } else if (
+    record.contract_type !== null &&
+    !CONTRACT_TYPES.includes(record.contract_type as ContractType)
+  ) {
+    errors.push(
+      `"contract_type" must be one of ${CONTRACT_TYPES.map((type) => JSON.stringify(type)).join(', ')} or null`,
+    );
+  } else {
+    metadata.contractType = record.contract_type as ContractType | null;
+  }
+
+  const value = record.contract_value;
+  if (!('contract_value' in record)) {
+    missing('contract_value');
+  } else if (
+    value !== null &&
+    !(typeof value === 'number' && Number.isFinite(value) && value >= 0)
+  ) {
+    errors.push('"contract_value" must be a non-negative number or null');
+  } else {
+    metadata.contractValue = value;
+  }
+
+  const currency =
+    typeof record.currency === 'string' ? record.currency.trim().toUpperCase() : record.currency;
+  if (!('currency' in record)) {
+    missing('currency');
+  } else if (currency !== null && !isCurrencyCode(currency)) {
+    errors.push('"currency" must be a three-letter ISO 4217 code or null');
+  } else {
+    metadata.currency = currency;
+  }
+
+  return { metadata, errors };
+}
+
+// Read the contract's metadata; null if the model could not be asked, as metadata is not
+// needed for the rest of the extraction
+export async function extractMetadata(
+  chunks: DocumentChunk[],
+  settings: LlmSettings,
+  meter: UsageMeter,
+): Promise<ContractMetadata | null> {
+  if (chunks.length === 0) {
+    return null;
+  }
+  const excerpts = chunks.length > 1 ? [chunks[0], chunks[chunks.length - 1]] : chunks;
+
+  const prompt = `
+    Read the following facts about the contract from its text. Use null for anything the
+    contract does not state; do not guess.
+
+    Format your response as JSON with the following structure:
+${RESPONSE_SHAPE}
+
+${excerpts
+  .map(
+    (chunk) =>
+      `    Contract excerpt (part ${chunk.index + 1} of ${chunks.length}, pages ${chunk.startPage}-${chunk.endPage}):\n    ${chunk.text}`,
+  )
+  .join('\n\n')}
+    `;
+
+  try {
+    const { value, errors, model } = await completeJson(
+      settings,
+      [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: prompt },
+      ],
+      (reply) => readMetadataReply(reply).errors,
+      meter,
+    );
+    if (errors.length > 0) {
+      console.warn('Keeping the valid metadata fields; invalid fields left empty');
+    }
+    // Contract values are sometimes read with a currency but no amount, or the other way round
+    const { metadata } = readMetadataReply(value);
+    if (metadata.contractValue === null) {
+      metadata.currency = null;
+    }
+    return { ...metadata, model };
+  } catch (error) {
+    console.error('Error using AI to extract contract metadata:', error);
+    return null;
+  }
+}
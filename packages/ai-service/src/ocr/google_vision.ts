@@ -0,0 +1,106 @@
+import { ImageAnnotatorClient, protos } from '@google-cloud/vision';
+import { PDFDocument } from 'pdf-lib';
+import { BlobStore } from 'shared';
+import { OCR_BATCH_SIZE, readOcrOutput } from './output';
+import { OcrFileResponse, OcrProvider, OcrRequest } from './types';
+
+// OCR through Google Vision DOCUMENT_TEXT_DETECTION; Vision reads and writes GCS directly,
+// so this provider needs the gcs storage driver
+export class GoogleVisionOcrProvider implements OcrProvider {
+  readonly name = 'google';
+
+  constructor(private readonly store: BlobStore) {}
+
+  async recognize({
+    sourceKey,
+    outputPrefix,
+    pages,
+    onProgress,
+  }: OcrRequest): Promise<OcrFileResponse[]> {
+    if (this.store.driver !== 'gcs') {
+      throw new Error(
+        `Google Vision OCR requires STORAGE_DRIVER=gcs (got "${this.store.driver}"); use OCR_PROVIDER=local instead`,
+      );
+    }
+
+    // Vision reads whole files, so send it a copy holding only the requested pages
+    const sourceUri = this.store.nativeUri(
+      pages ? await this.copyPages(sourceKey, pages, `${outputPrefix}pages.pdf`) : sourceKey,
+    );
+    const outputUri = this.store.nativeUri(outputPrefix);
+
+    console.log('Starting OCR process for:', sourceUri);
+
+    // Initialize Vision client
+    console.log('Initializing Vision client...');
+    const client = new ImageAnnotatorClient();
+
+    // Set up the request for async document text detection
+    console.log(`Will write results to: ${outputUri}`);
+
+    const request: protos.google.cloud.vision.v1.IAsyncBatchAnnotateFilesRequest = {
+      requests: [
+        {
+          inputConfig: {
+            gcsSource: {
+              uri: sourceUri,
+            },
+            mimeType: 'application/pdf',
+          },
+          features: [
+            {
+              type: 'DOCUMENT_TEXT_DETECTION' as unknown as protos.google.cloud.vision.v1.Feature.Type.DOCUMENT_TEXT_DETECTION,
+            },
+          ],
+          outputConfig: {
+            gcsDestination: {
+              uri: outputUri,
+            },
+            batchSize: OCR_BATCH_SIZE,
+          },
+        },
+      ],
+    };
+
+    console.log('Sending request to Google Vision API...');
+    const [operation] = await client.asyncBatchAnnotateFiles(request);
+    console.log('Waiting for operation to complete...');
+
+    await operation.promise();
+    console.log('Operation completed');
+
+    // Vision writes the results to GCS; read them back so callers get the same shape as other providers
+    const files = (await readOcrOutput(this.store, outputPrefix)).map((file) => file.content);
+
+    // Vision numbers the pages of the copy; number them as in the source document
+    if (pages) {
+      files
+        .flatMap((file) => file.responses)
+        .forEach((response, index) => {
+          response.context = { ...response.context, pageNumber: pages[index] };
+        });
+    }
+
+    // Vision does not report progress while it runs, only once every page is done
+    const pageCount = files.reduce((count, file) => count + file.responses.length, 0);
+    await onProgress?.(pageCount, pageCount);
+
+    return files;
+  }
+
+  // Write a PDF of the given pages of the source document; returns its key
+  private async copyPages(sourceKey: string, pages: number[], key: string): Promise<string> {
+    const source = await PDFDocument.load(await this.store.get(sourceKey), {
+      ignoreEncryption: true,
+    });
+    const copy = await PDFDocument.create();
+    for (const page of await copy.copyPages(
+      source,
+      pages.map((pageNumber) => pageNumber - 1),
+    )) {
+      copy.addPage(page);
+    }
+    await this.store.put(key, Buffer.from(await copy.save()), { contentType: 'application/pdf' });
+    return key;
+  }
+}
@@ -0,0 +1,50 @@
+import { LocalBlobStore } from 'shared';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createOcrProvider } from './index';
+import { LocalOcrProvider, localOcrOptionsFromEnv } from './local';
+
+describe('createOcrProvider', () => {
+  const store = new LocalBlobStore({ rootDir: '/tmp/blobs' });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('uses Google Vision unless OCR_PROVIDER says otherwise', () => {
+    vi.stubEnv('OCR_PROVIDER', '');
+    expect(createOcrProvider(store).name).toBe('google');
+
+    vi.stubEnv('OCR_PROVIDER', 'local');
+    expect(createOcrProvider(store)).toBeInstanceOf(LocalOcrProvider);
+  });
+
+  it('rejects an unknown provider', () => {
+    expect(() => createOcrProvider(store, 'textract')).toThrow('Unknown OCR provider "textract"');
+  });
+});
+
+describe('localOcrOptionsFromEnv', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('leaves unset variables out, so that they keep their defaults', () => {
+    vi.stubEnv('LOCAL_OCR_MIN_TEXT_CHARS', '');
+    vi.stubEnv('TESSERACT_LANGUAGE', '');
+    vi.stubEnv('TESSERACT_LANG_PATH', '');
+
+    expect(localOcrOptionsFromEnv()).toEqual({});
+  });
+
+  it('reads the variables that are set', () => {
+    vi.stubEnv('LOCAL_OCR_MIN_TEXT_CHARS', '50');
+    vi.stubEnv('TESSERACT_LANGUAGE', 'deu');
+    vi.stubEnv('TESSERACT_LANG_PATH', '/opt/tessdata');
+
+    expect(localOcrOptionsFromEnv()).toEqual({
+      minTextChars: 50,
+      language: 'deu',
+      langPath: '/opt/tessdata',
+    });
+  });
+});
@@ -0,0 +1,19 @@
+import { BlobStore } from 'shared';
+import { GoogleVisionOcrProvider } from './google_vision';
+import { LocalOcrProvider, localOcrOptionsFromEnv } from './local';
+import { OcrProvider } from './types';
+
+// Choose the OCR engine with OCR_PROVIDER: "google" (default) or "local"
+export function createOcrProvider(
+  store: BlobStore,
+  name = process.env.OCR_PROVIDER || 'google',
+): OcrProvider {
+  switch (name) {
+    case 'google':
+      return new GoogleVisionOcrProvider(store);
+    case 'local':
+      return new LocalOcrProvider(store, localOcrOptionsFromEnv());
+    default:
+      throw new Error(`Unknown OCR provider "${name}". Expected "google" or "local"`);
+  }
+}
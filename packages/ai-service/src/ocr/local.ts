@@ -0,0 +1,168 @@
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import { BlobStore } from 'shared';
+import { createWorker, Worker as TesseractWorker } from 'tesseract.js';
+import { OCR_BATCH_SIZE, writeOcrOutput } from './output';
+import { boundingBox, hasTextLayer, openPdf, pageText, readTextLayer } from './text_layer';
+import {
+  OcrBlock,
+  OcrBoundingPoly,
+  OcrFileResponse,
+  OcrPage,
+  OcrPageResponse,
+  OcrProvider,
+  OcrRequest,
+} from './types';
+
+/**
+ * Offline OCR provider
+ *
+ * Reads the PDF's embedded text layer with pdf.js and only falls back to
+ * Tesseract for pages without one (scanned pages). Nothing leaves the machine.
+ */
+
+export interface LocalOcrOptions {
+  // Pages whose text layer has fewer non-whitespace characters than this are OCRed
+  minTextChars: number;
+  // Render scale for scanned pages; 2 renders a letter page at 144 dpi
+  renderScale: number;
+  language: string;
+  // Directory holding <language>.traineddata, for machines without internet access
+  langPath?: string;
+}
+
+const DEFAULT_OPTIONS: LocalOcrOptions = {
+  minTextChars: 20,
+  renderScale: 2,
+  language: 'eng',
+};
+
+// Options set in the environment; unset ones are left out so that they keep their defaults
+export function localOcrOptionsFromEnv(): Partial<LocalOcrOptions> {
+  const options: Partial<LocalOcrOptions> = {
+    minTextChars: process.env.LOCAL_OCR_MIN_TEXT_CHARS
+      ? Number(process.env.LOCAL_OCR_MIN_TEXT_CHARS)
+      : undefined,
+    language: process.env.TESSERACT_LANGUAGE || undefined,
+    langPath: process.env.TESSERACT_LANG_PATH || undefined,
+  };
+
+  return Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined),
+  ) as Partial<LocalOcrOptions>;
+}
+
+function tesseractBox(bbox: Tesseract.Bbox, width: number, height: number): OcrBoundingPoly {
+  return boundingBox(bbox.x0, bbox.y0, bbox.x1, bbox.y1, width, height);
+}
+
+export class LocalOcrProvider implements OcrProvider {
+  readonly name = 'local';
+  private readonly options: LocalOcrOptions;
+
+  constructor(
+    private readonly store: BlobStore,
+    options: Partial<LocalOcrOptions> = {},
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  async recognize({
+    sourceKey,
+    outputPrefix,
+    pages,
+    onProgress,
+  }: OcrRequest): Promise<OcrFileResponse[]> {
+    console.log('Starting local OCR process for:', sourceKey);
+
+    const document = await openPdf(await this.store.get(sourceKey));
+    const pageNumbers = pages ?? Array.from({ length: document.numPages }, (_, index) => index + 1);
+
+    const responses: OcrPageResponse[] = [];
+    let worker: TesseractWorker | null = null;
+
+    try {
+      for (const pageNumber of pageNumbers) {
+        const page = await document.getPage(pageNumber);
+        let ocrPage = await readTextLayer(page);
+
+        if (!hasTextLayer(ocrPage, this.options.minTextChars)) {
+          console.log(`Page ${pageNumber} has no usable text layer, running Tesseract`);
+          worker ??= await createWorker(this.options.language, undefined, {
+            langPath: this.options.langPath,
+          });
+          ocrPage = await this.recognizeScannedPage(document, page, worker);
+        }
+
+        responses.push({
+          fullTextAnnotation: { text: pageText(ocrPage), pages: [ocrPage] },
+          context: { uri: this.store.nativeUri(sourceKey), pageNumber },
+        });
+        page.cleanup();
+        await onProgress?.(responses.length, pageNumbers.length);
+      }
+    } finally {
+      await worker?.terminate();
+      await document.destroy();
+    }
+
+    const files: OcrFileResponse[] = [];
+    for (let start = 0; start < responses.length; start += OCR_BATCH_SIZE) {
+      files.push({ responses: responses.slice(start, start + OCR_BATCH_SIZE) });
+    }
+
+    await writeOcrOutput(this.store, outputPrefix, files);
+    console.log(`Local OCR complete: ${responses.length} pages written to ${outputPrefix}`);
+
+    return files;
+  }
+
+  private async recognizeScannedPage(
+    document: PDFDocumentProxy,
+    page: PDFPageProxy,
+    worker: TesseractWorker,
+  ): Promise<OcrPage> {
+    const viewport = page.getViewport({ scale: this.options.renderScale });
+    const canvasFactory = document.canvasFactory as {
+      create(width: number, height: number): { canvas: any; context: any };
+      destroy(canvasAndContext: { canvas: any; context: any }): void;
+    };
+    const canvasAndContext = canvasFactory.create(viewport.width, viewport.height);
+
+    try {
+      // Canvases start transparent; Tesseract reads a white page far more reliably
+      canvasAndContext.context.fillStyle = 'white';
+      canvasAndContext.context.fillRect(0, 0, viewport.width, viewport.height);
+      await page.render({ canvasContext: canvasAndContext.context, viewport }).promise;
+      const image: Buffer = canvasAndContext.canvas.toBuffer('image/png');
+      const { data } = await worker.recognize(image, {}, { blocks: true });
+
+      const { width, height } = viewport;
+      const blocks: OcrBlock[] = (data.blocks ?? []).map((block) => ({
+        blockType: 'TEXT',
+        boundingBox: tesseractBox(block.bbox, width, height),
+        paragraphs: block.paragraphs.map((paragraph) => ({
+          boundingBox: tesseractBox(paragraph.bbox, width, height),
+          words: paragraph.lines
+            .flatMap((line) => line.words)
+            .map((word) => ({
+              boundingBox: tesseractBox(word.bbox, width, height),
+              symbols: word.symbols.map((symbol) => ({
+                text: symbol.text,
+                boundingBox: tesseractBox(symbol.bbox, width, height),
+              })),
+            })),
+        })),
+      }));
+
+      // Report page size in PDF units like the text layer path; the boxes are normalized anyway
+      return {
+        width: width / this.options.renderScale,
+        height: height / this.options.renderScale,
+        blocks,
+        confidence: data.confidence / 100,
+      };
+    } finally {
+      canvasFactory.destroy(canvasAndContext);
+    }
+  }
+}
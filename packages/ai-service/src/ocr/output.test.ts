@@ -0,0 +1,57 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalBlobStore } from 'shared';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { ocrOutputPrefix, readOcrOutput, writeOcrOutput } from './output';
+import { OcrFileResponse } from './types';
+
+const file = (...pageNumbers: number[]): OcrFileResponse => ({
+  responses: pageNumbers.map((pageNumber) => ({
+    fullTextAnnotation: { text: `Page ${pageNumber}`, pages: [] },
+    context: { pageNumber },
+  })),
+});
+
+describe('OCR output', () => {
+  const prefix = ocrOutputPrefix('contract-1');
+  let rootDir: string;
+  let store: LocalBlobStore;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'ocr-output-'));
+    store = new LocalBlobStore({ rootDir });
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+    vi.restoreAllMocks();
+  });
+
+  it('writes files named by page range and reads them back in page order', async () => {
+    const files = Array.from({ length: 11 }, (_, index) => file(index + 1));
+    await writeOcrOutput(store, prefix, files);
+
+    // By key, output-10-to-10.json would come before output-2-to-2.json
+    expect((await store.list(prefix)).map((blob) => blob.key)).toContain(
+      'output/contract-1/output-10-to-10.json',
+    );
+    const read = await readOcrOutput(store, prefix);
+    expect(read.map(({ content }) => content)).toEqual(files);
+  });
+
+  it('skips files that are not JSON or cannot be parsed', async () => {
+    await writeOcrOutput(store, prefix, [file(1, 2)]);
+    await store.put(`${prefix}notes.txt`, 'not OCR output');
+    await store.put(`${prefix}output-3-to-3.json`, '{');
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const read = await readOcrOutput(store, prefix);
+    expect(read.map(({ name }) => name)).toEqual(['output/contract-1/output-1-to-2.json']);
+  });
+
+  it('reads nothing for a contract without output', async () => {
+    expect(await readOcrOutput(store, ocrOutputPrefix('contract-2'))).toEqual([]);
+  });
+});
@@ -0,0 +1,64 @@
+import { BlobStore } from 'shared';
+import { OcrFileResponse } from './types';
+
+// Pages per output file, matching the batchSize we ask Google Vision for
+export const OCR_BATCH_SIZE = 50;
+
+// Key prefix the OCR output for a contract is stored under
+export function ocrOutputPrefix(contractId: string): string {
+  return `output/${contractId}/`;
+}
+
+// Key prefix for the OCR of a contract's scanned pages, before it is merged into the output
+export function ocrScratchPrefix(contractId: string): string {
+  return `ocr/${contractId}/`;
+}
+
+// Vision names its files output-<from>-to-<to>.json; sort them by first page, not by name
+function firstPage(key: string): number {
+  const match = key.match(/output-(\d+)-to-\d+\.json$/);
+  return match ? Number(match[1]) : Number.MAX_SAFE_INTEGER;
+}
+
+// List and parse the OCR JSON files under a key prefix, in page order
+export async function readOcrOutput(
+  store: BlobStore,
+  prefix: string,
+): Promise<{ name: string; content: OcrFileResponse }[]> {
+  const blobs = await store.list(prefix);
+  const results: { name: string; content: OcrFileResponse }[] = [];
+
+  for (const blob of blobs.sort((a, b) => firstPage(a.key) - firstPage(b.key))) {
+    if (!blob.key.endsWith('.json')) {
+      console.log(`Skipping non-JSON file: ${blob.key}`);
+      continue;
+    }
+
+    try {
+      results.push({ name: blob.key, content: JSON.parse((await store.get(blob.key)).toString()) });
+    } catch (parseError) {
+      console.error(`Error parsing JSON from ${blob.key}:`, parseError);
+    }
+  }
+
+  return results;
+}
+
+// Write OCR results in the same output-<from>-to-<to>.json layout Google Vision uses
+export async function writeOcrOutput(
+  store: BlobStore,
+  prefix: string,
+  files: OcrFileResponse[],
+): Promise<void> {
+  let firstPageNumber = 1;
+
+  for (const file of files) {
+    const lastPageNumber = firstPageNumber + file.responses.length - 1;
+    await store.put(
+      `${prefix}output-${firstPageNumber}-to-${lastPageNumber}.json`,
+      JSON.stringify(file),
+      { contentType: 'application/json' },
+    );
+    firstPageNumber = lastPageNumber + 1;
+  }
+}
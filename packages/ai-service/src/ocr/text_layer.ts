@@ -0,0 +1,184 @@
+import * as path from 'path';
+import type { PDFDocumentProxy, PDFPageProxy } from 'pdfjs-dist';
+import type { TextItem } from 'pdfjs-dist/types/src/display/api';
+import { OcrBlock, OcrBoundingPoly, OcrPage, OcrParagraph, OcrWord } from './types';
+
+/**
+ * PDF text layers
+ *
+ * Digitally generated PDFs carry their text, with positions, in an embedded text
+ * layer. Reading it with pdf.js gives the same page structure OCR would, exactly and
+ * for free; only scanned pages, which have no text layer, need OCR.
+ */
+
+// A run of text on the page, in viewport pixels with the origin at the top left
+interface Fragment {
+  text: string;
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+// pdfjs-dist is only published as an ES module and TypeScript turns import() into require()
+// for CommonJS output, so load it through a dynamic import that TypeScript leaves alone
+const importEsm = new Function('specifier', 'return import(specifier)') as (
+  specifier: string,
+) => Promise<any>;
+
+// Needed to render pages that use the standard 14 fonts without embedding them
+const STANDARD_FONT_DATA_URL =
+  path.join(path.dirname(require.resolve('pdfjs-dist/package.json')), 'standard_fonts') + path.sep;
+
+function loadPdfJs(): Promise<typeof import('pdfjs-dist')> {
+  return importEsm('pdfjs-dist/legacy/build/pdf.mjs');
+}
+
+export async function openPdf(data: Buffer): Promise<PDFDocumentProxy> {
+  const pdfjs = await loadPdfJs();
+  return pdfjs.getDocument({
+    data: new Uint8Array(data),
+    standardFontDataUrl: STANDARD_FONT_DATA_URL,
+    verbosity: 0,
+  }).promise;
+}
+
+export function boundingBox(
+  left: number,
+  top: number,
+  right: number,
+  bottom: number,
+  width: number,
+  height: number,
+): OcrBoundingPoly {
+  const x0 = left / width;
+  const x1 = right / width;
+  const y0 = top / height;
+  const y1 = bottom / height;
+  return {
+    normalizedVertices: [
+      { x: x0, y: y0 },
+      { x: x1, y: y0 },
+      { x: x1, y: y1 },
+      { x: x0, y: y1 },
+    ],
+  };
+}
+
+// Split a fragment into words, spreading its width evenly over its characters
+function fragmentWords(fragment: Fragment, width: number, height: number): OcrWord[] {
+  const charWidth = (fragment.right - fragment.left) / Math.max(fragment.text.length, 1);
+  const words: OcrWord[] = [];
+
+  for (const match of fragment.text.matchAll(/\S+/g)) {
+    const start = fragment.left + match.index! * charWidth;
+    words.push({
+      symbols: Array.from(match[0]).map((char, index) => ({
+        text: char,
+        boundingBox: boundingBox(
+          start + index * charWidth,
+          fragment.top,
+          start + (index + 1) * charWidth,
+          fragment.bottom,
+          width,
+          height,
+        ),
+      })),
+      boundingBox: boundingBox(
+        start,
+        fragment.top,
+        start + match[0].length * charWidth,
+        fragment.bottom,
+        width,
+        height,
+      ),
+    });
+  }
+
+  return words;
+}
+
+// Group text layer fragments into lines, and lines separated by a vertical gap into paragraphs
+function layoutTextLayer(fragments: Fragment[], width: number, height: number): OcrPage {
+  const sorted = [...fragments].sort((a, b) => a.top - b.top || a.left - b.left);
+
+  const lines: Fragment[][] = [];
+  for (const fragment of sorted) {
+    const line = lines[lines.length - 1];
+    const lineHeight = fragment.bottom - fragment.top;
+    if (line && Math.abs(line[0].bottom - fragment.bottom) < lineHeight / 2) {
+      line.push(fragment);
+    } else {
+      lines.push([fragment]);
+    }
+  }
+
+  const paragraphs: Fragment[][][] = [];
+  let previous: Fragment[] | null = null;
+  for (const line of lines) {
+    line.sort((a, b) => a.left - b.left);
+    const lineHeight = line[0].bottom - line[0].top;
+    if (previous && line[0].top - previous[0].bottom < lineHeight * 0.75) {
+      paragraphs[paragraphs.length - 1].push(line);
+    } else {
+      paragraphs.push([line]);
+    }
+    previous = line;
+  }
+
+  const blocks: OcrBlock[] = paragraphs.map((paragraphLines) => {
+    const all = paragraphLines.flat();
+    const box = boundingBox(
+      Math.min(...all.map((f) => f.left)),
+      Math.min(...all.map((f) => f.top)),
+      Math.max(...all.map((f) => f.right)),
+      Math.max(...all.map((f) => f.bottom)),
+      width,
+      height,
+    );
+    const paragraph: OcrParagraph = {
+      words: all.flatMap((fragment) => fragmentWords(fragment, width, height)),
+      boundingBox: box,
+    };
+    return { paragraphs: [paragraph], boundingBox: box, blockType: 'TEXT' };
+  });
+
+  return { width, height, blocks };
+}
+
+export function pageText(page: OcrPage): string {
+  return page.blocks
+    .flatMap((block) => block.paragraphs)
+    .map((paragraph) =>
+      paragraph.words.map((word) => word.symbols.map((symbol) => symbol.text).join('')).join(' '),
+    )
+    .join('\n');
+}
+
+// Lay out the page's embedded text as an OCR page
+export async function readTextLayer(page: PDFPageProxy): Promise<OcrPage> {
+  const viewport = page.getViewport({ scale: 1 });
+  const content = await page.getTextContent();
+
+  const fragments: Fragment[] = content.items
+    .filter((item): item is TextItem => 'str' in item && item.str.trim().length > 0)
+    .map((item) => {
+      const [, , c, d, e, f] = item.transform;
+      const fontHeight = item.height || Math.hypot(c, d);
+      const [x, baseline] = viewport.convertToViewportPoint(e, f);
+      return {
+        text: item.str,
+        left: x,
+        top: baseline - fontHeight,
+        right: x + item.width,
+        bottom: baseline,
+      };
+    });
+
+  return layoutTextLayer(fragments, viewport.width, viewport.height);
+}
+
+// Whether the page's text layer holds enough text to use instead of OCR
+export function hasTextLayer(page: OcrPage, minTextChars: number): boolean {
+  return pageText(page).replace(/\s/g, '').length >= minTextChars;
+}
@@ -0,0 +1,81 @@
+/**
+ * OCR result types
+ *
+ * These mirror the subset of the Google Vision AnnotateFileResponse JSON that the
+ * extraction step reads, so every OcrProvider writes output in the same shape no
+ * matter which engine produced it. Bounding boxes use normalizedVertices (0-1
+ * relative to the page), as Vision does for PDF input.
+ */
+
+export interface OcrVertex {
+  x: number;
+  y: number;
+}
+
+export interface OcrBoundingPoly {
+  vertices?: OcrVertex[];
+  normalizedVertices?: OcrVertex[];
+}
+
+export interface OcrSymbol {
+  text: string;
+  boundingBox?: OcrBoundingPoly;
+}
+
+export interface OcrWord {
+  symbols: OcrSymbol[];
+  boundingBox?: OcrBoundingPoly;
+}
+
+export interface OcrParagraph {
+  words: OcrWord[];
+  boundingBox?: OcrBoundingPoly;
+}
+
+export interface OcrBlock {
+  paragraphs: OcrParagraph[];
+  boundingBox?: OcrBoundingPoly;
+  blockType?: string;
+}
+
+export interface OcrPage {
+  width: number;
+  height: number;
+  blocks: OcrBlock[];
+  confidence?: number;
+}
+
+export interface OcrPageResponse {
+  fullTextAnnotation?: {
+    text: string;
+    pages: OcrPage[];
+  };
+  context?: {
+    uri?: string;
+    pageNumber?: number;
+  };
+}
+
+// One output file, covering a batch of consecutive pages
+export interface OcrFileResponse {
+  responses: OcrPageResponse[];
+}
+
+export interface OcrRequest {
+  contractId: string;
+  // Blob key of the source PDF
+  sourceKey: string;
+  // Key prefix the provider writes its output-<from>-to-<to>.json files under
+  outputPrefix: string;
+  // Pages to recognize (1-based, ascending), all when omitted. Responses come back in this
+  // order, with context.pageNumber set to the page number in the source document
+  pages?: number[];
+  // Called as pages are recognized; providers that only learn the result at the end call it once
+  onProgress?: (pagesDone: number, pageCount: number) => Promise<void>;
+}
+
+export interface OcrProvider {
+  readonly name: string;
+  // Run OCR over the document, write the results under request.outputPrefix and return them
+  recognize(request: OcrRequest): Promise<OcrFileResponse[]>;
+}
@@ -0,0 +1,139 @@
+import { describe, expect, it } from 'vitest';
+import { ClauseAttributes } from '../clauses/attributes';
+import { ExtractedClause } from '../clauses/registry';
+import { evaluatePlaybook } from './evaluate';
+import { Condition, PlaybookRule, Severity } from './rules';
+
+const rule = (
+  id: string,
+  clauseType: string,
+  condition: Condition,
+  severity: Severity = 'medium',
+): PlaybookRule => ({
+  id,
+  clauseType,
+  description: id,
+  severity,
+  condition,
+  fallback: `Fallback for ${id}`,
+});
+
+const clause = (type: string, attributes: ClauseAttributes | null = {}): ExtractedClause => ({
+  type,
+  label: type,
+  text: `The ${type} clause`,
+  pageStart: 1,
+  pageEnd: 1,
+  passages: [],
+  attributes,
+  model: 'gpt-4o',
+  promptVersion: 'v1',
+});
+
+const notice = (operator: 'gte' | 'lt', value: number): Condition => ({
+  attribute: 'notice_period_days',
+  operator,
+  value,
+});
+
+describe('evaluatePlaybook', () => {
+  it('passes and fails attribute rules and explains the outcome', () => {
+    const { findings } = evaluatePlaybook(
+      [rule('notice_30', 'termination', notice('gte', 30))],
+      [clause('termination', { notice_period_days: 15 })],
+    );
+
+    expect(findings).toEqual([
+      {
+        ruleId: 'notice_30',
+        clauseType: 'termination',
+        description: 'notice_30',
+        severity: 'medium',
+        status: 'fail',
+        detail: 'notice_period_days is 15, expected gte 30',
+        fallback: 'Fallback for notice_30',
+      },
+    ]);
+    expect(
+      evaluatePlaybook(
+        [rule('notice_30', 'termination', notice('gte', 30))],
+        [clause('termination', { notice_period_days: 45 })],
+      ).findings[0].status,
+    ).toBe('pass');
+  });
+
+  it('leaves attributes the clause does not state to a reviewer', () => {
+    const { findings } = evaluatePlaybook(
+      [
+        rule('notice_30', 'termination', notice('gte', 30)),
+        rule('notice_stated', 'termination', {
+          attribute: 'notice_period_days',
+          operator: 'not_null',
+        }),
+      ],
+      [clause('termination', { notice_period_days: null })],
+    );
+
+    expect(findings.map((finding) => finding.status)).toEqual(['unknown', 'fail']);
+  });
+
+  it('only applies presence rules to clauses that were not found', () => {
+    const { findings } = evaluatePlaybook(
+      [
+        rule('indemnity_present', 'indemnification', { present: true }),
+        rule('indemnity_uncapped', 'indemnification', {
+          attribute: 'uncapped',
+          operator: 'is_true',
+        }),
+        rule('no_exclusivity', 'exclusivity', { present: false }),
+      ],
+      [{ ...clause('indemnification'), text: null, attributes: null }],
+    );
+
+    expect(findings.map((finding) => [finding.ruleId, finding.status, finding.detail])).toEqual([
+      ['indemnity_present', 'fail', 'clause not found'],
+      ['indemnity_uncapped', 'not_applicable', 'clause not found'],
+      ['no_exclusivity', 'pass', 'clause not found'],
+    ]);
+  });
+
+  it('combines conditions with all and any', () => {
+    const termination = clause('termination', { notice_period_days: 10, mutual: true });
+    const evaluate = (condition: Condition) =>
+      evaluatePlaybook([rule('combined', 'termination', condition)], [termination]).findings[0];
+
+    const mutual: Condition = { attribute: 'mutual', operator: 'is_true' };
+    expect(evaluate({ all: [mutual, notice('gte', 30)] }).status).toBe('fail');
+    expect(evaluate({ any: [mutual, notice('gte', 30)] }).status).toBe('pass');
+    expect(
+      evaluate({ all: [mutual, { attribute: 'cure_days', operator: 'gte', value: 5 }] }).status,
+    ).toBe('unknown');
+    expect(evaluate({ any: [notice('gte', 30), notice('lt', 5)] })).toMatchObject({
+      status: 'fail',
+      detail: 'notice_period_days is 10, expected gte 30; notice_period_days is 10, expected lt 5',
+    });
+  });
+
+  it('weighs failures by severity and unknowns by half in the risk score', () => {
+    const { riskScore } = evaluatePlaybook(
+      [
+        // Failed: 6 of the 6 + 3 + 1 applicable weight
+        rule('high', 'termination', notice('gte', 30), 'high'),
+        // Unknown: half of 3
+        rule('medium', 'termination', { attribute: 'cure_days', operator: 'gte', value: 5 }),
+        rule('low', 'termination', { present: true }, 'low'),
+        // Not applicable, so not weighed
+        rule('critical', 'liability', { attribute: 'cap', operator: 'not_null' }, 'critical'),
+      ],
+      [clause('termination', { notice_period_days: 10 })],
+    );
+
+    expect(riskScore).toBe(Math.round((7.5 / 10) * 100));
+  });
+
+  it('has no risk score when no rule applies', () => {
+    expect(
+      evaluatePlaybook([rule('notice_30', 'termination', notice('gte', 30))], []),
+    ).toMatchObject({ riskScore: null, findings: [{ status: 'not_applicable' }] });
+  });
+});
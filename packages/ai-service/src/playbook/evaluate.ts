@@ -0,0 +1,172 @@
+import { AttributeValue } from '../clauses/attributes';
+import { ExtractedClause } from '../clauses/registry';
+import { Condition, PlaybookRule, Severity } from './rules';
+
+/**
+ * Playbook evaluation
+ *
+ * Every rule ends up as one finding: pass, fail, unknown (the attribute it
+ * tests was not stated, so a reviewer has to check) or not_applicable (the
+ * clause is absent and the rule is not about its presence). The risk score is
+ * the severity-weighted share of applicable rules that failed, with unknowns
+ * counting half, on a 0-100 scale.
+ */
+
+export type FindingStatus = 'pass' | 'fail' | 'unknown' | 'not_applicable';
+
+export interface PlaybookFinding {
+  ruleId: string;
+  clauseType: string;
+  description: string;
+  severity: Severity;
+  status: FindingStatus;
+  // What was found, e.g. "notice_period_days is 15, expected gte 30"
+  detail: string;
+  fallback: string;
+}
+
+export interface PlaybookResult {
+  // Null when no rule applied to the contract
+  riskScore: number | null;
+  findings: PlaybookFinding[];
+}
+
+const SEVERITY_WEIGHTS: Record<Severity, number> = {
+  low: 1,
+  medium: 3,
+  high: 6,
+  critical: 10,
+};
+
+type Outcome = { status: 'pass' | 'fail' | 'unknown'; detail: string };
+
+function formatValue(value: AttributeValue | undefined): string {
+  return value === null || value === undefined ? 'not stated' : JSON.stringify(value);
+}
+
+function compare(
+  condition: Extract<Condition, { attribute: string }>,
+  actual: AttributeValue,
+): boolean {
+  const expected = condition.value;
+  switch (condition.operator) {
+    case 'equals':
+      return actual === expected;
+    case 'not_equals':
+      return actual !== expected;
+    case 'in':
+      return (expected as (string | number)[]).includes(actual as string | number);
+    case 'gt':
+      return (actual as number) > (expected as number);
+    case 'gte':
+      return (actual as number) >= (expected as number);
+    case 'lt':
+      return (actual as number) < (expected as number);
+    case 'lte':
+      return (actual as number) <= (expected as number);
+    case 'is_true':
+      return actual === true;
+    case 'is_false':
+      return actual === false;
+    case 'is_null':
+      return actual === null;
+    case 'not_null':
+      return actual !== null;
+  }
+}
+
+function evaluateCondition(condition: Condition, clause: ExtractedClause | undefined): Outcome {
+  const found = clause !== undefined && clause.text !== null;
+
+  if ('present' in condition) {
+    return {
+      status: found === condition.present ? 'pass' : 'fail',
+      detail: found ? 'clause found' : 'clause not found',
+    };
+  }
+
+  if ('all' in condition || 'any' in condition) {
+    const outcomes = ('all' in condition ? condition.all : condition.any).map((child) =>
+      evaluateCondition(child, clause),
+    );
+    const decisive = 'all' in condition ? 'fail' : 'pass';
+    const status = outcomes.some((outcome) => outcome.status === decisive)
+      ? decisive
+      : outcomes.some((outcome) => outcome.status === 'unknown')
+        ? 'unknown'
+        : decisive === 'fail'
+          ? 'pass'
+          : 'fail';
+    return { status, detail: outcomes.map((outcome) => outcome.detail).join('; ') };
+  }
+
+  const actual = clause?.attributes?.[condition.attribute] ?? null;
+  const expectation =
+    condition.value === undefined
+      ? condition.operator.replace('_', ' ')
+      : `${condition.operator} ${JSON.stringify(condition.value)}`;
+  const detail = `${condition.attribute} is ${formatValue(actual)}, expected ${expectation}`;
+
+  // A missing value can only satisfy the null checks; otherwise a reviewer has to look
+  if (actual === null && condition.operator !== 'is_null' && condition.operator !== 'not_null') {
+    return { status: 'unknown', detail };
+  }
+
+  return { status: compare(condition, actual) ? 'pass' : 'fail', detail };
+}
+
+function testsPresence(condition: Condition): boolean {
+  if ('present' in condition) {
+    return true;
+  }
+  if ('all' in condition) {
+    return condition.all.some(testsPresence);
+  }
+  if ('any' in condition) {
+    return condition.any.some(testsPresence);
+  }
+  return false;
+}
+
+// Evaluate every rule against the extracted clauses and compute the contract's risk score
+export function evaluatePlaybook(
+  rules: PlaybookRule[],
+  clauses: ExtractedClause[],
+): PlaybookResult {
+  const findings = rules.map((rule): PlaybookFinding => {
+    const clause = clauses.find((candidate) => candidate.type === rule.clauseType);
+    const base = {
+      ruleId: rule.id,
+      clauseType: rule.clauseType,
+      description: rule.description,
+      severity: rule.severity,
+      fallback: rule.fallback,
+    };
+
+    if ((!clause || clause.text === null) && !testsPresence(rule.condition)) {
+      return { ...base, status: 'not_applicable', detail: 'clause not found' };
+    }
+
+    return { ...base, ...evaluateCondition(rule.condition, clause) };
+  });
+
+  let total = 0;
+  let risk = 0;
+  for (const finding of findings) {
+    if (finding.status === 'not_applicable') {
+      continue;
+    }
+    const weight = SEVERITY_WEIGHTS[finding.severity];
+    total += weight;
+    if (finding.status === 'fail') {
+      risk += weight;
+    } else if (finding.status === 'unknown') {
+      risk += weight / 2;
+    }
+  }
+
+  return {
+    riskScore: total === 0 ? null : Math.round((risk / total) * 100),
+    findings,
+  };
+}
@@ -0,0 +1,189 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { AttributeType } from '../clauses/attributes';
+import { ClauseType } from '../clauses/registry';
+
+/**
+ * Negotiation playbook
+ *
+ * Rules compare the extracted clauses against the positions we accept, e.g.
+ * "termination for convenience requires at least 30 days' notice". Each rule
+ * belongs to a clause type, tests that clause's presence or its typed
+ * attributes, and carries a severity plus the fallback position a reviewer can
+ * offer when it fails. Rules live in config/playbook.json; set PLAYBOOK_PATH to
+ * use another file.
+ */
+
+export type Severity = 'low' | 'medium' | 'high' | 'critical';
+
+export const SEVERITIES: Severity[] = ['low', 'medium', 'high', 'critical'];
+
+export type Operator =
+  | 'equals'
+  | 'not_equals'
+  | 'in'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'is_true'
+  | 'is_false'
+  | 'is_null'
+  | 'not_null';
+
+export type Condition =
+  // Whether the clause was found at all
+  | { present: boolean }
+  | { attribute: string; operator: Operator; value?: string | number | (string | number)[] }
+  | { all: Condition[] }
+  | { any: Condition[] };
+
+export interface PlaybookRule {
+  // Stable identifier, stored with every finding
+  id: string;
+  clauseType: string;
+  description: string;
+  severity: Severity;
+  condition: Condition;
+  // Position to offer the counterparty when the rule fails
+  fallback: string;
+}
+
+const DEFAULT_PLAYBOOK_PATH = path.resolve(__dirname, '../../config/playbook.json');
+
+// Operators and the attribute types they apply to; null checks work on any type
+const OPERATOR_TYPES: Record<Operator, AttributeType[] | 'any'> = {
+  equals: ['string', 'number', 'boolean', 'enum'],
+  not_equals: ['string', 'number', 'boolean', 'enum'],
+  in: ['string', 'number', 'enum'],
+  gt: ['number'],
+  gte: ['number'],
+  lt: ['number'],
+  lte: ['number'],
+  is_true: ['boolean'],
+  is_false: ['boolean'],
+  is_null: 'any',
+  not_null: 'any',
+};
+
+// Operators that compare against a "value" in the rule
+const VALUE_OPERATORS: Operator[] = ['equals', 'not_equals', 'in', 'gt', 'gte', 'lt', 'lte'];
+
+let cachedRules: PlaybookRule[] | null = null;
+
+function validateCondition(condition: any, ruleId: string, clauseType: ClauseType): Condition {
+  const fail = (reason: string): never => {
+    throw new Error(`Playbook rule "${ruleId}" has an invalid condition: ${reason}`);
+  };
+
+  if (typeof condition !== 'object' || condition === null) {
+    return fail('expected an object');
+  }
+
+  if ('present' in condition) {
+    if (typeof condition.present !== 'boolean') {
+      fail('"present" must be true or false');
+    }
+    return { present: condition.present };
+  }
+
+  if ('all' in condition || 'any' in condition) {
+    const key = 'all' in condition ? 'all' : 'any';
+    if (!Array.isArray(condition[key]) || condition[key].length === 0) {
+      fail(`"${key}" must be a non-empty array of conditions`);
+    }
+    const children = condition[key].map((child: unknown) =>
+      validateCondition(child, ruleId, clauseType),
+    );
+    return key === 'all' ? { all: children } : { any: children };
+  }
+
+  const field = clauseType.attributes.find((attribute) => attribute.name === condition.attribute);
+  if (!field) {
+    return fail(`clause type "${clauseType.name}" has no attribute "${condition.attribute}"`);
+  }
+
+  const allowed = OPERATOR_TYPES[condition.operator as Operator];
+  if (!allowed) {
+    return fail(`unknown operator "${condition.operator}"`);
+  }
+  if (allowed !== 'any' && !allowed.includes(field.type)) {
+    fail(`operator "${condition.operator}" cannot be used on ${field.type} "${field.name}"`);
+  }
+
+  if (VALUE_OPERATORS.includes(condition.operator)) {
+    const values = condition.operator === 'in' ? condition.value : [condition.value];
+    const expected =
+      field.type === 'number' ? 'number' : field.type === 'boolean' ? 'boolean' : 'string';
+    if (
+      !Array.isArray(values) ||
+      values.length === 0 ||
+      !values.every((value: unknown) => typeof value === expected)
+    ) {
+      fail(
+        condition.operator === 'in'
+          ? `"value" must be a non-empty array of ${expected}s`
+          : `"value" must be a ${expected}`,
+      );
+    }
+    if (field.type === 'enum' && !values.every((value: string) => field.values!.includes(value))) {
+      fail(`"value" must be one of ${field.values!.join(', ')}`);
+    }
+  }
+
+  return { attribute: condition.attribute, operator: condition.operator, value: condition.value };
+}
+
+function validateRule(entry: any, index: number, clauseTypes: ClauseType[]): PlaybookRule {
+  for (const field of ['id', 'clauseType', 'description', 'fallback']) {
+    if (typeof entry?.[field] !== 'string' || !entry[field].trim()) {
+      throw new Error(`Playbook rule at index ${index} is missing required field "${field}"`);
+    }
+  }
+
+  if (!SEVERITIES.includes(entry.severity)) {
+    throw new Error(`Playbook rule "${entry.id}" must have a severity of ${SEVERITIES.join(', ')}`);
+  }
+
+  const clauseType = clauseTypes.find((candidate) => candidate.name === entry.clauseType);
+  if (!clauseType) {
+    throw new Error(
+      `Playbook rule "${entry.id}" refers to unknown clause type "${entry.clauseType}"`,
+    );
+  }
+
+  return {
+    id: entry.id,
+    clauseType: entry.clauseType,
+    description: entry.description,
+    severity: entry.severity,
+    condition: validateCondition(entry.condition, entry.id, clauseType),
+    fallback: entry.fallback,
+  };
+}
+
+// Load and validate the playbook against the clause registry, caching the result
+export function getPlaybookRules(clauseTypes: ClauseType[]): PlaybookRule[] {
+  if (cachedRules) {
+    return cachedRules;
+  }
+
+  const playbookPath = process.env.PLAYBOOK_PATH || DEFAULT_PLAYBOOK_PATH;
+  const raw = JSON.parse(fs.readFileSync(playbookPath, 'utf8'));
+
+  if (!Array.isArray(raw)) {
+    throw new Error(`Playbook at ${playbookPath} must be an array of rules`);
+  }
+
+  const rules = raw.map((entry, index) => validateRule(entry, index, clauseTypes));
+  const ids = new Set<string>();
+  for (const rule of rules) {
+    if (ids.has(rule.id)) {
+      throw new Error(`Duplicate playbook rule "${rule.id}" in ${playbookPath}`);
+    }
+    ids.add(rule.id);
+  }
+
+  cachedRules = rules;
+  return rules;
+}
@@ -0,0 +1,216 @@
+import { Pool } from 'pg';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { JobQueue, jobQueueOptionsFromEnv } from './job_queue';
+
+interface Query {
+  sql: string;
+  params: unknown[];
+}
+
+// Stands in for node-postgres: hands out the queued rows to claims and reports every other
+// update as applied, unless the test says the job was taken away
+class FakePool {
+  readonly queries: Query[] = [];
+  readonly queued: Record<string, unknown>[] = [];
+  ownsJob = true;
+
+  async query(sql: string, params: unknown[] = []) {
+    this.queries.push({ sql, params });
+    if (sql.includes('INSERT INTO ai_jobs')) {
+      const [type, contractId, payload, maxAttempts, , groupKey, groupConcurrency] = params;
+      return {
+        rows: [
+          {
+            ...row(0, maxAttempts as number),
+            type,
+            contract_id: contractId,
+            payload: JSON.parse(payload as string),
+            status: 'queued',
+            group_key: groupKey,
+            group_concurrency: groupConcurrency,
+          },
+        ],
+        rowCount: 1,
+      };
+    }
+    if (sql.includes("SET status = 'running'")) {
+      const row = this.queued.shift();
+      return { rows: row ? [row] : [], rowCount: row ? 1 : 0 };
+    }
+    if (sql.includes("SET status = 'queued', locked_at = NULL")) {
+      return { rows: [], rowCount: 0 };
+    }
+    return { rows: [], rowCount: this.ownsJob ? 1 : 0 };
+  }
+
+  updates(pattern: string): Query[] {
+    return this.queries.filter(({ sql }) => sql.includes(pattern));
+  }
+}
+
+const row = (attempts: number, maxAttempts = 3) => ({
+  id: 'job-1',
+  type: 'extract',
+  contract_id: 'contract-1',
+  payload: { contractId: 'contract-1' },
+  status: 'running',
+  attempts,
+  max_attempts: maxAttempts,
+  run_at: new Date(),
+  locked_at: new Date(),
+  locked_until: new Date(),
+  last_error: null,
+  created_at: new Date(),
+  updated_at: new Date(),
+  completed_at: null,
+  group_key: null,
+  group_concurrency: null,
+});
+
+const OPTIONS = {
+  concurrency: 1,
+  pollIntervalMs: 60 * 1000,
+  backoffBaseMs: 1000,
+  backoffMaxMs: 60 * 1000,
+  lockTimeoutMs: 30 * 1000,
+};
+
+describe('JobQueue', () => {
+  let pool: FakePool;
+  let queue: JobQueue;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    pool = new FakePool();
+    queue = new JobQueue(pool as unknown as Pool, OPTIONS);
+  });
+
+  afterEach(async () => {
+    await queue.stop();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('claims jobs of the registered types and locks them for the lock timeout', async () => {
+    const handler = vi.fn(async () => undefined);
+    queue.register('extract', handler);
+    pool.queued.push(row(1));
+
+    await queue.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(pool.updates("SET status = 'running'")[0].params).toEqual([['extract'], '30000']);
+    expect(handler).toHaveBeenCalledWith(
+      { contractId: 'contract-1' },
+      expect.objectContaining({ job: expect.objectContaining({ id: 'job-1', attempts: 1 }) }),
+    );
+    expect(pool.updates("SET status = 'completed'")[0].params).toEqual(['job-1', 1]);
+  });
+
+  it('stores the group of a job with it', async () => {
+    const job = await queue.enqueue(
+      'extract',
+      { contractId: 'contract-1' },
+      { contractId: 'contract-1', group: { key: 'batch-1', concurrency: 2 } },
+    );
+
+    expect(job.group).toEqual({ key: 'batch-1', concurrency: 2 });
+    expect(
+      (await queue.enqueue('extract', { contractId: 'contract-2' }, { contractId: 'contract-2' }))
+        .group,
+    ).toBeNull();
+  });
+
+  it('extends the lock while the job runs and stops once it is done', async () => {
+    let finish = () => {};
+    queue.register('extract', () => new Promise<void>((resolve) => (finish = resolve)));
+    pool.queued.push(row(1));
+
+    await queue.start();
+    await vi.advanceTimersByTimeAsync(25 * 1000);
+    expect(pool.updates('SET locked_until')).toHaveLength(2);
+
+    finish();
+    await vi.advanceTimersByTimeAsync(25 * 1000);
+    expect(pool.updates('SET locked_until')).toHaveLength(2);
+  });
+
+  it('requeues a failed attempt with backoff while attempts remain', async () => {
+    const onFailed = vi.fn(async () => undefined);
+    queue.register(
+      'extract',
+      async () => {
+        throw new Error('OCR timed out');
+      },
+      { onFailed },
+    );
+    pool.queued.push(row(2));
+
+    await queue.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    const [retry] = pool.updates("SET status = 'queued', last_error");
+    const [, , error, delayMs] = retry.params as [string, number, string, string];
+    expect(error).toContain('OCR timed out');
+    // 1000 * 2 ** (2 - 1), plus up to 20% jitter
+    expect(Number(delayMs)).toBeGreaterThanOrEqual(2000);
+    expect(Number(delayMs)).toBeLessThanOrEqual(2400);
+    expect(onFailed).not.toHaveBeenCalled();
+  });
+
+  it('fails the job and calls onFailed after the last attempt', async () => {
+    const onFailed = vi.fn(async () => undefined);
+    queue.register(
+      'extract',
+      async () => {
+        throw new Error('OCR timed out');
+      },
+      { onFailed },
+    );
+    pool.queued.push(row(3));
+
+    await queue.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(pool.updates("SET status = 'failed'")).toHaveLength(1);
+    expect(onFailed).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'job-1' }),
+      expect.any(Error),
+    );
+  });
+
+  it('leaves a job that was requeued while it ran to its new attempt', async () => {
+    const onFailed = vi.fn(async () => undefined);
+    queue.register(
+      'extract',
+      async () => {
+        throw new Error('OCR timed out');
+      },
+      { onFailed },
+    );
+    pool.queued.push(row(3));
+    pool.ownsJob = false;
+
+    await queue.start();
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(onFailed).not.toHaveBeenCalled();
+  });
+});
+
+describe('jobQueueOptionsFromEnv', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('reads the variables that are set and leaves the rest to the defaults', () => {
+    vi.stubEnv('QUEUE_CONCURRENCY', '4');
+    vi.stubEnv('QUEUE_LOCK_TIMEOUT_MS', '60000');
+    vi.stubEnv('QUEUE_MAX_ATTEMPTS', '');
+
+    expect(jobQueueOptionsFromEnv()).toEqual({ concurrency: 4, lockTimeoutMs: 60000 });
+  });
+});
@@ -0,0 +1,417 @@
+import { Pool, QueryResultRow } from 'pg';
+
+/**
+ * Durable job queue backed by Postgres
+ *
+ * Jobs are rows in the ai_jobs table. Workers claim queued jobs with
+ * FOR UPDATE SKIP LOCKED, so several service instances can share the table.
+ * Failed jobs are retried with exponential backoff until maxAttempts is reached.
+ * A claimed job is locked for lockTimeoutMs, and the worker running it keeps
+ * extending the lock; jobs whose lock runs out, because their process stopped,
+ * are put back in the queue by whichever instance polls next. Jobs may belong to
+ * a group (such as an upload batch) that limits how many of its jobs run at once,
+ * on top of the queue-wide concurrency.
+ */
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface JobGroup {
+  key: string;
+  // Most jobs of the group running at the same time
+  concurrency: number;
+}
+
+export interface Job<T = unknown> {
+  id: string;
+  type: string;
+  contractId: string | null;
+  group: JobGroup | null;
+  payload: T;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  runAt: Date;
+  lastError: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+  completedAt: Date | null;
+}
+
+export interface JobContext {
+  job: Job;
+  queue: JobQueue;
+}
+
+export type JobHandler<T = unknown> = (payload: T, context: JobContext) => Promise<void>;
+
+export interface WorkerOptions {
+  // Called once a job has used up all of its attempts
+  onFailed?: (job: Job, error: unknown) => Promise<void>;
+}
+
+export interface EnqueueOptions {
+  contractId?: string;
+  group?: JobGroup | null;
+  maxAttempts?: number;
+  delayMs?: number;
+}
+
+export interface JobQueueOptions {
+  concurrency: number;
+  pollIntervalMs: number;
+  maxAttempts: number;
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+  // How long a claimed job stays locked without a heartbeat from its worker; jobs whose lock
+  // has run out are assumed abandoned and requeued
+  lockTimeoutMs: number;
+}
+
+const DEFAULT_OPTIONS: JobQueueOptions = {
+  concurrency: 2,
+  pollIntervalMs: 1000,
+  maxAttempts: 5,
+  backoffBaseMs: 5000,
+  backoffMaxMs: 10 * 60 * 1000,
+  lockTimeoutMs: 2 * 60 * 1000,
+};
+
+const SCHEMA_SQL = `
+  CREATE TABLE IF NOT EXISTS ai_jobs (
+    id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+    type TEXT NOT NULL,
+    contract_id TEXT,
+    payload JSONB NOT NULL,
+    status TEXT NOT NULL DEFAULT 'queued',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL,
+    run_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    locked_at TIMESTAMPTZ,
+    locked_until TIMESTAMPTZ,
+    last_error TEXT,
+    created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    updated_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+    completed_at TIMESTAMPTZ
+  );
+  CREATE INDEX IF NOT EXISTS ai_jobs_claim_idx ON ai_jobs (status, run_at);
+  CREATE INDEX IF NOT EXISTS ai_jobs_contract_idx ON ai_jobs (contract_id);
+  ALTER TABLE ai_jobs ADD COLUMN IF NOT EXISTS group_key TEXT;
+  ALTER TABLE ai_jobs ADD COLUMN IF NOT EXISTS group_concurrency INTEGER;
+  CREATE INDEX IF NOT EXISTS ai_jobs_group_idx ON ai_jobs (group_key, status);
+`;
+
+// A row of ai_jobs, as node-postgres returns it
+interface JobRow extends QueryResultRow {
+  id: string;
+  type: string;
+  contract_id: string | null;
+  payload: unknown;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_at: Date;
+  locked_at: Date | null;
+  locked_until: Date | null;
+  last_error: string | null;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+  group_key: string | null;
+  group_concurrency: number | null;
+}
+
+function toJob<T = unknown>(row: JobRow): Job<T> {
+  return {
+    id: row.id,
+    type: row.type,
+    contractId: row.contract_id,
+    group:
+      row.group_key !== null && row.group_concurrency !== null
+        ? { key: row.group_key, concurrency: row.group_concurrency }
+        : null,
+    // Jobs of a type are only enqueued with that type's payload
+    payload: row.payload as T,
+    status: row.status,
+    attempts: row.attempts,
+    maxAttempts: row.max_attempts,
+    runAt: row.run_at,
+    lastError: row.last_error,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    completedAt: row.completed_at,
+  };
+}
+
+// Read queue tuning from the environment, falling back to the defaults
+export function jobQueueOptionsFromEnv(): Partial<JobQueueOptions> {
+  const read = (name: string): number | undefined => {
+    const value = process.env[name];
+    return value ? Number(value) : undefined;
+  };
+
+  const options: Partial<JobQueueOptions> = {
+    concurrency: read('QUEUE_CONCURRENCY'),
+    pollIntervalMs: read('QUEUE_POLL_INTERVAL_MS'),
+    maxAttempts: read('QUEUE_MAX_ATTEMPTS'),
+    backoffBaseMs: read('QUEUE_BACKOFF_BASE_MS'),
+    backoffMaxMs: read('QUEUE_BACKOFF_MAX_MS'),
+    lockTimeoutMs: read('QUEUE_LOCK_TIMEOUT_MS'),
+  };
+
+  return Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined),
+  ) as Partial<JobQueueOptions>;
+}
+
+export class JobQueue {
+  private readonly options: JobQueueOptions;
+  private readonly workers = new Map<string, { handler: JobHandler; options: WorkerOptions }>();
+  private readonly inFlight = new Set<Promise<void>>();
+  private timer: NodeJS.Timeout | null = null;
+  private polling = false;
+  private running = false;
+
+  constructor(
+    private readonly pool: Pool,
+    options: Partial<JobQueueOptions> = {},
+  ) {
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  register<T>(type: string, handler: JobHandler<T>, options: WorkerOptions = {}): void {
+    this.workers.set(type, { handler: handler as JobHandler, options });
+  }
+
+  async enqueue<T>(type: string, payload: T, options: EnqueueOptions = {}): Promise<Job<T>> {
+    const { rows } = await this.pool.query<JobRow>(
+      `INSERT INTO ai_jobs
+         (type, contract_id, payload, max_attempts, run_at, group_key, group_concurrency)
+       VALUES ($1, $2, $3, $4, now() + ($5 || ' milliseconds')::interval, $6, $7)
+       RETURNING *`,
+      [
+        type,
+        options.contractId ?? null,
+        JSON.stringify(payload),
+        options.maxAttempts ?? this.options.maxAttempts,
+        String(options.delayMs ?? 0),
+        options.group?.key ?? null,
+        options.group?.concurrency ?? null,
+      ],
+    );
+
+    const job = toJob<T>(rows[0]);
+    console.log(`Enqueued ${type} job ${job.id}`);
+
+    // Pick the job up straight away if we have capacity
+    this.schedulePoll(0);
+    return job;
+  }
+
+  async getJob(id: string): Promise<Job | null> {
+    const { rows } = await this.pool.query<JobRow>('SELECT * FROM ai_jobs WHERE id = $1', [id]);
+    return rows[0] ? toJob(rows[0]) : null;
+  }
+
+  async listJobsForContract(contractId: string): Promise<Job[]> {
+    const { rows } = await this.pool.query<JobRow>(
+      'SELECT * FROM ai_jobs WHERE contract_id = $1 ORDER BY created_at ASC',
+      [contractId],
+    );
+    return rows.map(toJob);
+  }
+
+  async start(): Promise<void> {
+    await this.pool.query(SCHEMA_SQL);
+
+    // Jobs interrupted by the previous shutdown are requeued once their lock runs out; those
+    // still locked may be running in another instance
+    await this.requeueStaleJobs();
+
+    this.running = true;
+    console.log(
+      `Job queue started (concurrency ${this.options.concurrency}, workers: ${Array.from(
+        this.workers.keys(),
+      ).join(', ')})`,
+    );
+    this.schedulePoll(0);
+  }
+
+  // Stop claiming new jobs and wait for the ones in flight to finish
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await Promise.allSettled(Array.from(this.inFlight));
+  }
+
+  private schedulePoll(delayMs: number): void {
+    if (!this.running) {
+      return;
+    }
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.poll().catch((error) => console.error('Job queue poll failed:', error));
+    }, delayMs);
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+
+    try {
+      await this.requeueStaleJobs();
+
+      while (this.running && this.inFlight.size < this.options.concurrency) {
+        const job = await this.claim();
+        if (!job) {
+          break;
+        }
+
+        const execution = this.execute(job)
+          // Recording the outcome can fail too, e.g. while the database is down; the lock then
+          // expires and the job is requeued
+          .catch((error) => console.error(`Job ${job.id} could not be recorded:`, error))
+          .finally(() => {
+            this.inFlight.delete(execution);
+            this.schedulePoll(0);
+          });
+        this.inFlight.add(execution);
+      }
+    } finally {
+      this.polling = false;
+      if (!this.timer) {
+        this.schedulePoll(this.options.pollIntervalMs);
+      }
+    }
+  }
+
+  private async requeueStaleJobs(): Promise<void> {
+    const { rowCount } = await this.pool.query(
+      `UPDATE ai_jobs SET status = 'queued', locked_at = NULL, locked_until = NULL, updated_at = now()
+       WHERE status = 'running' AND locked_until < now()`,
+    );
+    if (rowCount) {
+      console.warn(`Requeued ${rowCount} stale job(s)`);
+    }
+  }
+
+  // Claims are made one at a time per process, so group limits hold for a single instance
+  private async claim(): Promise<Job | null> {
+    const { rows } = await this.pool.query<JobRow>(
+      `UPDATE ai_jobs
+       SET status = 'running', attempts = attempts + 1, locked_at = now(),
+           locked_until = now() + ($2 || ' milliseconds')::interval, updated_at = now()
+       WHERE id = (
+         SELECT id FROM ai_jobs queued
+         WHERE status = 'queued' AND run_at <= now() AND type = ANY($1)
+           AND (
+             group_key IS NULL
+             OR (
+               SELECT count(*) FROM ai_jobs running
+               WHERE running.group_key = queued.group_key AND running.status = 'running'
+             ) < group_concurrency
+           )
+         ORDER BY run_at ASC
+         FOR UPDATE SKIP LOCKED
+         LIMIT 1
+       )
+       RETURNING *`,
+      [Array.from(this.workers.keys()), String(this.options.lockTimeoutMs)],
+    );
+    return rows[0] ? toJob(rows[0]) : null;
+  }
+
+  // Keep extending the job's lock while it runs, so that no other worker takes it over
+  private heartbeat(job: Job): () => void {
+    const timer = setInterval(
+      () => {
+        this.pool
+          .query(
+            `UPDATE ai_jobs SET locked_until = now() + ($3 || ' milliseconds')::interval
+             WHERE id = $1 AND status = 'running' AND attempts = $2`,
+            [job.id, job.attempts, String(this.options.lockTimeoutMs)],
+          )
+          .then(({ rowCount }) => {
+            if (!rowCount) {
+              console.warn(`Job ${job.id} lost its lock and may run again elsewhere`);
+            }
+          })
+          .catch((error) => console.error(`Heartbeat for job ${job.id} failed:`, error));
+      },
+      Math.max(Math.floor(this.options.lockTimeoutMs / 3), 1000),
+    );
+    timer.unref();
+    return () => clearInterval(timer);
+  }
+
+  // Record the outcome of this attempt, unless the job was requeued while it ran; returns
+  // whether it was recorded
+  private async finish(job: Job, set: string, values: unknown[] = []): Promise<boolean> {
+    const { rowCount } = await this.pool.query(
+      `UPDATE ai_jobs SET ${set}, locked_at = NULL, locked_until = NULL, updated_at = now()
+       WHERE id = $1 AND status = 'running' AND attempts = $2`,
+      [job.id, job.attempts, ...values],
+    );
+    if (!rowCount) {
+      console.warn(`Job ${job.id} was requeued while it ran; its outcome is not recorded`);
+    }
+    return Boolean(rowCount);
+  }
+
+  private async execute(job: Job): Promise<void> {
+    const worker = this.workers.get(job.type)!;
+    console.log(`Running ${job.type} job ${job.id} (attempt ${job.attempts}/${job.maxAttempts})`);
+
+    const stopHeartbeat = this.heartbeat(job);
+    try {
+      await worker.handler(job.payload, { job, queue: this });
+    } catch (error) {
+      stopHeartbeat();
+      const message = error instanceof Error ? error.stack || error.message : String(error);
+
+      if (job.attempts < job.maxAttempts) {
+        const delayMs = this.backoff(job.attempts);
+        console.error(`Job ${job.id} failed, retrying in ${delayMs}ms:`, message);
+        await this.finish(
+          job,
+          `status = 'queued', last_error = $3, run_at = now() + ($4 || ' milliseconds')::interval`,
+          [message, String(delayMs)],
+        );
+        return;
+      }
+
+      console.error(`Job ${job.id} failed permanently after ${job.attempts} attempt(s):`, message);
+      const recorded = await this.finish(
+        job,
+        `status = 'failed', last_error = $3, completed_at = now()`,
+        [message],
+      );
+
+      if (recorded && worker.options.onFailed) {
+        await worker.options.onFailed(job, error).catch((hookError) => {
+          console.error(`onFailed hook for job ${job.id} threw:`, hookError);
+        });
+      }
+      return;
+    }
+
+    stopHeartbeat();
+    if (await this.finish(job, `status = 'completed', last_error = NULL, completed_at = now()`)) {
+      console.log(`Job ${job.id} completed`);
+    }
+  }
+
+  private backoff(attempts: number): number {
+    const delay = this.options.backoffBaseMs * 2 ** (attempts - 1);
+    // Add up to 20% jitter so that retries from a burst of failures spread out
+    const jitter = delay * 0.2 * Math.random();
+    return Math.min(Math.round(delay + jitter), this.options.backoffMaxMs);
+  }
+}
@@ -1,376 +1,622 @@
-import { Storage } from '@google-cloud/storage';
 import * as fs from 'fs';
 import * as path from 'path';
-import axios from 'axios';
-import OpenAI from 'openai';
 import dotenv from 'dotenv';
+import { PROGRESS, progressWithin } from 'shared';
+import { checkAttributes, ClauseAttributes, describeAttributes } from '../clauses/attributes';
+import {
+  ChunkOptions,
+  DocumentChunk,
+  DocumentPage,
+  chunkDocument,
+  locatePassage,
+} from '../clauses/chunking';
+import { PageLayout, locateRegions, pageLayoutFromOcr } from '../clauses/citations';
+import { mergePassages } from '../clauses/merge';
+import { ClausePassage, ClauseType, ExtractedClause, getClauseTypes } from '../clauses/registry';
+import {
+  ContractEmbeddings,
+  budgetExceeded,
+  pauseContract,
+  progressReporter,
+  reportUsage,
+  storeContractMetadata,
+  storeDocumentText,
+  updateContractStatus,
+} from '../contracts_api';
+import { embedTexts } from '../embeddings';
+import { readOcrOutput } from '../ocr/output';
+import { OcrFileResponse } from '../ocr/types';
+import { LlmSettings, resolveLlmSettings } from '../llm';
+import { completeJson } from '../llm/json';
+import { extractMetadata } from '../metadata/extract';
+import { evaluatePlaybook } from '../playbook/evaluate';
+import { getPlaybookRules } from '../playbook/rules';
+import { getBlobStore } from '../storage';
+import { UsageMeter } from '../usage/meter';
 
 dotenv.config();
 
 /**
- * Extract knowledge from processed document JSON files in Google Storage
+ * Extract knowledge from processed document JSON files in the blob store
  *
  * This script:
- * 1. Downloads all JSON files from a specified Google Storage bucket/path
- * 2. Extracts text content from each file's OCR structure
+ * 1. Downloads all OCR JSON files under a storage key prefix
+ * 2. Extracts the text of each page from each file's OCR structure
  * 3. Concatenates all text content
- * 4. Saves the result to a local text file
- * 5. Extracts specific clauses and updates the contract status
+ * 4. Saves the result to a local text file and stores the page texts with the contract, for search
+ * 5. Splits the pages into token-sized chunks and reads the contract's parties, type, term,
+ *    value and governing law from the first and last chunks, stored with the contract
+ * 6. Extracts the registered clause types from each chunk and merges the passages found
+ * 7. Maps each passage back to its pages and bounding boxes in the PDF
+ * 8. Reads the typed attributes of each found clause, checked against its schema
+ * 9. Embeds the chunks and the found clauses for semantic search
+ * 10. Scores the clauses against the negotiation playbook
+ * 11. Reports the tokens used, then updates the contract status with the extracted clauses,
+ *     playbook findings and embeddings
  *
  * Usage:
- *   ts-node extract_knowledge.ts gs://bucket-name/path/to/files unique-id
+ *   ts-node extract_knowledge.ts unique-id output/unique-id/
  */
 
-// API endpoint for updating contract status
-const API_BASE_URL = process.env.API_BASE_URL || 'http://localhost:3000';
+// Bump whenever the passage or attribute prompts change; stored with every extracted clause
+const PROMPT_VERSION = 'extract-v3';
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+// Recorded as the model of clauses whose passages all came from the keyword fallback
+const KEYWORD_FALLBACK_MODEL = 'keywords';
 
-// Parse Google Storage URI (gs://bucket-name/path)
-function parseGsUri(uri: string): { bucket: string; path: string } {
-  if (!uri.startsWith('gs://')) {
-    throw new Error('Invalid Google Storage URI. Must start with gs://');
-  }
-
-  const parts = uri.substring(5).split('/');
-  const bucket = parts[0];
-  const path = parts.slice(1).join('/');
+const SYSTEM_PROMPT =
+  'You are a legal document analysis assistant. Extract specific clauses from contracts accurately. Reply with JSON only.';
 
-  return { bucket, path };
+interface ChunkExtraction {
+  passages: Map<string, ClausePassage[]>;
+  // Model that produced the passages, or KEYWORD_FALLBACK_MODEL
+  model: string;
 }
 
-// Extract text from the OCR JSON structure
-function extractTextFromOcrJson(jsonContent: any): string {
-  let extractedText = '';
+// Extract the text of each page from the OCR JSON structure
+function extractPagesFromOcrJson(
+  jsonContent: OcrFileResponse,
+  firstPageNumber: number,
+): DocumentPage[] {
+  const pages: DocumentPage[] = [];
 
   try {
-    // Check if responses array exists
-    if (jsonContent.responses && Array.isArray(jsonContent.responses)) {
-      // Iterate through all responses and concatenate their text content
-      for (const response of jsonContent.responses) {
-        if (response.fullTextAnnotation && response.fullTextAnnotation.text) {
-          extractedText += response.fullTextAnnotation.text + '\n\n';
-        }
-      }
-    }
-
-    // If no text was extracted using the direct method, try the detailed structure
-    if (
-      !extractedText &&
-      jsonContent.responses &&
-      jsonContent.responses[0] &&
-      jsonContent.responses[0].fullTextAnnotation &&
-      jsonContent.responses[0].fullTextAnnotation.pages
-    ) {
-      // Use the existing page/block/paragraph extraction logic as fallback
-      const pages = jsonContent.responses[0].fullTextAnnotation.pages;
-
-      // Process each page
-      for (let pageIndex = 0; pageIndex < pages.length; pageIndex++) {
-        const page = pages[pageIndex];
-
-        if (page.blocks) {
-          // Process each block in the page
-          for (const block of page.blocks) {
-            if (block.paragraphs) {
-              // Process each paragraph in the block
-              for (const paragraph of block.paragraphs) {
-                if (paragraph.words) {
-                  // Process each word in the paragraph
-                  for (const word of paragraph.words) {
-                    if (word.symbols) {
-                      // Process each symbol in the word
-                      for (const symbol of word.symbols) {
-                        extractedText += symbol.text || '';
-                      }
-                      extractedText += ' ';
-                    }
-                  }
-                }
-                extractedText += '\n';
+    // Each response in the file holds one page
+    (jsonContent.responses ?? []).forEach((response, index) => {
+      const pageNumber = response.context?.pageNumber ?? firstPageNumber + index;
+      const annotation = response.fullTextAnnotation;
+      let text = annotation?.text ?? '';
+
+      // If there is no plain text, rebuild it from the page/block/paragraph structure
+      if (!text && annotation?.pages) {
+        for (const page of annotation.pages) {
+          for (const block of page.blocks ?? []) {
+            for (const paragraph of block.paragraphs ?? []) {
+              for (const word of paragraph.words ?? []) {
+                text += (word.symbols ?? []).map((symbol) => symbol.text || '').join('') + ' ';
               }
+              text += '\n';
             }
           }
-          // Add extra newline between pages
-          extractedText += '\n\n';
         }
       }
-    }
+
+      pages.push({ pageNumber, text: text.trim() });
+    });
   } catch (error) {
     console.error('Error extracting text from OCR JSON:', error);
   }
 
-  return extractedText.trim();
+  return pages;
+}
+
+// Only the options that are set, so that the others keep their defaults
+function readChunkOptions(): Partial<ChunkOptions> {
+  const options: Partial<ChunkOptions> = {};
+  if (process.env.CHUNK_MAX_TOKENS) {
+    options.maxTokens = Number(process.env.CHUNK_MAX_TOKENS);
+  }
+  if (process.env.CHUNK_OVERLAP_TOKENS) {
+    options.overlapTokens = Number(process.env.CHUNK_OVERLAP_TOKENS);
+  }
+  return options;
+}
+
+// Run fn over items with at most `limit` calls in flight, keeping results in order
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
 }
 
-// Extract specific clauses using AI/LLM
-async function extractClausesWithAI(text: string): Promise<{
-  indemnificationText: string;
-  terminationText: string;
-}> {
-  console.log('Extracting clauses using AI...');
+// The map step replies with { "<clause type>": ["passage", ...] } for every clause type
+function checkPassagesReply(clauseTypes: ClauseType[], reply: unknown): string[] {
+  if (typeof reply !== 'object' || reply === null || Array.isArray(reply)) {
+    return ['The reply must be a JSON object'];
+  }
+
+  const record = reply as Record<string, unknown>;
+  return clauseTypes.flatMap((clauseType) => {
+    const value = record[clauseType.name];
+    if (value === undefined) {
+      return [`"${clauseType.name}" is missing; use an empty array if the clause is not present`];
+    }
+    if (!Array.isArray(value) || !value.every((text) => typeof text === 'string')) {
+      return [`"${clauseType.name}" must be an array of strings`];
+    }
+    return [];
+  });
+}
 
+// Extract the registered clause types from one chunk using AI/LLM (the map step)
+async function extractClausesFromChunk(
+  chunk: DocumentChunk,
+  chunkCount: number,
+  clauseTypes: ClauseType[],
+  settings: LlmSettings,
+  meter: UsageMeter,
+): Promise<ChunkExtraction> {
   try {
+    const clauseList = clauseTypes
+      .map(
+        (clauseType, index) =>
+          `${index + 1}. "${clauseType.name}": ${clauseType.description}. ${clauseType.instructions}`,
+      )
+      .join('\n');
+    const responseShape = clauseTypes
+      .map((clauseType) => `  "${clauseType.name}": ["exact passage", ...]`)
+      .join(',\n');
+
     // Prepare the prompt for the AI
     const prompt = `
-    Please analyze the following contract text and extract two specific clauses:
-    
-    1. Indemnification or liability clause related to data/security breaches
-    2. Termination for convenience clause
-    
-    For each clause, extract the exact text from the contract. If a clause is not found, indicate that it's not present.
-    
+    Please analyze the following contract excerpt and extract these clauses:
+
+${clauseList}
+
+    For each clause, extract the exact text from the contract. A clause may appear in several
+    separate passages (for example an IP indemnity and a data breach indemnity); list each one.
+    If a clause is not found in this excerpt, use an empty array.
+
     Format your response as JSON with the following structure:
     {
-      "indemnificationText": "extracted text or 'No indemnification clause found.'",
-      "terminationText": "extracted text or 'No termination for convenience clause found.'"
+${responseShape}
     }
-    
-    Contract text:
-    ${text.substring(0, 15000)}  // Limiting to 15000 chars to avoid token limits
+
+    Contract excerpt (part ${chunk.index + 1} of ${chunkCount}, pages ${chunk.startPage}-${chunk.endPage}):
+    ${chunk.text}
     `;
 
-    // Call the OpenAI API
-    const completion = await openai.chat.completions.create({
-      model: 'gpt-4o',
-      messages: [
-        {
-          role: 'system',
-          content:
-            'You are a legal document analysis assistant. Extract specific clauses from contracts accurately.',
-        },
+    const { value, errors, model } = await completeJson(
+      settings,
+      [
+        { role: 'system', content: SYSTEM_PROMPT },
         { role: 'user', content: prompt },
       ],
-    });
-
-    // Parse the response
-    const responseContent = completion.choices[0].message.content;
-    if (!responseContent) {
-      throw new Error('Empty response from AI service');
-    }
-
-    // Try to parse the response as JSON
-    try {
-      // First, try to find a JSON object in the response
-      const jsonMatch = responseContent.match(/\{[\s\S]*\}/);
-      let parsedResponse;
-
-      if (jsonMatch) {
-        // Try to parse the matched JSON
-        parsedResponse = JSON.parse(jsonMatch[0]);
-      } else {
-        // If no JSON object is found, try to parse the entire response
-        parsedResponse = JSON.parse(responseContent);
-      }
-
+      (reply) => checkPassagesReply(clauseTypes, reply),
+      meter,
+    );
+    if (errors.length > 0) {
+      console.warn(
+        `AI response for chunk ${chunk.index} did not match the expected format, using fallback extraction`,
+      );
       return {
-        indemnificationText:
-          parsedResponse.indemnificationText || 'No indemnification clause found.',
-        terminationText:
-          parsedResponse.terminationText || 'No termination for convenience clause found.',
+        passages: extractClausesWithKeywords(chunk, clauseTypes),
+        model: KEYWORD_FALLBACK_MODEL,
       };
-    } catch (parseError) {
-      console.warn('Failed to parse AI response as JSON, using fallback extraction');
-      console.log('AI response:', responseContent);
-
-      // Fallback to keyword-based extraction
-      return extractClausesWithKeywords(text);
     }
+
+    const reply = value as Record<string, string[]>;
+    const passages = new Map(
+      clauseTypes.map((clauseType) => {
+        const passages = reply[clauseType.name]
+          .map((text) => text.trim())
+          .filter((text) => text.length > 0)
+          .map((text) => {
+            const location = locatePassage(chunk, text);
+            return {
+              text,
+              chunkIndex: chunk.index,
+              pageStart: location?.pageStart ?? null,
+              pageEnd: location?.pageEnd ?? null,
+              regions: [],
+            };
+          });
+        return [clauseType.name, passages];
+      }),
+    );
+    return { passages, model };
   } catch (error) {
-    console.error('Error using AI to extract clauses:', error);
+    console.error(`Error using AI to extract clauses from chunk ${chunk.index}:`, error);
 
     // Fallback to keyword-based extraction
     console.log('Falling back to keyword-based extraction');
-    return extractClausesWithKeywords(text);
+    return {
+      passages: extractClausesWithKeywords(chunk, clauseTypes),
+      model: KEYWORD_FALLBACK_MODEL,
+    };
   }
 }
 
-// Keyword-based clause extraction as fallback
-function extractClausesWithKeywords(text: string): {
-  indemnificationText: string;
-  terminationText: string;
-} {
-  let indemnificationText = '';
-  let terminationText = '';
-
-  // Split text into paragraphs for analysis
-  const paragraphs = text.split('\n\n');
-
-  for (const paragraph of paragraphs) {
-    const lowerParagraph = paragraph.toLowerCase();
-
-    // Check for indemnification/liability clauses
-    if (
-      lowerParagraph.includes('indemnif') ||
-      lowerParagraph.includes('liability') ||
-      lowerParagraph.includes('data breach') ||
-      lowerParagraph.includes('security breach')
-    ) {
-      indemnificationText += paragraph + '\n\n';
-    }
+// Attach the PDF regions of each passage, filling in pages the chunker could not determine
+function citePassages(passages: ClausePassage[], layouts: PageLayout[]): ClausePassage[] {
+  return passages.map((passage) => {
+    const regions = locateRegions(passage.text, layouts, passage.pageStart, passage.pageEnd);
+    const regionPages = regions.map((region) => region.pageNumber);
+    return {
+      ...passage,
+      pageStart: passage.pageStart ?? (regions.length > 0 ? Math.min(...regionPages) : null),
+      pageEnd: passage.pageEnd ?? (regions.length > 0 ? Math.max(...regionPages) : null),
+      regions,
+    };
+  });
+}
 
-    // Check for termination clauses
-    if (
-      lowerParagraph.includes('terminat') &&
-      (lowerParagraph.includes('convenience') || lowerParagraph.includes('at will'))
-    ) {
-      terminationText += paragraph + '\n\n';
-    }
+// Read the typed attributes of a found clause from its merged text
+async function extractAttributes(
+  clauseType: ClauseType,
+  text: string,
+  settings: LlmSettings,
+  meter: UsageMeter,
+): Promise<ClauseAttributes | null> {
+  if (clauseType.attributes.length === 0) {
+    return null;
   }
 
-  return {
-    indemnificationText: indemnificationText.trim() || 'No indemnification clause found.',
-    terminationText: terminationText.trim() || 'No termination for convenience clause found.',
-  };
-}
+  const prompt = `
+    The following text is the ${clauseType.label} clause of a contract.
+    ${clauseType.description}.
+
+    Fill in these fields from the clause text. Use null for anything the clause does not state;
+    do not guess.
+
+    Format your response as JSON with the following structure:
+${describeAttributes(clauseType.attributes)}
+
+    Clause text:
+    ${text}
+    `;
 
-// Update contract status and clauses via API
-async function updateContractStatus(
-  contractId: string,
-  status: string,
-  clauses?: {
-    indemnificationText?: string;
-    terminationText?: string;
-  },
-): Promise<void> {
   try {
-    console.log(`Updating contract ${contractId} status to: ${status}`);
+    const { value, errors } = await completeJson(
+      settings,
+      [
+        { role: 'system', content: SYSTEM_PROMPT },
+        { role: 'user', content: prompt },
+      ],
+      (reply) => checkAttributes(clauseType.attributes, reply).errors,
+      meter,
+    );
+    const { attributes } = checkAttributes(clauseType.attributes, value);
+    if (errors.length > 0) {
+      console.warn(`Keeping the valid ${clauseType.name} attributes; invalid fields set to null`);
+    }
+    return attributes;
+  } catch (error) {
+    console.error(`Error using AI to extract ${clauseType.name} attributes:`, error);
+    return null;
+  }
+}
 
-    const payload: any = { status };
+// Extract the registered clause types chunk by chunk and merge the results (map-reduce),
+// reporting progress as each chunk is searched and each clause type is finished
+async function extractClausesWithAI(
+  chunks: DocumentChunk[],
+  layouts: PageLayout[],
+  clauseTypes: ClauseType[],
+  report: (progress: number, stage: string) => Promise<void>,
+  meter: UsageMeter,
+): Promise<ExtractedClause[]> {
+  console.log(
+    `Extracting clauses using AI from ${chunks.length} chunk(s): ${chunks
+      .map((chunk) => `${chunk.tokenCount} tokens, pages ${chunk.startPage}-${chunk.endPage}`)
+      .join('; ')}`,
+  );
+
+  // Clause types that share provider, model and temperature are extracted in one call per chunk
+  const groups = new Map<string, { settings: LlmSettings; clauseTypes: ClauseType[] }>();
+  for (const clauseType of clauseTypes) {
+    const settings = resolveLlmSettings(clauseType.llm);
+    const key = JSON.stringify(settings);
+    if (!groups.has(key)) {
+      groups.set(key, { settings, clauseTypes: [] });
+    }
+    groups.get(key)!.clauseTypes.push(clauseType);
+  }
 
-    // Add clauses to payload if provided
-    if (clauses) {
-      if (clauses.indemnificationText) {
-        payload.indemnificationText = clauses.indemnificationText;
-      }
-      if (clauses.terminationText) {
-        payload.terminationText = clauses.terminationText;
+  const concurrency = Number(process.env.CHUNK_CONCURRENCY || 3);
+  const tasks = chunks.flatMap((chunk) =>
+    Array.from(groups.values(), (group) => ({ chunk, group })),
+  );
+  const steps = tasks.length + clauseTypes.length;
+  let done = 0;
+  let searched = 0;
+  const step = (stage: string) =>
+    report(progressWithin(PROGRESS.extraction, PROGRESS.scoring, ++done, steps), stage);
+
+  const chunkResults = await mapWithConcurrency(tasks, concurrency, async ({ chunk, group }) => {
+    const result = await extractClausesFromChunk(
+      chunk,
+      chunks.length,
+      group.clauseTypes,
+      group.settings,
+      meter,
+    );
+    await step(`Searched ${++searched} of ${tasks.length} chunks`);
+    return result;
+  });
+
+  // Reduce: merge each clause type's passages, then read its attributes from the merged text
+  return mapWithConcurrency(clauseTypes, concurrency, async (clauseType) => {
+    const results = chunkResults.filter((result) => result.passages.has(clauseType.name));
+    const passages = citePassages(
+      mergePassages(results.flatMap((result) => result.passages.get(clauseType.name)!)),
+      layouts,
+    );
+    const models = [...new Set(results.map((result) => result.model))].sort();
+    const text = passages.length > 0 ? passages.map((passage) => passage.text).join('\n\n') : null;
+    const starts = passages.flatMap((passage) => passage.pageStart ?? []);
+    const ends = passages.flatMap((passage) => passage.pageEnd ?? []);
+    const clause: ExtractedClause = {
+      type: clauseType.name,
+      label: clauseType.label,
+      text,
+      pageStart: starts.length > 0 ? Math.min(...starts) : null,
+      pageEnd: ends.length > 0 ? Math.max(...ends) : null,
+      passages,
+      attributes:
+        text === null
+          ? null
+          : await extractAttributes(clauseType, text, resolveLlmSettings(clauseType.llm), meter),
+      model: models.join(', '),
+      promptVersion: PROMPT_VERSION,
+    };
+    await step(`Extracted ${clauseType.label}`);
+    return clause;
+  });
+}
+
+// Keyword-based clause extraction as fallback, section by section
+function extractClausesWithKeywords(
+  chunk: DocumentChunk,
+  clauseTypes: ClauseType[],
+): Map<string, ClausePassage[]> {
+  const matches = new Map<string, ClausePassage[]>(
+    clauseTypes.map((clauseType) => [clauseType.name, []]),
+  );
+
+  for (const unit of chunk.units) {
+    const lowerParagraph = unit.text.toLowerCase();
+
+    for (const clauseType of clauseTypes) {
+      const hasKeyword = clauseType.keywords.some((keyword) => lowerParagraph.includes(keyword));
+      const hasAnchor =
+        !clauseType.anchors || clauseType.anchors.some((anchor) => lowerParagraph.includes(anchor));
+
+      if (hasKeyword && hasAnchor) {
+        matches.get(clauseType.name)!.push({
+          text: unit.text,
+          chunkIndex: chunk.index,
+          pageStart: unit.pageNumber,
+          pageEnd: unit.pageNumber,
+          regions: [],
+        });
       }
     }
+  }
 
-    const response = await axios.put(`${API_BASE_URL}/api/contracts/${contractId}`, payload);
-    console.log(`Status update successful: ${response.status}`);
-  } catch (error) {
-    console.error(
-      `Failed to update contract status: ${error instanceof Error ? error.message : String(error)}`,
+  return matches;
+}
+
+// Embed the chunks and the found clauses; extraction does not depend on semantic search, so
+// failures are logged and the contract completes without embeddings
+async function embedForSearch(
+  chunks: DocumentChunk[],
+  clauses: ExtractedClause[],
+  meter: UsageMeter,
+): Promise<ContractEmbeddings | undefined> {
+  const found = clauses.filter((clause) => clause.text !== null);
+  try {
+    const result = await embedTexts(
+      [...chunks.map((chunk) => chunk.text), ...found.map((clause) => clause.text!)],
+      meter,
+    );
+    if (!result) {
+      return undefined;
+    }
+    console.log(
+      `Embedded ${chunks.length} chunks and ${found.length} clauses with ${result.model}`,
     );
-    // We don't want to throw here as this is a secondary operation
+    return {
+      model: result.model,
+      chunks: chunks.map((chunk, index) => ({
+        chunkIndex: chunk.index,
+        text: chunk.text,
+        pageStart: chunk.startPage,
+        pageEnd: chunk.endPage,
+        embedding: result.vectors[index],
+      })),
+      clauses: found.map((clause, index) => ({
+        type: clause.type,
+        embedding: result.vectors[chunks.length + index],
+      })),
+    };
+  } catch (error) {
+    console.error('Error embedding the document for semantic search:', error);
+    return undefined;
+  }
+}
+
+// Record the usage so far, then check that the workspace may spend more before the next model
+// stage; if it may not, the contract is paused and extraction stops there
+async function withinBudget(id: string, meter: UsageMeter): Promise<boolean> {
+  await reportUsage(id, 'extracting', meter.take());
+  if (!(await budgetExceeded(id))) {
+    return true;
   }
+  await pauseContract(id);
+  return false;
 }
 
-async function extractKnowledge(gsUri: string, id: string) {
+// Errors are thrown so that the job queue can retry; the caller marks the contract as failed
+async function extractKnowledge(ocrPrefix: string, id: string) {
+  const meter = new UsageMeter();
   try {
-    // Update status to 'extracting' when starting
-    await updateContractStatus(id, 'extracting');
+    await runExtraction(ocrPrefix, id, meter);
+  } finally {
+    // Whatever this attempt used, even if it failed or paused; nothing is left after completion
+    await reportUsage(id, 'extracting', meter.take());
+  }
+}
 
-    // Parse the Google Storage URI
-    const { bucket: bucketName, path: sourcePath } = parseGsUri(gsUri);
+async function runExtraction(ocrPrefix: string, id: string, meter: UsageMeter) {
+  // Update status to 'extracting' when starting
+  const report = progressReporter(id, 'extracting');
+  await report(PROGRESS.textAssembled, 'Assembling the document text');
 
-    // Set output file path using the provided ID
-    const outputFilePath = path.resolve(__dirname, `../../data/extracted_knowledge_${id}.txt`);
+  // Each contract's reference files go in a directory of their own, so that jobs running side
+  // by side leave each other's files alone
+  const outputDir = path.resolve(__dirname, `../../data/${id}`);
+  const outputFilePath = path.join(outputDir, 'extracted_knowledge.txt');
 
-    console.log(`Starting knowledge extraction from ${gsUri}`);
+  console.log(`Starting knowledge extraction from ${ocrPrefix}`);
 
-    // Initialize Google Cloud Storage
-    const storage = new Storage();
+  // Download and parse the OCR JSON files, in page order
+  const files = await readOcrOutput(getBlobStore(), ocrPrefix);
 
-    // List all files in the bucket with the specified prefix
-    const [files] = await storage.bucket(bucketName).getFiles({
-      prefix: sourcePath,
-    });
+  console.log(`Found ${files.length} files to process`);
 
-    console.log(`Found ${files.length} files to process`);
+  // Extract the page texts and word boxes from all JSON files
+  const pages: DocumentPage[] = [];
+  const layouts: PageLayout[] = [];
 
-    // Extract and concatenate text from all JSON files
-    let combinedText = '';
+  for (const file of files) {
+    console.log(`Processing file: ${file.name}`);
 
-    for (const file of files) {
-      if (!file.name.endsWith('.json')) {
-        console.log(`Skipping non-JSON file: ${file.name}`);
-        continue;
-      }
+    // Extract text from the OCR JSON structure
+    const filePages = extractPagesFromOcrJson(file.content, pages.length + 1);
+
+    if (filePages.some((page) => page.text)) {
+      pages.push(...filePages);
+      layouts.push(
+        ...(file.content.responses ?? []).map((response, index) =>
+          pageLayoutFromOcr(response, filePages[index].pageNumber),
+        ),
+      );
+    } else {
+      console.warn(`No text content could be extracted from ${file.name}`);
+    }
+  }
 
-      console.log(`Processing file: ${file.name}`);
+  const combinedText = pages.map((page) => page.text).join('\n\n');
 
-      // Download file content
-      const [content] = await file.download();
+  // Start from an empty directory, dropping the files of an earlier run for this contract
+  fs.rmSync(outputDir, { recursive: true, force: true });
+  fs.mkdirSync(outputDir, { recursive: true });
 
-      try {
-        // Parse JSON content
-        const jsonContent = JSON.parse(content.toString());
+  // Write the combined text to the output file
+  fs.writeFileSync(outputFilePath, combinedText);
 
-        // Extract text from the OCR JSON structure
-        const extractedText = extractTextFromOcrJson(jsonContent);
+  console.log(`Knowledge extraction complete. Output saved to: ${outputFilePath}`);
+  console.log(`Total extracted text length: ${combinedText.length} characters`);
 
-        if (extractedText) {
-          combinedText += extractedText + '\n\n';
-        } else {
-          console.warn(`No text content could be extracted from ${file.name}`);
-        }
-      } catch (parseError) {
-        console.error(`Error parsing JSON from ${file.name}:`, parseError);
-      }
-    }
+  await storeDocumentText(id, pages);
 
-    // Ensure the output directory exists
-    const outputDir = path.dirname(outputFilePath);
-    if (!fs.existsSync(outputDir)) {
-      fs.mkdirSync(outputDir, { recursive: true });
-    } else {
-      // Clear existing files in the directory
-      const files = fs.readdirSync(outputDir);
-      for (const file of files) {
-        fs.unlinkSync(path.join(outputDir, file));
-      }
-    }
+  await report(PROGRESS.extraction, `Text assembled from ${pages.length} pages`);
 
-    // Write the combined text to the output file
-    fs.writeFileSync(outputFilePath, combinedText);
-
-    console.log(`Knowledge extraction complete. Output saved to: ${outputFilePath}`);
-    console.log(`Total extracted text length: ${combinedText.length} characters`);
-
-    // Extract specific clauses using AI
-    console.log('Extracting specific clauses from document...');
-    const clauses = await extractClausesWithAI(combinedText);
-
-    // Log the extracted clauses
-    console.log('\n=== EXTRACTED CLAUSES ===');
-    console.log('Indemnification Clause:');
-    console.log('------------------------');
-    console.log(clauses.indemnificationText);
-    console.log('\nTermination Clause:');
-    console.log('------------------');
-    console.log(clauses.terminationText);
-    console.log('========================\n');
-
-    // Save clauses to separate files for reference
-    const indemnificationTextPath = path.resolve(
-      __dirname,
-      `../../data/indemnification_clause_${id}.txt`,
-    );
-    const terminationTextPath = path.resolve(__dirname, `../../data/termination_clause_${id}.txt`);
+  const chunks = chunkDocument(pages, readChunkOptions());
 
-    fs.writeFileSync(indemnificationTextPath, clauses.indemnificationText);
-    fs.writeFileSync(terminationTextPath, clauses.terminationText);
+  // Read the parties, dates, value and governing law
+  if (!(await withinBudget(id, meter))) {
+    return;
+  }
+  await report(PROGRESS.extraction, 'Reading the parties, term and value');
+  const metadata = await extractMetadata(chunks, resolveLlmSettings(), meter);
+  if (metadata) {
+    console.log('Metadata:', JSON.stringify(metadata));
+    await storeContractMetadata(id, metadata);
+  }
 
-    console.log(`Clauses extracted and saved to:
-- ${indemnificationTextPath}
-- ${terminationTextPath}`);
+  // Extract the registered clause types using AI
+  if (!(await withinBudget(id, meter))) {
+    return;
+  }
+  const clauseTypes = getClauseTypes();
+  console.log(
+    `Extracting ${clauseTypes.length} clause types from document: ${clauseTypes
+      .map((clauseType) => clauseType.name)
+      .join(', ')}`,
+  );
+  const clauses = await extractClausesWithAI(chunks, layouts, clauseTypes, report, meter);
+
+  // Log the extracted clauses and save them to separate files for reference
+  console.log('\n=== EXTRACTED CLAUSES ===');
+  const clauseFilePaths: string[] = [];
+  for (const clause of clauses) {
+    console.log(`${clause.label}:`);
+    console.log('-'.repeat(clause.label.length + 1));
+    if (clause.passages.length === 0) {
+      console.log(`No ${clause.label.toLowerCase()} clause found.`);
+    }
+    for (const passage of clause.passages) {
+      const pages =
+        passage.pageStart === null
+          ? 'page unknown'
+          : `pages ${passage.pageStart}-${passage.pageEnd}`;
+      console.log(`[chunk ${passage.chunkIndex}, ${pages}] ${passage.text}`);
+    }
+    if (clause.attributes) {
+      console.log('Attributes:', JSON.stringify(clause.attributes));
+    }
+    console.log('');
 
-    // Update status to 'completed' when finished successfully and include the clauses
-    await updateContractStatus(id, 'completed', clauses);
-  } catch (error) {
-    console.error('Error during knowledge extraction:', error);
+    if (clause.text) {
+      const clauseFilePath = path.join(outputDir, `${clause.type}_clause.txt`);
+      fs.writeFileSync(clauseFilePath, clause.text);
+      clauseFilePaths.push(clauseFilePath);
+    }
+  }
+  console.log('========================\n');
 
-    // Update status to 'failed' when an error occurs
-    await updateContractStatus(id, 'failed');
+  if (clauseFilePaths.length > 0) {
+    console.log(
+      `Clauses extracted and saved to:\n${clauseFilePaths.map((p) => `- ${p}`).join('\n')}`,
+    );
+  }
 
-    process.exit(1);
+  if (!(await withinBudget(id, meter))) {
+    return;
+  }
+  await report(PROGRESS.scoring, 'Indexing for semantic search');
+  const embeddings = await embedForSearch(chunks, clauses, meter);
+
+  // Score the clauses against the negotiation playbook
+  await report(PROGRESS.scoring, 'Scoring against the playbook');
+  const playbook = evaluatePlaybook(getPlaybookRules(clauseTypes), clauses);
+  console.log(`Risk score: ${playbook.riskScore ?? 'n/a'}`);
+  for (const finding of playbook.findings.filter((finding) => finding.status !== 'pass')) {
+    console.log(
+      `[${finding.severity}] ${finding.status}: ${finding.description} (${finding.detail})`,
+    );
   }
+
+  // Recorded before completion, as a completed contract takes no more updates
+  await reportUsage(id, 'extracting', meter.take());
+
+  // Update status to 'completed' when finished successfully and include the clauses and findings
+  await updateContractStatus(id, 'completed', clauses, playbook, embeddings);
 }
 
 // Execute the function if this script is run directly
@@ -378,15 +624,18 @@ if (require.main === module) {
   const args = process.argv.slice(2);
 
   if (args.length < 2) {
-    console.error('Usage: ts-node extract_knowledge.ts unique-id gs://bucket-name/path/to/files');
+    console.error('Usage: ts-node extract_knowledge.ts unique-id output/unique-id/');
     process.exit(1);
   }
 
   const id = args[0];
-  const gsUri = args[1];
+  const ocrPrefix = args[1];
+
+  extractKnowledge(ocrPrefix, id).catch(async (error) => {
+    console.error('Error during knowledge extraction:', error);
 
-  extractKnowledge(gsUri, id).catch((error) => {
-    console.error('Unhandled error:', error);
+    // Update status to 'failed'; the script exits with an error even if that fails
+    await updateContractStatus(id, 'failed').catch(() => undefined);
     process.exit(1);
   });
 }
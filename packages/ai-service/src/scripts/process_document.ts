@@ -1,154 +1,98 @@
-import * as fs from 'fs';
-import * as path from 'path';
-import { ImageAnnotatorClient, protos } from '@google-cloud/vision';
-import axios from 'axios';
-import { spawn } from 'child_process';
-
-// Look for directories in the workspace root
-const workspaceRoot = path.resolve(process.cwd(), '../../..');
-const inputDir = path.join(workspaceRoot, 'in');
-const outputDir = path.join(workspaceRoot, 'out');
-
-// API endpoint for updating contract status
-const API_BASE_URL = process.env.API_BASE_URL || 'http://localhost:3000';
+import dotenv from 'dotenv';
+import { PROGRESS, progressWithin } from 'shared';
+import { progressReporter, reportUsage, updateContractStatus } from '../contracts_api';
+import { ingestDocument } from '../documents/ingest';
+import { createOcrProvider } from '../ocr';
+import { ocrOutputPrefix } from '../ocr/output';
+import { getBlobStore } from '../storage';
+import { UsageMeter } from '../usage/meter';
+import { extractKnowledge } from './extract_knowledge';
+
+dotenv.config();
+
+/**
+ * Read the text of the uploaded document, running OCR over its scanned pages, and
+ * return the key prefix holding the OCR JSON output.
+ * Errors are thrown so that the job queue can retry; the caller decides when the
+ * contract has failed for good.
+ */
+async function processDocument(id: string, documentKey: string): Promise<string> {
+  // Update status to PROCESSING before starting any processing
+  const report = progressReporter(id, 'processing');
+  await report(PROGRESS.ocr, 'Reading the document text');
+
+  const store = getBlobStore();
+  const provider = createOcrProvider(store);
+  const outputPrefix = ocrOutputPrefix(id);
+  console.log(
+    `Processing file ${documentKey}; scanned pages go to the ${provider.name} OCR provider`,
+  );
+
+  // Clear the output of an earlier run, so a reprocessed document cannot mix old and new pages
+  for (const blob of await store.list(outputPrefix)) {
+    await store.delete(blob.key);
+  }
 
-console.log('Workspace root:', workspaceRoot);
-console.log('Input directory:', inputDir);
-console.log('Output directory:', outputDir);
+  let lastProgress: number = PROGRESS.ocr;
+
+  const { documentType, pageCount, ocrPages } = await ingestDocument(store, provider, {
+    contractId: id,
+    sourceKey: documentKey,
+    outputPrefix,
+    onProgress: async (pagesDone, pageCount) => {
+      const progress = progressWithin(PROGRESS.ocr, PROGRESS.textAssembled, pagesDone, pageCount);
+      // Long documents would otherwise send an update for every page
+      if (progress !== lastProgress) {
+        lastProgress = progress;
+        await report(progress, `Text read from ${pagesDone} of ${pageCount} pages`);
+      }
+    },
+  });
 
-async function updateContractStatus(contractId: string, status: string): Promise<void> {
-  try {
-    console.log(`Updating contract ${contractId} status to: ${status}`);
-    const response = await axios.put(`${API_BASE_URL}/api/contracts/${contractId}`, {
-      status: status,
-    });
-    console.log(`Status update successful: ${response.status}`);
-  } catch (error) {
-    console.error(
-      `Failed to update contract status: ${error instanceof Error ? error.message : String(error)}`,
-    );
-    // We don't want to throw here as this is a secondary operation
+  // Only the pages sent to the OCR provider are billed
+  if (ocrPages.length > 0) {
+    const meter = new UsageMeter();
+    meter.add('ocr', provider.name, null, { pages: ocrPages.length });
+    await reportUsage(id, 'processing', meter.take());
   }
-}
 
-async function extractTextFromPDF(gcsUri: string, contractId: string): Promise<string> {
-  console.log('Starting OCR process for:', gcsUri);
-
-  // Initialize Vision client
-  console.log('Initializing Vision client...');
-  const client = new ImageAnnotatorClient();
-
-  // Set up the request for async document text detection
-  const BUCKET_NAME = process.env.GCS_BUCKET_NAME || 'fb_dioptra_process';
-  const gcsOutputUri = `gs://${BUCKET_NAME}/output/${contractId}/`;
-  console.log(`Will write results to: ${gcsOutputUri}`);
-
-  const request: protos.google.cloud.vision.v1.IAsyncBatchAnnotateFilesRequest = {
-    requests: [
-      {
-        inputConfig: {
-          gcsSource: {
-            uri: gcsUri,
-          },
-          mimeType: 'application/pdf',
-        },
-        features: [
-          {
-            type: 'DOCUMENT_TEXT_DETECTION' as unknown as protos.google.cloud.vision.v1.Feature.Type.DOCUMENT_TEXT_DETECTION,
-          },
-        ],
-        outputConfig: {
-          gcsDestination: {
-            uri: gcsOutputUri,
-          },
-          batchSize: 50,
-        },
-      },
-    ],
-  };
-
-  console.log('Sending request to Google Vision API...');
-  const [operation] = await client.asyncBatchAnnotateFiles(request);
-  console.log('Waiting for operation to complete...');
-
-  const [filesResponse] = await operation.promise();
-  console.log('Operation completed');
-
-  // The actual text content is now stored in the GCS bucket
-  // We'll return a message with the location
-  return `Text extraction complete. Results stored in: ${gcsOutputUri}`;
-}
+  // Show success message with the result information
+  console.log(
+    `✅ Text of the ${documentType.toUpperCase()} read (${ocrPages.length} of ${pageCount} pages by OCR) and stored in: ${outputPrefix}`,
+  );
+  console.log(`   Document ID: ${id}`);
 
-// Function to run the extract_knowledge script
-async function runExtractKnowledge(id: string, gcsUri: string): Promise<void> {
-  return new Promise((resolve, reject) => {
-    console.log(`Starting knowledge extraction for contract ${id}...`);
-
-    // Path to the extract_knowledge.ts script
-    const scriptPath = path.join(__dirname, 'extract_knowledge.ts');
-
-    // Spawn a new process to run the script
-    const extractProcess = spawn('npx', ['ts-node', scriptPath, id, gcsUri]);
-
-    // Capture and log stdout
-    extractProcess.stdout.on('data', (data) => {
-      console.log(`[Extract] ${data.toString().trim()}`);
-    });
-
-    // Capture and log stderr
-    extractProcess.stderr.on('data', (data) => {
-      console.error(`[Extract Error] ${data.toString().trim()}`);
-    });
-
-    // Handle process completion
-    extractProcess.on('close', (code) => {
-      if (code === 0) {
-        console.log(`Knowledge extraction completed successfully for contract ${id}`);
-        resolve();
-      } else {
-        const error = new Error(`Knowledge extraction failed with code ${code}`);
-        console.error(error.message);
-        reject(error);
-      }
-    });
-  });
+  return outputPrefix;
 }
 
+// Run OCR and extraction in-process when invoked directly, bypassing the job queue
 async function main() {
-  const [, , id, gcsUri] = process.argv;
+  const [, , id, documentKey] = process.argv;
 
-  console.log('Command arguments:', { id, gcsUri });
+  console.log('Command arguments:', { id, documentKey });
 
-  if (!id || !gcsUri) {
-    console.error('Usage: ts-node process_document.ts <id> <gcsUri>');
+  if (!id || !documentKey) {
+    console.error('Usage: ts-node process_document.ts <id> <documentKey>');
     process.exit(1);
   }
 
   try {
-    // Update status to PENDING before starting any processing
-    await updateContractStatus(id, 'processing');
-
-    console.log(`Processing file from GCS: ${gcsUri}`);
-    const resultMessage = await extractTextFromPDF(gcsUri, id);
-
-    // Show success message with the result information
-    console.log(`✅ OCR complete. ${resultMessage}`);
-    console.log(`   Document ID: ${id}`);
-
-    // After OCR is complete, run the knowledge extraction
-    const BUCKET_NAME = process.env.GCS_BUCKET_NAME || 'fb_dioptra_process';
-    const outputGcsUri = `gs://${BUCKET_NAME}/output/${id}/`;
-    await runExtractKnowledge(id, outputGcsUri);
+    const outputPrefix = await processDocument(id, documentKey);
+    await extractKnowledge(outputPrefix, id);
   } catch (err) {
     console.error('❌ Error during processing:', err);
     console.error('Error details:', err instanceof Error ? err.stack : String(err));
 
-    // Update status to FAILED on error
-    await updateContractStatus(id, 'failed');
+    // Update status to FAILED on error; the script exits with an error even if that fails
+    await updateContractStatus(id, 'failed').catch(() => undefined);
+    process.exit(1);
   }
 }
 
-console.log('Script started');
-main().catch((err) => {
-  console.error('Unhandled error in main:', err);
-});
+if (require.main === module) {
+  main().catch((err) => {
+    console.error('Unhandled error in main:', err);
+  });
+}
+
+export { processDocument };
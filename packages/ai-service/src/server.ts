@@ -1,8 +1,20 @@
 import express from 'express';
 import cors from 'cors';
-import { exec } from 'child_process';
-import path from 'path';
 import dotenv from 'dotenv';
+import { getPool } from './db';
+import { embedTexts } from './embeddings';
+import { ocrOutputPrefix } from './ocr/output';
+import { JobGroup, JobQueue, jobQueueOptionsFromEnv } from './queue/job_queue';
+import { keepRawBody, requireSignature } from './signing';
+import { getBlobStore } from './storage';
+import { UsageMeter } from './usage/meter';
+import {
+  EXTRACT_KNOWLEDGE_JOB,
+  ExtractKnowledgePayload,
+  PROCESS_DOCUMENT_JOB,
+  ProcessDocumentPayload,
+  registerWorkers,
+} from './workers';
 
 // Load environment variables from .env file
 dotenv.config();
@@ -10,68 +22,249 @@ dotenv.config();
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+// Durable job queue running the OCR and extraction workers in-process
+const queue = new JobQueue(getPool(), jobQueueOptionsFromEnv());
+registerWorkers(queue);
+
 // Middleware
 app.use(cors());
-app.use(express.json());
+app.use(express.json({ verify: keepRawBody }));
+
+// Upload batch a document belongs to; the jobs of a batch share its concurrency limit
+interface BatchInfo {
+  id: string;
+  concurrency: number;
+}
+
+function isBatchInfo(value: unknown): value is BatchInfo {
+  const batch = value as BatchInfo;
+  return (
+    typeof batch?.id === 'string' && Number.isInteger(batch.concurrency) && batch.concurrency > 0
+  );
+}
 
-// POST /process_document endpoint
-app.post('/process_document', async (req, res) => {
+function batchJobGroup(batch: BatchInfo | undefined): JobGroup | null {
+  return batch ? { key: `batch:${batch.id}`, concurrency: batch.concurrency } : null;
+}
+
+// POST /process_document endpoint - only accepts requests signed by the contracts API
+app.post('/process_document', requireSignature, async (req, res) => {
   try {
-    const { id, filename } = req.body;
+    const { id, key, batch } = req.body;
 
     // Validate input
-    if (!id || !filename) {
+    if (!id || !key) {
       return res.status(400).json({
         error: 'Missing required fields',
-        details: 'Both id and filename are required',
+        details: 'Both id and key are required',
+      });
+    }
+
+    if (typeof id !== 'string' || typeof key !== 'string') {
+      return res.status(400).json({
+        error: 'Invalid fields',
+        details: 'id and key must be strings',
+      });
+    }
+
+    if (batch !== undefined && !isBatchInfo(batch)) {
+      return res.status(400).json({
+        error: 'Invalid fields',
+        details: 'batch must be { id, concurrency } with a positive integer concurrency',
       });
     }
 
     // Log the request
-    console.log(`Received document processing request for id: ${id}, filename: ${filename}`);
+    console.log(`Received document processing request for id: ${id}, key: ${key}`);
+
+    // Persist the job before responding so that it survives a restart
+    const job = await queue.enqueue<ProcessDocumentPayload>(
+      PROCESS_DOCUMENT_JOB,
+      { contractId: id, documentKey: key },
+      { contractId: id, group: batchJobGroup(batch) },
+    );
 
-    // Respond immediately with 200
-    res.status(200).json({
+    return res.status(200).json({
       success: true,
-      message: 'Document processing request received and processing started',
+      message: 'Document processing request received and queued',
       data: {
         id,
-        filename,
+        key,
+        jobId: job.id,
         timestamp: new Date().toISOString(),
       },
     });
+  } catch (error) {
+    console.error('Document processing error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to process document request',
+    });
+  }
+});
 
-    // After responding, kick off the processing script asynchronously
-    const scriptPath = path.join(__dirname, 'scripts', 'process_document.ts');
+// POST /extract_document endpoint - runs extraction again on the OCR output stored for a
+// contract, e.g. after a prompt change; only accepts requests signed by the contracts API
+app.post('/extract_document', requireSignature, async (req, res) => {
+  try {
+    const { id, batch } = req.body;
 
-    console.log(`Running script: ${scriptPath} ${id} "${filename}"`);
-    exec(`ts-node ${scriptPath} ${id} "${filename}"`, (error, stdout, stderr) => {
-      if (error) {
-        console.error(`Processing script error: ${error.message}`);
-        return;
-      }
+    if (!id || typeof id !== 'string') {
+      return res.status(400).json({
+        error: 'Missing required fields',
+        details: 'id is required and must be a string',
+      });
+    }
 
-      if (stderr) {
-        console.error(`Processing script stderr: ${stderr}`);
-        return;
-      }
+    if (batch !== undefined && !isBatchInfo(batch)) {
+      return res.status(400).json({
+        error: 'Invalid fields',
+        details: 'batch must be { id, concurrency } with a positive integer concurrency',
+      });
+    }
+
+    const ocrPrefix = ocrOutputPrefix(id);
+    if ((await getBlobStore().list(ocrPrefix)).length === 0) {
+      return res.status(409).json({
+        error: 'No OCR output',
+        details: `Nothing is stored under ${ocrPrefix}; process the document again with OCR`,
+      });
+    }
 
-      console.log(`Document processing completed for id: ${id}`);
-      console.log(`Output: ${stdout}`);
+    console.log(`Received extraction request for id: ${id}`);
+
+    const job = await queue.enqueue<ExtractKnowledgePayload>(
+      EXTRACT_KNOWLEDGE_JOB,
+      { contractId: id, ocrPrefix },
+      { contractId: id, group: batchJobGroup(batch) },
+    );
+
+    return res.status(200).json({
+      success: true,
+      message: 'Extraction request received and queued',
+      data: {
+        id,
+        ocrPrefix,
+        jobId: job.id,
+        timestamp: new Date().toISOString(),
+      },
     });
   } catch (error) {
-    console.error('Document processing error:', error);
+    console.error('Extraction request error:', error);
     return res.status(500).json({
       error: 'Internal server error',
-      message: 'Failed to process document request',
+      message: 'Failed to process extraction request',
+    });
+  }
+});
+
+// Most texts one /embed request may send
+const MAX_EMBED_TEXTS = 100;
+
+// POST /embed endpoint - embeds texts, e.g. search queries, with the model the stored vectors
+// were made with; only accepts requests signed by the contracts API
+app.post('/embed', requireSignature, async (req, res) => {
+  try {
+    const { texts } = req.body;
+
+    if (
+      !Array.isArray(texts) ||
+      texts.length === 0 ||
+      texts.length > MAX_EMBED_TEXTS ||
+      !texts.every((text) => typeof text === 'string' && text.trim())
+    ) {
+      return res.status(400).json({
+        error: 'Invalid fields',
+        details: `texts must be an array of 1 to ${MAX_EMBED_TEXTS} non-empty strings`,
+      });
+    }
+
+    const meter = new UsageMeter();
+    const result = await embedTexts(texts, meter);
+    if (!result) {
+      return res.status(409).json({
+        error: 'Embeddings are turned off',
+        details: 'Set EMBEDDING_PROVIDER to enable semantic search',
+      });
+    }
+
+    // The caller records the usage, as it is not part of processing any contract
+    return res
+      .status(200)
+      .json({ model: result.model, embeddings: result.vectors, usage: meter.take() });
+  } catch (error) {
+    console.error('Embedding error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to embed texts',
+    });
+  }
+});
+
+// GET /jobs/:id endpoint - status of a single job
+app.get('/jobs/:id', requireSignature, async (req, res) => {
+  try {
+    const job = await queue.getJob(req.params.id);
+
+    if (!job) {
+      return res.status(404).json({ error: 'Job not found' });
+    }
+
+    return res.status(200).json(job);
+  } catch (error) {
+    console.error('Job lookup error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to fetch job',
     });
   }
 });
 
-// Start the server
-app.listen(PORT, () => {
-  console.log(`Server running on port ${PORT}`);
-  console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
+// GET /jobs?contractId= endpoint - all jobs for a contract, oldest first
+app.get('/jobs', requireSignature, async (req, res) => {
+  try {
+    const { contractId } = req.query;
+
+    if (typeof contractId !== 'string' || !contractId) {
+      return res.status(400).json({
+        error: 'Missing required fields',
+        details: 'contractId query parameter is required',
+      });
+    }
+
+    return res.status(200).json(await queue.listJobsForContract(contractId));
+  } catch (error) {
+    console.error('Job lookup error:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to fetch jobs',
+    });
+  }
 });
 
+// Start the queue, then the server
+queue
+  .start()
+  .then(() => {
+    const server = app.listen(PORT, () => {
+      console.log(`Server running on port ${PORT}`);
+      console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
+    });
+
+    // Let in-flight jobs finish before exiting; anything cut short is resumed on the next start
+    const shutdown = async (signal: string) => {
+      console.log(`Received ${signal}, shutting down...`);
+      server.close();
+      await queue.stop();
+      await getPool().end();
+      process.exit(0);
+    };
+    process.once('SIGINT', () => shutdown('SIGINT'));
+    process.once('SIGTERM', () => shutdown('SIGTERM'));
+  })
+  .catch((error) => {
+    console.error('Failed to start job queue:', error);
+    process.exit(1);
+  });
+
 export default app;
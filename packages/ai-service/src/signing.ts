@@ -0,0 +1,44 @@
+import { NextFunction, Request, Response } from 'express';
+import { RequestVerifier, SignatureError, serviceSigningSecret, signRequest } from 'shared';
+
+// Requests parsed by express.json() with the verify hook below keep their raw body for checking
+export interface RawBodyRequest extends Request {
+  rawBody?: string;
+}
+
+let verifier: RequestVerifier | null = null;
+
+// Headers that sign a request to the contracts API
+export function signedHeaders(method: string, url: string, body: string): Record<string, string> {
+  return signRequest(serviceSigningSecret(), { method, path: new URL(url).pathname, body });
+}
+
+// express.json() option that keeps the raw body, which the signature covers
+export function keepRawBody(req: Request, _res: Response, buffer: Buffer): void {
+  (req as RawBodyRequest).rawBody = buffer.toString('utf8');
+}
+
+// Reject requests that are not signed by the contracts API
+export function requireSignature(req: Request, res: Response, next: NextFunction) {
+  try {
+    verifier ??= new RequestVerifier(serviceSigningSecret());
+    verifier.verify(
+      {
+        method: req.method,
+        path: req.originalUrl.split('?')[0],
+        body: (req as RawBodyRequest).rawBody ?? '',
+      },
+      (name) => req.get(name),
+    );
+    next();
+  } catch (error) {
+    if (error instanceof SignatureError) {
+      return res.status(401).json({ error: 'Unauthorized', details: error.message });
+    }
+    console.error('Signature check failed:', error);
+    return res.status(500).json({
+      error: 'Internal server error',
+      message: 'Failed to check the request signature',
+    });
+  }
+}
@@ -0,0 +1,11 @@
+import { BlobStore, createBlobStore } from 'shared';
+
+let blobStore: BlobStore | null = null;
+
+// Blob store selected by STORAGE_DRIVER, created on first use so that dotenv has loaded by then
+export function getBlobStore(): BlobStore {
+  if (!blobStore) {
+    blobStore = createBlobStore();
+  }
+  return blobStore;
+}
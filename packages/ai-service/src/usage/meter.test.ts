@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from 'vitest';
+import { UsageMeter } from './meter';
+
+describe('UsageMeter', () => {
+  it('sums calls per kind, provider and model and prices them', () => {
+    const meter = new UsageMeter();
+    meter.add('llm', 'openai', 'gpt-4o', { inputTokens: 600_000, outputTokens: 50_000 });
+    meter.add('llm', 'openai', 'gpt-4o', { inputTokens: 400_000, outputTokens: 50_000 });
+    meter.add('ocr', 'google', null, { pages: 10 });
+
+    const records = meter.take();
+
+    expect(records).toEqual([
+      {
+        kind: 'llm',
+        provider: 'openai',
+        model: 'gpt-4o',
+        pages: 0,
+        inputTokens: 1_000_000,
+        outputTokens: 100_000,
+        costUsd: expect.any(Number),
+      },
+      {
+        kind: 'ocr',
+        provider: 'google',
+        model: null,
+        pages: 10,
+        inputTokens: 0,
+        outputTokens: 0,
+        costUsd: expect.any(Number),
+      },
+    ]);
+    expect(records[0].costUsd).toBeCloseTo(3.5);
+    expect(records[1].costUsd).toBeCloseTo(0.015);
+  });
+
+  it('records usage the rate table has no price for unpriced', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const meter = new UsageMeter();
+    meter.add('llm', 'unknown', 'model-x', { inputTokens: 10 });
+
+    expect(meter.take()).toMatchObject([{ provider: 'unknown', inputTokens: 10, costUsd: null }]);
+    expect(warn).toHaveBeenCalledWith(expect.stringContaining('unknown/model-x'));
+    warn.mockRestore();
+  });
+
+  it('starts again from nothing once the records are taken', () => {
+    const meter = new UsageMeter();
+    meter.add('embedding', 'local', 'minilm', { inputTokens: 5 });
+    meter.take();
+
+    expect(meter.take()).toEqual([]);
+  });
+});
@@ -0,0 +1,57 @@
+import { UsageKind, UsageRecord } from 'shared';
+import { findRate } from './rates';
+
+/**
+ * Usage meter
+ *
+ * Collects the usage of one pipeline stage as it happens. Calls are summed per
+ * kind, provider and model, and priced with the rate table when the records are
+ * taken, so a contract's hundreds of model calls become a handful of records.
+ */
+
+export interface Usage {
+  pages?: number;
+  inputTokens?: number;
+  outputTokens?: number;
+}
+
+export class UsageMeter {
+  private readonly totals = new Map<string, Omit<UsageRecord, 'costUsd'>>();
+
+  add(kind: UsageKind, provider: string, model: string | null, usage: Usage): void {
+    const key = JSON.stringify([kind, provider, model]);
+    const total = this.totals.get(key) ?? {
+      kind,
+      provider,
+      model,
+      pages: 0,
+      inputTokens: 0,
+      outputTokens: 0,
+    };
+    total.pages += usage.pages ?? 0;
+    total.inputTokens += usage.inputTokens ?? 0;
+    total.outputTokens += usage.outputTokens ?? 0;
+    this.totals.set(key, total);
+  }
+
+  // The priced records so far; the meter starts again from nothing
+  take(): UsageRecord[] {
+    const records = Array.from(this.totals.values(), (total) => {
+      const rate = findRate(total.kind, total.provider, total.model);
+      if (!rate) {
+        console.warn(
+          `No ${total.kind} rate for ${total.provider}/${total.model ?? '*'}; its usage is recorded unpriced`,
+        );
+      }
+      const costUsd = rate
+        ? total.pages * (rate.perPage ?? 0) +
+          (total.inputTokens * (rate.inputPerMillion ?? 0) +
+            total.outputTokens * (rate.outputPerMillion ?? 0)) /
+            1_000_000
+        : null;
+      return { ...total, costUsd };
+    });
+    this.totals.clear();
+    return records;
+  }
+}
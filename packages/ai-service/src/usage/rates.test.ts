@@ -0,0 +1,73 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+// getRates caches the table, so each test loads the module afresh
+const loadRates = () => import('./rates');
+
+describe('rate table', () => {
+  let dir: string;
+
+  const useRates = (table: unknown) => {
+    const ratesPath = path.join(dir, 'rates.json');
+    fs.writeFileSync(ratesPath, JSON.stringify(table));
+    vi.stubEnv('RATES_PATH', ratesPath);
+  };
+
+  beforeEach(() => {
+    vi.resetModules();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'rates-'));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('loads the default table', async () => {
+    const { getRates } = await loadRates();
+
+    expect(getRates().llm.openai['gpt-4o']).toEqual({ inputPerMillion: 2.5, outputPerMillion: 10 });
+  });
+
+  it('finds a model by its exact name, the longest name it extends, then "*"', async () => {
+    useRates({
+      llm: {
+        openai: {
+          'gpt-4o': { inputPerMillion: 2.5 },
+          'gpt-4o-mini': { inputPerMillion: 0.15 },
+          '*': { inputPerMillion: 1 },
+        },
+      },
+    });
+    const { findRate } = await loadRates();
+
+    expect(findRate('llm', 'openai', 'gpt-4o-mini')).toEqual({ inputPerMillion: 0.15 });
+    expect(findRate('llm', 'openai', 'gpt-4o-mini-2024-07-18')).toEqual({ inputPerMillion: 0.15 });
+    expect(findRate('llm', 'openai', 'gpt-4o-2024-08-06')).toEqual({ inputPerMillion: 2.5 });
+    expect(findRate('llm', 'openai', 'gpt-4o1')).toEqual({ inputPerMillion: 1 });
+    expect(findRate('llm', 'openai', null)).toEqual({ inputPerMillion: 1 });
+  });
+
+  it('has no rate for providers or models the table leaves out', async () => {
+    useRates({ llm: { openai: { 'gpt-4o': { inputPerMillion: 2.5 } } } });
+    const { findRate } = await loadRates();
+
+    expect(findRate('llm', 'anthropic', 'claude-3-5-haiku')).toBeNull();
+    expect(findRate('llm', 'openai', 'gpt-4.1')).toBeNull();
+    expect(findRate('ocr', 'google', null)).toBeNull();
+  });
+
+  it.each([
+    ['an unknown kind', { speech: {} }, 'unknown kinds: speech'],
+    ['an unknown field', { ocr: { google: { '*': { perToken: 1 } } } }, 'unknown field "perToken"'],
+    ['a negative price', { ocr: { google: { '*': { perPage: -1 } } } }, 'non-negative number'],
+    ['a rate that is not an object', { ocr: { google: { '*': 1 } } }, 'must be an object'],
+  ])('rejects %s', async (_, table, message) => {
+    useRates(table);
+    const { getRates } = await loadRates();
+
+    expect(() => getRates()).toThrow(message);
+  });
+});
@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { USAGE_KINDS, UsageKind } from 'shared';
+
+/**
+ * Rate table
+ *
+ * Prices, in US dollars, for each kind of usage by provider and model: OCR per
+ * page, models per million input and output tokens. A model's price is found by
+ * its exact name, else by the longest name it extends with a dated or other
+ * suffix ("gpt-4o-2024-08-06" is priced as "gpt-4o"), else by the provider's "*"
+ * entry. Rates live in config/rates.json; set RATES_PATH to use another file.
+ */
+
+export interface Rate {
+  perPage?: number;
+  inputPerMillion?: number;
+  outputPerMillion?: number;
+}
+
+// Rates by kind, then provider, then model (or "*")
+export type RateTable = Record<UsageKind, Record<string, Record<string, Rate>>>;
+
+const DEFAULT_RATES_PATH = path.resolve(__dirname, '../../config/rates.json');
+
+const RATE_FIELDS: (keyof Rate)[] = ['perPage', 'inputPerMillion', 'outputPerMillion'];
+
+let cachedRates: RateTable | null = null;
+
+function validateRate(entry: any, where: string): Rate {
+  if (typeof entry !== 'object' || entry === null || Array.isArray(entry)) {
+    throw new Error(`Rate for ${where} must be an object`);
+  }
+  for (const [field, value] of Object.entries(entry)) {
+    if (!RATE_FIELDS.includes(field as keyof Rate)) {
+      throw new Error(`Rate for ${where} has unknown field "${field}"`);
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Rate for ${where} must have a non-negative number as "${field}"`);
+    }
+  }
+  return entry;
+}
+
+// Load and validate the rate table, caching the result
+export function getRates(): RateTable {
+  if (cachedRates) {
+    return cachedRates;
+  }
+
+  const ratesPath = process.env.RATES_PATH || DEFAULT_RATES_PATH;
+  const raw = JSON.parse(fs.readFileSync(ratesPath, 'utf8'));
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error(`Rate table at ${ratesPath} must be an object`);
+  }
+
+  const unknownKinds = Object.keys(raw).filter((kind) => !USAGE_KINDS.includes(kind as UsageKind));
+  if (unknownKinds.length > 0) {
+    throw new Error(`Rate table at ${ratesPath} has unknown kinds: ${unknownKinds.join(', ')}`);
+  }
+
+  const rates = Object.fromEntries(
+    USAGE_KINDS.map((kind) => [
+      kind,
+      Object.fromEntries(
+        Object.entries(raw[kind] ?? {}).map(([provider, models]) => [
+          provider,
+          Object.fromEntries(
+            Object.entries(models as object).map(([model, rate]) => [
+              model,
+              validateRate(rate, `${kind} ${provider}/${model}`),
+            ]),
+          ),
+        ]),
+      ),
+    ]),
+  ) as RateTable;
+
+  cachedRates = rates;
+  return rates;
+}
+
+// The rate of a provider and model, or null if the table has none
+export function findRate(kind: UsageKind, provider: string, model: string | null): Rate | null {
+  const models = getRates()[kind][provider];
+  if (!models) {
+    return null;
+  }
+  if (model !== null && models[model]) {
+    return models[model];
+  }
+
+  const prefix =
+    model === null
+      ? undefined
+      : Object.keys(models)
+          .filter((name) => name !== '*' && model.startsWith(`${name}-`))
+          .sort((a, b) => b.length - a.length)[0];
+  return prefix ? models[prefix] : (models['*'] ?? null);
+}
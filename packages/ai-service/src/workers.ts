@@ -0,0 +1,51 @@
+import { JobQueue } from './queue/job_queue';
+import { updateContractStatus } from './contracts_api';
+import { processDocument } from './scripts/process_document';
+import { extractKnowledge } from './scripts/extract_knowledge';
+
+export const PROCESS_DOCUMENT_JOB = 'process_document';
+export const EXTRACT_KNOWLEDGE_JOB = 'extract_knowledge';
+
+export interface ProcessDocumentPayload {
+  contractId: string;
+  // Blob store key of the uploaded document
+  documentKey: string;
+}
+
+export interface ExtractKnowledgePayload {
+  contractId: string;
+  // Key prefix holding the OCR JSON output
+  ocrPrefix: string;
+}
+
+// Mark the contract as failed once its job has exhausted all retries
+async function markContractFailed(job: { contractId: string | null }): Promise<void> {
+  if (job.contractId) {
+    await updateContractStatus(job.contractId, 'failed');
+  }
+}
+
+// Register the document pipeline stages as queue workers. OCR and extraction run as
+// separate jobs so that a failed extraction is retried without paying for OCR again.
+export function registerWorkers(queue: JobQueue): void {
+  queue.register<ProcessDocumentPayload>(
+    PROCESS_DOCUMENT_JOB,
+    async ({ contractId, documentKey }, { job, queue }) => {
+      const ocrPrefix = await processDocument(contractId, documentKey);
+      await queue.enqueue<ExtractKnowledgePayload>(
+        EXTRACT_KNOWLEDGE_JOB,
+        { contractId, ocrPrefix },
+        { contractId, group: job.group },
+      );
+    },
+    { onFailed: markContractFailed },
+  );
+
+  queue.register<ExtractKnowledgePayload>(
+    EXTRACT_KNOWLEDGE_JOB,
+    async ({ contractId, ocrPrefix }) => {
+      await extractKnowledge(ocrPrefix, contractId);
+    },
+    { onFailed: markContractFailed },
+  );
+}
@@ -3,6 +3,8 @@ const nextConfig = {
   reactStrictMode: true,
   experimental: {
     appDir: true,
+    // Starts the webhook dispatcher, see src/instrumentation.ts
+    instrumentationHook: true,
   },
   webpack: (config) => {
     // Important to handle native addons in packages like 'formidable'
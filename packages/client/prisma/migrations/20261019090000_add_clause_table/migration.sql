@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "Clause" (
+    "id" TEXT NOT NULL,
+    "contractId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "label" TEXT NOT NULL,
+    "text" TEXT,
+    "found" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Clause_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Clause_contractId_type_key" ON "Clause"("contractId", "type");
+
+-- AddForeignKey
+ALTER TABLE "Clause" ADD CONSTRAINT "Clause_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "Contract"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Move the previously hard-coded clause columns into Clause rows
+INSERT INTO "Clause" ("id", "contractId", "type", "label", "text", "found", "updatedAt")
+SELECT gen_random_uuid()::text, "id", 'indemnification', 'Indemnification',
+       CASE WHEN "indemnificationText" LIKE 'No indemnification clause found%' THEN NULL ELSE "indemnificationText" END,
+       "indemnificationText" NOT LIKE 'No indemnification clause found%', CURRENT_TIMESTAMP
+FROM "Contract"
+WHERE "indemnificationText" IS NOT NULL;
+
+INSERT INTO "Clause" ("id", "contractId", "type", "label", "text", "found", "updatedAt")
+SELECT gen_random_uuid()::text, "id", 'termination_for_convenience', 'Termination for Convenience',
+       CASE WHEN "terminationText" LIKE 'No termination for convenience clause found%' THEN NULL ELSE "terminationText" END,
+       "terminationText" NOT LIKE 'No termination for convenience clause found%', CURRENT_TIMESTAMP
+FROM "Contract"
+WHERE "terminationText" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "Contract" DROP COLUMN "indemnificationText",
+DROP COLUMN "terminationText";
@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "ClausePassage" (
+    "id" TEXT NOT NULL,
+    "clauseId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+    "text" TEXT NOT NULL,
+    "chunkIndex" INTEGER NOT NULL,
+    "pageStart" INTEGER,
+    "pageEnd" INTEGER,
+
+    CONSTRAINT "ClausePassage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ClausePassage_clauseId_idx" ON "ClausePassage"("clauseId");
+
+-- AddForeignKey
+ALTER TABLE "ClausePassage" ADD CONSTRAINT "ClausePassage_clauseId_fkey" FOREIGN KEY ("clauseId") REFERENCES "Clause"("id") ON DELETE CASCADE ON UPDATE CASCADE;
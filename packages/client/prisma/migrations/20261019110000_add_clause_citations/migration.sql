@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Clause" ADD COLUMN     "pageEnd" INTEGER,
+ADD COLUMN     "pageStart" INTEGER;
+
+-- AlterTable
+ALTER TABLE "ClausePassage" ADD COLUMN     "regions" JSONB NOT NULL DEFAULT '[]';
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Clause" ADD COLUMN     "attributes" JSONB;
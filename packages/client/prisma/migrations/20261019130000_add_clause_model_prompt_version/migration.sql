@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "Clause" ADD COLUMN     "model" TEXT,
+ADD COLUMN     "promptVersion" TEXT;
@@ -0,0 +1,24 @@
+-- AlterTable
+ALTER TABLE "Contract" ADD COLUMN     "riskScore" INTEGER;
+
+-- CreateTable
+CREATE TABLE "PlaybookFinding" (
+    "id" TEXT NOT NULL,
+    "contractId" TEXT NOT NULL,
+    "ruleId" TEXT NOT NULL,
+    "clauseType" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "severity" TEXT NOT NULL,
+    "status" TEXT NOT NULL,
+    "detail" TEXT NOT NULL,
+    "fallback" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PlaybookFinding_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PlaybookFinding_contractId_idx" ON "PlaybookFinding"("contractId");
+
+-- AddForeignKey
+ALTER TABLE "PlaybookFinding" ADD CONSTRAINT "PlaybookFinding_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "Contract"("id") ON DELETE CASCADE ON UPDATE CASCADE;
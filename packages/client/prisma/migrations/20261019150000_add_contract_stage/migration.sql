@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "Contract" ADD COLUMN     "stage" TEXT;
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "ClauseReviewStatus" AS ENUM ('unreviewed', 'accepted', 'edited', 'rejected');
+
+-- CreateEnum
+CREATE TYPE "ContractReviewStatus" AS ENUM ('unreviewed', 'in_review', 'complete');
+
+-- AlterTable
+ALTER TABLE "Clause" ADD COLUMN     "reviewComment" TEXT,
+ADD COLUMN     "reviewStatus" "ClauseReviewStatus" NOT NULL DEFAULT 'unreviewed',
+ADD COLUMN     "reviewedAt" TIMESTAMP(3),
+ADD COLUMN     "reviewedById" TEXT,
+ADD COLUMN     "reviewedText" TEXT;
+
+-- AlterTable
+ALTER TABLE "Contract" ADD COLUMN     "reviewCompletedAt" TIMESTAMP(3),
+ADD COLUMN     "reviewCompletedById" TEXT,
+ADD COLUMN     "reviewStatus" "ContractReviewStatus" NOT NULL DEFAULT 'unreviewed';
+
+-- AddForeignKey
+ALTER TABLE "Contract" ADD CONSTRAINT "Contract_reviewCompletedById_fkey" FOREIGN KEY ("reviewCompletedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "Clause" ADD CONSTRAINT "Clause_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,56 @@
+-- CreateEnum
+CREATE TYPE "ContractEventType" AS ENUM ('uploaded', 'status_changed', 'extraction_recorded', 'clause_reviewed', 'review_completed', 'review_reopened');
+
+-- CreateTable
+CREATE TABLE "ContractEvent" (
+    "id" TEXT NOT NULL,
+    "contractId" TEXT NOT NULL,
+    "type" "ContractEventType" NOT NULL,
+    "actorId" TEXT,
+    "details" JSONB NOT NULL DEFAULT '{}',
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ContractEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ExtractionRun" (
+    "id" TEXT NOT NULL,
+    "contractId" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "promptVersion" TEXT NOT NULL,
+    "clauses" JSONB NOT NULL,
+    "riskScore" INTEGER,
+    "findings" JSONB,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "ExtractionRun_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ContractEvent_contractId_createdAt_idx" ON "ContractEvent"("contractId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ExtractionRun_contractId_createdAt_idx" ON "ExtractionRun"("contractId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "ContractEvent" ADD CONSTRAINT "ContractEvent_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "Contract"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ContractEvent" ADD CONSTRAINT "ContractEvent_actorId_fkey" FOREIGN KEY ("actorId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ExtractionRun" ADD CONSTRAINT "ExtractionRun_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "Contract"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- The history is append-only: reject any update of its rows
+CREATE FUNCTION "reject_history_update"() RETURNS trigger AS $$
+BEGIN
+    RAISE EXCEPTION '% rows cannot be changed', TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "ContractEvent_append_only" BEFORE UPDATE ON "ContractEvent"
+    FOR EACH ROW EXECUTE FUNCTION "reject_history_update"();
+
+CREATE TRIGGER "ExtractionRun_append_only" BEFORE UPDATE ON "ExtractionRun"
+    FOR EACH ROW EXECUTE FUNCTION "reject_history_update"();
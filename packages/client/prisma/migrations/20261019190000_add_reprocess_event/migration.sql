@@ -0,0 +1,2 @@
+-- AlterEnum
+ALTER TYPE "ContractEventType" ADD VALUE 'reprocess_requested';
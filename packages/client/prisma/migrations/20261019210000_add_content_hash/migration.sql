@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "Contract" ADD COLUMN     "contentHash" TEXT,
+ADD COLUMN     "pageCount" INTEGER;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Contract_workspaceId_contentHash_key" ON "Contract"("workspaceId", "contentHash");
@@ -0,0 +1,5 @@
+-- CreateEnum
+CREATE TYPE "DocumentType" AS ENUM ('pdf', 'docx');
+
+-- AlterTable
+ALTER TABLE "Contract" ADD COLUMN     "documentType" "DocumentType" NOT NULL DEFAULT 'pdf';
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "ContractPage" (
+    "id" TEXT NOT NULL,
+    "contractId" TEXT NOT NULL,
+    "pageNumber" INTEGER NOT NULL,
+    "text" TEXT NOT NULL,
+
+    CONSTRAINT "ContractPage_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ContractPage_contractId_pageNumber_key" ON "ContractPage"("contractId", "pageNumber");
+
+-- AddForeignKey
+ALTER TABLE "ContractPage" ADD CONSTRAINT "ContractPage_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "Contract"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Full-text indexes; the expressions must match those in src/lib/search.ts for queries to use them.
+-- Pages are indexed one by one, and only their first 250,000 characters, so that no tsvector
+-- reaches the 1 MB limit; a Word document without page breaks is a single page
+CREATE INDEX "ContractPage_text_search_idx" ON "ContractPage" USING GIN (to_tsvector('english', left("text", 250000)));
+
+-- A clause's text as reviewed: the reviewer's correction, nothing if rejected, else the AI's text
+CREATE INDEX "Clause_text_search_idx" ON "Clause" USING GIN (to_tsvector('english', coalesce(CASE "reviewStatus" WHEN 'edited' THEN "reviewedText" WHEN 'rejected' THEN NULL ELSE "text" END, '')));
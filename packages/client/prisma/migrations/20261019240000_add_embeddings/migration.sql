@@ -0,0 +1,42 @@
+-- pgvector
+CREATE EXTENSION IF NOT EXISTS vector;
+
+-- CreateTable
+CREATE TABLE "ContractChunk" (
+    "id" TEXT NOT NULL,
+    "contractId" TEXT NOT NULL,
+    "chunkIndex" INTEGER NOT NULL,
+    "text" TEXT NOT NULL,
+    "pageStart" INTEGER NOT NULL,
+    "pageEnd" INTEGER NOT NULL,
+    "model" TEXT NOT NULL,
+    "embedding" vector NOT NULL,
+
+    CONSTRAINT "ContractChunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ClauseEmbedding" (
+    "clauseId" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "embedding" vector NOT NULL,
+
+    CONSTRAINT "ClauseEmbedding_pkey" PRIMARY KEY ("clauseId")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ContractChunk_contractId_chunkIndex_key" ON "ContractChunk"("contractId", "chunkIndex");
+
+-- AddForeignKey
+ALTER TABLE "ContractChunk" ADD CONSTRAINT "ContractChunk_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "Contract"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ClauseEmbedding" ADD CONSTRAINT "ClauseEmbedding_clauseId_fkey" FOREIGN KEY ("clauseId") REFERENCES "Clause"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Vector indexes. The columns take vectors of any length, since the embedding model is a
+-- deployment choice, but an index needs a fixed one: these cover the 1536 dimensions of the
+-- default model, and src/lib/embeddings.ts queries through the same cast. Add the same pair
+-- of indexes for another length when deploying a model with other dimensions.
+CREATE INDEX "ContractChunk_embedding_1536_idx" ON "ContractChunk" USING hnsw (("embedding"::vector(1536)) vector_cosine_ops) WHERE vector_dims("embedding") = 1536;
+
+CREATE INDEX "ClauseEmbedding_embedding_1536_idx" ON "ClauseEmbedding" USING hnsw (("embedding"::vector(1536)) vector_cosine_ops) WHERE vector_dims("embedding") = 1536;
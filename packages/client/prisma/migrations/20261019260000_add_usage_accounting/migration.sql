@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "UsageKind" AS ENUM ('ocr', 'llm', 'embedding');
+
+-- AlterTable
+ALTER TABLE "Workspace" ADD COLUMN "monthlyBudgetUsd" DECIMAL(12,2);
+
+-- AlterTable
+ALTER TABLE "Contract" ADD COLUMN "pausedAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "UsageRecord" (
+    "id" TEXT NOT NULL,
+    "workspaceId" TEXT NOT NULL,
+    "contractId" TEXT,
+    "batchId" TEXT,
+    "kind" "UsageKind" NOT NULL,
+    "provider" TEXT NOT NULL,
+    "model" TEXT,
+    "pages" INTEGER NOT NULL DEFAULT 0,
+    "inputTokens" INTEGER NOT NULL DEFAULT 0,
+    "outputTokens" INTEGER NOT NULL DEFAULT 0,
+    "costUsd" DECIMAL(14,6),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "UsageRecord_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "UsageRecord_workspaceId_createdAt_idx" ON "UsageRecord"("workspaceId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "UsageRecord_contractId_idx" ON "UsageRecord"("contractId");
+
+-- CreateIndex
+CREATE INDEX "UsageRecord_batchId_idx" ON "UsageRecord"("batchId");
+
+-- AddForeignKey
+ALTER TABLE "UsageRecord" ADD CONSTRAINT "UsageRecord_workspaceId_fkey" FOREIGN KEY ("workspaceId") REFERENCES "Workspace"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UsageRecord" ADD CONSTRAINT "UsageRecord_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "Contract"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "UsageRecord" ADD CONSTRAINT "UsageRecord_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "Batch"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "ContractType" AS ENUM ('msa', 'sow', 'nda', 'dpa', 'other');
+
+-- AlterTable
+ALTER TABLE "Contract" ADD COLUMN     "contractType" "ContractType",
+ADD COLUMN     "contractValue" DECIMAL(18,2),
+ADD COLUMN     "currency" TEXT,
+ADD COLUMN     "effectiveDate" DATE,
+ADD COLUMN     "expirationDate" DATE,
+ADD COLUMN     "governingLaw" TEXT,
+ADD COLUMN     "jurisdiction" TEXT,
+ADD COLUMN     "metadataModel" TEXT,
+ADD COLUMN     "renewalTerms" TEXT;
+
+-- CreateTable
+CREATE TABLE "ContractParty" (
+    "id" TEXT NOT NULL,
+    "contractId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "role" TEXT,
+    "position" INTEGER NOT NULL,
+
+    CONSTRAINT "ContractParty_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ContractParty_contractId_idx" ON "ContractParty"("contractId");
+
+-- CreateIndex
+CREATE INDEX "Contract_workspaceId_expirationDate_idx" ON "Contract"("workspaceId", "expirationDate");
+
+-- AddForeignKey
+ALTER TABLE "ContractParty" ADD CONSTRAINT "ContractParty_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "Contract"("id") ON DELETE CASCADE ON UPDATE CASCADE;
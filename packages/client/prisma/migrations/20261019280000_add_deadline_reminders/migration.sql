@@ -0,0 +1,27 @@
+-- CreateEnum
+CREATE TYPE "DeadlineKind" AS ENUM ('notice', 'renewal', 'expiration');
+
+-- AlterTable
+ALTER TABLE "Workspace" ADD COLUMN     "calendarTokenHash" TEXT,
+ADD COLUMN     "reminderLeadDays" INTEGER[] DEFAULT ARRAY[30, 7, 1]::INTEGER[];
+
+-- CreateTable
+CREATE TABLE "DeadlineReminder" (
+    "id" TEXT NOT NULL,
+    "contractId" TEXT NOT NULL,
+    "kind" "DeadlineKind" NOT NULL,
+    "dueDate" DATE NOT NULL,
+    "leadDays" INTEGER NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DeadlineReminder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Workspace_calendarTokenHash_key" ON "Workspace"("calendarTokenHash");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DeadlineReminder_contractId_kind_dueDate_leadDays_key" ON "DeadlineReminder"("contractId", "kind", "dueDate", "leadDays");
+
+-- AddForeignKey
+ALTER TABLE "DeadlineReminder" ADD CONSTRAINT "DeadlineReminder_contractId_fkey" FOREIGN KEY ("contractId") REFERENCES "Contract"("id") ON DELETE CASCADE ON UPDATE CASCADE;
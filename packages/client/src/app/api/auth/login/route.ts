@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { normalizeEmail, startSession, verifyPassword } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { readJsonBody } from '@/lib/request';
+
+// Sign in with email and password; the session starts in the user's oldest workspace
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { email, password } = body;
+
+    if (typeof email !== 'string' || typeof password !== 'string') {
+      return NextResponse.json({ error: 'Email and password are required' }, { status: 400 });
+    }
+
+    const user = await prisma.user.findUnique({
+      where: { email: normalizeEmail(email) },
+      include: { memberships: { orderBy: { createdAt: 'asc' }, take: 1 } },
+    });
+
+    if (!user || !(await verifyPassword(password, user.passwordHash))) {
+      return NextResponse.json({ error: 'Invalid email or password' }, { status: 401 });
+    }
+    if (user.memberships.length === 0) {
+      return NextResponse.json({ error: 'You are not a member of any workspace' }, { status: 403 });
+    }
+
+    const response = NextResponse.json({ id: user.id, email: user.email, name: user.name });
+    await startSession(response, user.id, user.memberships[0].workspaceId);
+    return response;
+  } catch (error) {
+    console.error('Error signing in:', error);
+    return NextResponse.json({ error: 'Failed to sign in' }, { status: 500 });
+  }
+}
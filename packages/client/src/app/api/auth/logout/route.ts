@@ -0,0 +1,13 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { endSession } from '@/lib/auth';
+
+export async function POST(request: NextRequest) {
+  try {
+    const response = NextResponse.json({ success: true });
+    await endSession(request, response);
+    return response;
+  } catch (error) {
+    console.error('Error signing out:', error);
+    return NextResponse.json({ error: 'Failed to sign out' }, { status: 500 });
+  }
+}
@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { MIN_PASSWORD_LENGTH, hashPassword, normalizeEmail, startSession } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { readJsonBody } from '@/lib/request';
+
+// Workspace created by the migration to hold the contracts uploaded before workspaces existed
+const DEFAULT_WORKSPACE_ID = 'default';
+
+const signupClosed = () =>
+  NextResponse.json(
+    { error: 'Sign-up is closed; ask a workspace admin to add you' },
+    { status: 403 },
+  );
+
+const emailTaken = () =>
+  NextResponse.json({ error: 'An account with this email already exists' }, { status: 409 });
+
+/**
+ * Create an account together with a new workspace it administers. The first account
+ * may always sign up and takes over the default workspace; after that sign-up is
+ * only open with ALLOW_SIGNUP=true, and admins add people to their workspace instead.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const body = await readJsonBody(request);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { name, email, password, workspaceName } = body;
+
+    if (
+      typeof name !== 'string' ||
+      !name.trim() ||
+      typeof email !== 'string' ||
+      !email.includes('@')
+    ) {
+      return NextResponse.json({ error: 'A name and a valid email are required' }, { status: 400 });
+    }
+    if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+      return NextResponse.json(
+        { error: `Passwords must be at least ${MIN_PASSWORD_LENGTH} characters` },
+        { status: 400 },
+      );
+    }
+    if (workspaceName !== undefined && typeof workspaceName !== 'string') {
+      return NextResponse.json({ error: 'workspaceName must be a string' }, { status: 400 });
+    }
+
+    // Both are checked again when the account is created; this spares hashing the password
+    if (process.env.ALLOW_SIGNUP !== 'true' && (await prisma.user.count()) > 0) {
+      return signupClosed();
+    }
+    if (await prisma.user.findUnique({ where: { email: normalizeEmail(email) } })) {
+      return emailTaken();
+    }
+
+    const passwordHash = await hashPassword(password);
+    const workspaceLabel = workspaceName?.trim() || `${name.trim()}'s workspace`;
+
+    const created = await prisma.$transaction(async (tx) => {
+      // Sign-ups wait for each other here, so that two first accounts cannot both find no users
+      // and both take over the default workspace
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('register'))`;
+      const firstUser = (await tx.user.count()) === 0;
+      if (!firstUser && process.env.ALLOW_SIGNUP !== 'true') {
+        return null;
+      }
+
+      const defaultWorkspace = firstUser
+        ? await tx.workspace.findUnique({ where: { id: DEFAULT_WORKSPACE_ID } })
+        : null;
+      const workspace = defaultWorkspace
+        ? await tx.workspace.update({
+            where: { id: defaultWorkspace.id },
+            data: { name: workspaceName?.trim() || defaultWorkspace.name },
+          })
+        : await tx.workspace.create({ data: { name: workspaceLabel } });
+
+      const user = await tx.user.create({
+        data: {
+          email: normalizeEmail(email),
+          name: name.trim(),
+          passwordHash,
+          memberships: { create: { workspaceId: workspace.id, role: 'admin' } },
+        },
+      });
+
+      return { user, workspace };
+    });
+    if (!created) {
+      return signupClosed();
+    }
+    const { user, workspace } = created;
+
+    const response = NextResponse.json(
+      { id: user.id, email: user.email, name: user.name, workspace },
+      { status: 201 },
+    );
+    await startSession(response, user.id, workspace.id);
+    return response;
+  } catch (error) {
+    // Another sign-up with the same email got in first
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      return emailTaken();
+    }
+    console.error('Error signing up:', error);
+    return NextResponse.json({ error: 'Failed to create the account' }, { status: 500 });
+  }
+}
@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { readJsonBody } from '@/lib/request';
+
+// The signed-in user, the workspace the session is in and every workspace they belong to
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const memberships = await prisma.membership.findMany({
+      where: { userId: auth.userId },
+      include: { workspace: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json({
+      user: { id: auth.userId, email: auth.email, name: auth.name },
+      workspaceId: auth.workspaceId,
+      role: auth.role,
+      workspaces: memberships.map(({ workspace, role }) => ({
+        id: workspace.id,
+        name: workspace.name,
+        role,
+      })),
+    });
+  } catch (error) {
+    console.error('Error fetching session:', error);
+    return NextResponse.json({ error: 'Failed to fetch session' }, { status: 500 });
+  }
+}
+
+// Switch the session to another workspace the user belongs to
+export async function PATCH(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const body = await readJsonBody(request);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { workspaceId } = body;
+    if (typeof workspaceId !== 'string') {
+      return NextResponse.json({ error: 'workspaceId is required' }, { status: 400 });
+    }
+
+    const membership = await prisma.membership.findUnique({
+      where: { userId_workspaceId: { userId: auth.userId, workspaceId } },
+    });
+    if (!membership) {
+      return NextResponse.json({ error: 'Workspace not found' }, { status: 404 });
+    }
+
+    await prisma.session.update({ where: { id: auth.sessionId }, data: { workspaceId } });
+    return NextResponse.json({ workspaceId, role: membership.role });
+  } catch (error) {
+    console.error('Error switching workspace:', error);
+    return NextResponse.json({ error: 'Failed to switch workspace' }, { status: 500 });
+  }
+}
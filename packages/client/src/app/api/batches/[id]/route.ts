@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/auth';
+import { summarizeBatch } from '@/lib/batches';
+import { prisma } from '@/lib/prisma';
+
+// A batch with its contracts and aggregate progress
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { id: batchId } = await params;
+    const auth = await authenticate(request);
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const batch = await prisma.batch.findFirst({
+      where: { id: batchId, workspaceId: auth.workspaceId },
+      include: {
+        createdBy: { select: { id: true, name: true } },
+        contracts: {
+          orderBy: { fileName: 'asc' },
+          select: {
+            id: true,
+            fileName: true,
+            status: true,
+            progress: true,
+            stage: true,
+            uploadedAt: true,
+          },
+        },
+      },
+    });
+
+    if (!batch) {
+      return NextResponse.json({ error: 'Batch not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({ ...batch, summary: summarizeBatch(batch.contracts) });
+  } catch (error) {
+    console.error('Error fetching batch:', error);
+    return NextResponse.json({ error: 'Failed to fetch batch' }, { status: 500 });
+  }
+}
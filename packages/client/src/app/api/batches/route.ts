@@ -0,0 +1,145 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/auth';
+import {
+  BatchTooLargeError,
+  DEFAULT_BATCH_CONCURRENCY,
+  MAX_BATCH_BYTES,
+  MAX_BATCH_CONCURRENCY,
+  SkippedFile,
+  summarizeBatch,
+  unpackUpload,
+} from '@/lib/batches';
+import { UploadedDocument, submitDocument } from '@/lib/pipeline';
+import { prisma } from '@/lib/prisma';
+import { UploadError } from '@/lib/uploads';
+
+// The list depends on the signed-in user, so it is never prerendered
+export const dynamic = 'force-dynamic';
+
+// Batches of the caller's workspace, newest first, with their aggregate progress
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const batches = await prisma.batch.findMany({
+      where: { workspaceId: auth.workspaceId },
+      orderBy: { createdAt: 'desc' },
+      include: {
+        createdBy: { select: { id: true, name: true } },
+        contracts: {
+          select: { id: true, fileName: true, status: true, progress: true, stage: true },
+        },
+      },
+    });
+
+    return NextResponse.json(
+      batches.map(({ contracts, ...batch }) => ({ ...batch, summary: summarizeBatch(contracts) })),
+    );
+  } catch (error) {
+    console.error('Error fetching batches:', error);
+    return NextResponse.json({ error: 'Failed to fetch batches' }, { status: 500 });
+  }
+}
+
+/**
+ * Upload many documents at once. Form fields: "files" (repeated; PDFs, Word documents
+ * and ZIP archives of them), and optionally "name" and "concurrency" (how many of the
+ * batch's contracts the AI service processes at once). Creates one contract per new
+ * document in a new batch; documents the workspace already has are listed as duplicates
+ * with their existing contract, and files that fail validation are listed as skipped.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, 'reviewer');
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const formData = await request.formData();
+    const files = formData.getAll('files').filter((file): file is File => file instanceof File);
+    if (files.length === 0) {
+      return NextResponse.json({ error: 'No files uploaded' }, { status: 400 });
+    }
+
+    const concurrencyField = formData.get('concurrency');
+    const concurrency = concurrencyField ? Number(concurrencyField) : DEFAULT_BATCH_CONCURRENCY;
+    if (!Number.isInteger(concurrency) || concurrency < 1 || concurrency > MAX_BATCH_CONCURRENCY) {
+      return NextResponse.json(
+        { error: `concurrency must be an integer from 1 to ${MAX_BATCH_CONCURRENCY}` },
+        { status: 400 },
+      );
+    }
+
+    const documents: UploadedDocument[] = [];
+    const skipped: SkippedFile[] = [];
+    let bytes = 0;
+    for (const file of files) {
+      try {
+        const unpacked = await unpackUpload(file, MAX_BATCH_BYTES - bytes);
+        documents.push(...unpacked.documents);
+        skipped.push(...unpacked.skipped);
+        bytes += unpacked.bytes;
+      } catch (unpackError) {
+        if (unpackError instanceof BatchTooLargeError) {
+          return NextResponse.json({ error: unpackError.message }, { status: 413 });
+        }
+        if (!(unpackError instanceof UploadError)) {
+          throw unpackError;
+        }
+        skipped.push({ name: file.name, reason: unpackError.message });
+      }
+    }
+    if (documents.length === 0) {
+      return NextResponse.json(
+        { error: 'The upload holds no PDF or Word documents', skipped },
+        { status: 400 },
+      );
+    }
+
+    const name = formData.get('name');
+    const batch = await prisma.batch.create({
+      data: {
+        workspaceId: auth.workspaceId,
+        name:
+          typeof name === 'string' && name.trim()
+            ? name.trim()
+            : files.length === 1
+              ? files[0].name
+              : `${files.length} files`,
+        concurrency,
+        createdById: auth.userId,
+      },
+    });
+
+    const contracts: { id: string; fileName: string }[] = [];
+    const duplicates: { id: string; fileName: string }[] = [];
+    for (const document of documents) {
+      try {
+        const { contract, duplicate } = await submitDocument(auth, document, batch);
+        (duplicate ? duplicates : contracts).push({ id: contract.id, fileName: contract.fileName });
+      } catch (submitError) {
+        if (!(submitError instanceof UploadError)) {
+          throw submitError;
+        }
+        skipped.push({ name: document.name, reason: submitError.message });
+      }
+    }
+
+    // Nothing new to process, e.g. a data room uploaded a second time
+    if (contracts.length === 0) {
+      await prisma.batch.delete({ where: { id: batch.id } });
+      return NextResponse.json({ batchId: null, contracts, duplicates, skipped });
+    }
+
+    return NextResponse.json(
+      { batchId: batch.id, contracts, duplicates, skipped },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error('Error uploading batch:', error);
+    return NextResponse.json({ error: 'Failed to upload batch' }, { status: 500 });
+  }
+}
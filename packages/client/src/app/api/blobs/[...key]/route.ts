@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BlobNotFoundError, LocalBlobStore } from 'shared';
+import { blobStore } from '@/lib/storage';
+
+// Serves signed URLs for the local storage driver; GCS and S3 hand out their own signed URLs
+
+const CONTENT_TYPES: Record<string, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  json: 'application/json',
+  txt: 'text/plain',
+};
+
+function verify(request: NextRequest, key: string, action: 'read' | 'write'): boolean {
+  const { searchParams } = request.nextUrl;
+  return (
+    blobStore instanceof LocalBlobStore &&
+    searchParams.get('action') === action &&
+    blobStore.verifySignedUrl(
+      key,
+      action,
+      Number(searchParams.get('expires')),
+      searchParams.get('signature') ?? '',
+    )
+  );
+}
+
+export async function GET(request: NextRequest, { params }: { params: { key: string[] } }) {
+  try {
+    const { key: segments } = await params;
+    const key = segments.map(decodeURIComponent).join('/');
+
+    if (!verify(request, key, 'read')) {
+      return NextResponse.json({ error: 'Invalid or expired signature' }, { status: 403 });
+    }
+
+    const content = await blobStore.get(key);
+    const extension = key.split('.').pop()?.toLowerCase() ?? '';
+
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': CONTENT_TYPES[extension] ?? 'application/octet-stream',
+        'Cache-Control': 'private, max-age=60',
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    if (error instanceof BlobNotFoundError) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+    console.error('Error serving blob:', error);
+    return NextResponse.json({ error: 'Failed to read file' }, { status: 500 });
+  }
+}
+
+export async function PUT(request: NextRequest, { params }: { params: { key: string[] } }) {
+  try {
+    const { key: segments } = await params;
+    const key = segments.map(decodeURIComponent).join('/');
+
+    if (!verify(request, key, 'write')) {
+      return NextResponse.json({ error: 'Invalid or expired signature' }, { status: 403 });
+    }
+
+    await blobStore.put(key, Buffer.from(await request.arrayBuffer()), {
+      contentType: request.headers.get('content-type') ?? undefined,
+    });
+
+    return new NextResponse(null, { status: 200 });
+  } catch (error) {
+    console.error('Error storing blob:', error);
+    return NextResponse.json({ error: 'Failed to store file' }, { status: 500 });
+  }
+}
@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/auth';
+import {
+  EmbeddingError,
+  MAX_SEMANTIC_RESULTS,
+  embedQuery,
+  nearestClauses,
+  nearestPassages,
+} from '@/lib/embeddings';
+
+// Depends on the session cookie, so never prerender it
+export const dynamic = 'force-dynamic';
+
+/**
+ * Search the workspace's clauses by meaning, e.g. "indemnities that cover regulatory fines":
+ * GET /api/clauses/search?q=...&clauseType=&limit=
+ * Returns the nearest clauses with their contracts, and the nearest passages of the contracts'
+ * text for what no extracted clause covers.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const params = request.nextUrl.searchParams;
+    const query = params.get('q')?.trim();
+    if (!query) {
+      return NextResponse.json({ error: 'q is required' }, { status: 400 });
+    }
+    const limit = Number(params.get('limit') ?? 10);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEMANTIC_RESULTS) {
+      return NextResponse.json(
+        { error: `limit must be an integer from 1 to ${MAX_SEMANTIC_RESULTS}` },
+        { status: 400 },
+      );
+    }
+    const clauseType = params.get('clauseType') || undefined;
+
+    const vector = await embedQuery(auth.workspaceId, query);
+    const clauses = await nearestClauses(auth.workspaceId, vector, { clauseType, limit });
+    const passages = await nearestPassages(auth.workspaceId, vector, limit);
+    return NextResponse.json({ query, model: vector.model, clauses, passages });
+  } catch (error) {
+    if (error instanceof EmbeddingError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error searching clauses:', error);
+    return NextResponse.json({ error: 'Failed to search clauses' }, { status: 500 });
+  }
+}
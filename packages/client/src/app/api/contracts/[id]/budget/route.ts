@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { prisma } from '@/lib/prisma';
+import { rejectUnsigned } from '@/lib/signing';
+import { budgetStatus } from '@/lib/usage';
+
+// Depends on the spend so far, so never prerender it
+export const dynamic = 'force-dynamic';
+
+/**
+ * The monthly budget of the contract's workspace, which the AI service checks before each
+ * model stage of the contract's extraction. Requests must be signed with SERVICE_SIGNING_SECRET.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { id: contractId } = await params;
+
+    const rejected = rejectUnsigned(request, '');
+    if (rejected) {
+      return rejected;
+    }
+
+    const contract = await prisma.contract.findUnique({
+      where: { id: contractId },
+      select: { workspaceId: true },
+    });
+    if (!contract) {
+      return NextResponse.json({ error: 'Contract not found' }, { status: 404 });
+    }
+    return NextResponse.json(await budgetStatus(contract.workspaceId));
+  } catch (error) {
+    console.error('Error checking the budget:', error);
+    return NextResponse.json({ error: 'Failed to check the budget' }, { status: 500 });
+  }
+}
@@ -0,0 +1,149 @@
+import { NextRequest } from 'next/server';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { PUT } from './route';
+
+const { tx } = vi.hoisted(() => ({
+  tx: {
+    $executeRaw: vi.fn(),
+    clause: { findFirst: vi.fn(), update: vi.fn(), count: vi.fn() },
+    contract: { update: vi.fn() },
+    contractEvent: { create: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: { $transaction: (run: (client: typeof tx) => unknown) => run(tx) },
+}));
+
+vi.mock('@/lib/auth', () => ({
+  authenticate: async () => ({ userId: 'user-1', workspaceId: 'workspace-1', role: 'reviewer' }),
+}));
+
+const review = (body: unknown) =>
+  PUT(
+    new NextRequest('http://localhost:3000/api/contracts/contract-1/clauses/clause-1/review', {
+      method: 'PUT',
+      body: JSON.stringify(body),
+    }),
+    { params: { id: 'contract-1', clauseId: 'clause-1' } },
+  );
+
+const clause = (status: string, reviewStatus: string) => ({
+  id: 'clause-1',
+  type: 'termination',
+  reviewStatus: 'unreviewed',
+  reviewedText: null,
+  reviewComment: null,
+  contract: { status, reviewStatus },
+});
+
+describe('PUT /api/contracts/[id]/clauses/[clauseId]/review', () => {
+  beforeEach(() => {
+    tx.clause.update.mockResolvedValue({
+      id: 'clause-1',
+      reviewStatus: 'edited',
+      reviewedText: 'Revised text',
+      reviewComment: 'Typo',
+    });
+    tx.clause.count.mockResolvedValue(1);
+  });
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it.each([
+    ['an unknown status', { status: 'approved' }],
+    ['an edit without text', { status: 'edited' }],
+    ['text on an accepted clause', { status: 'accepted', text: 'Changed' }],
+    ['a comment that is not a string', { status: 'accepted', comment: 42 }],
+  ])('answers 400 for %s', async (_, body) => {
+    expect((await review(body)).status).toBe(400);
+    expect(tx.clause.update).not.toHaveBeenCalled();
+  });
+
+  it('checks the contract under a lock on its row', async () => {
+    tx.clause.findFirst.mockResolvedValue(clause('processing', 'unreviewed'));
+
+    const response = await review({ status: 'accepted' });
+
+    expect(response.status).toBe(409);
+    const [locked] = tx.$executeRaw.mock.invocationCallOrder;
+    const [read] = tx.clause.findFirst.mock.invocationCallOrder;
+    expect(locked).toBeLessThan(read);
+    expect(tx.clause.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses changes once the review is complete', async () => {
+    tx.clause.findFirst.mockResolvedValue(clause('completed', 'complete'));
+
+    const response = await review({ status: 'accepted' });
+
+    expect(response.status).toBe(409);
+    await expect(response.json()).resolves.toEqual({
+      error: 'The review of this contract is complete; reopen it to make changes',
+    });
+  });
+
+  it('answers 404 for a clause outside the workspace', async () => {
+    tx.clause.findFirst.mockResolvedValue(null);
+
+    expect((await review({ status: 'accepted' })).status).toBe(404);
+  });
+
+  it('stores an edit, records it in the history and puts the contract in review', async () => {
+    tx.clause.findFirst.mockResolvedValue(clause('completed', 'unreviewed'));
+
+    const response = await review({ status: 'edited', text: 'Revised text', comment: 'Typo' });
+
+    expect(response.status).toBe(200);
+    expect(tx.clause.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          reviewStatus: 'edited',
+          reviewedText: 'Revised text',
+          reviewComment: 'Typo',
+          reviewedById: 'user-1',
+        }),
+      }),
+    );
+    expect(tx.contractEvent.create).toHaveBeenCalledWith({
+      data: {
+        contractId: 'contract-1',
+        type: 'clause_reviewed',
+        actorId: 'user-1',
+        details: {
+          clauseId: 'clause-1',
+          clauseType: 'termination',
+          from: { status: 'unreviewed', text: null, comment: null },
+          to: { status: 'edited', text: 'Revised text', comment: 'Typo' },
+        },
+      },
+    });
+    expect(tx.contract.update).toHaveBeenCalledWith({
+      where: { id: 'contract-1' },
+      data: { reviewStatus: 'in_review' },
+    });
+  });
+
+  it('clears the decision when a clause is set back to unreviewed', async () => {
+    tx.clause.findFirst.mockResolvedValue(clause('completed', 'in_review'));
+    tx.clause.count.mockResolvedValue(0);
+
+    await review({ status: 'unreviewed', comment: 'Ignored' });
+
+    expect(tx.clause.update).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          reviewComment: null,
+          reviewedById: null,
+          reviewedAt: null,
+        }),
+      }),
+    );
+    expect(tx.contract.update).toHaveBeenCalledWith({
+      where: { id: 'contract-1' },
+      data: { reviewStatus: 'unreviewed' },
+    });
+  });
+});
@@ -0,0 +1,128 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { ClauseReviewStatus } from '@prisma/client';
+import { authenticate } from '@/lib/auth';
+import { recordEvent } from '@/lib/history';
+import { prisma } from '@/lib/prisma';
+import { readJsonBody } from '@/lib/request';
+
+const REVIEW_STATUSES: ClauseReviewStatus[] = ['unreviewed', 'accepted', 'edited', 'rejected'];
+
+/**
+ * Record a reviewer's decision on an extracted clause: accept the AI text, replace it
+ * with an edited text, reject it, or set it back to unreviewed. The AI text itself is
+ * never changed. Decisions are only possible once processing has completed and until
+ * the contract's review is marked complete.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: { id: string; clauseId: string } },
+) {
+  try {
+    const { id: contractId, clauseId } = await params;
+    const auth = await authenticate(request, 'reviewer');
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const body = await readJsonBody(request);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { status, text, comment } = body;
+
+    if (!REVIEW_STATUSES.includes(status as ClauseReviewStatus)) {
+      return NextResponse.json(
+        { error: `status must be one of ${REVIEW_STATUSES.join(', ')}` },
+        { status: 400 },
+      );
+    }
+    if (status === 'edited' ? typeof text !== 'string' || !text.trim() : text !== undefined) {
+      return NextResponse.json(
+        { error: 'text is required for edited clauses and not allowed otherwise' },
+        { status: 400 },
+      );
+    }
+    if (comment !== undefined && comment !== null && typeof comment !== 'string') {
+      return NextResponse.json({ error: 'comment must be a string' }, { status: 400 });
+    }
+
+    const reviewed = status !== 'unreviewed';
+    const updatedClause = await prisma.$transaction(async (tx) => {
+      // Processing and the contract's review wait on the contract row until the decision is
+      // stored, so neither can change between the checks below and the update
+      await tx.$executeRaw`SELECT 1 FROM "Contract" WHERE "id" = ${contractId} FOR UPDATE`;
+
+      const clause = await tx.clause.findFirst({
+        where: { id: clauseId, contract: { id: contractId, workspaceId: auth.workspaceId } },
+        include: { contract: { select: { status: true, reviewStatus: true } } },
+      });
+      if (!clause) {
+        return 'not_found';
+      }
+      if (clause.contract.status !== 'completed') {
+        return 'not_completed';
+      }
+      if (clause.contract.reviewStatus === 'complete') {
+        return 'review_complete';
+      }
+
+      const updated = await tx.clause.update({
+        where: { id: clauseId },
+        data: {
+          reviewStatus: status as ClauseReviewStatus,
+          reviewedText: status === 'edited' ? (text as string) : null,
+          reviewComment: reviewed ? (comment as string | null | undefined) || null : null,
+          reviewedById: reviewed ? auth.userId : null,
+          reviewedAt: reviewed ? new Date() : null,
+        },
+        include: { reviewedBy: { select: { id: true, name: true } } },
+      });
+
+      await recordEvent(tx, contractId, 'clause_reviewed', auth.userId, {
+        clauseId,
+        clauseType: clause.type,
+        from: {
+          status: clause.reviewStatus,
+          text: clause.reviewedText,
+          comment: clause.reviewComment,
+        },
+        to: {
+          status: updated.reviewStatus,
+          text: updated.reviewedText,
+          comment: updated.reviewComment,
+        },
+      });
+
+      // The contract is in review as soon as any of its clauses has a decision
+      const reviewedCount = await tx.clause.count({
+        where: { contractId, reviewStatus: { not: 'unreviewed' } },
+      });
+      await tx.contract.update({
+        where: { id: contractId },
+        data: { reviewStatus: reviewedCount > 0 ? 'in_review' : 'unreviewed' },
+      });
+
+      return updated;
+    });
+
+    if (updatedClause === 'not_found') {
+      return NextResponse.json({ error: 'Clause not found' }, { status: 404 });
+    }
+    if (updatedClause === 'not_completed') {
+      return NextResponse.json(
+        { error: 'Clauses can be reviewed once processing has completed' },
+        { status: 409 },
+      );
+    }
+    if (updatedClause === 'review_complete') {
+      return NextResponse.json(
+        { error: 'The review of this contract is complete; reopen it to make changes' },
+        { status: 409 },
+      );
+    }
+    return NextResponse.json(updatedClause);
+  } catch (error) {
+    console.error('Error reviewing clause:', error);
+    return NextResponse.json({ error: 'Failed to review clause' }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/auth';
+import { MAX_SEMANTIC_RESULTS, clauseVector, nearestClauses } from '@/lib/embeddings';
+import { prisma } from '@/lib/prisma';
+
+// Depends on the session cookie, so never prerender it
+export const dynamic = 'force-dynamic';
+
+/**
+ * The clauses of other contracts in the workspace nearest to this one, most similar first:
+ * GET /api/contracts/[id]/clauses/[clauseId]/similar?limit=&anyType=true
+ * Only clauses of the same type are compared unless anyType is set.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string; clauseId: string } },
+) {
+  try {
+    const { id: contractId, clauseId } = await params;
+    const auth = await authenticate(request);
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const limit = Number(searchParams.get('limit') ?? 10);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEMANTIC_RESULTS) {
+      return NextResponse.json(
+        { error: `limit must be an integer from 1 to ${MAX_SEMANTIC_RESULTS}` },
+        { status: 400 },
+      );
+    }
+
+    const clause = await prisma.clause.findFirst({
+      where: { id: clauseId, contract: { id: contractId, workspaceId: auth.workspaceId } },
+      select: { id: true, type: true, label: true },
+    });
+    if (!clause) {
+      return NextResponse.json({ error: 'Clause not found' }, { status: 404 });
+    }
+
+    const vector = await clauseVector(clause.id);
+    if (!vector) {
+      return NextResponse.json(
+        { error: 'This clause is not indexed for semantic search; re-extract the contract' },
+        { status: 409 },
+      );
+    }
+
+    const similar = await nearestClauses(auth.workspaceId, vector, {
+      clauseType: searchParams.get('anyType') === 'true' ? undefined : clause.type,
+      excludeContractId: contractId,
+      limit,
+    });
+    return NextResponse.json({ clause, model: vector.model, similar });
+  } catch (error) {
+    console.error('Error finding similar clauses:', error);
+    return NextResponse.json({ error: 'Failed to find similar clauses' }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { BlobNotFoundError } from 'shared';
+import { authenticate } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { blobStore } from '@/lib/storage';
+import { contentTypeOf } from '@/lib/uploads';
+
+// Streams the uploaded document from the blob store so the viewer can load it from the same origin
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { id: contractId } = await params;
+    const auth = await authenticate(request);
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const contract = await prisma.contract.findFirst({
+      where: { id: contractId, workspaceId: auth.workspaceId },
+      select: { fileName: true, storageKey: true, documentType: true },
+    });
+
+    if (!contract?.storageKey) {
+      return NextResponse.json({ error: 'Contract not found' }, { status: 404 });
+    }
+
+    const content = await blobStore.get(contract.storageKey);
+
+    return new NextResponse(content, {
+      headers: {
+        'Content-Type': contentTypeOf(contract.documentType),
+        'Content-Disposition': `inline; filename="${encodeURIComponent(contract.fileName)}"`,
+        'Cache-Control': 'private, max-age=300',
+        // Never let the browser guess another type for user-supplied content
+        'X-Content-Type-Options': 'nosniff',
+      },
+    });
+  } catch (error) {
+    if (error instanceof BlobNotFoundError) {
+      return NextResponse.json({ error: 'File not found' }, { status: 404 });
+    }
+    console.error('Error serving contract document:', error);
+    return NextResponse.json({ error: 'Failed to read contract document' }, { status: 500 });
+  }
+}
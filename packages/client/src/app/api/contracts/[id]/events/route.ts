@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { ContractProgress } from 'shared';
+import { authenticate } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { subscribeProgress } from '@/lib/progress';
+
+export const dynamic = 'force-dynamic';
+
+// Comment line sent while nothing happens, so proxies do not close the idle connection
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+const isFinished = (progress: ContractProgress) =>
+  progress.status === 'completed' || progress.status === 'failed';
+
+/**
+ * Server-Sent Events stream of a contract's processing progress. The current state
+ * is sent first, then every update the AI service reports, and the stream ends once
+ * the contract has completed or failed.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  const { id: contractId } = await params;
+  const auth = await authenticate(request);
+  if (auth instanceof NextResponse) {
+    return auth;
+  }
+
+  const encoder = new TextEncoder();
+  let stop: (cancelled?: boolean) => void = () => {};
+
+  // Subscribe before reading the current state so that no update falls in between
+  const pending: ContractProgress[] = [];
+  let forward: (progress: ContractProgress) => void = (progress) => pending.push(progress);
+  const unsubscribe = subscribeProgress(contractId, (progress) => forward(progress));
+
+  let contract: ContractProgress | null;
+  try {
+    contract = await prisma.contract.findFirst({
+      where: { id: contractId, workspaceId: auth.workspaceId },
+      select: { status: true, progress: true, stage: true },
+    });
+  } catch (error) {
+    unsubscribe();
+    console.error('Error fetching contract progress:', error);
+    return NextResponse.json({ error: 'Failed to fetch contract progress' }, { status: 500 });
+  }
+
+  if (!contract) {
+    unsubscribe();
+    return NextResponse.json({ error: 'Contract not found' }, { status: 404 });
+  }
+  const current = contract;
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+      const heartbeat = setInterval(() => {
+        controller.enqueue(encoder.encode(': heartbeat\n\n'));
+      }, HEARTBEAT_INTERVAL_MS);
+
+      // A stream the browser cancelled can no longer be closed from this side
+      stop = (cancelled = false) => {
+        if (!closed) {
+          closed = true;
+          clearInterval(heartbeat);
+          unsubscribe();
+          if (!cancelled) {
+            controller.close();
+          }
+        }
+      };
+
+      const send = (progress: ContractProgress) => {
+        if (closed) {
+          return;
+        }
+        controller.enqueue(
+          encoder.encode(`event: progress\ndata: ${JSON.stringify(progress)}\n\n`),
+        );
+        if (isFinished(progress)) {
+          stop();
+        }
+      };
+
+      send(current);
+      pending.forEach(send);
+      forward = send;
+      request.signal.addEventListener('abort', () => stop(true));
+    },
+    cancel() {
+      stop(true);
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
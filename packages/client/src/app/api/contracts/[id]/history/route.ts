@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+/**
+ * The full history of a contract, oldest first: every event with its actor (null for
+ * the AI service), and the complete output of every extraction run.
+ */
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { id: contractId } = await params;
+    const auth = await authenticate(request);
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const contract = await prisma.contract.findFirst({
+      where: { id: contractId, workspaceId: auth.workspaceId },
+      select: {
+        id: true,
+        fileName: true,
+        events: {
+          orderBy: { createdAt: 'asc' },
+          include: { actor: { select: { id: true, name: true, email: true } } },
+        },
+        extractionRuns: { orderBy: { createdAt: 'asc' } },
+      },
+    });
+
+    if (!contract) {
+      return NextResponse.json({ error: 'Contract not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(contract);
+  } catch (error) {
+    console.error('Error fetching contract history:', error);
+    return NextResponse.json({ error: 'Failed to fetch contract history' }, { status: 500 });
+  }
+}
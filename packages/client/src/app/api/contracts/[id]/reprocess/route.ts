@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/auth';
+import {
+  REPROCESS_MODES,
+  ReprocessError,
+  isReprocessMode,
+  reprocessContract,
+} from '@/lib/pipeline';
+import { prisma } from '@/lib/prisma';
+import { readJsonBody } from '@/lib/request';
+
+/**
+ * Send a completed or failed contract through the pipeline again without uploading it
+ * again. Body: { mode: "extraction" } re-runs only the LLM step on the stored OCR
+ * output, { mode: "ocr" } redoes OCR as well.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { id: contractId } = await params;
+    const auth = await authenticate(request, 'reviewer');
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const body = await readJsonBody(request);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { mode } = body;
+    if (!isReprocessMode(mode)) {
+      return NextResponse.json(
+        { error: `mode must be one of ${REPROCESS_MODES.join(', ')}` },
+        { status: 400 },
+      );
+    }
+
+    const contract = await prisma.contract.findFirst({
+      where: { id: contractId, workspaceId: auth.workspaceId },
+      include: { batch: { select: { id: true, concurrency: true } } },
+    });
+    if (!contract) {
+      return NextResponse.json({ error: 'Contract not found' }, { status: 404 });
+    }
+
+    await reprocessContract(contract, mode, auth.userId);
+
+    return NextResponse.json({ message: 'Contract queued for reprocessing', contractId, mode });
+  } catch (error) {
+    if (error instanceof ReprocessError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error reprocessing contract:', error);
+    return NextResponse.json({ error: 'Failed to reprocess contract' }, { status: 500 });
+  }
+}
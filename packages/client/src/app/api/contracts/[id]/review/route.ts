@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/auth';
+import { recordEvent } from '@/lib/history';
+import { prisma } from '@/lib/prisma';
+import { readJsonBody } from '@/lib/request';
+import { enqueueWebhookEvent, wakeWebhookDispatcher, webhookContract } from '@/lib/webhooks';
+
+/**
+ * Mark the review of a contract complete, or reopen it. A review can only be completed
+ * once every clause has a decision; a completed review freezes the clause decisions
+ * until it is reopened.
+ */
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const { id: contractId } = await params;
+    const auth = await authenticate(request, 'reviewer');
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const body = await readJsonBody(request);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { action } = body;
+    if (action !== 'complete' && action !== 'reopen') {
+      return NextResponse.json({ error: 'action must be "complete" or "reopen"' }, { status: 400 });
+    }
+
+    const outcome = await prisma.$transaction(async (tx) => {
+      // Clause decisions and processing wait on the contract row until the review is updated,
+      // so the checks below still hold when it is written
+      await tx.$executeRaw`SELECT 1 FROM "Contract" WHERE "id" = ${contractId} FOR UPDATE`;
+
+      const contract = await tx.contract.findFirst({
+        where: { id: contractId, workspaceId: auth.workspaceId },
+        include: { clauses: { select: { reviewStatus: true } } },
+      });
+      if (!contract) {
+        return { error: 'Contract not found', status: 404 };
+      }
+
+      if (action === 'reopen') {
+        if (contract.reviewStatus !== 'complete') {
+          return { error: 'The review is not complete', status: 409 };
+        }
+        const reopened = await tx.contract.update({
+          where: { id: contractId },
+          data: { reviewStatus: 'in_review', reviewCompletedById: null, reviewCompletedAt: null },
+        });
+        await recordEvent(tx, contractId, 'review_reopened', auth.userId, {});
+        return reopened;
+      }
+
+      if (contract.status !== 'completed') {
+        return {
+          error: 'A contract can be reviewed once processing has completed',
+          status: 409,
+        };
+      }
+      const unreviewed = contract.clauses.filter((clause) => clause.reviewStatus === 'unreviewed');
+      if (unreviewed.length > 0) {
+        return {
+          error: `${unreviewed.length} clause(s) still need a review decision`,
+          status: 409,
+        };
+      }
+
+      const completed = await tx.contract.update({
+        where: { id: contractId },
+        data: {
+          reviewStatus: 'complete',
+          reviewCompletedById: auth.userId,
+          reviewCompletedAt: new Date(),
+        },
+      });
+      await recordEvent(tx, contractId, 'review_completed', auth.userId, {});
+      await enqueueWebhookEvent(tx, auth.workspaceId, 'review.completed', {
+        contract: webhookContract(completed),
+        completedBy: { id: auth.userId, name: auth.name },
+      });
+      return completed;
+    });
+
+    if ('error' in outcome) {
+      return NextResponse.json({ error: outcome.error }, { status: outcome.status });
+    }
+    if (action === 'complete') {
+      wakeWebhookDispatcher();
+    }
+    return NextResponse.json(outcome);
+  } catch (error) {
+    console.error('Error updating contract review:', error);
+    return NextResponse.json({ error: 'Failed to update the contract review' }, { status: 500 });
+  }
+}
@@ -1,14 +1,316 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PrismaClient } from '@prisma/client';
+import { Prisma } from '@prisma/client';
+import {
+  BoundingRegion,
+  ContractMetadata,
+  ContractStatus,
+  UsageRecord,
+  isBoundingRegion,
+  isContractMetadata,
+  isUsageRecord,
+} from 'shared';
+import { authenticate } from '@/lib/auth';
+import { EmbeddingsPayload, isEmbeddingsPayload, replaceEmbeddings } from '@/lib/embeddings';
+import { joinDistinct, recordEvent } from '@/lib/history';
+import { PAUSED_STAGE } from '@/lib/pipeline';
+import { prisma } from '@/lib/prisma';
+import { publishProgress } from '@/lib/progress';
+import { rejectUnsigned } from '@/lib/signing';
+import { recordUsage } from '@/lib/usage';
+import { enqueueWebhookEvent, wakeWebhookDispatcher, webhookContract } from '@/lib/webhooks';
 
-const prisma = new PrismaClient();
+interface PassagePayload {
+  text: string;
+  chunkIndex: number;
+  pageStart: number | null;
+  pageEnd: number | null;
+  regions?: BoundingRegion[];
+}
+
+type AttributeValue = string | number | boolean | string[] | null;
+
+interface ClausePayload {
+  type: string;
+  label: string;
+  text: string | null;
+  pageStart?: number | null;
+  pageEnd?: number | null;
+  passages?: PassagePayload[];
+  attributes?: Record<string, AttributeValue> | null;
+  model?: string;
+  promptVersion?: string;
+}
+
+function isPageNumber(value: unknown): value is number | null {
+  return value === null || (Number.isInteger(value) && (value as number) > 0);
+}
+
+function isAttributeValue(value: unknown): value is AttributeValue {
+  return (
+    value === null ||
+    typeof value === 'string' ||
+    typeof value === 'boolean' ||
+    (typeof value === 'number' && Number.isFinite(value)) ||
+    (Array.isArray(value) && value.every((item) => typeof item === 'string'))
+  );
+}
+
+// The AI service validates attributes against the clause schema; here only the JSON shape is checked
+function isAttributes(value: unknown): value is Record<string, AttributeValue> | null {
+  return (
+    value === null ||
+    (typeof value === 'object' &&
+      !Array.isArray(value) &&
+      Object.values(value as object).every(isAttributeValue))
+  );
+}
+
+function isPassagePayload(value: unknown): value is PassagePayload {
+  const passage = value as PassagePayload;
+  return (
+    typeof passage?.text === 'string' &&
+    Number.isInteger(passage.chunkIndex) &&
+    isPageNumber(passage.pageStart) &&
+    isPageNumber(passage.pageEnd) &&
+    (passage.regions === undefined ||
+      (Array.isArray(passage.regions) && passage.regions.every(isBoundingRegion)))
+  );
+}
+
+function isClausePayload(value: unknown): value is ClausePayload {
+  const clause = value as ClausePayload;
+  return (
+    typeof clause?.type === 'string' &&
+    typeof clause.label === 'string' &&
+    (clause.text === null || typeof clause.text === 'string') &&
+    (clause.pageStart === undefined || isPageNumber(clause.pageStart)) &&
+    (clause.pageEnd === undefined || isPageNumber(clause.pageEnd)) &&
+    (clause.attributes === undefined || isAttributes(clause.attributes)) &&
+    (clause.model === undefined || typeof clause.model === 'string') &&
+    (clause.promptVersion === undefined || typeof clause.promptVersion === 'string') &&
+    (clause.passages === undefined ||
+      (Array.isArray(clause.passages) && clause.passages.every(isPassagePayload)))
+  );
+}
+
+interface FindingPayload {
+  ruleId: string;
+  clauseType: string;
+  description: string;
+  severity: 'low' | 'medium' | 'high' | 'critical';
+  status: 'pass' | 'fail' | 'unknown' | 'not_applicable';
+  detail: string;
+  fallback: string;
+}
+
+function isFindingPayload(value: unknown): value is FindingPayload {
+  const finding = value as FindingPayload;
+  return (
+    typeof finding?.ruleId === 'string' &&
+    typeof finding.clauseType === 'string' &&
+    typeof finding.description === 'string' &&
+    typeof finding.detail === 'string' &&
+    typeof finding.fallback === 'string' &&
+    ['low', 'medium', 'high', 'critical'].includes(finding.severity) &&
+    ['pass', 'fail', 'unknown', 'not_applicable'].includes(finding.status)
+  );
+}
+
+interface PagePayload {
+  pageNumber: number;
+  text: string;
+}
+
+function isPagePayload(value: unknown): value is PagePayload {
+  const page = value as PagePayload;
+  return Number.isInteger(page?.pageNumber) && page.pageNumber > 0 && typeof page.text === 'string';
+}
+
+// Body of PUT /api/contracts/[id], sent by the AI service
+interface ContractUpdate {
+  status: ContractStatus;
+  progress?: number;
+  stage?: string;
+  // The document's text, page by page, once it has been read
+  pages?: PagePayload[];
+  clauses?: ClausePayload[];
+  riskScore?: number | null;
+  findings?: FindingPayload[];
+  // Vectors of the chunks and found clauses, sent with the clauses unless embeddings are off
+  embeddings?: EmbeddingsPayload;
+  // What the stage that just ran used, priced by the AI service
+  usage?: UsageRecord[];
+  // Parties, type, term, value and governing law, read once the text is assembled
+  metadata?: ContractMetadata;
+  // The workspace's budget ran out before extraction's next model stage; the contract waits,
+  // still extracting, until resumePausedContracts sends it again
+  paused?: true;
+}
+
+const UPDATE_FIELDS = [
+  'status',
+  'progress',
+  'stage',
+  'pages',
+  'clauses',
+  'riskScore',
+  'findings',
+  'embeddings',
+  'usage',
+  'metadata',
+  'paused',
+];
+
+// Statuses a contract may move to from each status; the pipeline reports progress within a
+// stage by repeating the current status
+const STATUS_TRANSITIONS: Record<ContractStatus, ContractStatus[]> = {
+  pending: ['processing', 'failed'],
+  processing: ['processing', 'extracting', 'failed'],
+  extracting: ['extracting', 'completed', 'failed'],
+  completed: [],
+  failed: [],
+};
+
+class StatusTransitionError extends Error {
+  constructor(
+    public readonly from: ContractStatus,
+    public readonly to: ContractStatus,
+  ) {
+    super(`Cannot change contract status from ${from} to ${to}`);
+    this.name = 'StatusTransitionError';
+  }
+}
+
+const isPercentage = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 100;
+
+// The final update of a long contract writes thousands of rows, which can take longer than Prisma's
+// default 5 second limit for interactive transactions; maxWait bounds the wait for a connection
+const UPDATE_TRANSACTION_OPTIONS = { maxWait: 10 * 1000, timeout: 2 * 60 * 1000 };
+
+// Check the whole body against ContractUpdate; returns the problem, or null if it is valid
+function updateError(data: unknown): string | null {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return 'Body must be a JSON object';
+  }
+
+  const update = data as ContractUpdate;
+  const unknownFields = Object.keys(update).filter((field) => !UPDATE_FIELDS.includes(field));
+  if (unknownFields.length > 0) {
+    return `Unknown fields: ${unknownFields.join(', ')}`;
+  }
+  if (!(update.status in STATUS_TRANSITIONS)) {
+    return `status must be one of ${Object.keys(STATUS_TRANSITIONS).join(', ')}`;
+  }
+  if (update.progress !== undefined && !isPercentage(update.progress)) {
+    return 'progress must be an integer from 0 to 100';
+  }
+  if (update.stage !== undefined && typeof update.stage !== 'string') {
+    return 'stage must be a string';
+  }
+  if (
+    update.pages !== undefined &&
+    (!Array.isArray(update.pages) ||
+      !update.pages.every(isPagePayload) ||
+      new Set(update.pages.map((page) => page.pageNumber)).size !== update.pages.length)
+  ) {
+    return 'pages must be an array of { pageNumber, text } with distinct page numbers';
+  }
+  if (
+    update.clauses !== undefined &&
+    (!Array.isArray(update.clauses) || !update.clauses.every(isClausePayload))
+  ) {
+    return 'clauses must be an array of { type, label, text, pageStart?, pageEnd?, passages?, attributes?, model?, promptVersion? }';
+  }
+  if (
+    update.riskScore !== undefined &&
+    update.riskScore !== null &&
+    !isPercentage(update.riskScore)
+  ) {
+    return 'riskScore must be an integer from 0 to 100 or null';
+  }
+  if (
+    update.findings !== undefined &&
+    (!Array.isArray(update.findings) || !update.findings.every(isFindingPayload))
+  ) {
+    return 'findings must be an array of { ruleId, clauseType, description, severity, status, detail, fallback }';
+  }
+  if (update.embeddings !== undefined) {
+    if (!update.clauses) {
+      return 'embeddings are only accepted with clauses';
+    }
+    if (!isEmbeddingsPayload(update.embeddings)) {
+      return 'embeddings must be { model, chunks: [{ chunkIndex, text, pageStart, pageEnd, embedding }], clauses: [{ type, embedding }] } with vectors of one length';
+    }
+  }
+  if (
+    update.usage !== undefined &&
+    (!Array.isArray(update.usage) || !update.usage.every(isUsageRecord))
+  ) {
+    return 'usage must be an array of { kind, provider, model, pages, inputTokens, outputTokens, costUsd }';
+  }
+  if (update.metadata !== undefined && !isContractMetadata(update.metadata)) {
+    return 'metadata must be { parties: [{ name, role }], contractType, effectiveDate, expirationDate, renewalTerms, contractValue, currency, governingLaw, jurisdiction, model } with dates as YYYY-MM-DD';
+  }
+  if (update.paused !== undefined && (update.paused !== true || update.status !== 'extracting')) {
+    return 'paused must be true, sent with status extracting';
+  }
+  return null;
+}
+
+// Date columns hold the calendar date, read as UTC midnight
+const calendarDate = (date: string | null) =>
+  date === null ? null : new Date(`${date}T00:00:00Z`);
+
+function metadataColumns(metadata: ContractMetadata) {
+  return {
+    contractType: metadata.contractType,
+    effectiveDate: calendarDate(metadata.effectiveDate),
+    expirationDate: calendarDate(metadata.expirationDate),
+    renewalTerms: metadata.renewalTerms,
+    contractValue: metadata.contractValue,
+    currency: metadata.currency,
+    governingLaw: metadata.governingLaw,
+    jurisdiction: metadata.jurisdiction,
+    metadataModel: metadata.model,
+  };
+}
+
+function passageRows(clause: ClausePayload) {
+  return (clause.passages ?? []).map((passage, position) => ({
+    position,
+    text: passage.text,
+    chunkIndex: passage.chunkIndex,
+    pageStart: passage.pageStart,
+    pageEnd: passage.pageEnd,
+    // Plain JSON, but interfaces lack the index signature Prisma's JSON input type wants
+    regions: (passage.regions ?? []) as unknown as Prisma.InputJsonArray,
+  }));
+}
 
 export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
   try {
     const { id: contractId } = await params;
+    const auth = await authenticate(request);
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
 
-    const contract = await prisma.contract.findUnique({
-      where: { id: contractId },
+    // Contracts of other workspaces are reported as not found
+    const contract = await prisma.contract.findFirst({
+      where: { id: contractId, workspaceId: auth.workspaceId },
+      include: {
+        clauses: {
+          orderBy: { label: 'asc' },
+          include: {
+            passages: { orderBy: { position: 'asc' } },
+            reviewedBy: { select: { id: true, name: true } },
+          },
+        },
+        findings: { orderBy: { ruleId: 'asc' } },
+        parties: { orderBy: { position: 'asc' }, select: { name: true, role: true } },
+        reviewCompletedBy: { select: { id: true, name: true } },
+      },
     });
 
     if (!contract) {
@@ -22,52 +324,215 @@ export async function GET(request: NextRequest, { params }: { params: { id: stri
   }
 }
 
+// Only the AI service may update contracts; requests must be signed with SERVICE_SIGNING_SECRET
 export async function PUT(request: NextRequest, { params }: { params: { id: string } }) {
   try {
     const { id: contractId } = await params;
-    const data = await request.json();
 
-    // Validate that status is provided
-    if (!data.status) {
-      return NextResponse.json({ error: 'Status field is required' }, { status: 400 });
+    // The signature covers the raw body, so check it before parsing
+    const body = await request.text();
+    const rejected = rejectUnsigned(request, body);
+    if (rejected) {
+      return rejected;
     }
 
-    console.log(`Updating contract ${contractId} status to: ${data.status}`);
-
-    // Prepare update data object
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const updateData: any = {
-      status: data.status,
-    };
-
-    // Add indemnification clause if provided
-    if (data.indemnificationText) {
-      updateData.indemnificationText = data.indemnificationText;
+    let data: unknown;
+    try {
+      data = JSON.parse(body);
+    } catch {
+      return NextResponse.json({ error: 'Body must be valid JSON' }, { status: 400 });
     }
 
-    // Add termination clause if provided
-    if (data.terminationText) {
-      updateData.terminationText = data.terminationText;
+    const error = updateError(data);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
     }
+    const update = data as ContractUpdate;
+    // Postgres text cannot hold NUL characters, which OCR output occasionally contains
+    const pages = update.pages
+      ?.map(({ pageNumber, text }) => ({ pageNumber, text: text.replace(/\0/g, '') }))
+      .sort((a, b) => a.pageNumber - b.pageNumber);
 
-    // Update the contract with all provided fields
-    const updatedContract = await prisma.contract.update({
-      where: { id: contractId },
-      data: updateData,
-    });
+    console.log(`Updating contract ${contractId} status to: ${update.status}`);
+
+    // Update the status, metadata and findings, upsert one Clause row (with its passages) per
+    // clause type, store the vectors and record the usage, in a single transaction
+    const updatedContract = await prisma.$transaction(async (tx) => {
+      const current = await tx.contract.findUnique({
+        where: { id: contractId },
+        select: { status: true, workspaceId: true, batchId: true },
+      });
+      if (!current) {
+        return null;
+      }
+      if (!STATUS_TRANSITIONS[current.status].includes(update.status)) {
+        throw new StatusTransitionError(current.status, update.status);
+      }
+
+      // Only write if the status is still the one checked, in case another update got in first
+      const { count } = await tx.contract.updateMany({
+        where: { id: contractId, status: current.status },
+        data: {
+          status: update.status,
+          ...(update.progress !== undefined && { progress: update.progress }),
+          ...(update.stage !== undefined && { stage: update.stage }),
+          // A failed contract keeps the stage it got to
+          ...(update.status === 'completed' && { progress: 100, stage: null }),
+          ...(update.riskScore !== undefined && { riskScore: update.riskScore }),
+          ...(update.metadata && metadataColumns(update.metadata)),
+          ...(update.paused && { pausedAt: new Date(), stage: PAUSED_STAGE }),
+          // New extraction results need a new review
+          ...(update.clauses && {
+            reviewStatus: 'unreviewed',
+            reviewCompletedById: null,
+            reviewCompletedAt: null,
+          }),
+        },
+      });
+      if (count === 0) {
+        throw new StatusTransitionError(current.status, update.status);
+      }
+
+      // Progress reports repeat the status; only actual transitions go into the history
+      if (update.status !== current.status) {
+        await recordEvent(tx, contractId, 'status_changed', null, {
+          from: current.status,
+          to: update.status,
+          stage: update.stage ?? null,
+        });
+      }
+
+      if (update.usage) {
+        await recordUsage(
+          tx,
+          { workspaceId: current.workspaceId, contractId, batchId: current.batchId },
+          update.usage,
+        );
+      }
+
+      if (pages) {
+        // Replace the text read by any previous run
+        await tx.contractPage.deleteMany({ where: { contractId } });
+        await tx.contractPage.createMany({
+          data: pages.map((page) => ({ contractId, ...page })),
+        });
+      }
+
+      if (update.metadata) {
+        // Replace the parties read by any previous run
+        await tx.contractParty.deleteMany({ where: { contractId } });
+        await tx.contractParty.createMany({
+          data: update.metadata.parties.map((party, position) => ({
+            contractId,
+            name: party.name,
+            role: party.role,
+            position,
+          })),
+        });
+      }
+
+      if (update.clauses) {
+        // Keep the complete output; the Clause rows below only hold the latest extraction
+        const run = await tx.extractionRun.create({
+          data: {
+            contractId,
+            model: joinDistinct(update.clauses.map((clause) => clause.model)),
+            promptVersion: joinDistinct(update.clauses.map((clause) => clause.promptVersion)),
+            clauses: update.clauses as unknown as Prisma.InputJsonArray,
+            riskScore: update.riskScore ?? null,
+            findings: (update.findings as unknown as Prisma.InputJsonArray) ?? Prisma.DbNull,
+          },
+        });
+        await recordEvent(tx, contractId, 'extraction_recorded', null, {
+          extractionRunId: run.id,
+          model: run.model,
+          promptVersion: run.promptVersion,
+          clausesFound: update.clauses.filter((clause) => clause.text !== null).length,
+          clauseCount: update.clauses.length,
+        });
+      }
+
+      if (update.findings) {
+        // Replace the findings of any previous evaluation
+        await tx.playbookFinding.deleteMany({ where: { contractId } });
+        await tx.playbookFinding.createMany({
+          data: update.findings.map((finding) => ({ contractId, ...finding })),
+        });
+      }
+
+      for (const clause of update.clauses ?? []) {
+        await tx.clause.upsert({
+          where: { contractId_type: { contractId, type: clause.type } },
+          create: {
+            contractId,
+            type: clause.type,
+            label: clause.label,
+            text: clause.text,
+            found: clause.text !== null,
+            pageStart: clause.pageStart ?? null,
+            pageEnd: clause.pageEnd ?? null,
+            attributes: clause.attributes ?? Prisma.DbNull,
+            model: clause.model ?? null,
+            promptVersion: clause.promptVersion ?? null,
+            passages: { createMany: { data: passageRows(clause) } },
+          },
+          update: {
+            label: clause.label,
+            text: clause.text,
+            found: clause.text !== null,
+            pageStart: clause.pageStart ?? null,
+            pageEnd: clause.pageEnd ?? null,
+            attributes: clause.attributes ?? Prisma.DbNull,
+            model: clause.model ?? null,
+            promptVersion: clause.promptVersion ?? null,
+            // Replace the passages from any previous extraction, in one insert
+            passages: { deleteMany: {}, createMany: { data: passageRows(clause) } },
+            reviewStatus: 'unreviewed',
+            reviewedText: null,
+            reviewComment: null,
+            reviewedById: null,
+            reviewedAt: null,
+          },
+        });
+      }
+
+      if (update.clauses) {
+        // Without new vectors the old ones are dropped, as they are of the replaced clauses
+        await replaceEmbeddings(tx, contractId, update.embeddings ?? null);
+      }
+
+      const contract = await tx.contract.findUniqueOrThrow({ where: { id: contractId } });
+      // Tell the workspace's webhooks when processing ends, either way
+      if (update.status !== current.status && update.status === 'completed') {
+        await enqueueWebhookEvent(tx, contract.workspaceId, 'contract.completed', {
+          contract: webhookContract(contract),
+        });
+      } else if (update.status !== current.status && update.status === 'failed') {
+        await enqueueWebhookEvent(tx, contract.workspaceId, 'contract.failed', {
+          contract: webhookContract(contract),
+          stage: contract.stage,
+        });
+      }
+      return contract;
+    }, UPDATE_TRANSACTION_OPTIONS);
 
     if (!updatedContract) {
       return NextResponse.json({ error: 'Contract not found' }, { status: 404 });
     }
 
+    wakeWebhookDispatcher();
+    publishProgress(contractId, {
+      status: updatedContract.status,
+      progress: updatedContract.progress,
+      stage: updatedContract.stage,
+    });
+
     return NextResponse.json(updatedContract);
   } catch (error) {
-    console.error('Error updating contract status:', error);
-    // Handle specific Prisma errors
-    if ((error as import('@prisma/client').Prisma.PrismaClientKnownRequestError).code === 'P2025') {
-      return NextResponse.json({ error: 'Contract not found' }, { status: 404 });
+    if (error instanceof StatusTransitionError) {
+      return NextResponse.json({ error: error.message }, { status: 409 });
     }
-
+    console.error('Error updating contract status:', error);
     return NextResponse.json({ error: 'Failed to update contract status' }, { status: 500 });
   }
 }
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/auth';
+import { EXPORT_FORMATS, ExportFormat, exportContracts, loadExportContracts } from '@/lib/export';
+import { prisma } from '@/lib/prisma';
+import { listParam, parseSearchFilters } from '@/lib/search';
+
+// Depends on the session cookie, so never prerender it
+export const dynamic = 'force-dynamic';
+
+/**
+ * Export the workspace's contracts as a clause matrix (csv, xlsx), review memos (docx) or the
+ * versioned JSON document (json):
+ * GET /api/contracts/export?format=&id=&q=&status=&clause=&missingClause=&uploadedAfter=&uploadedBefore=
+ * The filters are those of GET /api/contracts/search; q is optional here, and id limits the
+ * export to the given contracts.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const params = request.nextUrl.searchParams;
+    const format = params.get('format') as ExportFormat;
+    if (!EXPORT_FORMATS.includes(format)) {
+      return NextResponse.json(
+        { error: `format must be one of ${EXPORT_FORMATS.join(', ')}` },
+        { status: 400 },
+      );
+    }
+    const filters = parseSearchFilters(params);
+    if (typeof filters === 'string') {
+      return NextResponse.json({ error: filters }, { status: 400 });
+    }
+
+    const contracts = await loadExportContracts(auth.workspaceId, {
+      filters,
+      query: params.get('q')?.trim() || undefined,
+      ids: listParam(params, 'id'),
+    });
+    if (format === 'docx' && contracts.length === 0) {
+      return NextResponse.json({ error: 'No contracts match the export' }, { status: 404 });
+    }
+
+    const workspace = await prisma.workspace.findUniqueOrThrow({
+      where: { id: auth.workspaceId },
+      select: { id: true, name: true },
+    });
+    const file = exportContracts(workspace, contracts, format);
+
+    return new NextResponse(file.data, {
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${encodeURIComponent(file.fileName)}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error exporting contracts:', error);
+    return NextResponse.json({ error: 'Failed to export contracts' }, { status: 500 });
+  }
+}
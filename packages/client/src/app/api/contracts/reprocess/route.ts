@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { authenticate } from '@/lib/auth';
+import {
+  REPROCESS_MODES,
+  ReprocessError,
+  isReprocessMode,
+  reprocessContract,
+} from '@/lib/pipeline';
+import { prisma } from '@/lib/prisma';
+import { readJsonBody } from '@/lib/request';
+
+// Most contracts one request may reprocess; each one is a call to the AI service
+const MAX_CONTRACTS = 200;
+
+// Which contracts to reprocess; all given conditions must hold
+interface ReprocessFilter {
+  ids?: string[];
+  // Defaults to both finished statuses, the only ones that can be reprocessed
+  status?: ('completed' | 'failed')[];
+  // Only contracts with a clause extracted with another prompt version, e.g. after a prompt change
+  promptVersionNot?: string;
+  uploadedAfter?: string;
+  uploadedBefore?: string;
+}
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+const isDate = (value: unknown) => typeof value === 'string' && !isNaN(Date.parse(value));
+
+// Check the filter against ReprocessFilter; returns the problem, or null if it is valid
+function filterError(data: unknown): string | null {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return 'filter must be an object';
+  }
+
+  const filter = data as ReprocessFilter;
+  if (filter.ids !== undefined && !isStringArray(filter.ids)) {
+    return 'filter.ids must be an array of contract ids';
+  }
+  if (
+    filter.status !== undefined &&
+    !(
+      isStringArray(filter.status) &&
+      filter.status.every((s) => s === 'completed' || s === 'failed')
+    )
+  ) {
+    return 'filter.status must be an array of "completed" and "failed"';
+  }
+  if (filter.promptVersionNot !== undefined && typeof filter.promptVersionNot !== 'string') {
+    return 'filter.promptVersionNot must be a string';
+  }
+  if (filter.uploadedAfter !== undefined && !isDate(filter.uploadedAfter)) {
+    return 'filter.uploadedAfter must be a date';
+  }
+  if (filter.uploadedBefore !== undefined && !isDate(filter.uploadedBefore)) {
+    return 'filter.uploadedBefore must be a date';
+  }
+  return null;
+}
+
+/**
+ * Reprocess every contract of the workspace matching a filter. Body:
+ * { mode: "extraction" | "ocr", filter: ReprocessFilter }. Contracts are queued one by
+ * one; the response lists those queued and those that could not be, with the reason.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, 'reviewer');
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const body = await readJsonBody(request);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { mode, filter = {} } = body;
+    if (!isReprocessMode(mode)) {
+      return NextResponse.json(
+        { error: `mode must be one of ${REPROCESS_MODES.join(', ')}` },
+        { status: 400 },
+      );
+    }
+    const error = filterError(filter);
+    if (error) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const { ids, status, promptVersionNot, uploadedAfter, uploadedBefore } =
+      filter as ReprocessFilter;
+    const where: Prisma.ContractWhereInput = {
+      workspaceId: auth.workspaceId,
+      status: { in: status ?? ['completed', 'failed'] },
+      ...(ids && { id: { in: ids } }),
+      ...(promptVersionNot !== undefined && {
+        clauses: {
+          some: { OR: [{ promptVersion: { not: promptVersionNot } }, { promptVersion: null }] },
+        },
+      }),
+      uploadedAt: {
+        ...(uploadedAfter && { gte: new Date(uploadedAfter) }),
+        ...(uploadedBefore && { lt: new Date(uploadedBefore) }),
+      },
+    };
+
+    const count = await prisma.contract.count({ where });
+    if (count > MAX_CONTRACTS) {
+      return NextResponse.json(
+        { error: `${count} contracts match; narrow the filter to at most ${MAX_CONTRACTS}` },
+        { status: 400 },
+      );
+    }
+
+    const contracts = await prisma.contract.findMany({
+      where,
+      include: { batch: { select: { id: true, concurrency: true } } },
+      orderBy: { uploadedAt: 'asc' },
+    });
+    const queued: string[] = [];
+    const failed: { id: string; error: string }[] = [];
+
+    for (const contract of contracts) {
+      try {
+        await reprocessContract(contract, mode, auth.userId);
+        queued.push(contract.id);
+      } catch (reprocessError) {
+        if (!(reprocessError instanceof ReprocessError)) {
+          throw reprocessError;
+        }
+        failed.push({ id: contract.id, error: reprocessError.message });
+      }
+    }
+
+    return NextResponse.json({ mode, queued, failed });
+  } catch (error) {
+    console.error('Error reprocessing contracts:', error);
+    return NextResponse.json({ error: 'Failed to reprocess contracts' }, { status: 500 });
+  }
+}
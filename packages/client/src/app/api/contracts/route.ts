@@ -1,10 +1,59 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { Prisma } from '@prisma/client';
+import { authenticate } from '@/lib/auth';
 import { prisma } from '@/lib/prisma';
+import { filtersWhere, parseSearchFilters } from '@/lib/search';
 
+// Depends on the session cookie, so never prerender it
+export const dynamic = 'force-dynamic';
+
+const SORT_FIELDS = ['uploadedAt', 'effectiveDate', 'expirationDate', 'contractValue'] as const;
+
+type SortField = (typeof SORT_FIELDS)[number];
+
+/**
+ * List the workspace's contracts, newest first unless sorted otherwise:
+ * GET /api/contracts?sort=&order=asc|desc and the filters of GET /api/contracts/search
+ * Contracts without the sorted metadata come last either way.
+ */
 export async function GET(req: NextRequest) {
   try {
+    const auth = await authenticate(req);
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const params = req.nextUrl.searchParams;
+    const filters = parseSearchFilters(params);
+    if (typeof filters === 'string') {
+      return NextResponse.json({ error: filters }, { status: 400 });
+    }
+    const sort = (params.get('sort') ?? 'uploadedAt') as SortField;
+    if (!SORT_FIELDS.includes(sort)) {
+      return NextResponse.json(
+        { error: `sort must be one of ${SORT_FIELDS.join(', ')}` },
+        { status: 400 },
+      );
+    }
+    const order = params.get('order') ?? 'desc';
+    if (order !== 'asc' && order !== 'desc') {
+      return NextResponse.json({ error: 'order must be asc or desc' }, { status: 400 });
+    }
+    const orderBy: Prisma.ContractOrderByWithRelationInput[] =
+      sort === 'uploadedAt'
+        ? [{ uploadedAt: order }]
+        : [{ [sort]: { sort: order, nulls: 'last' } }, { uploadedAt: 'desc' }];
+
+    // Only the contracts of the caller's workspace
     const contracts = await prisma.contract.findMany({
-      orderBy: { uploadedAt: 'desc' },
+      where: filtersWhere(auth.workspaceId, filters),
+      orderBy,
+      include: {
+        clauses: { orderBy: { label: 'asc' } },
+        // Only what the list shows; GET /api/contracts/[id] returns every finding
+        findings: { where: { status: { in: ['fail', 'unknown'] } }, orderBy: { ruleId: 'asc' } },
+        parties: { orderBy: { position: 'asc' }, select: { name: true, role: true } },
+      },
     });
 
     return NextResponse.json(contracts);
@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { GET } from './route';
+
+const { searchContracts } = vi.hoisted(() => ({ searchContracts: vi.fn(async () => []) }));
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+vi.mock('@/lib/search', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/lib/search')>()),
+  searchContracts,
+}));
+
+vi.mock('@/lib/auth', () => ({
+  authenticate: async () => ({ userId: 'user-1', workspaceId: 'workspace-1', role: 'viewer' }),
+}));
+
+const search = (query: string) =>
+  GET(new NextRequest(`http://localhost:3000/api/contracts/search?${query}`));
+
+describe('GET /api/contracts/search', () => {
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('searches the workspace with the filters from the query string', async () => {
+    const response = await search(
+      'q=%22change+of+control%22+-assignment&status=completed,failed&clause=termination' +
+        '&clause=indemnity&missingClause=non_compete&uploadedAfter=2024-01-01&limit=5',
+    );
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({
+      query: '"change of control" -assignment',
+      results: [],
+    });
+    expect(searchContracts).toHaveBeenCalledWith(
+      'workspace-1',
+      '"change of control" -assignment',
+      {
+        status: ['completed', 'failed'],
+        withClauses: ['termination', 'indemnity'],
+        withoutClauses: ['non_compete'],
+        uploadedAfter: new Date('2024-01-01'),
+        contractType: [],
+        currency: [],
+      },
+      5,
+    );
+  });
+
+  it.each([
+    ['no query', 'q=+', 'q is required'],
+    ['an unknown status', 'q=lease&status=archived', 'status must be one of'],
+    ['a date that does not parse', 'q=lease&uploadedBefore=soon', 'uploadedBefore must be a date'],
+    ['a limit out of range', 'q=lease&limit=500', 'limit must be an integer from 1 to 100'],
+  ])('answers 400 for %s', async (_, query, message) => {
+    const response = await search(query);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toContain(message);
+    expect(searchContracts).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/auth';
+import { MAX_SEARCH_RESULTS, parseSearchFilters, searchContracts } from '@/lib/search';
+
+// Depends on the session cookie, so never prerender it
+export const dynamic = 'force-dynamic';
+
+/**
+ * Search the workspace's contracts by their text and clauses:
+ * GET /api/contracts/search?q=...&status=&clause=&missingClause=&uploadedAfter=&uploadedBefore=&limit=
+ * and by the metadata read from them: &contractType=&party=&governingLaw=&jurisdiction=&currency=
+ * &minValue=&maxValue=&effectiveAfter=&effectiveBefore=&expiresAfter=&expiresBefore=
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const params = request.nextUrl.searchParams;
+    const query = params.get('q')?.trim();
+    if (!query) {
+      return NextResponse.json({ error: 'q is required' }, { status: 400 });
+    }
+    const filters = parseSearchFilters(params);
+    if (typeof filters === 'string') {
+      return NextResponse.json({ error: filters }, { status: 400 });
+    }
+    const limit = Number(params.get('limit') ?? 20);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_RESULTS) {
+      return NextResponse.json(
+        { error: `limit must be an integer from 1 to ${MAX_SEARCH_RESULTS}` },
+        { status: 400 },
+      );
+    }
+
+    const results = await searchContracts(auth.workspaceId, query, filters, limit);
+    return NextResponse.json({ query, results });
+  } catch (error) {
+    console.error('Error searching contracts:', error);
+    return NextResponse.json({ error: 'Failed to search contracts' }, { status: 500 });
+  }
+}
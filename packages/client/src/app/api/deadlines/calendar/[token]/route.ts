@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { hashToken } from '@/lib/auth';
+import { FEED_FUTURE_DAYS, FEED_PAST_DAYS, deadlinesCalendar } from '@/lib/calendar';
+import { addDays, listDeadlines, startOfDay } from '@/lib/deadlines';
+import { prisma } from '@/lib/prisma';
+
+// Computed on every request
+export const dynamic = 'force-dynamic';
+
+/**
+ * The workspace's deadlines as an iCalendar feed: GET /api/deadlines/calendar/<token>.ics
+ * The token in the URL, issued with POST /api/workspace/calendar, is the only credential, as
+ * calendar apps fetch the feed without a session.
+ */
+export async function GET(request: NextRequest, { params }: { params: { token: string } }) {
+  try {
+    const { token } = await params;
+
+    const workspace = await prisma.workspace.findUnique({
+      where: { calendarTokenHash: hashToken(token.replace(/\.ics$/, '')) },
+      select: { id: true, name: true },
+    });
+    // Revoked and mistyped URLs look the same
+    if (!workspace) {
+      return NextResponse.json({ error: 'Calendar not found' }, { status: 404 });
+    }
+
+    const today = startOfDay();
+    const deadlines = await listDeadlines(
+      workspace.id,
+      addDays(today, -FEED_PAST_DAYS),
+      addDays(today, FEED_FUTURE_DAYS),
+    );
+
+    return new NextResponse(deadlinesCalendar(workspace.name, deadlines), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="deadlines.ics"',
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('Error building the deadlines calendar:', error);
+    return NextResponse.json({ error: 'Failed to build the calendar' }, { status: 500 });
+  }
+}
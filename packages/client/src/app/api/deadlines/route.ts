@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { DeadlineKind } from '@prisma/client';
+import { isCalendarDate } from 'shared';
+import { authenticate } from '@/lib/auth';
+import { DEADLINE_KINDS, addDays, formatDay, listDeadlines, startOfDay } from '@/lib/deadlines';
+import { listParam } from '@/lib/search';
+
+// Depends on the session cookie, so never prerender it
+export const dynamic = 'force-dynamic';
+
+const DEFAULT_DAYS = 365;
+const MAX_DAYS = 5 * 365;
+
+/**
+ * The workspace's notice, renewal and expiration deadlines, soonest first:
+ * GET /api/deadlines?from=&to=&kind=
+ * from (default today) is inclusive and to (default a year later) exclusive, as YYYY-MM-DD.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const params = request.nextUrl.searchParams;
+    const dates: Record<'from' | 'to', Date | null> = { from: null, to: null };
+    for (const name of ['from', 'to'] as const) {
+      const value = params.get(name);
+      if (value) {
+        if (!isCalendarDate(value)) {
+          return NextResponse.json(
+            { error: `${name} must be a date as YYYY-MM-DD` },
+            { status: 400 },
+          );
+        }
+        dates[name] = new Date(`${value}T00:00:00Z`);
+      }
+    }
+    const from = dates.from ?? startOfDay();
+    const to = dates.to ?? addDays(from, DEFAULT_DAYS);
+    if (to <= from || to > addDays(from, MAX_DAYS)) {
+      return NextResponse.json(
+        { error: `to must be after from, by at most ${MAX_DAYS} days` },
+        { status: 400 },
+      );
+    }
+    const kinds = listParam(params, 'kind');
+    if (!kinds.every((kind) => DEADLINE_KINDS.includes(kind as DeadlineKind))) {
+      return NextResponse.json(
+        { error: `kind must be one of ${DEADLINE_KINDS.join(', ')}` },
+        { status: 400 },
+      );
+    }
+
+    const deadlines = await listDeadlines(
+      auth.workspaceId,
+      from,
+      to,
+      kinds.length > 0 ? (kinds as DeadlineKind[]) : undefined,
+    );
+    return NextResponse.json({ from: formatDay(from), to: formatDay(to), deadlines });
+  } catch (error) {
+    console.error('Error fetching deadlines:', error);
+    return NextResponse.json({ error: 'Failed to fetch deadlines' }, { status: 500 });
+  }
+}
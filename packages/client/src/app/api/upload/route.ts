@@ -1,89 +1,64 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { PrismaClient } from '@prisma/client';
-import { Storage } from '@google-cloud/storage';
-
-// Initialize Prisma client
-const prisma = new PrismaClient();
-
-// Initialize Google Cloud Storage
-const storage = new Storage();
-const bucketName = process.env.GCS_BUCKET_NAME || 'fb_dioptra_process';
-const bucket = storage.bucket(bucketName);
-
-// AI service URL
-const AI_SERVICE_URL = process.env.AI_SERVICE_URL || 'http://localhost:3000';
+import { authenticate } from '@/lib/auth';
+import { submitDocument } from '@/lib/pipeline';
+import { blobStore } from '@/lib/storage';
+import { MAX_UPLOAD_BYTES, UploadError } from '@/lib/uploads';
 
+// Reviewers and admins upload into their current workspace
 export async function POST(req: NextRequest) {
   try {
+    const auth = await authenticate(req, 'reviewer');
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
     // Parse the form data
     const formData = await req.formData();
-    const file = formData.get('pdf') as File;
+    const file = formData.get('pdf');
 
-    if (!file) {
+    if (!(file instanceof File)) {
       return NextResponse.json({ error: 'No file uploaded' }, { status: 400 });
     }
+    // Check the declared size before reading the file into memory
+    if (file.size > MAX_UPLOAD_BYTES) {
+      return NextResponse.json(
+        { error: `${file.name} is larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB` },
+        { status: 413 },
+      );
+    }
 
-    // Generate a unique filename
-    const fileName = `${Date.now()}-${file.name}`;
-    // Add the "input" subfolder to the file path
-    const filePath = `input/${fileName}`;
-
-    // Upload file to Google Cloud Storage
-    const fileBuffer = Buffer.from(await file.arrayBuffer());
-    const gcsFile = bucket.file(filePath);
-
-    await gcsFile.save(fileBuffer, {
-      contentType: file.type,
-      metadata: {
-        cacheControl: 'public, max-age=31536000',
-      },
-    });
-
-    // Get the public URL for client access
-    const publicUrl = `https://storage.googleapis.com/${bucketName}/${filePath}`;
-
-    // Create the Google Storage URI for AI service
-    const gsUri = `gs://${bucketName}/${filePath}`;
-
-    // Create a record in the database with status "pending"
-    const contract = await prisma.contract.create({
-      data: {
-        fileName: file.name, // Store the raw filename in the database
-        status: 'pending',
-      },
+    // Validate and store the file, create the contract and queue it for processing
+    const { contract, duplicate } = await submitDocument(auth, {
+      name: file.name,
+      data: Buffer.from(await file.arrayBuffer()),
     });
 
-    // Send request to AI service for extraction
-    try {
-      const response = await fetch(`${AI_SERVICE_URL}/process_document`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          id: contract.id,
-          filename: gsUri, // Send the Google Storage URI instead of public URL
-        }),
-      });
-
-      if (!response.ok) {
-        console.error('AI service responded with error:', await response.text());
-      }
-    } catch (aiError) {
-      console.error('Failed to communicate with AI service:', aiError);
-      // Continue execution - we don't want to fail the upload if AI service is down
-    }
+    // A short-lived link to the document, if the store can sign one; the upload has been
+    // accepted by now, so failing here would only make the client upload it again
+    const fileUrl = contract.storageKey
+      ? await blobStore.getSignedUrl(contract.storageKey).catch((error) => {
+          console.error('Failed to create a link to the uploaded file:', error);
+          return null;
+        })
+      : null;
 
-    // Return success response with contract ID
+    // Return success response with contract ID and the link
     return NextResponse.json(
       {
-        message: 'File uploaded successfully',
+        message: duplicate
+          ? 'This document was already uploaded; returning the existing contract'
+          : 'File uploaded successfully',
         contractId: contract.id,
-        fileUrl: publicUrl,
+        duplicate,
+        fileKey: contract.storageKey,
+        fileUrl,
       },
       { status: 200 },
     );
   } catch (error) {
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
     console.error('Error processing file:', error);
     return NextResponse.json({ error: 'Failed to process file' }, { status: 500 });
   }
@@ -0,0 +1,63 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/auth';
+import { USAGE_GROUPINGS, UsageGrouping, budgetStatus, usageReport } from '@/lib/usage';
+
+// Depends on the session cookie, so never prerender it
+export const dynamic = 'force-dynamic';
+
+/**
+ * OCR pages, model tokens and their cost in the caller's workspace, totalled by month (the
+ * default), contract or batch: GET /api/usage?groupBy=&from=&to=
+ * The response also holds the totals of the rows and this month's spend against the budget.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const params = request.nextUrl.searchParams;
+    const groupBy = (params.get('groupBy') ?? 'month') as UsageGrouping;
+    if (!USAGE_GROUPINGS.includes(groupBy)) {
+      return NextResponse.json(
+        { error: `groupBy must be one of ${USAGE_GROUPINGS.join(', ')}` },
+        { status: 400 },
+      );
+    }
+    const range: { from: Date | null; to: Date | null } = { from: null, to: null };
+    for (const name of ['from', 'to'] as const) {
+      const value = params.get(name);
+      if (value) {
+        const date = new Date(value);
+        if (isNaN(date.getTime())) {
+          return NextResponse.json({ error: `${name} must be a date` }, { status: 400 });
+        }
+        range[name] = date;
+      }
+    }
+
+    const rows = await usageReport(auth.workspaceId, groupBy, range.from, range.to);
+    const total = rows.reduce(
+      (sum, row) => ({
+        pages: sum.pages + row.pages,
+        inputTokens: sum.inputTokens + row.inputTokens,
+        outputTokens: sum.outputTokens + row.outputTokens,
+        costUsd: sum.costUsd + row.costUsd,
+        unpricedRecords: sum.unpricedRecords + row.unpricedRecords,
+      }),
+      { pages: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, unpricedRecords: 0 },
+    );
+
+    return NextResponse.json({
+      groupBy,
+      ...range,
+      rows,
+      total,
+      budget: await budgetStatus(auth.workspaceId),
+    });
+  } catch (error) {
+    console.error('Error fetching usage:', error);
+    return NextResponse.json({ error: 'Failed to fetch usage' }, { status: 500 });
+  }
+}
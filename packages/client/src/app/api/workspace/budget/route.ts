@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/auth';
+import { resumePausedContracts } from '@/lib/pipeline';
+import { prisma } from '@/lib/prisma';
+import { readJsonBody } from '@/lib/request';
+import { budgetStatus } from '@/lib/usage';
+
+// Depends on the session cookie, so never prerender it
+export const dynamic = 'force-dynamic';
+
+const pausedContracts = (workspaceId: string) =>
+  prisma.contract.count({ where: { workspaceId, pausedAt: { not: null } } });
+
+// This month's spend against the workspace's budget, and how many contracts wait for it
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    return NextResponse.json({
+      ...(await budgetStatus(auth.workspaceId)),
+      pausedContracts: await pausedContracts(auth.workspaceId),
+    });
+  } catch (error) {
+    console.error('Error fetching the budget:', error);
+    return NextResponse.json({ error: 'Failed to fetch the budget' }, { status: 500 });
+  }
+}
+
+/**
+ * Set the workspace's monthly budget in US dollars, or remove it with null (admins only).
+ * Contracts paused by the old budget are sent for processing if the new one allows it.
+ */
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, 'admin');
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const body = await readJsonBody(request);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+
+    const { monthlyBudgetUsd } = body;
+    if (
+      monthlyBudgetUsd !== null &&
+      (typeof monthlyBudgetUsd !== 'number' ||
+        !Number.isFinite(monthlyBudgetUsd) ||
+        monthlyBudgetUsd < 0 ||
+        monthlyBudgetUsd >= 1e10)
+    ) {
+      return NextResponse.json(
+        { error: 'monthlyBudgetUsd must be a non-negative amount in US dollars, or null' },
+        { status: 400 },
+      );
+    }
+
+    await prisma.workspace.update({
+      where: { id: auth.workspaceId },
+      data: { monthlyBudgetUsd: monthlyBudgetUsd === null ? null : monthlyBudgetUsd.toFixed(2) },
+    });
+    const resumed = await resumePausedContracts(auth.workspaceId);
+
+    return NextResponse.json({
+      ...(await budgetStatus(auth.workspaceId)),
+      pausedContracts: await pausedContracts(auth.workspaceId),
+      resumed,
+    });
+  } catch (error) {
+    console.error('Error setting the budget:', error);
+    return NextResponse.json({ error: 'Failed to set the budget' }, { status: 500 });
+  }
+}
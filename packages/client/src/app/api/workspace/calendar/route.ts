@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, hashToken } from '@/lib/auth';
+import { generateCalendarToken } from '@/lib/calendar';
+import { prisma } from '@/lib/prisma';
+
+// Depends on the session cookie, so never prerender it
+export const dynamic = 'force-dynamic';
+
+// Whether the workspace has a deadlines calendar feed; its URL is only shown when issued
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, 'admin');
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const workspace = await prisma.workspace.findUniqueOrThrow({
+      where: { id: auth.workspaceId },
+      select: { calendarTokenHash: true },
+    });
+    return NextResponse.json({ enabled: workspace.calendarTokenHash !== null });
+  } catch (error) {
+    console.error('Error fetching the calendar feed:', error);
+    return NextResponse.json({ error: 'Failed to fetch the calendar feed' }, { status: 500 });
+  }
+}
+
+/**
+ * Issue the URL of the workspace's deadlines calendar feed (admins only). Any URL issued
+ * before stops working.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, 'admin');
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const token = generateCalendarToken();
+    await prisma.workspace.update({
+      where: { id: auth.workspaceId },
+      data: { calendarTokenHash: hashToken(token) },
+    });
+    const url = new URL(`/api/deadlines/calendar/${token}.ics`, request.nextUrl.origin);
+    return NextResponse.json({ enabled: true, url: url.toString() }, { status: 201 });
+  } catch (error) {
+    console.error('Error issuing the calendar feed:', error);
+    return NextResponse.json({ error: 'Failed to issue the calendar feed' }, { status: 500 });
+  }
+}
+
+// Turn the feed off (admins only)
+export async function DELETE(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, 'admin');
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    await prisma.workspace.update({
+      where: { id: auth.workspaceId },
+      data: { calendarTokenHash: null },
+    });
+    return NextResponse.json({ enabled: false });
+  } catch (error) {
+    console.error('Error revoking the calendar feed:', error);
+    return NextResponse.json({ error: 'Failed to revoke the calendar feed' }, { status: 500 });
+  }
+}
@@ -0,0 +1,112 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma, Role } from '@prisma/client';
+import { ROLES, authenticate } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { readJsonBody } from '@/lib/request';
+
+// Member changes in a workspace wait for each other on its row, so that two admins demoting or
+// removing each other at once cannot both see the other one left
+async function lockWorkspace(tx: Prisma.TransactionClient, workspaceId: string): Promise<void> {
+  await tx.$executeRaw`SELECT 1 FROM "Workspace" WHERE "id" = ${workspaceId} FOR UPDATE`;
+}
+
+// A workspace must keep at least one admin, or nobody could manage its members again
+async function isLastAdmin(
+  tx: Prisma.TransactionClient,
+  workspaceId: string,
+  userId: string,
+): Promise<boolean> {
+  const admins = await tx.membership.findMany({
+    where: { workspaceId, role: 'admin' },
+    select: { userId: true },
+  });
+  return admins.length === 1 && admins[0].userId === userId;
+}
+
+// Change a member's role (admins only)
+export async function PATCH(request: NextRequest, { params }: { params: { userId: string } }) {
+  try {
+    const { userId } = await params;
+    const auth = await authenticate(request, 'admin');
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const body = await readJsonBody(request);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { role } = body;
+    if (!ROLES.includes(role as Role)) {
+      return NextResponse.json(
+        { error: `role must be one of ${ROLES.join(', ')}` },
+        { status: 400 },
+      );
+    }
+
+    const where = { userId_workspaceId: { userId, workspaceId: auth.workspaceId } };
+    const membership = await prisma.$transaction(async (tx) => {
+      await lockWorkspace(tx, auth.workspaceId);
+      if (!(await tx.membership.findUnique({ where }))) {
+        return 'not_found';
+      }
+      if (role !== 'admin' && (await isLastAdmin(tx, auth.workspaceId, userId))) {
+        return 'last_admin';
+      }
+      return tx.membership.update({ where, data: { role: role as Role } });
+    });
+
+    if (membership === 'not_found') {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+    if (membership === 'last_admin') {
+      return NextResponse.json(
+        { error: 'The workspace needs at least one admin' },
+        { status: 409 },
+      );
+    }
+    return NextResponse.json({ userId, role: membership.role });
+  } catch (error) {
+    console.error('Error updating workspace member:', error);
+    return NextResponse.json({ error: 'Failed to update workspace member' }, { status: 500 });
+  }
+}
+
+// Remove a member from the workspace (admins only); their sessions in it end at once
+export async function DELETE(request: NextRequest, { params }: { params: { userId: string } }) {
+  try {
+    const { userId } = await params;
+    const auth = await authenticate(request, 'admin');
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const where = { userId_workspaceId: { userId, workspaceId: auth.workspaceId } };
+    const outcome = await prisma.$transaction(async (tx) => {
+      await lockWorkspace(tx, auth.workspaceId);
+      if (!(await tx.membership.findUnique({ where }))) {
+        return 'not_found';
+      }
+      if (await isLastAdmin(tx, auth.workspaceId, userId)) {
+        return 'last_admin';
+      }
+      await tx.membership.delete({ where });
+      await tx.session.deleteMany({ where: { userId, workspaceId: auth.workspaceId } });
+      return 'removed';
+    });
+
+    if (outcome === 'not_found') {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+    if (outcome === 'last_admin') {
+      return NextResponse.json(
+        { error: 'The workspace needs at least one admin' },
+        { status: 409 },
+      );
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error removing workspace member:', error);
+    return NextResponse.json({ error: 'Failed to remove workspace member' }, { status: 500 });
+  }
+}
@@ -0,0 +1,111 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Role } from '@prisma/client';
+import { MIN_PASSWORD_LENGTH, ROLES, authenticate, hashPassword, normalizeEmail } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { readJsonBody } from '@/lib/request';
+
+// Members of the caller's workspace
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const memberships = await prisma.membership.findMany({
+      where: { workspaceId: auth.workspaceId },
+      include: { user: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return NextResponse.json(
+      memberships.map(({ user, role, createdAt }) => ({
+        userId: user.id,
+        email: user.email,
+        name: user.name,
+        role,
+        createdAt,
+      })),
+    );
+  } catch (error) {
+    console.error('Error fetching workspace members:', error);
+    return NextResponse.json({ error: 'Failed to fetch workspace members' }, { status: 500 });
+  }
+}
+
+/**
+ * Add someone to the caller's workspace (admins only). Existing users are added by
+ * email; for new users a name and an initial password are required as well.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, 'admin');
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const body = await readJsonBody(request);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { email, name, password, role } = body;
+
+    if (typeof email !== 'string' || !email.includes('@')) {
+      return NextResponse.json({ error: 'A valid email is required' }, { status: 400 });
+    }
+    if (!ROLES.includes(role as Role)) {
+      return NextResponse.json(
+        { error: `role must be one of ${ROLES.join(', ')}` },
+        { status: 400 },
+      );
+    }
+
+    let user = await prisma.user.findUnique({ where: { email: normalizeEmail(email) } });
+
+    if (!user) {
+      if (typeof name !== 'string' || !name.trim()) {
+        return NextResponse.json({ error: 'A name is required for new users' }, { status: 400 });
+      }
+      if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+        return NextResponse.json(
+          {
+            error: `New users need an initial password of at least ${MIN_PASSWORD_LENGTH} characters`,
+          },
+          { status: 400 },
+        );
+      }
+      user = await prisma.user.create({
+        data: {
+          email: normalizeEmail(email),
+          name: name.trim(),
+          passwordHash: await hashPassword(password),
+        },
+      });
+    }
+
+    const existing = await prisma.membership.findUnique({
+      where: { userId_workspaceId: { userId: user.id, workspaceId: auth.workspaceId } },
+    });
+    if (existing) {
+      return NextResponse.json({ error: 'Already a member of this workspace' }, { status: 409 });
+    }
+
+    const membership = await prisma.membership.create({
+      data: { userId: user.id, workspaceId: auth.workspaceId, role: role as Role },
+    });
+
+    return NextResponse.json(
+      {
+        userId: user.id,
+        email: user.email,
+        name: user.name,
+        role: membership.role,
+        createdAt: membership.createdAt,
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error('Error adding workspace member:', error);
+    return NextResponse.json({ error: 'Failed to add workspace member' }, { status: 500 });
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/auth';
+import { MAX_LEAD_DAYS, isLeadDays } from '@/lib/deadlines';
+import { prisma } from '@/lib/prisma';
+import { readJsonBody } from '@/lib/request';
+
+// Depends on the session cookie, so never prerender it
+export const dynamic = 'force-dynamic';
+
+// Days before each deadline that the workspace is reminded
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request);
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const workspace = await prisma.workspace.findUniqueOrThrow({
+      where: { id: auth.workspaceId },
+      select: { reminderLeadDays: true },
+    });
+    return NextResponse.json({ leadDays: workspace.reminderLeadDays });
+  } catch (error) {
+    console.error('Error fetching the reminder lead times:', error);
+    return NextResponse.json({ error: 'Failed to fetch the reminder lead times' }, { status: 500 });
+  }
+}
+
+// Set the lead times, e.g. { "leadDays": [30, 7, 1] }, or turn reminders off with [] (admins only)
+export async function PUT(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, 'admin');
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const body = await readJsonBody(request);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+
+    const { leadDays } = body;
+    if (!isLeadDays(leadDays)) {
+      return NextResponse.json(
+        { error: `leadDays must be an array of whole days from 0 to ${MAX_LEAD_DAYS}` },
+        { status: 400 },
+      );
+    }
+
+    const workspace = await prisma.workspace.update({
+      where: { id: auth.workspaceId },
+      data: { reminderLeadDays: Array.from(new Set(leadDays)).sort((a, b) => b - a) },
+      select: { reminderLeadDays: true },
+    });
+    return NextResponse.json({ leadDays: workspace.reminderLeadDays });
+  } catch (error) {
+    console.error('Error setting the reminder lead times:', error);
+    return NextResponse.json({ error: 'Failed to set the reminder lead times' }, { status: 500 });
+  }
+}
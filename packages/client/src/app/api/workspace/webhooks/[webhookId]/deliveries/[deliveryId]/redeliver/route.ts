@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { redeliver } from '@/lib/webhooks';
+
+// Send a finished delivery again, as a new delivery with the same webhook-id (admins only)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { webhookId: string; deliveryId: string } },
+) {
+  try {
+    const { webhookId, deliveryId } = await params;
+    const auth = await authenticate(request, 'admin');
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const delivery = await prisma.webhookDelivery.findFirst({
+      where: {
+        id: deliveryId,
+        subscription: { id: webhookId, workspaceId: auth.workspaceId },
+      },
+      include: { subscription: { select: { active: true } } },
+    });
+    if (!delivery) {
+      return NextResponse.json({ error: 'Delivery not found' }, { status: 404 });
+    }
+    if (delivery.status === 'pending' || delivery.status === 'delivering') {
+      return NextResponse.json({ error: 'The delivery is still being sent' }, { status: 409 });
+    }
+    if (!delivery.subscription.active) {
+      return NextResponse.json({ error: 'The webhook is inactive' }, { status: 409 });
+    }
+
+    return NextResponse.json(await redeliver(delivery), { status: 201 });
+  } catch (error) {
+    console.error('Error redelivering webhook:', error);
+    return NextResponse.json({ error: 'Failed to redeliver webhook' }, { status: 500 });
+  }
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { WebhookDeliveryStatus } from '@prisma/client';
+import { authenticate } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+
+// Depends on the session cookie, so never prerender it
+export const dynamic = 'force-dynamic';
+
+const STATUSES: WebhookDeliveryStatus[] = ['pending', 'delivering', 'succeeded', 'failed'];
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+/**
+ * The delivery log of a webhook subscription, newest first (admins only):
+ * GET /api/workspace/webhooks/[webhookId]/deliveries?status=&limit=
+ */
+export async function GET(request: NextRequest, { params }: { params: { webhookId: string } }) {
+  try {
+    const { webhookId } = await params;
+    const auth = await authenticate(request, 'admin');
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+    const status = searchParams.get('status');
+    if (status !== null && !STATUSES.includes(status as WebhookDeliveryStatus)) {
+      return NextResponse.json(
+        { error: `status must be one of ${STATUSES.join(', ')}` },
+        { status: 400 },
+      );
+    }
+    const limit = Number(searchParams.get('limit') ?? DEFAULT_LIMIT);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      return NextResponse.json(
+        { error: `limit must be a whole number from 1 to ${MAX_LIMIT}` },
+        { status: 400 },
+      );
+    }
+
+    const subscription = await prisma.webhookSubscription.findFirst({
+      where: { id: webhookId, workspaceId: auth.workspaceId },
+      select: { id: true },
+    });
+    if (!subscription) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    const deliveries = await prisma.webhookDelivery.findMany({
+      where: {
+        subscriptionId: subscription.id,
+        ...(status && { status: status as WebhookDeliveryStatus }),
+      },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+    return NextResponse.json(deliveries);
+  } catch (error) {
+    console.error('Error fetching webhook deliveries:', error);
+    return NextResponse.json({ error: 'Failed to fetch webhook deliveries' }, { status: 500 });
+  }
+}
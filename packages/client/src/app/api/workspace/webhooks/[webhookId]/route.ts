@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from 'next/server';
+import type { Prisma } from '@prisma/client';
+import { authenticate } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { readJsonBody } from '@/lib/request';
+import {
+  WEBHOOK_EVENTS,
+  generateWebhookSecret,
+  isWebhookEvents,
+  isWebhookUrl,
+  publicSubscription,
+  webhookUrlProblem,
+} from '@/lib/webhooks';
+
+/**
+ * Change a webhook subscription (admins only): any of url, events, description and active.
+ * With rotateSecret the subscription gets a new signing secret, returned in the response.
+ * Deliveries already queued are sent with the new URL and secret.
+ */
+export async function PATCH(request: NextRequest, { params }: { params: { webhookId: string } }) {
+  try {
+    const { webhookId } = await params;
+    const auth = await authenticate(request, 'admin');
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const body = await readJsonBody(request);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { url, events, description, active, rotateSecret } = body;
+    const data: Prisma.WebhookSubscriptionUpdateInput = {};
+    if (url !== undefined) {
+      if (!isWebhookUrl(url)) {
+        return NextResponse.json({ error: 'url must be an http or https URL' }, { status: 400 });
+      }
+      const urlProblem = await webhookUrlProblem(url);
+      if (urlProblem) {
+        return NextResponse.json({ error: urlProblem }, { status: 400 });
+      }
+      data.url = url;
+    }
+    if (events !== undefined) {
+      if (!isWebhookEvents(events)) {
+        return NextResponse.json(
+          { error: `events must list one or more of ${WEBHOOK_EVENTS.join(', ')}` },
+          { status: 400 },
+        );
+      }
+      data.events = Array.from(new Set(events));
+    }
+    if (description !== undefined) {
+      if (description !== null && typeof description !== 'string') {
+        return NextResponse.json({ error: 'description must be a string' }, { status: 400 });
+      }
+      data.description = description?.trim() || null;
+    }
+    if (active !== undefined) {
+      if (typeof active !== 'boolean') {
+        return NextResponse.json({ error: 'active must be a boolean' }, { status: 400 });
+      }
+      data.active = active;
+    }
+    if (rotateSecret === true) {
+      data.secret = generateWebhookSecret();
+    }
+
+    const existing = await prisma.webhookSubscription.findFirst({
+      where: { id: webhookId, workspaceId: auth.workspaceId },
+    });
+    if (!existing) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+
+    const subscription = await prisma.webhookSubscription.update({
+      where: { id: webhookId },
+      data,
+    });
+    return NextResponse.json({
+      ...publicSubscription(subscription),
+      ...(rotateSecret === true && { secret: subscription.secret }),
+    });
+  } catch (error) {
+    console.error('Error updating webhook:', error);
+    return NextResponse.json({ error: 'Failed to update webhook' }, { status: 500 });
+  }
+}
+
+// Remove a webhook subscription and its delivery log (admins only)
+export async function DELETE(request: NextRequest, { params }: { params: { webhookId: string } }) {
+  try {
+    const { webhookId } = await params;
+    const auth = await authenticate(request, 'admin');
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const { count } = await prisma.webhookSubscription.deleteMany({
+      where: { id: webhookId, workspaceId: auth.workspaceId },
+    });
+    if (count === 0) {
+      return NextResponse.json({ error: 'Webhook not found' }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (error) {
+    console.error('Error removing webhook:', error);
+    return NextResponse.json({ error: 'Failed to remove webhook' }, { status: 500 });
+  }
+}
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/auth';
+import { prisma } from '@/lib/prisma';
+import { readJsonBody } from '@/lib/request';
+import {
+  WEBHOOK_EVENTS,
+  generateWebhookSecret,
+  isWebhookEvents,
+  isWebhookUrl,
+  publicSubscription,
+  webhookUrlProblem,
+} from '@/lib/webhooks';
+
+// The workspace's webhook subscriptions (admins only)
+export async function GET(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, 'admin');
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const subscriptions = await prisma.webhookSubscription.findMany({
+      where: { workspaceId: auth.workspaceId },
+      orderBy: { createdAt: 'asc' },
+    });
+    return NextResponse.json(subscriptions.map(publicSubscription));
+  } catch (error) {
+    console.error('Error fetching webhooks:', error);
+    return NextResponse.json({ error: 'Failed to fetch webhooks' }, { status: 500 });
+  }
+}
+
+/**
+ * Subscribe a URL to events of the workspace (admins only). The response holds the signing
+ * secret; it is not shown again, but can be rotated.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const auth = await authenticate(request, 'admin');
+    if (auth instanceof NextResponse) {
+      return auth;
+    }
+
+    const body = await readJsonBody(request);
+    if (body instanceof NextResponse) {
+      return body;
+    }
+    const { url, events, description } = body;
+    if (!isWebhookUrl(url)) {
+      return NextResponse.json({ error: 'url must be an http or https URL' }, { status: 400 });
+    }
+    const urlProblem = await webhookUrlProblem(url);
+    if (urlProblem) {
+      return NextResponse.json({ error: urlProblem }, { status: 400 });
+    }
+    if (!isWebhookEvents(events)) {
+      return NextResponse.json(
+        { error: `events must list one or more of ${WEBHOOK_EVENTS.join(', ')}` },
+        { status: 400 },
+      );
+    }
+    if (description !== undefined && description !== null && typeof description !== 'string') {
+      return NextResponse.json({ error: 'description must be a string' }, { status: 400 });
+    }
+
+    const subscription = await prisma.webhookSubscription.create({
+      data: {
+        workspaceId: auth.workspaceId,
+        url,
+        events: Array.from(new Set(events)),
+        secret: generateWebhookSecret(),
+        description: description?.trim() || null,
+      },
+    });
+    return NextResponse.json(
+      { ...publicSubscription(subscription), secret: subscription.secret },
+      { status: 201 },
+    );
+  } catch (error) {
+    console.error('Error creating webhook:', error);
+    return NextResponse.json({ error: 'Failed to create webhook' }, { status: 500 });
+  }
+}
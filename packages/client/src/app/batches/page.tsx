@@ -0,0 +1,156 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Alert,
+  Box,
+  Chip,
+  Container,
+  LinearProgress,
+  Link,
+  Paper,
+  Typography,
+} from '@mui/material';
+import axios from 'axios';
+import type { ContractStatus } from '@prisma/client';
+import WorkspaceBar from '@/components/WorkspaceBar';
+
+interface BatchSummary {
+  total: number;
+  counts: Record<ContractStatus, number>;
+  progress: number;
+  failures: { id: string; fileName: string; stage: string | null }[];
+}
+
+interface Batch {
+  id: string;
+  name: string;
+  concurrency: number;
+  createdAt: string;
+  createdBy: { id: string; name: string } | null;
+  summary: BatchSummary;
+}
+
+// How often the dashboard refreshes while a batch is still being processed
+const REFRESH_INTERVAL_MS = 5000;
+
+const isFinished = ({ summary }: Batch) =>
+  summary.counts.completed + summary.counts.failed === summary.total;
+
+// Aggregate progress and failures of the workspace's upload batches
+export default function BatchesPage() {
+  const router = useRouter();
+  const [batches, setBatches] = useState<Batch[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchBatches = useCallback(async () => {
+    try {
+      const response = await axios.get<Batch[]>('/api/batches');
+      setBatches(response.data);
+      setError(null);
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 401) {
+        router.replace('/login');
+        return;
+      }
+      console.error('Error fetching batches:', error);
+      setError('Failed to load batches');
+    }
+  }, [router]);
+
+  useEffect(() => {
+    fetchBatches();
+  }, [fetchBatches]);
+
+  // Contracts of a batch are many, so the dashboard polls instead of streaming each one
+  const processing = batches?.some((batch) => !isFinished(batch)) ?? false;
+  useEffect(() => {
+    if (!processing) {
+      return;
+    }
+    const timer = setInterval(fetchBatches, REFRESH_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [processing, fetchBatches]);
+
+  return (
+    <Container maxWidth="lg">
+      <Box sx={{ my: 4 }}>
+        <Box sx={{ display: 'flex', alignItems: 'baseline', gap: 2 }}>
+          <Typography variant="h4" component="h1" gutterBottom>
+            Batches
+          </Typography>
+          <Link href="/" variant="body2">
+            Contracts
+          </Link>
+        </Box>
+
+        <WorkspaceBar onChange={fetchBatches} />
+
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {batches?.length === 0 && (
+          <Typography variant="body1">
+            No batches yet. Select several documents or a ZIP archive on the contracts page to
+            upload one.
+          </Typography>
+        )}
+
+        {batches?.map((batch) => (
+          <Paper key={batch.id} sx={{ p: 2, mb: 2 }}>
+            <Box sx={{ display: 'flex', justifyContent: 'space-between', alignItems: 'baseline' }}>
+              <Typography variant="h6">{batch.name}</Typography>
+              <Typography variant="caption" color="text.secondary">
+                {new Date(batch.createdAt).toLocaleString()}
+                {batch.createdBy && ` by ${batch.createdBy.name}`} · {batch.concurrency} at a time
+              </Typography>
+            </Box>
+
+            <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, my: 1 }}>
+              <LinearProgress
+                variant="determinate"
+                value={batch.summary.progress}
+                color={batch.summary.counts.failed > 0 ? 'warning' : 'primary'}
+                sx={{ flexGrow: 1 }}
+              />
+              <Typography variant="body2">{batch.summary.progress}%</Typography>
+            </Box>
+
+            <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap' }}>
+              <Chip size="small" label={`${batch.summary.total} contracts`} />
+              {(Object.entries(batch.summary.counts) as [ContractStatus, number][])
+                .filter(([, count]) => count > 0)
+                .map(([status, count]) => (
+                  <Chip
+                    key={status}
+                    size="small"
+                    variant="outlined"
+                    color={
+                      status === 'failed' ? 'error' : status === 'completed' ? 'success' : 'default'
+                    }
+                    label={`${count} ${status}`}
+                  />
+                ))}
+            </Box>
+
+            {batch.summary.failures.length > 0 && (
+              <Box sx={{ mt: 1 }}>
+                <Typography variant="subtitle2">Failed</Typography>
+                {batch.summary.failures.map((failure) => (
+                  <Typography key={failure.id} variant="body2" color="error">
+                    {failure.fileName}
+                    {failure.stage && ` — stopped at: ${failure.stage}`}
+                  </Typography>
+                ))}
+              </Box>
+            )}
+          </Paper>
+        ))}
+      </Box>
+    </Container>
+  );
+}
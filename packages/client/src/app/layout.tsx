@@ -7,7 +7,7 @@ const inter = Inter({ subsets: ['latin'] });
 
 export const metadata: Metadata = {
   title: 'Contract Clause Extractor',
-  description: 'Extract indemnification and termination clauses from contracts',
+  description: 'Extract key clauses from contracts',
 };
 
 export default function RootLayout({ children }: { children: React.ReactNode }) {
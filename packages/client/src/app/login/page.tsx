@@ -0,0 +1,128 @@
+'use client';
+
+import { useState } from 'react';
+import { useRouter } from 'next/navigation';
+import {
+  Alert,
+  Box,
+  Button,
+  Container,
+  Paper,
+  Tab,
+  Tabs,
+  TextField,
+  Typography,
+} from '@mui/material';
+import axios from 'axios';
+
+type Mode = 'login' | 'register';
+
+export default function LoginPage() {
+  const router = useRouter();
+  const [mode, setMode] = useState<Mode>('login');
+  const [name, setName] = useState('');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [workspaceName, setWorkspaceName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setSubmitting(true);
+    setError(null);
+
+    try {
+      if (mode === 'login') {
+        await axios.post('/api/auth/login', { email, password });
+      } else {
+        await axios.post('/api/auth/register', {
+          name,
+          email,
+          password,
+          workspaceName: workspaceName || undefined,
+        });
+      }
+      router.replace('/');
+    } catch (error) {
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      setError(
+        message ?? (mode === 'login' ? 'Failed to sign in' : 'Failed to create the account'),
+      );
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <Container maxWidth="xs">
+      <Box sx={{ my: 8 }}>
+        <Typography variant="h4" component="h1" gutterBottom>
+          Contract Clause Extractor
+        </Typography>
+
+        <Paper sx={{ p: 3 }}>
+          <Tabs value={mode} onChange={(_, value: Mode) => setMode(value)} sx={{ mb: 2 }}>
+            <Tab value="login" label="Sign in" />
+            <Tab value="register" label="Create account" />
+          </Tabs>
+
+          {error && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {error}
+            </Alert>
+          )}
+
+          <Box component="form" onSubmit={handleSubmit}>
+            {mode === 'register' && (
+              <TextField
+                label="Name"
+                value={name}
+                onChange={(event) => setName(event.target.value)}
+                required
+                fullWidth
+                margin="normal"
+              />
+            )}
+            <TextField
+              label="Email"
+              type="email"
+              value={email}
+              onChange={(event) => setEmail(event.target.value)}
+              required
+              fullWidth
+              margin="normal"
+            />
+            <TextField
+              label="Password"
+              type="password"
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              required
+              fullWidth
+              margin="normal"
+            />
+            {mode === 'register' && (
+              <TextField
+                label="Workspace name"
+                helperText="Your team's workspace; you will be its admin"
+                value={workspaceName}
+                onChange={(event) => setWorkspaceName(event.target.value)}
+                fullWidth
+                margin="normal"
+              />
+            )}
+            <Button
+              type="submit"
+              variant="contained"
+              fullWidth
+              disabled={submitting}
+              sx={{ mt: 2 }}
+            >
+              {mode === 'login' ? 'Sign in' : 'Create account'}
+            </Button>
+          </Box>
+        </Paper>
+      </Box>
+    </Container>
+  );
+}
@@ -1,6 +1,7 @@
 'use client';
 
 import { useState, useEffect } from 'react';
+import { useRouter } from 'next/navigation';
 import {
   Container,
   Typography,
@@ -15,57 +16,197 @@ import {
   TableRow,
   CircularProgress,
   Alert,
+  Link,
+  Chip,
+  Tooltip,
 } from '@mui/material';
 import axios from 'axios';
-import type { Contract } from '@prisma/client';
+import type { Prisma } from '@prisma/client';
+import ClauseSearch, { SimilarClauses } from '@/components/ClauseFinder';
+import ClauseViewer from '@/components/ClauseViewer';
+import ContractProgress from '@/components/ContractProgress';
+import ContractSearch, { SearchMatches } from '@/components/ContractSearch';
+import WorkspaceBar, { Session } from '@/components/WorkspaceBar';
+import { REVIEW_COLORS, REVIEW_LABELS } from '@/components/ClauseReview';
+import type { ClauseMatch } from '@/lib/embeddings';
+import type { SearchResult } from '@/lib/search';
+
+type ContractWithClauses = Prisma.ContractGetPayload<{
+  include: { clauses: true; findings: true };
+}>;
+
+interface ViewerTarget {
+  contractId: string;
+  fileName: string;
+  documentType: ContractWithClauses['documentType'];
+  clauseType: string;
+  label: string;
+}
+
+interface SimilarTarget {
+  contractId: string;
+  clauseId: string;
+  label: string;
+}
+
+const CONTRACT_REVIEW_LABELS: Record<ContractWithClauses['reviewStatus'], string> = {
+  unreviewed: 'Not started',
+  in_review: 'In review',
+  complete: 'Complete',
+};
+
+const EXPORT_LINKS = [
+  ['csv', 'CSV'],
+  ['xlsx', 'Excel'],
+  ['docx', 'Memos'],
+  ['json', 'JSON'],
+] as const;
+
+const truncate = (text: string, length = 100) =>
+  text.length > length ? text.substring(0, length) + '...' : text;
+
+const riskColor = (score: number) => (score >= 50 ? 'error' : score >= 20 ? 'warning' : 'success');
+
+// Failed and unverified playbook rules, with the fallback position for each
+const findingsSummary = (contract: ContractWithClauses) =>
+  contract.findings.length === 0 ? (
+    'All playbook rules passed'
+  ) : (
+    <Box>
+      {contract.findings.map((finding) => (
+        <Typography key={finding.id} variant="body2" sx={{ mb: 1 }}>
+          <strong>
+            [{finding.severity}] {finding.description}
+          </strong>
+          {finding.status === 'unknown' ? ' (needs review)' : ''} — {finding.detail}
+          <br />
+          Fallback: {finding.fallback}
+        </Typography>
+      ))}
+    </Box>
+  );
 
 export default function Home() {
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const router = useRouter();
+  const [session, setSession] = useState<Session | null>(null);
+  const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
   const [loading, setLoading] = useState(false);
-  const [contracts, setContracts] = useState<Contract[]>([]);
+  const [contracts, setContracts] = useState<ContractWithClauses[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [successMessage, setSuccessMessage] = useState<string | null>(null);
   const [processingStatus, setProcessingStatus] = useState('Preparing to upload...');
+  const [viewerTarget, setViewerTarget] = useState<ViewerTarget | null>(null);
+  const [similarTarget, setSimilarTarget] = useState<SimilarTarget | null>(null);
+  // Results of the current search, best first; null lists every contract
+  const [searchResults, setSearchResults] = useState<SearchResult[] | null>(null);
 
-  // Load contracts on component mount
+  // Load contracts on component mount; contracts still processing stream their own progress
+  // and the list is reloaded when one finishes
   useEffect(() => {
     fetchContracts();
   }, []);
 
-  // Set up polling to refresh contracts list
-  useEffect(() => {
-    const interval = setInterval(() => {
-      fetchContracts(); // Poll for all contracts every 2 seconds
-      console.log('Polling for contracts...'); // Add logging to verify polling
-    }, 2000);
-
-    return () => {
-      if (interval) clearInterval(interval);
-    };
-  }, []); // Remove dependency on loading to always poll
+  // The list belongs to the current workspace, so reload it when the workspace changes
+  const handleSessionChange = (next: Session) => {
+    if (session && session.workspaceId !== next.workspaceId) {
+      setViewerTarget(null);
+      setSimilarTarget(null);
+      setSearchResults(null);
+      fetchContracts();
+    }
+    setSession(next);
+  };
 
   const fetchContracts = async () => {
     try {
       const response = await axios.get('/api/contracts');
       setContracts(response.data);
     } catch (error) {
+      if (axios.isAxiosError(error) && error.response?.status === 401) {
+        router.replace('/login');
+        return;
+      }
       console.error('Error fetching contracts:', error);
       setError('Failed to load contracts');
     }
   };
 
+  // Build one column per clause type seen across the loaded contracts
+  const clauseColumns = Array.from(
+    new Map(
+      contracts.flatMap((contract) =>
+        contract.clauses.map((clause) => [clause.type, clause.label] as const),
+      ),
+    ),
+  ).sort(([, a], [, b]) => a.localeCompare(b));
+
+  // The listed contracts: the search results in rank order while searching, else all of them
+  const listed = searchResults
+    ? searchResults.flatMap((result) => {
+        const contract = contracts.find((candidate) => candidate.id === result.contract.id);
+        return contract ? [{ contract, result }] : [];
+      })
+    : contracts.map((contract) => ({ contract, result: null }));
+
+  // Open a clause found by semantic search in its contract
+  const openMatch = (match: ClauseMatch) => {
+    setSimilarTarget(null);
+    setViewerTarget({
+      contractId: match.contract.id,
+      fileName: match.contract.fileName,
+      documentType: match.contract.documentType,
+      clauseType: match.clause.type,
+      label: match.clause.label,
+    });
+  };
+
+  // Exports cover the listed contracts: the search results while searching, else all of them
+  const exportUrl = (format: string) => {
+    const params = new URLSearchParams({ format });
+    if (searchResults) {
+      params.set('id', listed.map(({ contract }) => contract.id).join(','));
+    }
+    return `/api/contracts/export?${params}`;
+  };
+
+  const updateReview = async (contractId: string, action: 'complete' | 'reopen') => {
+    try {
+      await axios.post(`/api/contracts/${contractId}/review`, { action });
+      fetchContracts();
+    } catch (error) {
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      setError(message ?? 'Failed to update the review');
+    }
+  };
+
+  const reprocess = async (contractId: string, mode: 'extraction' | 'ocr') => {
+    try {
+      await axios.post(`/api/contracts/${contractId}/reprocess`, { mode });
+      fetchContracts();
+    } catch (error) {
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      setError(message ?? 'Failed to reprocess the contract');
+    }
+  };
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files && event.target.files.length > 0) {
-      setSelectedFile(event.target.files[0]);
+      setSelectedFiles(Array.from(event.target.files));
     }
   };
 
   const handleUpload = async () => {
-    if (!selectedFile) {
+    if (selectedFiles.length === 0) {
       setError('Please select a file to upload');
       return;
     }
 
+    // Several files or an archive become a batch
+    const [selectedFile] = selectedFiles;
+    if (selectedFiles.length > 1 || !/\.(pdf|docx)$/i.test(selectedFile.name)) {
+      return handleBatchUpload();
+    }
+
     const formData = new FormData();
     formData.append('pdf', selectedFile);
 
@@ -84,9 +225,11 @@ export default function Home() {
       // Check if the upload was successful
       if (response.data.contractId) {
         setSuccessMessage(
-          `File "${selectedFile.name}" uploaded successfully. Extraction will begin shortly.`,
+          response.data.duplicate
+            ? `"${selectedFile.name}" was already uploaded to this workspace; no new contract was created.`
+            : `File "${selectedFile.name}" uploaded successfully. Extraction will begin shortly.`,
         );
-        setSelectedFile(null); // Clear the selected file
+        setSelectedFiles([]); // Clear the selected file
         fetchContracts(); // Refresh the contracts list
       } else {
         // If we got a response but no contract ID, processing is already done
@@ -95,7 +238,49 @@ export default function Home() {
       setLoading(false);
     } catch (error) {
       console.error('Error uploading file:', error);
-      setError('Failed to upload file');
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      setError(message ?? 'Failed to upload file');
+      setLoading(false);
+    }
+  };
+
+  const handleBatchUpload = async () => {
+    const formData = new FormData();
+    selectedFiles.forEach((file) => formData.append('files', file));
+
+    setLoading(true);
+    setError(null);
+    setSuccessMessage(null);
+    setProcessingStatus(`Uploading ${selectedFiles.length} file(s)...`);
+
+    try {
+      const response = await axios.post('/api/batches', formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+      });
+
+      const { contracts, duplicates, skipped } = response.data as {
+        contracts: unknown[];
+        duplicates: unknown[];
+        skipped: { name: string; reason: string }[];
+      };
+      setSuccessMessage(
+        `Batch of ${contracts.length} contract(s) uploaded. Extraction will begin shortly.` +
+          (duplicates.length > 0
+            ? ` ${duplicates.length} document(s) were already uploaded.`
+            : '') +
+          (skipped.length > 0
+            ? ` Skipped: ${skipped.map(({ name, reason }) => `${name} (${reason})`).join(', ')}.`
+            : ''),
+      );
+      setSelectedFiles([]);
+      fetchContracts();
+    } catch (error) {
+      console.error('Error uploading batch:', error);
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      setError(message ?? 'Failed to upload files');
+    } finally {
       setLoading(false);
     }
   };
@@ -107,6 +292,8 @@ export default function Home() {
           Contract Clause Extractor
         </Typography>
 
+        <WorkspaceBar onChange={handleSessionChange} />
+
         {error && (
           <Alert severity="error" sx={{ mb: 2 }}>
             {error}
@@ -119,41 +306,77 @@ export default function Home() {
           </Alert>
         )}
 
-        <Paper sx={{ p: 2, mb: 4 }}>
-          <Typography variant="h6" gutterBottom>
-            Upload Contract PDF
-          </Typography>
+        {/* Viewers can only read the workspace's contracts */}
+        {session && session.role !== 'viewer' && (
+          <Paper sx={{ p: 2, mb: 4 }}>
+            <Typography variant="h6" gutterBottom>
+              Upload Contracts
+            </Typography>
+
+            <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
+              <Button variant="contained" component="label" sx={{ mr: 2 }}>
+                Select Files
+                <input
+                  type="file"
+                  hidden
+                  multiple
+                  accept="application/pdf,.docx,application/zip,.zip"
+                  onChange={handleFileChange}
+                />
+              </Button>
+              <Typography variant="body1">
+                {selectedFiles.length === 0
+                  ? 'No file selected'
+                  : selectedFiles.map((file) => file.name).join(', ')}
+              </Typography>
+            </Box>
 
-          <Box sx={{ display: 'flex', alignItems: 'center', mb: 2 }}>
-            <Button variant="contained" component="label" sx={{ mr: 2 }}>
-              Select File
-              <input type="file" hidden accept="application/pdf" onChange={handleFileChange} />
+            <Button
+              variant="contained"
+              color="primary"
+              onClick={handleUpload}
+              disabled={selectedFiles.length === 0 || loading}
+            >
+              Upload and Extract
             </Button>
-            <Typography variant="body1">
-              {selectedFile ? selectedFile.name : 'No file selected'}
+
+            {loading && (
+              <Box sx={{ mt: 2, display: 'flex', alignItems: 'center' }}>
+                <CircularProgress size={24} sx={{ mr: 2 }} />
+                <Typography variant="body2">{processingStatus}</Typography>
+              </Box>
+            )}
+          </Paper>
+        )}
+
+        <Box sx={{ display: 'flex', alignItems: 'baseline', gap: 2 }}>
+          <Typography variant="h5" gutterBottom>
+            Extracted Clauses
+          </Typography>
+          <Link href="/batches" variant="body2">
+            Batches
+          </Link>
+          {listed.length > 0 && (
+            <Typography variant="body2" component="span">
+              Export:{' '}
+              {EXPORT_LINKS.map(([format, label], index) => (
+                <span key={format}>
+                  {index > 0 && ' · '}
+                  <Link href={exportUrl(format)} download>
+                    {label}
+                  </Link>
+                </span>
+              ))}
             </Typography>
-          </Box>
-
-          <Button
-            variant="contained"
-            color="primary"
-            onClick={handleUpload}
-            disabled={!selectedFile || loading}
-          >
-            Upload and Extract
-          </Button>
-
-          {loading && (
-            <Box sx={{ mt: 2, display: 'flex', alignItems: 'center' }}>
-              <CircularProgress size={24} sx={{ mr: 2 }} />
-              <Typography variant="body2">{processingStatus}</Typography>
-            </Box>
           )}
-        </Paper>
+        </Box>
 
-        <Typography variant="h5" gutterBottom>
-          Extracted Clauses
-        </Typography>
+        <ContractSearch
+          clauseTypes={clauseColumns}
+          onResults={setSearchResults}
+          onError={setError}
+        />
+        <ClauseSearch clauseTypes={clauseColumns} onOpen={openMatch} onError={setError} />
 
         <TableContainer component={Paper}>
           <Table>
@@ -161,52 +384,193 @@ export default function Home() {
               <TableRow>
                 <TableCell>Contract Name</TableCell>
                 <TableCell>Upload Date</TableCell>
-                <TableCell>Indemnification Clause</TableCell>
-                <TableCell>Termination Clause</TableCell>
+                <TableCell>Risk</TableCell>
+                {clauseColumns.map(([type, label]) => (
+                  <TableCell key={type}>{label}</TableCell>
+                ))}
                 <TableCell>Status</TableCell>
+                <TableCell>Review</TableCell>
               </TableRow>
             </TableHead>
             <TableBody>
-              {contracts.map((contract) => (
+              {listed.map(({ contract, result }) => (
                 <TableRow key={contract.id}>
-                  <TableCell>{contract.fileName}</TableCell>
-                  <TableCell>{new Date(contract.uploadedAt).toLocaleString()}</TableCell>
                   <TableCell>
-                    {contract.indemnificationText
-                      ? contract.indemnificationText.length > 100
-                        ? contract.indemnificationText.substring(0, 100) + '...'
-                        : contract.indemnificationText
-                      : ''}
+                    {contract.fileName}
+                    {result && <SearchMatches result={result} />}
                   </TableCell>
+                  <TableCell>{new Date(contract.uploadedAt).toLocaleString()}</TableCell>
                   <TableCell>
-                    {contract.terminationText
-                      ? contract.terminationText.length > 100
-                        ? contract.terminationText.substring(0, 100) + '...'
-                        : contract.terminationText
-                      : ''}
+                    {contract.riskScore !== null && (
+                      <Tooltip title={findingsSummary(contract)}>
+                        <Chip
+                          size="small"
+                          label={`${contract.riskScore} · ${contract.findings.length} issue${contract.findings.length === 1 ? '' : 's'}`}
+                          color={riskColor(contract.riskScore)}
+                        />
+                      </Tooltip>
+                    )}
                   </TableCell>
+                  {clauseColumns.map(([type]) => {
+                    const clause = contract.clauses.find((c) => c.type === type);
+                    return (
+                      <TableCell key={type}>
+                        {/* Reviewers' edits replace the AI text; the AI text stays on the clause */}
+                        {clause
+                          ? clause.reviewStatus === 'edited' && clause.reviewedText
+                            ? truncate(clause.reviewedText)
+                            : clause.text
+                              ? truncate(clause.text)
+                              : 'Not found'
+                          : ''}
+                        {clause && clause.reviewStatus !== 'unreviewed' && (
+                          <Box>
+                            <Chip
+                              size="small"
+                              label={REVIEW_LABELS[clause.reviewStatus]}
+                              color={REVIEW_COLORS[clause.reviewStatus]}
+                            />
+                          </Box>
+                        )}
+                        {clause && contract.storageKey && (
+                          <Box>
+                            <Link
+                              component="button"
+                              variant="body2"
+                              onClick={() =>
+                                setViewerTarget({
+                                  contractId: contract.id,
+                                  fileName: contract.fileName,
+                                  documentType: contract.documentType,
+                                  clauseType: clause.type,
+                                  label: clause.label,
+                                })
+                              }
+                            >
+                              {!clause.found
+                                ? 'Review'
+                                : clause.pageStart === null
+                                  ? 'View in document'
+                                  : clause.pageStart === clause.pageEnd
+                                    ? `View on page ${clause.pageStart}`
+                                    : `View on pages ${clause.pageStart}-${clause.pageEnd}`}
+                            </Link>
+                          </Box>
+                        )}
+                        {clause?.found && contract.status === 'completed' && (
+                          <Box>
+                            <Link
+                              component="button"
+                              variant="body2"
+                              onClick={() =>
+                                setSimilarTarget({
+                                  contractId: contract.id,
+                                  clauseId: clause.id,
+                                  label: clause.label,
+                                })
+                              }
+                            >
+                              Find similar
+                            </Link>
+                          </Box>
+                        )}
+                      </TableCell>
+                    );
+                  })}
                   <TableCell>
-                    {contract.status === 'pending' || contract.status === 'processing' ? (
-                      <Box sx={{ display: 'flex', alignItems: 'center' }}>
-                        <CircularProgress size={20} sx={{ mr: 1 }} />
-                        {contract.status === 'pending' ? 'Pending' : `Processing`}
+                    {contract.status === 'completed' || contract.status === 'failed' ? (
+                      <Box>
+                        {contract.status}
+                        {session && session.role !== 'viewer' && (
+                          <Box sx={{ display: 'flex', gap: 1 }}>
+                            <Link
+                              component="button"
+                              variant="caption"
+                              onClick={() => reprocess(contract.id, 'extraction')}
+                            >
+                              Re-extract
+                            </Link>
+                            <Link
+                              component="button"
+                              variant="caption"
+                              onClick={() => reprocess(contract.id, 'ocr')}
+                            >
+                              Redo OCR
+                            </Link>
+                          </Box>
+                        )}
                       </Box>
                     ) : (
-                      contract.status
+                      <ContractProgress
+                        contractId={contract.id}
+                        initial={{
+                          status: contract.status,
+                          progress: contract.progress,
+                          stage: contract.stage,
+                        }}
+                        onFinished={fetchContracts}
+                      />
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    {contract.status === 'completed' && (
+                      <Box>
+                        <Typography variant="body2">
+                          {CONTRACT_REVIEW_LABELS[contract.reviewStatus]}
+                        </Typography>
+                        {session &&
+                          session.role !== 'viewer' &&
+                          (contract.reviewStatus === 'complete' ? (
+                            <Link
+                              component="button"
+                              variant="body2"
+                              onClick={() => updateReview(contract.id, 'reopen')}
+                            >
+                              Reopen
+                            </Link>
+                          ) : (
+                            contract.clauses.every((c) => c.reviewStatus !== 'unreviewed') && (
+                              <Link
+                                component="button"
+                                variant="body2"
+                                onClick={() => updateReview(contract.id, 'complete')}
+                              >
+                                Mark review complete
+                              </Link>
+                            )
+                          ))}
+                      </Box>
                     )}
                   </TableCell>
                 </TableRow>
               ))}
-              {contracts.length === 0 && (
+              {listed.length === 0 && (
                 <TableRow>
-                  <TableCell colSpan={5} align="center">
-                    No contracts processed yet
+                  <TableCell colSpan={5 + clauseColumns.length} align="center">
+                    {searchResults ? 'No contracts match the search' : 'No contracts processed yet'}
                   </TableCell>
                 </TableRow>
               )}
             </TableBody>
           </Table>
         </TableContainer>
+
+        {viewerTarget && (
+          <ClauseViewer
+            {...viewerTarget}
+            canReview={session !== null && session.role !== 'viewer'}
+            onReviewed={fetchContracts}
+            onClose={() => setViewerTarget(null)}
+          />
+        )}
+
+        {similarTarget && (
+          <SimilarClauses
+            {...similarTarget}
+            onOpen={openMatch}
+            onClose={() => setSimilarTarget(null)}
+          />
+        )}
       </Box>
     </Container>
   );
@@ -0,0 +1,216 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Link,
+  MenuItem,
+  TextField,
+  Typography,
+} from '@mui/material';
+import axios from 'axios';
+import type { ClauseMatch, PassageMatch } from '@/lib/embeddings';
+
+const truncate = (text: string, length = 300) =>
+  text.length > length ? text.substring(0, length) + '...' : text;
+
+const percent = (similarity: number) => `${Math.round(similarity * 100)}%`;
+
+const pagesOf = ({ pageStart, pageEnd }: PassageMatch) =>
+  pageStart === pageEnd ? `page ${pageStart}` : `pages ${pageStart}-${pageEnd}`;
+
+const errorMessage = (error: unknown, fallback: string) =>
+  (axios.isAxiosError(error) ? error.response?.data?.error : undefined) ?? fallback;
+
+// Matched clauses, most similar first, each with a link to open it in its contract
+function ClauseMatches({
+  matches,
+  onOpen,
+}: {
+  matches: ClauseMatch[];
+  onOpen: (match: ClauseMatch) => void;
+}) {
+  if (matches.length === 0) {
+    return <Typography variant="body2">No matching clauses</Typography>;
+  }
+  return (
+    <>
+      {matches.map((match) => (
+        <Box key={match.clause.id} sx={{ mb: 2 }}>
+          <Typography variant="subtitle2">
+            {match.clause.label} · {match.contract.fileName} · {percent(match.similarity)}{' '}
+            <Link component="button" variant="body2" onClick={() => onOpen(match)}>
+              Open
+            </Link>
+          </Typography>
+          <Typography variant="body2" color="text.secondary">
+            {truncate(match.clause.text)}
+          </Typography>
+        </Box>
+      ))}
+    </>
+  );
+}
+
+interface SimilarClausesProps {
+  contractId: string;
+  clauseId: string;
+  label: string;
+  onOpen: (match: ClauseMatch) => void;
+  onClose: () => void;
+}
+
+// The nearest clauses of the same type in the workspace's other contracts
+export function SimilarClauses({
+  contractId,
+  clauseId,
+  label,
+  onOpen,
+  onClose,
+}: SimilarClausesProps) {
+  const [matches, setMatches] = useState<ClauseMatch[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    axios
+      .get<{ similar: ClauseMatch[] }>(`/api/contracts/${contractId}/clauses/${clauseId}/similar`)
+      .then((response) => setMatches(response.data.similar))
+      .catch((error) => setError(errorMessage(error, 'Failed to find similar clauses')));
+  }, [contractId, clauseId]);
+
+  return (
+    <Dialog open onClose={onClose} maxWidth="md" fullWidth>
+      <DialogTitle>Clauses similar to this {label}</DialogTitle>
+      <DialogContent dividers>
+        {error ? (
+          <Alert severity="error">{error}</Alert>
+        ) : matches ? (
+          <ClauseMatches matches={matches} onOpen={onOpen} />
+        ) : (
+          <CircularProgress size={24} />
+        )}
+      </DialogContent>
+      <DialogActions>
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
+
+interface ClauseSearchProps {
+  // [type, label] of the clause types the search can be limited to
+  clauseTypes: (readonly [string, string])[];
+  onOpen: (match: ClauseMatch) => void;
+  onError: (message: string) => void;
+}
+
+interface ClauseSearchResults {
+  clauses: ClauseMatch[];
+  passages: PassageMatch[];
+}
+
+// Search the workspace's clauses and contract text by meaning rather than by words
+export default function ClauseSearch({ clauseTypes, onOpen, onError }: ClauseSearchProps) {
+  const [query, setQuery] = useState('');
+  const [clauseType, setClauseType] = useState('');
+  const [searching, setSearching] = useState(false);
+  const [results, setResults] = useState<ClauseSearchResults | null>(null);
+
+  const search = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!query.trim()) {
+      return;
+    }
+
+    setSearching(true);
+    try {
+      const response = await axios.get<ClauseSearchResults>('/api/clauses/search', {
+        params: { q: query, ...(clauseType && { clauseType }) },
+      });
+      setResults(response.data);
+    } catch (error) {
+      onError(errorMessage(error, 'Failed to search clauses'));
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const open = (match: ClauseMatch) => {
+    setResults(null);
+    onOpen(match);
+  };
+
+  return (
+    <>
+      <Box
+        component="form"
+        onSubmit={search}
+        sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2, mb: 2 }}
+      >
+        <TextField
+          size="small"
+          label="Find clauses by meaning"
+          placeholder="e.g. indemnities that cover regulatory fines"
+          value={query}
+          onChange={(event) => setQuery(event.target.value)}
+          sx={{ flexGrow: 1, minWidth: 240 }}
+        />
+        <TextField
+          select
+          size="small"
+          label="Clause type"
+          value={clauseType}
+          onChange={(event) => setClauseType(event.target.value)}
+          sx={{ minWidth: 180 }}
+        >
+          <MenuItem value="">Any</MenuItem>
+          {clauseTypes.map(([type, label]) => (
+            <MenuItem key={type} value={type}>
+              {label}
+            </MenuItem>
+          ))}
+        </TextField>
+        <Button type="submit" variant="outlined" disabled={searching}>
+          Find clauses
+        </Button>
+      </Box>
+
+      {results && (
+        <Dialog open onClose={() => setResults(null)} maxWidth="md" fullWidth>
+          <DialogTitle>Clauses matching &ldquo;{query}&rdquo;</DialogTitle>
+          <DialogContent dividers>
+            <ClauseMatches matches={results.clauses} onOpen={open} />
+            {results.passages.length > 0 && (
+              <>
+                <Typography variant="h6" sx={{ mt: 2 }}>
+                  Passages
+                </Typography>
+                {results.passages.map((passage, index) => (
+                  <Box key={index} sx={{ mb: 2 }}>
+                    <Typography variant="subtitle2">
+                      {passage.contract.fileName}, {pagesOf(passage)} ·{' '}
+                      {percent(passage.similarity)}
+                    </Typography>
+                    <Typography variant="body2" color="text.secondary">
+                      {truncate(passage.excerpt)}
+                    </Typography>
+                  </Box>
+                ))}
+              </>
+            )}
+          </DialogContent>
+          <DialogActions>
+            <Button onClick={() => setResults(null)}>Close</Button>
+          </DialogActions>
+        </Dialog>
+      )}
+    </>
+  );
+}
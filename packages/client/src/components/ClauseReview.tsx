@@ -0,0 +1,161 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Alert, Box, Button, Chip, TextField, Typography } from '@mui/material';
+import axios from 'axios';
+import type { Clause, ClauseReviewStatus } from '@prisma/client';
+
+export type ReviewedClause = Clause & { reviewedBy: { id: string; name: string } | null };
+
+interface ClauseReviewProps {
+  contractId: string;
+  clause: ReviewedClause;
+  // False for viewers, and while the contract's review is complete
+  editable: boolean;
+  onChange: (clause: ReviewedClause) => void;
+}
+
+export const REVIEW_LABELS: Record<ClauseReviewStatus, string> = {
+  unreviewed: 'Unreviewed',
+  accepted: 'Accepted',
+  edited: 'Edited',
+  rejected: 'Rejected',
+};
+
+export const REVIEW_COLORS: Record<ClauseReviewStatus, 'default' | 'success' | 'info' | 'error'> = {
+  unreviewed: 'default',
+  accepted: 'success',
+  edited: 'info',
+  rejected: 'error',
+};
+
+// Review decision for one clause: accept, edit or reject the AI text, with a comment
+export default function ClauseReview({
+  contractId,
+  clause,
+  editable,
+  onChange,
+}: ClauseReviewProps) {
+  const [text, setText] = useState(clause.reviewedText ?? clause.text ?? '');
+  const [comment, setComment] = useState(clause.reviewComment ?? '');
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setText(clause.reviewedText ?? clause.text ?? '');
+    setComment(clause.reviewComment ?? '');
+  }, [clause]);
+
+  const review = async (status: ClauseReviewStatus) => {
+    setSaving(true);
+    setError(null);
+    try {
+      const response = await axios.put<ReviewedClause>(
+        `/api/contracts/${contractId}/clauses/${clause.id}/review`,
+        {
+          status,
+          ...(status === 'edited' && { text }),
+          ...(status !== 'unreviewed' && comment && { comment }),
+        },
+      );
+      onChange(response.data);
+    } catch (error) {
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      setError(message ?? 'Failed to save the review');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+        <Chip
+          size="small"
+          label={REVIEW_LABELS[clause.reviewStatus]}
+          color={REVIEW_COLORS[clause.reviewStatus]}
+        />
+        {clause.reviewedBy && clause.reviewedAt && (
+          <Typography variant="caption" color="text.secondary">
+            by {clause.reviewedBy.name} on {new Date(clause.reviewedAt).toLocaleString()}
+          </Typography>
+        )}
+      </Box>
+
+      {error && (
+        <Alert severity="error" sx={{ mb: 1 }}>
+          {error}
+        </Alert>
+      )}
+
+      {editable ? (
+        <>
+          <TextField
+            label="Clause text"
+            helperText="Change the text and choose Save edit to correct the AI extraction"
+            value={text}
+            onChange={(event) => setText(event.target.value)}
+            multiline
+            minRows={3}
+            fullWidth
+            margin="dense"
+          />
+          <TextField
+            label="Comment"
+            value={comment}
+            onChange={(event) => setComment(event.target.value)}
+            fullWidth
+            margin="dense"
+          />
+          <Box sx={{ display: 'flex', gap: 1, mt: 1 }}>
+            <Button
+              size="small"
+              variant="outlined"
+              disabled={saving}
+              onClick={() => review('accepted')}
+            >
+              Accept
+            </Button>
+            <Button
+              size="small"
+              variant="outlined"
+              disabled={saving || !text.trim() || text === clause.text}
+              onClick={() => review('edited')}
+            >
+              Save edit
+            </Button>
+            <Button
+              size="small"
+              variant="outlined"
+              color="error"
+              disabled={saving}
+              onClick={() => review('rejected')}
+            >
+              Reject
+            </Button>
+            <Button
+              size="small"
+              disabled={saving || clause.reviewStatus === 'unreviewed'}
+              onClick={() => review('unreviewed')}
+            >
+              Reset
+            </Button>
+          </Box>
+        </>
+      ) : (
+        <>
+          {clause.reviewStatus === 'edited' && (
+            <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap', mb: 1 }}>
+              <strong>Edited text:</strong> {clause.reviewedText}
+            </Typography>
+          )}
+          {clause.reviewComment && (
+            <Typography variant="body2">
+              <strong>Comment:</strong> {clause.reviewComment}
+            </Typography>
+          )}
+        </>
+      )}
+    </Box>
+  );
+}
@@ -0,0 +1,300 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Typography,
+} from '@mui/material';
+import axios from 'axios';
+import type { ClausePassage, DocumentType, Prisma } from '@prisma/client';
+import type { PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import type { BoundingRegion } from 'shared';
+import ClauseReview, { ReviewedClause } from '@/components/ClauseReview';
+
+type ContractWithPassages = Prisma.ContractGetPayload<{
+  include: {
+    clauses: { include: { passages: true; reviewedBy: { select: { id: true; name: true } } } };
+  };
+}>;
+
+interface ClauseViewerProps {
+  contractId: string;
+  fileName: string;
+  documentType: DocumentType;
+  clauseType: string;
+  label: string;
+  // Whether the user's role allows review decisions
+  canReview: boolean;
+  // Called after a review decision is saved
+  onReviewed: () => void;
+  onClose: () => void;
+}
+
+// Width the page is rendered at; the dialog scrolls if the window is narrower
+const PAGE_WIDTH = 800;
+
+const regionsOf = (passage: ClausePassage) => passage.regions as unknown as BoundingRegion[];
+
+// First page to show for a passage: where it starts, or where its first highlight is
+const firstPageOf = (passage: ClausePassage) =>
+  passage.pageStart ?? regionsOf(passage)[0]?.pageNumber ?? null;
+
+const formatAttribute = (value: unknown) => {
+  if (value === null || value === undefined) return 'Not stated';
+  if (Array.isArray(value)) return value.length > 0 ? value.join('; ') : 'None';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+};
+
+// Opens the contract PDF at a clause passage with the passage's regions highlighted; Word
+// documents have no page images, so only their passages are shown, with a link to the file
+export default function ClauseViewer({
+  contractId,
+  fileName,
+  documentType,
+  clauseType,
+  label,
+  canReview,
+  onReviewed,
+  onClose,
+}: ClauseViewerProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [passages, setPassages] = useState<ClausePassage[]>([]);
+  const [attributes, setAttributes] = useState<Record<string, unknown> | null>(null);
+  const [clause, setClause] = useState<ReviewedClause | null>(null);
+  const [reviewEditable, setReviewEditable] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [passageIndex, setPassageIndex] = useState(0);
+  const [pageNumber, setPageNumber] = useState(1);
+  const [pageHeight, setPageHeight] = useState(0);
+
+  // The contracts list leaves out passages, so fetch them for this clause and go to the first
+  useEffect(() => {
+    axios
+      .get<ContractWithPassages>(`/api/contracts/${contractId}`)
+      .then((response) => {
+        const clause = response.data.clauses.find((c) => c.type === clauseType);
+        const loaded = clause?.passages ?? [];
+        setPassages(loaded);
+        setAttributes((clause?.attributes as Record<string, unknown> | null) ?? null);
+        setClause(clause ?? null);
+        setReviewEditable(
+          response.data.status === 'completed' && response.data.reviewStatus !== 'complete',
+        );
+        setPassageIndex(0);
+        setPageNumber((loaded[0] && firstPageOf(loaded[0])) ?? 1);
+      })
+      .catch((error) => {
+        console.error('Error fetching clause passages:', error);
+        setError('Failed to load the clause passages');
+      });
+  }, [contractId, clauseType]);
+
+  // Load the document once; pdf.js is imported lazily so it never runs on the server
+  useEffect(() => {
+    if (documentType !== 'pdf') {
+      return;
+    }
+    let cancelled = false;
+    let loaded: PDFDocumentProxy | null = null;
+
+    (async () => {
+      try {
+        const pdfjs = await import('pdfjs-dist');
+        // Let webpack bundle the worker as its own chunk
+        pdfjs.GlobalWorkerOptions.workerPort ??= new Worker(
+          new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url),
+          { type: 'module' },
+        );
+        loaded = await pdfjs.getDocument(`/api/contracts/${contractId}/document`).promise;
+        if (cancelled) {
+          loaded.destroy();
+        } else {
+          setPdf(loaded);
+        }
+      } catch (error) {
+        console.error('Error loading contract PDF:', error);
+        setError('Failed to load the contract PDF');
+      }
+    })();
+
+    return () => {
+      cancelled = true;
+      loaded?.destroy();
+    };
+  }, [contractId, documentType]);
+
+  // Render the current page to fit PAGE_WIDTH
+  useEffect(() => {
+    if (!pdf || !canvasRef.current) {
+      return;
+    }
+
+    let task: RenderTask | null = null;
+    let cancelled = false;
+    const canvas = canvasRef.current;
+
+    (async () => {
+      const page = await pdf.getPage(pageNumber);
+      if (cancelled) {
+        return;
+      }
+      const viewport = page.getViewport({
+        scale: PAGE_WIDTH / page.getViewport({ scale: 1 }).width,
+      });
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      setPageHeight(viewport.height);
+      task = page.render({ canvasContext: canvas.getContext('2d')!, viewport });
+      await task.promise.catch(() => undefined);
+    })();
+
+    return () => {
+      cancelled = true;
+      task?.cancel();
+    };
+  }, [pdf, pageNumber]);
+
+  const showPassage = (index: number) => {
+    setPassageIndex(index);
+    setPageNumber(firstPageOf(passages[index]) ?? pageNumber);
+  };
+
+  const passage = passages[passageIndex];
+  const highlights = passages.flatMap((candidate, index) =>
+    regionsOf(candidate)
+      .filter((region) => region.pageNumber === pageNumber)
+      .map((region) => ({ region, current: index === passageIndex })),
+  );
+
+  return (
+    <Dialog open onClose={onClose} maxWidth={false}>
+      <DialogTitle>
+        {label} — {fileName}
+      </DialogTitle>
+      <DialogContent dividers>
+        {error && (
+          <Alert severity="error" sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {passage && (
+          <Box sx={{ mb: 2, maxWidth: PAGE_WIDTH }}>
+            <Typography variant="subtitle2">
+              Passage {passageIndex + 1} of {passages.length}
+              {passage.pageStart !== null &&
+                (passage.pageStart === passage.pageEnd
+                  ? ` · page ${passage.pageStart}`
+                  : ` · pages ${passage.pageStart}-${passage.pageEnd}`)}
+            </Typography>
+            <Typography variant="body2" sx={{ whiteSpace: 'pre-wrap' }}>
+              {passage.text}
+            </Typography>
+            {documentType === 'pdf' && regionsOf(passage).length === 0 && (
+              <Typography variant="caption" color="text.secondary">
+                This passage could not be matched to the document text, so it is not highlighted.
+              </Typography>
+            )}
+          </Box>
+        )}
+
+        {clause && (
+          <Box sx={{ mb: 2, maxWidth: PAGE_WIDTH }}>
+            <ClauseReview
+              contractId={contractId}
+              clause={clause}
+              editable={canReview && reviewEditable}
+              onChange={(updated) => {
+                setClause(updated);
+                onReviewed();
+              }}
+            />
+          </Box>
+        )}
+
+        {attributes && (
+          <Box sx={{ mb: 2, maxWidth: PAGE_WIDTH }}>
+            {Object.entries(attributes).map(([name, value]) => (
+              <Typography key={name} variant="body2">
+                <strong>{name.replace(/_/g, ' ')}:</strong> {formatAttribute(value)}
+              </Typography>
+            ))}
+          </Box>
+        )}
+
+        {documentType !== 'pdf' && (
+          <Typography variant="body2" sx={{ maxWidth: PAGE_WIDTH }}>
+            Passages of Word documents are not highlighted.{' '}
+            <a href={`/api/contracts/${contractId}/document`} download={fileName}>
+              Download the document
+            </a>{' '}
+            to read it with its tracked changes and comments.
+          </Typography>
+        )}
+
+        <Box sx={{ position: 'relative', width: PAGE_WIDTH, height: pageHeight || undefined }}>
+          {documentType === 'pdf' && !pdf && !error && <CircularProgress />}
+          <canvas ref={canvasRef} style={{ display: pdf ? 'block' : 'none' }} />
+          {pdf &&
+            highlights.map(({ region, current }, index) => {
+              const xs = region.vertices.map((vertex) => vertex.x);
+              const ys = region.vertices.map((vertex) => vertex.y);
+              return (
+                <Box
+                  key={index}
+                  sx={{
+                    position: 'absolute',
+                    left: `${Math.min(...xs) * 100}%`,
+                    top: `${Math.min(...ys) * 100}%`,
+                    width: `${(Math.max(...xs) - Math.min(...xs)) * 100}%`,
+                    height: `${(Math.max(...ys) - Math.min(...ys)) * 100}%`,
+                    backgroundColor: current ? 'rgba(255, 213, 0, 0.4)' : 'rgba(255, 213, 0, 0.15)',
+                    pointerEvents: 'none',
+                  }}
+                />
+              );
+            })}
+        </Box>
+      </DialogContent>
+      <DialogActions>
+        <Button disabled={passageIndex === 0} onClick={() => showPassage(passageIndex - 1)}>
+          Previous passage
+        </Button>
+        <Button
+          disabled={passageIndex >= passages.length - 1}
+          onClick={() => showPassage(passageIndex + 1)}
+        >
+          Next passage
+        </Button>
+        <Box sx={{ flexGrow: 1 }} />
+        {documentType === 'pdf' && (
+          <>
+            <Button disabled={pageNumber <= 1} onClick={() => setPageNumber(pageNumber - 1)}>
+              Previous page
+            </Button>
+            <Typography variant="body2">
+              Page {pageNumber}
+              {pdf ? ` of ${pdf.numPages}` : ''}
+            </Typography>
+            <Button
+              disabled={!pdf || pageNumber >= pdf.numPages}
+              onClick={() => setPageNumber(pageNumber + 1)}
+            >
+              Next page
+            </Button>
+          </>
+        )}
+        <Button onClick={onClose}>Close</Button>
+      </DialogActions>
+    </Dialog>
+  );
+}
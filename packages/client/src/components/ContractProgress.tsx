@@ -0,0 +1,50 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Box, LinearProgress, Typography } from '@mui/material';
+import type { ContractProgress as Progress } from 'shared';
+
+interface ContractProgressProps {
+  contractId: string;
+  // State from the contracts list, shown until the first event arrives
+  initial: Progress;
+  // Called once the contract has completed or failed
+  onFinished: () => void;
+}
+
+// Live progress bar of a contract that is still being processed, fed by its event stream
+export default function ContractProgress({
+  contractId,
+  initial,
+  onFinished,
+}: ContractProgressProps) {
+  const [progress, setProgress] = useState<Progress>(initial);
+
+  useEffect(() => {
+    const source = new EventSource(`/api/contracts/${contractId}/events`);
+
+    source.addEventListener('progress', (event) => {
+      const update: Progress = JSON.parse((event as MessageEvent<string>).data);
+      setProgress(update);
+      if (update.status === 'completed' || update.status === 'failed') {
+        // Close before the server ends the stream, or EventSource reconnects
+        source.close();
+        onFinished();
+      }
+    });
+
+    return () => source.close();
+    // onFinished is recreated on every render of the page; the stream only depends on the contract
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [contractId]);
+
+  return (
+    <Box sx={{ minWidth: 160 }}>
+      <LinearProgress variant="determinate" value={progress.progress} />
+      <Typography variant="caption" color="text.secondary">
+        {progress.progress}% ·{' '}
+        {progress.stage ?? (progress.status === 'pending' ? 'Pending' : 'Processing')}
+      </Typography>
+    </Box>
+  );
+}
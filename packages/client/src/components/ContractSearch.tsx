@@ -0,0 +1,165 @@
+'use client';
+
+import { useState } from 'react';
+import { Box, Button, MenuItem, TextField, Typography } from '@mui/material';
+import axios from 'axios';
+import type { ContractStatus } from '@prisma/client';
+import type { SearchResult, Snippet } from '@/lib/search';
+
+interface ContractSearchProps {
+  // [type, label] of the clause types the presence filter offers
+  clauseTypes: (readonly [string, string])[];
+  // Called with the results of each search, and with null when the search is cleared
+  onResults: (results: SearchResult[] | null) => void;
+  onError: (message: string) => void;
+}
+
+const STATUSES: ContractStatus[] = ['pending', 'processing', 'extracting', 'completed', 'failed'];
+
+// A snippet with the words that matched the query highlighted
+export function SearchSnippet({ snippet }: { snippet: Snippet }) {
+  return (
+    <>
+      {snippet.map((segment, index) =>
+        segment.match ? <mark key={index}>{segment.text}</mark> : segment.text,
+      )}
+    </>
+  );
+}
+
+// The matching pages and clauses of a search result, under its contract in the list
+export function SearchMatches({ result }: { result: SearchResult }) {
+  return (
+    <Box sx={{ mt: 1 }}>
+      {result.pages.map((page) => (
+        <Typography key={page.pageNumber} variant="caption" component="p" color="text.secondary">
+          <strong>Page {page.pageNumber}:</strong> <SearchSnippet snippet={page.snippet} />
+        </Typography>
+      ))}
+      {result.clauses.map((clause) => (
+        <Typography key={clause.type} variant="caption" component="p" color="text.secondary">
+          <strong>{clause.label}:</strong> <SearchSnippet snippet={clause.snippet} />
+        </Typography>
+      ))}
+    </Box>
+  );
+}
+
+// Full-text search over the workspace's contracts, with status, clause and upload date filters
+export default function ContractSearch({ clauseTypes, onResults, onError }: ContractSearchProps) {
+  const [query, setQuery] = useState('');
+  const [status, setStatus] = useState('');
+  const [clause, setClause] = useState('');
+  const [uploadedAfter, setUploadedAfter] = useState('');
+  const [uploadedBefore, setUploadedBefore] = useState('');
+  const [searching, setSearching] = useState(false);
+
+  const search = async (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!query.trim()) {
+      return clear();
+    }
+
+    setSearching(true);
+    try {
+      const response = await axios.get<{ results: SearchResult[] }>('/api/contracts/search', {
+        params: {
+          q: query,
+          ...(status && { status }),
+          ...(clause && { clause }),
+          ...(uploadedAfter && { uploadedAfter }),
+          // The date picker gives a day; include all of it
+          ...(uploadedBefore && {
+            uploadedBefore: new Date(
+              new Date(uploadedBefore).getTime() + 24 * 60 * 60 * 1000,
+            ).toISOString(),
+          }),
+        },
+      });
+      onResults(response.data.results);
+    } catch (error) {
+      const message = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      onError(message ?? 'Failed to search contracts');
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const clear = () => {
+    setQuery('');
+    setStatus('');
+    setClause('');
+    setUploadedAfter('');
+    setUploadedBefore('');
+    onResults(null);
+  };
+
+  return (
+    <Box
+      component="form"
+      onSubmit={search}
+      sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 2, mb: 2 }}
+    >
+      <TextField
+        size="small"
+        label="Search contracts"
+        placeholder='e.g. "governing law" -delaware'
+        value={query}
+        onChange={(event) => setQuery(event.target.value)}
+        sx={{ flexGrow: 1, minWidth: 240 }}
+      />
+      <TextField
+        select
+        size="small"
+        label="Status"
+        value={status}
+        onChange={(event) => setStatus(event.target.value)}
+        sx={{ minWidth: 140 }}
+      >
+        <MenuItem value="">Any</MenuItem>
+        {STATUSES.map((value) => (
+          <MenuItem key={value} value={value}>
+            {value}
+          </MenuItem>
+        ))}
+      </TextField>
+      <TextField
+        select
+        size="small"
+        label="Has clause"
+        value={clause}
+        onChange={(event) => setClause(event.target.value)}
+        sx={{ minWidth: 180 }}
+      >
+        <MenuItem value="">Any</MenuItem>
+        {clauseTypes.map(([type, label]) => (
+          <MenuItem key={type} value={type}>
+            {label}
+          </MenuItem>
+        ))}
+      </TextField>
+      <TextField
+        size="small"
+        type="date"
+        label="Uploaded from"
+        InputLabelProps={{ shrink: true }}
+        value={uploadedAfter}
+        onChange={(event) => setUploadedAfter(event.target.value)}
+      />
+      <TextField
+        size="small"
+        type="date"
+        label="Uploaded to"
+        InputLabelProps={{ shrink: true }}
+        value={uploadedBefore}
+        onChange={(event) => setUploadedBefore(event.target.value)}
+      />
+      <Button type="submit" variant="contained" disabled={searching}>
+        Search
+      </Button>
+      <Button onClick={clear} disabled={searching}>
+        Clear
+      </Button>
+    </Box>
+  );
+}
@@ -0,0 +1,90 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Box, Button, Chip, MenuItem, TextField, Typography } from '@mui/material';
+import axios from 'axios';
+import type { Role } from '@prisma/client';
+
+export interface Session {
+  user: { id: string; email: string; name: string };
+  workspaceId: string;
+  role: Role;
+  workspaces: { id: string; name: string; role: Role }[];
+}
+
+interface WorkspaceBarProps {
+  // Called with the session once it is loaded and again after every workspace switch
+  onChange: (session: Session) => void;
+}
+
+// Signed-in user, workspace switcher and sign-out button
+export default function WorkspaceBar({ onChange }: WorkspaceBarProps) {
+  const router = useRouter();
+  const [session, setSession] = useState<Session | null>(null);
+
+  const fetchSession = async () => {
+    try {
+      const response = await axios.get<Session>('/api/auth/session');
+      setSession(response.data);
+      onChange(response.data);
+    } catch (error) {
+      console.error('Error fetching session:', error);
+      router.replace('/login');
+    }
+  };
+
+  useEffect(() => {
+    fetchSession();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  const switchWorkspace = async (workspaceId: string) => {
+    try {
+      await axios.patch('/api/auth/session', { workspaceId });
+      await fetchSession();
+    } catch (error) {
+      console.error('Error switching workspace:', error);
+    }
+  };
+
+  const signOut = async () => {
+    try {
+      await axios.post('/api/auth/logout');
+    } finally {
+      router.replace('/login');
+    }
+  };
+
+  if (!session) {
+    return null;
+  }
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 2, mb: 3 }}>
+      {session.workspaces.length > 1 ? (
+        <TextField
+          select
+          size="small"
+          label="Workspace"
+          value={session.workspaceId}
+          onChange={(event) => switchWorkspace(event.target.value)}
+        >
+          {session.workspaces.map((workspace) => (
+            <MenuItem key={workspace.id} value={workspace.id}>
+              {workspace.name}
+            </MenuItem>
+          ))}
+        </TextField>
+      ) : (
+        <Typography variant="subtitle1">{session.workspaces[0]?.name}</Typography>
+      )}
+      <Chip size="small" label={session.role} />
+      <Box sx={{ flexGrow: 1 }} />
+      <Typography variant="body2">{session.user.name}</Typography>
+      <Button size="small" onClick={signOut}>
+        Sign out
+      </Button>
+    </Box>
+  );
+}
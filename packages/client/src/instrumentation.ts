@@ -0,0 +1,12 @@
+// Runs once when the server starts (instrumentationHook in next.config.js)
+export async function register() {
+  // Not in the edge runtime, which middleware runs in
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    const { startWebhookDispatcher } = await import('@/lib/webhooks');
+    startWebhookDispatcher();
+    const { startPausedContractResumer } = await import('@/lib/pipeline');
+    startPausedContractResumer();
+    const { startDeadlineReminders } = await import('@/lib/deadlines');
+    startDeadlineReminders();
+  }
+}
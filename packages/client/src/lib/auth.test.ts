@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  AuthContext,
+  SESSION_COOKIE,
+  authenticate,
+  hasRole,
+  hashPassword,
+  normalizeEmail,
+  verifyPassword,
+} from './auth';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: {
+    session: { findUnique: vi.fn() },
+    membership: { findUnique: vi.fn() },
+  },
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma }));
+
+const auth = (role: AuthContext['role']): AuthContext => ({
+  sessionId: 'session-1',
+  userId: 'user-1',
+  email: 'ada@example.com',
+  name: 'Ada',
+  workspaceId: 'workspace-1',
+  role,
+});
+
+const signedIn = () =>
+  new NextRequest('http://localhost:3000/api/contracts', {
+    headers: { cookie: `${SESSION_COOKIE}=token` },
+  });
+
+describe('passwords', () => {
+  it('verifies the password a hash was made from and no other', async () => {
+    const stored = await hashPassword('correct horse');
+
+    expect(stored).toMatch(/^scrypt\$[0-9a-f]{32}\$[0-9a-f]{128}$/);
+    await expect(verifyPassword('correct horse', stored)).resolves.toBe(true);
+    await expect(verifyPassword('battery staple', stored)).resolves.toBe(false);
+  });
+
+  it('salts every hash', async () => {
+    expect(await hashPassword('correct horse')).not.toBe(await hashPassword('correct horse'));
+  });
+
+  it('rejects stored hashes of another scheme', async () => {
+    await expect(verifyPassword('correct horse', 'bcrypt$abc$def')).resolves.toBe(false);
+    await expect(verifyPassword('correct horse', '')).resolves.toBe(false);
+  });
+});
+
+describe('normalizeEmail', () => {
+  it('trims and lower-cases', () => {
+    expect(normalizeEmail('  Ada@Example.COM ')).toBe('ada@example.com');
+  });
+});
+
+describe('hasRole', () => {
+  it('ranks viewers below reviewers below admins', () => {
+    expect(hasRole(auth('admin'), 'reviewer')).toBe(true);
+    expect(hasRole(auth('reviewer'), 'reviewer')).toBe(true);
+    expect(hasRole(auth('viewer'), 'reviewer')).toBe(false);
+    expect(hasRole(auth('reviewer'), 'admin')).toBe(false);
+  });
+});
+
+describe('authenticate', () => {
+  const session = {
+    id: 'session-1',
+    userId: 'user-1',
+    workspaceId: 'workspace-1',
+    expiresAt: new Date(Date.now() + 60 * 1000),
+    user: { email: 'ada@example.com', name: 'Ada' },
+  };
+
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('answers 401 without a session cookie', async () => {
+    const result = await authenticate(new NextRequest('http://localhost:3000/api/contracts'));
+
+    expect((result as NextResponse).status).toBe(401);
+  });
+
+  it('answers 401 for an expired session', async () => {
+    prisma.session.findUnique.mockResolvedValue({ ...session, expiresAt: new Date(0) });
+
+    expect(((await authenticate(signedIn())) as NextResponse).status).toBe(401);
+  });
+
+  it('answers 401 once the user has left the workspace', async () => {
+    prisma.session.findUnique.mockResolvedValue(session);
+    prisma.membership.findUnique.mockResolvedValue(null);
+
+    expect(((await authenticate(signedIn())) as NextResponse).status).toBe(401);
+  });
+
+  it("answers 403 when the user's role in the workspace is too low", async () => {
+    prisma.session.findUnique.mockResolvedValue(session);
+    prisma.membership.findUnique.mockResolvedValue({ role: 'viewer' });
+
+    expect(((await authenticate(signedIn(), 'reviewer')) as NextResponse).status).toBe(403);
+  });
+
+  it("resolves the user and their role in the session's workspace", async () => {
+    prisma.session.findUnique.mockResolvedValue(session);
+    prisma.membership.findUnique.mockResolvedValue({ role: 'reviewer' });
+
+    await expect(authenticate(signedIn(), 'reviewer')).resolves.toEqual(auth('reviewer'));
+    expect(prisma.membership.findUnique).toHaveBeenCalledWith({
+      where: { userId_workspaceId: { userId: 'user-1', workspaceId: 'workspace-1' } },
+    });
+  });
+});
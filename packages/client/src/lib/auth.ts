@@ -0,0 +1,150 @@
+import { createHash, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { NextRequest, NextResponse } from 'next/server';
+import type { Role } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+
+/**
+ * Accounts and sessions
+ *
+ * Users sign in with an email and password (hashed with scrypt) and get a
+ * session cookie holding a random token; the database only stores its SHA-256
+ * hash. A session works in one workspace at a time, and every contracts route
+ * is scoped to that workspace and checked against the user's role in it:
+ * viewers read, reviewers also upload, admins also manage members.
+ */
+
+export const SESSION_COOKIE = 'session';
+
+const SESSION_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+export const MIN_PASSWORD_LENGTH = 8;
+
+export const ROLES: Role[] = ['admin', 'reviewer', 'viewer'];
+
+const ROLE_RANK: Record<Role, number> = {
+  viewer: 0,
+  reviewer: 1,
+  admin: 2,
+};
+
+export interface AuthContext {
+  sessionId: string;
+  userId: string;
+  email: string;
+  name: string;
+  workspaceId: string;
+  role: Role;
+}
+
+const scryptAsync = promisify(scrypt) as (
+  password: string,
+  salt: Buffer,
+  keyLength: number,
+) => Promise<Buffer>;
+
+export const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+export const normalizeEmail = (email: string) => email.trim().toLowerCase();
+
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16);
+  const hash = await scryptAsync(password, salt, 64);
+  return `scrypt$${salt.toString('hex')}$${hash.toString('hex')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, hash] = stored.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) {
+    return false;
+  }
+  const expected = Buffer.from(hash, 'hex');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'hex'), expected.length);
+  return timingSafeEqual(expected, actual);
+}
+
+// Start a session in the given workspace and set its cookie on the response
+export async function startSession(
+  response: NextResponse,
+  userId: string,
+  workspaceId: string,
+): Promise<void> {
+  const token = randomBytes(32).toString('base64url');
+  const expiresAt = new Date(Date.now() + SESSION_TTL_MS);
+
+  await prisma.session.create({
+    data: { tokenHash: hashToken(token), userId, workspaceId, expiresAt },
+  });
+
+  response.cookies.set(SESSION_COOKIE, token, {
+    httpOnly: true,
+    sameSite: 'lax',
+    secure: process.env.NODE_ENV === 'production',
+    path: '/',
+    expires: expiresAt,
+  });
+}
+
+// Delete the caller's session, if any, and clear its cookie on the response
+export async function endSession(request: NextRequest, response: NextResponse): Promise<void> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (token) {
+    await prisma.session.deleteMany({ where: { tokenHash: hashToken(token) } });
+  }
+  response.cookies.delete(SESSION_COOKIE);
+}
+
+// The signed-in user and their role in the session's workspace, or null
+export async function getAuth(request: NextRequest): Promise<AuthContext | null> {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (!token) {
+    return null;
+  }
+
+  const session = await prisma.session.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: true },
+  });
+  if (!session || session.expiresAt < new Date()) {
+    return null;
+  }
+
+  // The user may have been removed from the workspace since signing in
+  const membership = await prisma.membership.findUnique({
+    where: { userId_workspaceId: { userId: session.userId, workspaceId: session.workspaceId } },
+  });
+  if (!membership) {
+    return null;
+  }
+
+  return {
+    sessionId: session.id,
+    userId: session.userId,
+    email: session.user.email,
+    name: session.user.name,
+    workspaceId: session.workspaceId,
+    role: membership.role,
+  };
+}
+
+export const hasRole = (auth: AuthContext, minimumRole: Role) =>
+  ROLE_RANK[auth.role] >= ROLE_RANK[minimumRole];
+
+// Resolve the caller; returns the error response to send if they are not signed in or their
+// role in the workspace is below minimumRole
+export async function authenticate(
+  request: NextRequest,
+  minimumRole: Role = 'viewer',
+): Promise<AuthContext | NextResponse> {
+  const auth = await getAuth(request);
+  if (!auth) {
+    return NextResponse.json({ error: 'Not signed in' }, { status: 401 });
+  }
+  if (!hasRole(auth, minimumRole)) {
+    return NextResponse.json(
+      { error: `This action needs the ${minimumRole} role or higher` },
+      { status: 403 },
+    );
+  }
+  return auth;
+}
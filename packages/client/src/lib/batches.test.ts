@@ -0,0 +1,104 @@
+import { strToU8, zipSync } from 'fflate';
+import { describe, expect, it } from 'vitest';
+import { BatchTooLargeError, summarizeBatch, unpackUpload } from './batches';
+import { UploadError } from './uploads';
+
+const pdf = (text: string) => new TextEncoder().encode(`%PDF-1.7 ${text}`);
+
+const docx = (text: string) =>
+  zipSync({ 'word/document.xml': strToU8(`<w:document>${text}</w:document>`) });
+
+const archive = (name: string, entries: Record<string, Uint8Array>) =>
+  new File([zipSync(entries)], name);
+
+describe('unpackUpload', () => {
+  it('takes a PDF as it is', async () => {
+    const { documents, skipped, bytes } = await unpackUpload(new File([pdf('msa')], 'msa.pdf'));
+
+    expect(documents).toEqual([{ name: 'msa.pdf', data: Buffer.from(pdf('msa')) }]);
+    expect(skipped).toEqual([]);
+    expect(bytes).toBe(pdf('msa').length);
+  });
+
+  it('goes by the content rather than the name', async () => {
+    const { documents } = await unpackUpload(new File([pdf('msa')], 'msa.txt'));
+
+    expect(documents.map((document) => document.name)).toEqual(['msa.txt']);
+    await expect(unpackUpload(new File(['notes'], 'notes.pdf'))).rejects.toThrow(
+      'notes.pdf is neither a PDF or Word document nor a ZIP archive',
+    );
+  });
+
+  it('refuses an archive that cannot be read', async () => {
+    const upload = new File([new Uint8Array([0x50, 0x4b, 0x03, 0x04, 0, 0])], 'room.zip');
+
+    await expect(unpackUpload(upload)).rejects.toBeInstanceOf(UploadError);
+  });
+
+  it('takes a Word document as it is rather than unpacking it', async () => {
+    const nda = docx('nda');
+    const { documents } = await unpackUpload(new File([nda], 'nda.docx'));
+
+    expect(documents).toEqual([{ name: 'nda.docx', data: Buffer.from(nda) }]);
+  });
+
+  it('unpacks the documents of an archive, skipping other files and macOS clutter', async () => {
+    const { documents, skipped } = await unpackUpload(
+      archive('room.zip', {
+        'leases/lease.pdf': pdf('lease'),
+        'nda.DOCX': docx('nda'),
+        'index.xlsx': new Uint8Array([1, 2, 3]),
+        '__MACOSX/leases/._lease.pdf': new Uint8Array([0]),
+      }),
+    );
+
+    expect(documents.map((document) => document.name)).toEqual(['lease.pdf', 'nda.DOCX']);
+    expect(documents[0].data.toString()).toBe('%PDF-1.7 lease');
+    expect(skipped).toEqual([
+      { name: 'room.zip/index.xlsx', reason: 'Not a PDF or Word document' },
+    ]);
+  });
+
+  it('refuses an archive that unpacks to more than the remaining batch size', async () => {
+    const upload = archive('room.zip', { 'a.pdf': pdf('a'.repeat(100)), 'b.pdf': pdf('b') });
+
+    await expect(unpackUpload(upload, 100)).rejects.toBeInstanceOf(BatchTooLargeError);
+    await expect(unpackUpload(upload, 200)).resolves.toMatchObject({
+      bytes: pdf('a'.repeat(100)).length + pdf('b').length,
+    });
+  });
+
+  it('refuses a PDF larger than the remaining batch size', async () => {
+    await expect(unpackUpload(new File([pdf('msa')], 'msa.pdf'), 4)).rejects.toBeInstanceOf(
+      BatchTooLargeError,
+    );
+  });
+});
+
+describe('summarizeBatch', () => {
+  const contract = (id: string, status: 'pending' | 'completed' | 'failed', progress: number) => ({
+    id,
+    fileName: `${id}.pdf`,
+    status,
+    progress,
+    stage: status === 'failed' ? 'OCR failed' : null,
+  });
+
+  it('counts statuses, averages progress and lists failures', () => {
+    const summary = summarizeBatch([
+      contract('a', 'completed', 100),
+      contract('b', 'pending', 5),
+      contract('c', 'failed', 40),
+    ]);
+
+    expect(summary.total).toBe(3);
+    expect(summary.counts).toMatchObject({ completed: 1, pending: 1, failed: 1, processing: 0 });
+    // The failed contract is finished, so it counts as 100
+    expect(summary.progress).toBe(68);
+    expect(summary.failures).toEqual([{ id: 'c', fileName: 'c.pdf', stage: 'OCR failed' }]);
+  });
+
+  it('treats an empty batch as done', () => {
+    expect(summarizeBatch([]).progress).toBe(100);
+  });
+});
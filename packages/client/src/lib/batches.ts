@@ -0,0 +1,156 @@
+import path from 'path';
+import type { Contract, ContractStatus } from '@prisma/client';
+import { unzipSync } from 'fflate';
+import { detectFileKind } from 'shared';
+import type { UploadedDocument } from '@/lib/pipeline';
+import { MAX_UPLOAD_BYTES, UploadError, sanitizeFileName } from '@/lib/uploads';
+
+/**
+ * Batch uploads
+ *
+ * A batch groups the contracts of one multi-file upload: each PDF or Word document
+ * becomes a contract, and each ZIP archive is unpacked into the documents it holds.
+ * Every document is validated on
+ * its own, so one bad file is skipped without failing the batch. The AI service runs
+ * at most `concurrency` of a batch's jobs at once, so a large data room does not flood
+ * the OCR and LLM providers.
+ */
+
+export const DEFAULT_BATCH_CONCURRENCY = Number(process.env.BATCH_CONCURRENCY) || 2;
+
+export const MAX_BATCH_CONCURRENCY = 10;
+
+// Most bytes of documents one batch may hold once its archives are unpacked; every document is
+// kept in memory until it is stored
+export const MAX_BATCH_BYTES = (Number(process.env.MAX_BATCH_MB) || 512) * 1024 * 1024;
+
+export class BatchTooLargeError extends Error {
+  constructor() {
+    super(`The upload holds more than ${MAX_BATCH_BYTES / 1024 / 1024} MB of documents`);
+    this.name = 'BatchTooLargeError';
+  }
+}
+
+const isDocumentName = (name: string) => /\.(pdf|docx)$/i.test(name);
+
+// Folders and resource forks that macOS adds to archives
+const isArchiveClutter = (name: string) =>
+  name.endsWith('/') || name.startsWith('__MACOSX/') || path.posix.basename(name).startsWith('._');
+
+export interface SkippedFile {
+  name: string;
+  reason: string;
+}
+
+/**
+ * The documents of an uploaded file, unpacking ZIP archives; skipped lists everything else, with
+ * why. Throws a BatchTooLargeError, before unpacking anything, if the documents would take up
+ * more than maxBytes; bytes is what they do take up.
+ */
+export async function unpackUpload(
+  file: File,
+  maxBytes = MAX_BATCH_BYTES,
+): Promise<{ documents: UploadedDocument[]; skipped: SkippedFile[]; bytes: number }> {
+  if (file.size > MAX_UPLOAD_BYTES) {
+    throw new UploadError(`${file.name} is larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`, 413);
+  }
+  const data = Buffer.from(await file.arrayBuffer());
+
+  const kind = detectFileKind(data);
+  if (kind === 'pdf' || kind === 'docx') {
+    if (data.length > maxBytes) {
+      throw new BatchTooLargeError();
+    }
+    return { documents: [{ name: file.name, data }], skipped: [], bytes: data.length };
+  }
+  if (kind !== 'zip') {
+    throw new UploadError(`${file.name} is neither a PDF or Word document nor a ZIP archive`);
+  }
+
+  // Entry names are only used for display; each document is still checked by its content
+  const archiveName = sanitizeFileName(file.name, 'zip');
+  const skipped: SkippedFile[] = [];
+  let bytes = 0;
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(data, {
+      // Runs for every entry before any is inflated, with the size the archive declares for it
+      filter: (entry) => {
+        const name = `${archiveName}/${entry.name}`;
+        if (isArchiveClutter(entry.name)) {
+          return false;
+        }
+        if (!isDocumentName(entry.name)) {
+          skipped.push({ name, reason: 'Not a PDF or Word document' });
+          return false;
+        }
+        if (entry.originalSize > MAX_UPLOAD_BYTES) {
+          skipped.push({ name, reason: `Larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB` });
+          return false;
+        }
+        bytes += entry.originalSize;
+        if (bytes > maxBytes) {
+          throw new BatchTooLargeError();
+        }
+        return true;
+      },
+    });
+  } catch (error) {
+    if (error instanceof UploadError || error instanceof BatchTooLargeError) {
+      throw error;
+    }
+    throw new UploadError(`${file.name} is not a readable ZIP archive`);
+  }
+
+  return {
+    documents: Object.entries(entries).map(([name, content]) => ({
+      // Archives nest documents in folders; the contract is named after the file alone
+      name: path.posix.basename(name),
+      data: Buffer.from(content),
+    })),
+    skipped,
+    bytes,
+  };
+}
+
+export interface BatchSummary {
+  total: number;
+  counts: Record<ContractStatus, number>;
+  // Average progress of the batch's contracts, 0-100
+  progress: number;
+  failures: { id: string; fileName: string; stage: string | null }[];
+}
+
+// Aggregate progress and failures of a batch's contracts
+export function summarizeBatch(
+  contracts: Pick<Contract, 'id' | 'fileName' | 'status' | 'progress' | 'stage'>[],
+): BatchSummary {
+  const counts: Record<ContractStatus, number> = {
+    pending: 0,
+    processing: 0,
+    extracting: 0,
+    completed: 0,
+    failed: 0,
+  };
+  for (const contract of contracts) {
+    counts[contract.status]++;
+  }
+
+  return {
+    total: contracts.length,
+    counts,
+    // A failed contract is finished, so it counts as done towards the batch's progress
+    progress:
+      contracts.length === 0
+        ? 100
+        : Math.round(
+            contracts.reduce(
+              (sum, contract) => sum + (contract.status === 'failed' ? 100 : contract.progress),
+              0,
+            ) / contracts.length,
+          ),
+    failures: contracts
+      .filter((contract) => contract.status === 'failed')
+      .map(({ id, fileName, stage }) => ({ id, fileName, stage })),
+  };
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { deadlinesCalendar } from '@/lib/calendar';
+import type { Deadline } from '@/lib/deadlines';
+
+const deadline = (overrides: Partial<Deadline> = {}): Deadline => ({
+  contractId: 'contract-1',
+  fileName: 'msa.pdf',
+  kind: 'renewal',
+  date: '2026-12-31',
+  termEndsOn: '2026-12-31',
+  noticeDays: null,
+  renewalTermMonths: 12,
+  description: 'msa.pdf renews for 12 months unless notice was given',
+  ...overrides,
+});
+
+const NOW = new Date('2026-10-19T08:30:00.123Z');
+
+describe('deadlinesCalendar', () => {
+  it('writes each deadline as an all-day event with CRLF line endings', () => {
+    const feed = deadlinesCalendar('Acme', [deadline()], NOW);
+
+    expect(feed.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(feed.replace(/\r\n/g, '')).not.toContain('\n');
+    expect(feed.split('\r\n')).toEqual(
+      expect.arrayContaining([
+        'X-WR-CALNAME:Acme contract deadlines',
+        'UID:contract-1-renewal-20261231@dioptra',
+        'DTSTAMP:20261019T083000Z',
+        'DTSTART;VALUE=DATE:20261231',
+        // The day after, across the end of the year
+        'DTEND;VALUE=DATE:20270101',
+        'SUMMARY:Renews: msa.pdf',
+        'CATEGORIES:RENEWAL',
+      ]),
+    );
+  });
+
+  it('escapes separators, backslashes and line breaks in text', () => {
+    const feed = deadlinesCalendar(
+      'Acme; Inc',
+      [deadline({ fileName: 'a,b\\c.pdf', description: 'First line\nsecond line' })],
+      NOW,
+    );
+
+    expect(feed).toContain('X-WR-CALNAME:Acme\\; Inc contract deadlines\r\n');
+    expect(feed).toContain('SUMMARY:Renews: a\\,b\\\\c.pdf\r\n');
+    expect(feed).toContain('DESCRIPTION:First line\\nsecond line\r\n');
+  });
+
+  it('folds lines longer than 75 octets without splitting characters', () => {
+    const description = `Notice for ${'é'.repeat(100)}`;
+    const feed = deadlinesCalendar('Acme', [deadline({ description })], NOW);
+    const lines = feed.split('\r\n');
+    const start = lines.findIndex((line) => line.startsWith('DESCRIPTION:'));
+    const folded = [lines[start]];
+    while (lines[start + folded.length].startsWith(' ')) {
+      folded.push(lines[start + folded.length]);
+    }
+
+    expect(folded.length).toBeGreaterThan(1);
+    expect(folded.every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+    expect(folded.map((line, i) => (i === 0 ? line : line.slice(1))).join('')).toBe(
+      `DESCRIPTION:${description}`,
+    );
+  });
+});
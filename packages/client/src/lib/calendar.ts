@@ -0,0 +1,95 @@
+import { randomBytes } from 'crypto';
+import type { DeadlineKind } from '@prisma/client';
+import type { Deadline } from '@/lib/deadlines';
+
+/**
+ * Deadlines calendar feed
+ *
+ * The workspace's deadlines as an iCalendar (RFC 5545) feed of all-day events, for calendar
+ * apps to subscribe to. Those apps cannot sign in, so the feed URL carries a random token
+ * that an admin issues; the workspace only stores its SHA-256 hash, and issuing a new one
+ * revokes the old URL.
+ */
+
+// Days of past deadlines kept in the feed, and how far ahead it reaches
+export const FEED_PAST_DAYS = 90;
+export const FEED_FUTURE_DAYS = 2 * 365;
+
+const PRODUCT_ID = '-//Dioptra//Contract Review//EN';
+
+const SUMMARIES: Record<DeadlineKind, string> = {
+  notice: 'Notice deadline',
+  renewal: 'Renews',
+  expiration: 'Expires',
+};
+
+export const generateCalendarToken = () => randomBytes(32).toString('base64url');
+
+// Text values escape backslashes, separators and line breaks
+const escapeText = (value: string) => value.replace(/[\\;,]/g, '\\$&').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space, without splitting a
+// UTF-8 character
+function foldLine(line: string): string {
+  const parts: string[] = [];
+  let part = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = Buffer.byteLength(char);
+    // Continuation lines start with a space, which counts towards their 75 octets
+    if (octets + size > (parts.length === 0 ? 75 : 74)) {
+      parts.push(part);
+      part = '';
+      octets = 0;
+    }
+    part += char;
+    octets += size;
+  }
+  parts.push(part);
+  return parts.join('\r\n ');
+}
+
+const basicDate = (date: string) => date.replace(/-/g, '');
+
+const timestamp = (date: Date) => date.toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+
+function nextDay(date: string): string {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString().slice(0, 10);
+}
+
+export function deadlinesCalendar(
+  workspaceName: string,
+  deadlines: Deadline[],
+  now = new Date(),
+): string {
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(`${workspaceName} contract deadlines`)}`,
+    // Ask subscribers to refresh every few hours
+    'REFRESH-INTERVAL;VALUE=DURATION:PT6H',
+    'X-PUBLISHED-TTL:PT6H',
+  ];
+  for (const deadline of deadlines) {
+    lines.push(
+      'BEGIN:VEVENT',
+      // Stable across refreshes, so calendars update the event rather than adding another
+      `UID:${deadline.contractId}-${deadline.kind}-${basicDate(deadline.date)}@dioptra`,
+      `DTSTAMP:${timestamp(now)}`,
+      `DTSTART;VALUE=DATE:${basicDate(deadline.date)}`,
+      `DTEND;VALUE=DATE:${basicDate(nextDay(deadline.date))}`,
+      `SUMMARY:${escapeText(`${SUMMARIES[deadline.kind]}: ${deadline.fileName}`)}`,
+      `DESCRIPTION:${escapeText(deadline.description)}`,
+      `CATEGORIES:${deadline.kind.toUpperCase()}`,
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+    );
+  }
+  lines.push('END:VCALENDAR');
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
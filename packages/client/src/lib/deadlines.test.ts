@@ -0,0 +1,86 @@
+import { describe, expect, it, vi } from 'vitest';
+import { contractDeadlines } from '@/lib/deadlines';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+type Clause = Parameters<typeof contractDeadlines>[0]['clauses'][number];
+
+const day = (date: string) => new Date(`${date}T00:00:00Z`);
+
+const clause = (
+  type: string,
+  attributes: Clause['attributes'],
+  reviewStatus: Clause['reviewStatus'] = 'unreviewed',
+): Clause => ({ type, found: true, reviewStatus, attributes });
+
+const contract = (expirationDate: string | null, clauses: Clause[] = []) => ({
+  id: 'contract-1',
+  fileName: 'msa.pdf',
+  expirationDate: expirationDate ? day(expirationDate) : null,
+  clauses,
+});
+
+const deadlines = (target: ReturnType<typeof contract>, from = '2025-01-01', to = '2030-01-01') =>
+  contractDeadlines(target, day(from), day(to)).map(({ kind, date }) => [kind, date]);
+
+describe('contractDeadlines', () => {
+  it('has no deadlines without an expiration date', () => {
+    expect(deadlines(contract(null))).toEqual([]);
+  });
+
+  it('expires once, with the notice period of termination for convenience', () => {
+    const msa = contract('2026-06-30', [
+      clause('termination_for_convenience', { notice_period_days: 30 }),
+    ]);
+
+    expect(deadlines(msa)).toEqual([
+      ['notice', '2026-05-31'],
+      ['expiration', '2026-06-30'],
+    ]);
+  });
+
+  it('renews at the end of each term, clamping to the end of shorter months', () => {
+    const msa = contract('2026-01-31', [
+      clause('auto_renewal', { renewal_term_months: 1, non_renewal_notice_days: 10 }),
+    ]);
+
+    expect(deadlines(msa, '2026-01-01', '2026-04-01')).toEqual([
+      ['notice', '2026-01-21'],
+      ['renewal', '2026-01-31'],
+      ['notice', '2026-02-18'],
+      ['renewal', '2026-02-28'],
+      ['notice', '2026-03-21'],
+      ['renewal', '2026-03-31'],
+    ]);
+  });
+
+  it('only lists the terms between from and to', () => {
+    const msa = contract('2020-03-15', [clause('auto_renewal', { renewal_term_months: 12 })]);
+
+    expect(deadlines(msa, '2025-01-01', '2027-01-01')).toEqual([
+      ['renewal', '2025-03-15'],
+      ['renewal', '2026-03-15'],
+    ]);
+  });
+
+  it('prefers the non-renewal notice period to the termination one', () => {
+    const msa = contract('2026-06-30', [
+      clause('auto_renewal', { non_renewal_notice_days: 60 }),
+      clause('termination_for_convenience', { notice_period_days: 30 }),
+    ]);
+
+    expect(contractDeadlines(msa, day('2025-01-01'), day('2030-01-01'))).toMatchObject([
+      { kind: 'notice', date: '2026-05-01', termEndsOn: '2026-06-30', noticeDays: 60 },
+      { kind: 'renewal', date: '2026-06-30', renewalTermMonths: null },
+    ]);
+  });
+
+  it('ignores rejected clauses and ones that were not found', () => {
+    const msa = contract('2026-06-30', [
+      clause('auto_renewal', { renewal_term_months: 12 }, 'rejected'),
+      { ...clause('termination_for_convenience', { notice_period_days: 30 }), found: false },
+    ]);
+
+    expect(deadlines(msa)).toEqual([['expiration', '2026-06-30']]);
+  });
+});
@@ -0,0 +1,275 @@
+import type { Clause, Contract, DeadlineKind } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { enqueueWebhookEvent, wakeWebhookDispatcher, webhookContract } from '@/lib/webhooks';
+
+/**
+ * Deadlines
+ *
+ * Obligations computed from what extraction read: the contract's expiration date
+ * (metadata) and the attributes of its auto-renewal and termination for convenience
+ * clauses, as reviewed. A contract that renews automatically has a renewal date at the end
+ * of each term, rolled forward by the renewal term; one that does not simply expires. Where
+ * the contract requires notice (of non-renewal, else of termination), the notice-by date is
+ * that many days before the term ends. Dates are calendar dates in UTC.
+ *
+ * Deadlines are not stored: they change with every extraction and review. The reminder job,
+ * started with the server (src/instrumentation.ts), sends a deadline.approaching webhook
+ * event when a deadline comes within one of the workspace's lead times, and records it as a
+ * DeadlineReminder so that each lead time is sent once.
+ */
+
+export const DEADLINE_KINDS: DeadlineKind[] = ['notice', 'renewal', 'expiration'];
+
+// Clause types of the AI service's registry (config/clause-types.json) the deadlines read
+const AUTO_RENEWAL = 'auto_renewal';
+const TERMINATION = 'termination_for_convenience';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Renewal terms computed per contract at most, so that a short renewal term cannot run away
+const MAX_TERMS = 120;
+
+export interface Deadline {
+  contractId: string;
+  fileName: string;
+  kind: DeadlineKind;
+  // YYYY-MM-DD
+  date: string;
+  // The end of the term the deadline belongs to; the same as date except for notice deadlines
+  termEndsOn: string;
+  noticeDays: number | null;
+  // Months each renewal lasts, for contracts that renew automatically
+  renewalTermMonths: number | null;
+  description: string;
+}
+
+type DeadlineContract = Pick<Contract, 'id' | 'fileName' | 'expirationDate'> & {
+  clauses: Pick<Clause, 'type' | 'found' | 'reviewStatus' | 'attributes'>[];
+};
+
+// Midnight UTC of the date's day
+export const startOfDay = (date = new Date()) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+export const formatDay = (date: Date) => date.toISOString().slice(0, 10);
+
+export const addDays = (date: Date, days: number) => new Date(date.getTime() + days * DAY_MS);
+
+// Same day of the month, or the month's last day if it is shorter: 31 January + 1 is 28 February
+function addMonths(date: Date, months: number): Date {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1));
+  const lastDay = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+  target.setUTCDate(Math.min(date.getUTCDate(), lastDay));
+  return target;
+}
+
+// The attributes of a clause the contract has as reviewed: found or edited, and not rejected
+function clauseAttributes(contract: DeadlineContract, type: string) {
+  const clause = contract.clauses.find((candidate) => candidate.type === type);
+  if (
+    !clause ||
+    clause.reviewStatus === 'rejected' ||
+    (!clause.found && clause.reviewStatus !== 'edited')
+  ) {
+    return null;
+  }
+  return (clause.attributes as Record<string, unknown> | null) ?? {};
+}
+
+const positiveNumber = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) && value > 0 ? Math.round(value) : null;
+
+// The contract's deadlines falling on or after from and before to
+export function contractDeadlines(contract: DeadlineContract, from: Date, to: Date): Deadline[] {
+  if (!contract.expirationDate) {
+    return [];
+  }
+  const renewal = clauseAttributes(contract, AUTO_RENEWAL);
+  const termination = clauseAttributes(contract, TERMINATION);
+  const renewalTermMonths = positiveNumber(renewal?.renewal_term_months);
+  const noticeDays =
+    positiveNumber(renewal?.non_renewal_notice_days) ??
+    positiveNumber(termination?.notice_period_days);
+
+  const deadlines: Deadline[] = [];
+  const add = (kind: DeadlineKind, date: Date, termEnd: Date, description: string) => {
+    if (date >= from && date < to) {
+      deadlines.push({
+        contractId: contract.id,
+        fileName: contract.fileName,
+        kind,
+        date: formatDay(date),
+        termEndsOn: formatDay(termEnd),
+        noticeDays,
+        renewalTermMonths,
+        description,
+      });
+    }
+  };
+
+  // Without a renewal term only the first term's end is known; with one, start a term before
+  // the one running at `from`
+  let first = 0;
+  let last = 0;
+  if (renewal && renewalTermMonths) {
+    const expiration = contract.expirationDate;
+    const monthsSince =
+      (from.getUTCFullYear() - expiration.getUTCFullYear()) * 12 +
+      from.getUTCMonth() -
+      expiration.getUTCMonth();
+    first = Math.max(0, Math.floor(monthsSince / renewalTermMonths) - 1);
+    last = first + MAX_TERMS;
+  }
+  for (let term = first; term <= last; term++) {
+    const termEnd = addMonths(contract.expirationDate, term * (renewalTermMonths ?? 0));
+    const noticeBy = noticeDays === null ? null : addDays(termEnd, -noticeDays);
+    if ((noticeBy ?? termEnd) >= to) {
+      break;
+    }
+
+    if (noticeBy) {
+      add(
+        'notice',
+        noticeBy,
+        termEnd,
+        renewal
+          ? `Last day to give ${noticeDays} days' notice of non-renewal of ${contract.fileName} before it renews on ${formatDay(termEnd)}`
+          : `Last day to give ${noticeDays} days' notice to terminate ${contract.fileName} before its term ends on ${formatDay(termEnd)}`,
+      );
+    }
+    if (renewal) {
+      add(
+        'renewal',
+        termEnd,
+        termEnd,
+        renewalTermMonths
+          ? `${contract.fileName} renews for ${renewalTermMonths} months unless notice was given`
+          : `${contract.fileName} renews unless notice was given`,
+      );
+    } else {
+      add('expiration', termEnd, termEnd, `${contract.fileName} expires`);
+    }
+  }
+  return deadlines;
+}
+
+const byDate = (a: Deadline, b: Deadline) =>
+  a.date.localeCompare(b.date) ||
+  a.fileName.localeCompare(b.fileName) ||
+  DEADLINE_KINDS.indexOf(a.kind) - DEADLINE_KINDS.indexOf(b.kind);
+
+// The workspace's deadlines from `from` up to `to`, soonest first
+export async function listDeadlines(
+  workspaceId: string,
+  from: Date,
+  to: Date,
+  kinds: DeadlineKind[] = DEADLINE_KINDS,
+): Promise<Deadline[]> {
+  const contracts = await prisma.contract.findMany({
+    where: { workspaceId, status: 'completed', expirationDate: { not: null } },
+    select: {
+      id: true,
+      fileName: true,
+      expirationDate: true,
+      clauses: {
+        where: { type: { in: [AUTO_RENEWAL, TERMINATION] } },
+        select: { type: true, found: true, reviewStatus: true, attributes: true },
+      },
+    },
+  });
+  return contracts
+    .flatMap((contract) => contractDeadlines(contract, from, to))
+    .filter((deadline) => kinds.includes(deadline.kind))
+    .sort(byDate);
+}
+
+export const MAX_LEAD_DAYS = 365;
+
+export const isLeadDays = (value: unknown): value is number[] =>
+  Array.isArray(value) &&
+  value.every((days) => Number.isInteger(days) && days >= 0 && days <= MAX_LEAD_DAYS);
+
+// Send the reminders that are due; returns how many were sent
+export async function sendDeadlineReminders(now = new Date()): Promise<number> {
+  const today = startOfDay(now);
+  const workspaces = await prisma.workspace.findMany({
+    where: { reminderLeadDays: { isEmpty: false } },
+    select: { id: true, reminderLeadDays: true },
+  });
+
+  let sent = 0;
+  for (const workspace of workspaces) {
+    const leads = [...workspace.reminderLeadDays].sort((a, b) => a - b);
+    const deadlines = await listDeadlines(
+      workspace.id,
+      today,
+      addDays(today, leads[leads.length - 1] + 1),
+    );
+
+    for (const deadline of deadlines) {
+      const daysLeft = Math.round((Date.parse(deadline.date) - today.getTime()) / DAY_MS);
+      // Only the nearest lead time that has begun, so that a deadline found late, or missed
+      // while the server was down, is reminded of once
+      const leadDays = leads.find((lead) => lead >= daysLeft);
+      if (leadDays === undefined) {
+        continue;
+      }
+
+      const reminded = await prisma.$transaction(async (tx) => {
+        const { count } = await tx.deadlineReminder.createMany({
+          data: {
+            contractId: deadline.contractId,
+            kind: deadline.kind,
+            dueDate: new Date(`${deadline.date}T00:00:00Z`),
+            leadDays,
+          },
+          skipDuplicates: true,
+        });
+        if (count === 0) {
+          return false;
+        }
+        const contract = await tx.contract.findUniqueOrThrow({
+          where: { id: deadline.contractId },
+        });
+        await enqueueWebhookEvent(tx, workspace.id, 'deadline.approaching', {
+          contract: webhookContract(contract),
+          deadline,
+          daysLeft,
+        });
+        return true;
+      });
+      if (reminded) {
+        sent++;
+      }
+    }
+  }
+
+  if (sent > 0) {
+    wakeWebhookDispatcher();
+  }
+  return sent;
+}
+
+// One reminder job per process, kept across hot reloads in development
+declare global {
+  // eslint-disable-next-line no-var
+  var deadlineReminderJob: NodeJS.Timeout | undefined;
+}
+
+// Deadlines are days apart, so checking every hour sends each reminder on its day
+const REMINDER_INTERVAL_MS = 60 * 60 * 1000;
+
+export function startDeadlineReminders(): void {
+  if (global.deadlineReminderJob) {
+    return;
+  }
+  const timer = setInterval(() => {
+    sendDeadlineReminders().catch((error) =>
+      console.error('Error sending deadline reminders:', error),
+    );
+  }, REMINDER_INTERVAL_MS);
+  timer.unref();
+  global.deadlineReminderJob = timer;
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest';
+import { isEmbeddingsPayload } from './embeddings';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+const payload = () => ({
+  model: 'text-embedding-3-small',
+  chunks: [
+    {
+      chunkIndex: 0,
+      text: 'The term is one year.',
+      pageStart: 1,
+      pageEnd: 2,
+      embedding: [0.1, -0.2],
+    },
+  ],
+  clauses: [{ type: 'term', embedding: [0.3, 0.4] }],
+});
+
+describe('isEmbeddingsPayload', () => {
+  it('accepts vectors of one length', () => {
+    expect(isEmbeddingsPayload(payload())).toBe(true);
+    expect(isEmbeddingsPayload({ ...payload(), chunks: [], clauses: [] })).toBe(true);
+  });
+
+  it.each([
+    ['a missing model', { ...payload(), model: '' }],
+    ['missing lists', { model: 'text-embedding-3-small' }],
+    [
+      'a chunk without page numbers',
+      { ...payload(), chunks: [{ ...payload().chunks[0], pageEnd: '2' }] },
+    ],
+    ['a clause without a type', { ...payload(), clauses: [{ embedding: [0.3, 0.4] }] }],
+    ['an empty vector', { ...payload(), clauses: [{ type: 'term', embedding: [] }] }],
+    [
+      'a vector that is not finite',
+      { ...payload(), clauses: [{ type: 'term', embedding: [0.3, NaN] }] },
+    ],
+    [
+      'vectors of different lengths',
+      { ...payload(), clauses: [{ type: 'term', embedding: [0.3] }] },
+    ],
+    [
+      'a vector longer than Postgres takes',
+      {
+        ...payload(),
+        chunks: [],
+        clauses: [{ type: 'term', embedding: new Array(16001).fill(0) }],
+      },
+    ],
+  ])('rejects %s', (_, value) => {
+    expect(isEmbeddingsPayload(value)).toBe(false);
+  });
+
+  it('rejects anything that is not an object', () => {
+    expect(isEmbeddingsPayload(null)).toBe(false);
+    expect(isEmbeddingsPayload('[0.1]')).toBe(false);
+  });
+});
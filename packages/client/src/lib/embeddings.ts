@@ -0,0 +1,312 @@
+import { randomUUID } from 'crypto';
+import { Prisma } from '@prisma/client';
+import type { Contract } from '@prisma/client';
+import { isUsageRecord } from 'shared';
+import { callAiService } from '@/lib/pipeline';
+import { prisma } from '@/lib/prisma';
+import { CLAUSE_TEXT } from '@/lib/search';
+import { recordUsage } from '@/lib/usage';
+
+/**
+ * Semantic search
+ *
+ * The AI service embeds the chunks of each contract and its found clauses with the
+ * configured embedding model and sends the vectors with the extraction results; they are
+ * stored in pgvector columns (ContractChunk, ClauseEmbedding). A query is embedded with the
+ * same model and compared by cosine distance, so clauses are found by what they say rather
+ * than by their words. Only vectors of the query's model are compared: after a change of
+ * model, contracts are found again once they are re-extracted.
+ *
+ * Clause vectors are of the AI text; a reviewer's edit does not change them.
+ */
+
+export const MAX_SEMANTIC_RESULTS = 50;
+
+// Characters of a chunk returned with a match; chunks are the extraction chunks, pages long
+const PASSAGE_EXCERPT_LENGTH = 600;
+
+// Candidates the vector index considers per query (pgvector's default is 40). The workspace
+// and clause type are filtered after the index scan, so a small workspace in a large table
+// needs a wide scan to fill a page of results.
+const INDEX_SEARCH_WIDTH = 400;
+
+// Longest vector Postgres' vector type takes
+const MAX_DIMENSIONS = 16000;
+
+// Vectors sent by the AI service with the extraction results (PUT /api/contracts/[id])
+export interface EmbeddingsPayload {
+  model: string;
+  chunks: {
+    chunkIndex: number;
+    text: string;
+    pageStart: number;
+    pageEnd: number;
+    embedding: number[];
+  }[];
+  clauses: { type: string; embedding: number[] }[];
+}
+
+// A query vector in pgvector's text form, e.g. "[0.1,-0.2]"
+interface QueryVector {
+  model: string;
+  text: string;
+  dimensions: number;
+}
+
+type MatchedContract = Pick<Contract, 'id' | 'fileName' | 'documentType'>;
+
+export interface ClauseMatch {
+  clause: { id: string; type: string; label: string; text: string };
+  contract: MatchedContract;
+  // Cosine similarity, 1 for the same direction
+  similarity: number;
+}
+
+export interface PassageMatch {
+  contract: MatchedContract;
+  pageStart: number;
+  pageEnd: number;
+  excerpt: string;
+  similarity: number;
+}
+
+export class EmbeddingError extends Error {
+  constructor(
+    message: string,
+    // 409 when embeddings are turned off, 502 when the AI service fails
+    public readonly status: 409 | 502,
+  ) {
+    super(message);
+    this.name = 'EmbeddingError';
+  }
+}
+
+const isEmbedding = (value: unknown): value is number[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.length <= MAX_DIMENSIONS &&
+  value.every((item) => typeof item === 'number' && Number.isFinite(item));
+
+// Checks the shape, and that every vector has the same length
+export function isEmbeddingsPayload(value: unknown): value is EmbeddingsPayload {
+  const payload = value as EmbeddingsPayload;
+  if (
+    typeof payload?.model !== 'string' ||
+    !payload.model ||
+    !Array.isArray(payload.chunks) ||
+    !Array.isArray(payload.clauses)
+  ) {
+    return false;
+  }
+  const embeddings = [
+    ...payload.chunks.map((chunk) => chunk?.embedding),
+    ...payload.clauses.map((clause) => clause?.embedding),
+  ];
+  return (
+    payload.chunks.every(
+      (chunk) =>
+        Number.isInteger(chunk?.chunkIndex) &&
+        typeof chunk.text === 'string' &&
+        Number.isInteger(chunk.pageStart) &&
+        Number.isInteger(chunk.pageEnd),
+    ) &&
+    payload.clauses.every((clause) => typeof clause?.type === 'string') &&
+    embeddings.every(isEmbedding) &&
+    embeddings.every((embedding) => embedding.length === embeddings[0].length)
+  );
+}
+
+const toVectorText = (embedding: number[]) => `[${embedding.join(',')}]`;
+
+// Rows per INSERT: a few statements per contract, each well under Postgres' limit of 65535
+// bind parameters
+const INSERT_BATCH_SIZE = 500;
+
+function batches<T>(rows: T[]): T[][] {
+  const result: T[][] = [];
+  for (let start = 0; start < rows.length; start += INSERT_BATCH_SIZE) {
+    result.push(rows.slice(start, start + INSERT_BATCH_SIZE));
+  }
+  return result;
+}
+
+// Replace the contract's vectors with the given ones, or just remove them when there are none,
+// so vectors of an earlier extraction never outlive its clauses. Clauses must be stored first.
+export async function replaceEmbeddings(
+  tx: Prisma.TransactionClient,
+  contractId: string,
+  embeddings: EmbeddingsPayload | null,
+): Promise<void> {
+  await tx.contractChunk.deleteMany({ where: { contractId } });
+  await tx.clauseEmbedding.deleteMany({ where: { clause: { contractId } } });
+  if (!embeddings) {
+    return;
+  }
+
+  // The vector columns are not supported by Prisma's client, so rows are inserted with SQL
+  for (const batch of batches(embeddings.chunks)) {
+    await tx.$executeRaw`
+      INSERT INTO "ContractChunk" ("id", "contractId", "chunkIndex", "text", "pageStart", "pageEnd", "model", "embedding")
+      VALUES ${Prisma.join(
+        batch.map(
+          (chunk) =>
+            Prisma.sql`(${randomUUID()}, ${contractId}, ${chunk.chunkIndex}, ${chunk.text.replace(/\0/g, '')}, ${chunk.pageStart}, ${chunk.pageEnd}, ${embeddings.model}, ${toVectorText(chunk.embedding)}::vector)`,
+        ),
+      )}`;
+  }
+
+  const clauses = await tx.clause.findMany({
+    where: { contractId, type: { in: embeddings.clauses.map((clause) => clause.type) } },
+    select: { id: true, type: true },
+  });
+  const rows = embeddings.clauses.flatMap((embedded) => {
+    const clause = clauses.find((candidate) => candidate.type === embedded.type);
+    return clause
+      ? [
+          Prisma.sql`(${clause.id}, ${embeddings.model}, ${toVectorText(embedded.embedding)}::vector)`,
+        ]
+      : [];
+  });
+  for (const batch of batches(rows)) {
+    await tx.$executeRaw`
+      INSERT INTO "ClauseEmbedding" ("clauseId", "model", "embedding")
+      VALUES ${Prisma.join(batch)}`;
+  }
+}
+
+// Embed a search query of the workspace with the model the stored vectors were made with
+export async function embedQuery(workspaceId: string, query: string): Promise<QueryVector> {
+  let response: Response;
+  try {
+    response = await callAiService('/embed', { texts: [query] });
+  } catch (aiError) {
+    console.error('Failed to communicate with AI service:', aiError);
+    throw new EmbeddingError('The AI service could not be reached', 502);
+  }
+
+  const body = await response.json().catch(() => null);
+  if (response.status === 409) {
+    throw new EmbeddingError(body?.details ?? 'Semantic search is turned off', 409);
+  }
+  const embedding = body?.embeddings?.[0];
+  if (!response.ok || typeof body?.model !== 'string' || !isEmbedding(embedding)) {
+    console.error('AI service failed to embed the query:', response.status, body);
+    throw new EmbeddingError('The AI service could not embed the query', 502);
+  }
+  if (Array.isArray(body.usage) && body.usage.every(isUsageRecord)) {
+    await recordUsage(prisma, { workspaceId }, body.usage);
+  }
+  return { model: body.model, text: toVectorText(embedding), dimensions: embedding.length };
+}
+
+// The stored vector of a clause, to find clauses like it; null if the clause has none
+export async function clauseVector(clauseId: string): Promise<QueryVector | null> {
+  const [row] = await prisma.$queryRaw<{ model: string; text: string; dimensions: number }[]>`
+    SELECT "model", "embedding"::text AS "text", vector_dims("embedding") AS "dimensions"
+    FROM "ClauseEmbedding"
+    WHERE "clauseId" = ${clauseId}`;
+  return row ?? null;
+}
+
+// Vectors of any length share a column, but the indexes in the add_embeddings migration are
+// on a cast to a fixed length; queries cast the same way, with the length inlined so that
+// Postgres can match the partial index's condition
+function vectorSql(column: Prisma.Sql, vector: QueryVector) {
+  if (!Number.isInteger(vector.dimensions) || vector.dimensions < 1) {
+    throw new Error(`Invalid vector length: ${vector.dimensions}`);
+  }
+  const type = Prisma.raw(`vector(${vector.dimensions})`);
+  return {
+    condition: Prisma.sql`vector_dims(${column}) = ${Prisma.raw(String(vector.dimensions))}`,
+    distance: Prisma.sql`(${column}::${type}) <=> (${vector.text}::${type})`,
+  };
+}
+
+// Run a nearest-neighbour query with the index scan widened to INDEX_SEARCH_WIDTH
+async function nearest<T>(query: Prisma.Sql): Promise<T[]> {
+  const [, rows] = await prisma.$transaction([
+    prisma.$executeRawUnsafe(`SET LOCAL hnsw.ef_search = ${INDEX_SEARCH_WIDTH}`),
+    prisma.$queryRaw<T[]>(query),
+  ]);
+  return rows;
+}
+
+export interface ClauseSearchOptions {
+  clauseType?: string;
+  // Leave out the clauses of this contract, e.g. the one the query clause is from
+  excludeContractId?: string;
+  limit?: number;
+}
+
+// The workspace's clauses nearest to the vector, most similar first; rejected clauses are left out
+export async function nearestClauses(
+  workspaceId: string,
+  vector: QueryVector,
+  { clauseType, excludeContractId, limit = 10 }: ClauseSearchOptions = {},
+): Promise<ClauseMatch[]> {
+  const { condition, distance } = vectorSql(Prisma.sql`e."embedding"`, vector);
+  const conditions = [
+    Prisma.sql`e."model" = ${vector.model}`,
+    condition,
+    Prisma.sql`c."workspaceId" = ${workspaceId}`,
+    Prisma.sql`${CLAUSE_TEXT} IS NOT NULL`,
+    ...(clauseType ? [Prisma.sql`cl."type" = ${clauseType}`] : []),
+    ...(excludeContractId ? [Prisma.sql`c."id" <> ${excludeContractId}`] : []),
+  ];
+
+  const rows = await nearest<{
+    id: string;
+    type: string;
+    label: string;
+    text: string;
+    contractId: string;
+    fileName: string;
+    documentType: Contract['documentType'];
+    similarity: number;
+  }>(Prisma.sql`
+    SELECT cl."id", cl."type", cl."label", ${CLAUSE_TEXT} AS "text",
+      c."id" AS "contractId", c."fileName", c."documentType", 1 - (${distance}) AS "similarity"
+    FROM "ClauseEmbedding" e
+    JOIN "Clause" cl ON cl."id" = e."clauseId"
+    JOIN "Contract" c ON c."id" = cl."contractId"
+    WHERE ${Prisma.join(conditions, ' AND ')}
+    ORDER BY ${distance}
+    LIMIT ${limit}`);
+
+  return rows.map((row) => ({
+    clause: { id: row.id, type: row.type, label: row.label, text: row.text },
+    contract: { id: row.contractId, fileName: row.fileName, documentType: row.documentType },
+    similarity: row.similarity,
+  }));
+}
+
+// The workspace's contract chunks nearest to the vector, most similar first
+export async function nearestPassages(
+  workspaceId: string,
+  vector: QueryVector,
+  limit = 10,
+): Promise<PassageMatch[]> {
+  const { condition, distance } = vectorSql(Prisma.sql`ch."embedding"`, vector);
+
+  const rows = await nearest<{
+    contractId: string;
+    fileName: string;
+    documentType: Contract['documentType'];
+    pageStart: number;
+    pageEnd: number;
+    excerpt: string;
+    similarity: number;
+  }>(Prisma.sql`
+    SELECT c."id" AS "contractId", c."fileName", c."documentType", ch."pageStart", ch."pageEnd",
+      left(ch."text", ${PASSAGE_EXCERPT_LENGTH}::int) AS "excerpt", 1 - (${distance}) AS "similarity"
+    FROM "ContractChunk" ch
+    JOIN "Contract" c ON c."id" = ch."contractId"
+    WHERE ch."model" = ${vector.model} AND ${condition} AND c."workspaceId" = ${workspaceId}
+    ORDER BY ${distance}
+    LIMIT ${limit}`);
+
+  return rows.map(({ contractId, fileName, documentType, ...passage }) => ({
+    contract: { id: contractId, fileName, documentType },
+    ...passage,
+  }));
+}
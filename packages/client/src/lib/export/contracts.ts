@@ -0,0 +1,65 @@
+import { Prisma } from '@prisma/client';
+import { prisma } from '@/lib/prisma';
+import { SearchFilters, filtersWhere, searchContracts } from '@/lib/search';
+
+// Most contracts one export may hold
+export const MAX_EXPORT_CONTRACTS = 500;
+
+const EXPORT_INCLUDE = Prisma.validator<Prisma.ContractInclude>()({
+  clauses: {
+    orderBy: { label: 'asc' },
+    include: {
+      passages: { orderBy: { position: 'asc' } },
+      reviewedBy: { select: { id: true, name: true } },
+    },
+  },
+  findings: { orderBy: { ruleId: 'asc' } },
+  reviewCompletedBy: { select: { id: true, name: true } },
+});
+
+export type ExportContract = Prisma.ContractGetPayload<{ include: typeof EXPORT_INCLUDE }>;
+export type ExportClause = ExportContract['clauses'][number];
+
+export interface ExportSelection {
+  filters: SearchFilters;
+  // Full-text query; the contracts are then exported in rank order
+  query?: string;
+  // Only these contracts
+  ids?: string[];
+}
+
+// A clause's text as reviewed: the reviewer's correction, nothing if rejected, else the AI's text
+export const reviewedText = (clause: ExportClause) =>
+  clause.reviewStatus === 'edited'
+    ? clause.reviewedText
+    : clause.reviewStatus === 'rejected'
+      ? null
+      : clause.text;
+
+// The workspace's contracts the selection covers, newest first unless searched by query
+export async function loadExportContracts(
+  workspaceId: string,
+  { filters, query, ids }: ExportSelection,
+): Promise<ExportContract[]> {
+  if (!query) {
+    return prisma.contract.findMany({
+      where: {
+        ...filtersWhere(workspaceId, filters),
+        ...(ids?.length && { id: { in: ids } }),
+      },
+      orderBy: { uploadedAt: 'desc' },
+      include: EXPORT_INCLUDE,
+      take: MAX_EXPORT_CONTRACTS,
+    });
+  }
+
+  const ranked = (await searchContracts(workspaceId, query, filters, MAX_EXPORT_CONTRACTS)).map(
+    (result) => result.contract.id,
+  );
+  const wanted = ids?.length ? ranked.filter((id) => ids.includes(id)) : ranked;
+  const contracts = await prisma.contract.findMany({
+    where: { id: { in: wanted }, workspaceId },
+    include: EXPORT_INCLUDE,
+  });
+  return wanted.flatMap((id) => contracts.filter((contract) => contract.id === id));
+}
@@ -0,0 +1,20 @@
+import type { Cell, ClauseMatrix } from './matrix';
+
+// Spreadsheets evaluate text starting with these as a formula; contract text is untrusted
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+function csvField(cell: Cell): string {
+  if (cell === null) return '';
+  let text = typeof cell === 'boolean' ? (cell ? 'Yes' : 'No') : String(cell);
+  if (typeof cell === 'string' && FORMULA_START.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// RFC 4180 CSV, with a byte order mark so that Excel reads it as UTF-8
+export function writeCsv({ header, rows }: ClauseMatrix): string {
+  return (
+    '\uFEFF' + [header, ...rows].map((row) => row.map(csvField).join(',')).join('\r\n') + '\r\n'
+  );
+}
@@ -0,0 +1,195 @@
+import { ExportClause, ExportContract, reviewedText } from './contracts';
+import { XML_DECLARATION, escapeXml, writePackage } from './ooxml';
+
+/**
+ * Review memo
+ *
+ * A Word document per contract for delivery to the client: the review status, the playbook
+ * issues with their fallback positions, and every clause as reviewed with its attributes, the
+ * reviewer's comment and citations of the passages it was extracted from, by page.
+ */
+
+const CONTENT_TYPES = `${XML_DECLARATION}
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>
+</Types>`;
+
+const ROOT_RELS = `${XML_DECLARATION}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`;
+
+const DOCUMENT_RELS = `${XML_DECLARATION}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+const STYLES = `${XML_DECLARATION}
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:docDefaults>
+<w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/></w:rPr></w:rPrDefault>
+<w:pPrDefault><w:pPr><w:spacing w:after="120"/></w:pPr></w:pPrDefault>
+</w:docDefaults>
+<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/></w:style>
+<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:spacing w:after="240"/></w:pPr><w:rPr><w:b/><w:sz w:val="36"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="360"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="28"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="heading 2"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:pPr><w:keepNext/><w:spacing w:before="240"/><w:outlineLvl w:val="1"/></w:pPr><w:rPr><w:b/><w:sz w:val="24"/></w:rPr></w:style>
+<w:style w:type="paragraph" w:styleId="Quote"><w:name w:val="Quote"/><w:basedOn w:val="Normal"/><w:pPr><w:ind w:left="567" w:right="567"/></w:pPr><w:rPr><w:i/></w:rPr></w:style>
+</w:styles>`;
+
+const REVIEW_LABELS: Record<ExportClause['reviewStatus'], string> = {
+  unreviewed: 'Not reviewed',
+  accepted: 'Accepted',
+  edited: 'Edited by the reviewer',
+  rejected: 'Rejected by the reviewer',
+};
+
+const CONTRACT_REVIEW_LABELS: Record<ExportContract['reviewStatus'], string> = {
+  unreviewed: 'Not started',
+  in_review: 'In review',
+  complete: 'Complete',
+};
+
+interface Run {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+// A run, with line breaks in the text kept as breaks
+function runXml({ text, bold, italic }: Run): string {
+  const properties =
+    bold || italic ? `<w:rPr>${bold ? '<w:b/>' : ''}${italic ? '<w:i/>' : ''}</w:rPr>` : '';
+  const content = text
+    .split('\n')
+    .map((line) => `<w:t xml:space="preserve">${escapeXml(line)}</w:t>`)
+    .join('<w:br/>');
+  return `<w:r>${properties}${content}</w:r>`;
+}
+
+function paragraph(content: string | Run[], style?: string): string {
+  const runs = typeof content === 'string' ? [{ text: content }] : content;
+  const properties = style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : '';
+  return `<w:p>${properties}${runs.map(runXml).join('')}</w:p>`;
+}
+
+const field = (name: string, value: string) =>
+  paragraph([{ text: `${name}: `, bold: true }, { text: value }]);
+
+const formatDate = (date: Date) => date.toISOString().slice(0, 10);
+
+const formatPages = (pageStart: number | null, pageEnd: number | null) =>
+  pageStart === null
+    ? null
+    : pageStart === pageEnd || pageEnd === null
+      ? `p. ${pageStart}`
+      : `pp. ${pageStart}-${pageEnd}`;
+
+function formatAttribute(value: unknown): string {
+  if (value === null || value === undefined) return 'Not stated';
+  if (Array.isArray(value)) return value.length > 0 ? value.join('; ') : 'None';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
+
+function clauseXml(contract: ExportContract, clause: ExportClause): string[] {
+  const text = reviewedText(clause);
+  const parts = [paragraph(clause.label, 'Heading2')];
+
+  if (text === null) {
+    parts.push(
+      paragraph([{ text: clause.found ? 'Rejected by the reviewer' : 'Not found', italic: true }]),
+    );
+  } else {
+    parts.push(paragraph(text));
+  }
+
+  const review = [REVIEW_LABELS[clause.reviewStatus]];
+  if (clause.reviewedBy) {
+    review.push(`by ${clause.reviewedBy.name}`);
+  }
+  if (clause.reviewedAt) {
+    review.push(`on ${formatDate(clause.reviewedAt)}`);
+  }
+  parts.push(field('Review', review.join(' ')));
+  if (clause.reviewComment) {
+    parts.push(field('Reviewer comment', clause.reviewComment));
+  }
+
+  for (const [name, value] of Object.entries(
+    (clause.attributes as Record<string, unknown> | null) ?? {},
+  )) {
+    parts.push(field(name.replace(/_/g, ' '), formatAttribute(value)));
+  }
+
+  // Citations are of the document's text, so an edited clause still cites its source
+  if (clause.passages.length > 0) {
+    parts.push(paragraph([{ text: 'Citations', bold: true }]));
+    for (const passage of clause.passages) {
+      const pages = formatPages(passage.pageStart, passage.pageEnd);
+      parts.push(paragraph(`“${passage.text.trim()}”`, 'Quote'));
+      parts.push(
+        paragraph([{ text: `${contract.fileName}${pages ? `, ${pages}` : ''}`, italic: true }]),
+      );
+    }
+  }
+  return parts;
+}
+
+function documentXml(contract: ExportContract, exportedAt: Date): string {
+  const issues = contract.findings.filter(
+    (finding) => finding.status === 'fail' || finding.status === 'unknown',
+  );
+
+  const body = [
+    paragraph(`Contract review memo: ${contract.fileName}`, 'Title'),
+    field('Uploaded', formatDate(contract.uploadedAt)),
+    field(
+      'Review',
+      [
+        CONTRACT_REVIEW_LABELS[contract.reviewStatus],
+        contract.reviewCompletedBy && `by ${contract.reviewCompletedBy.name}`,
+        contract.reviewCompletedAt && `on ${formatDate(contract.reviewCompletedAt)}`,
+      ]
+        .filter(Boolean)
+        .join(' '),
+    ),
+    field('Risk score', contract.riskScore === null ? 'Not scored' : `${contract.riskScore} / 100`),
+    field('Prepared', formatDate(exportedAt)),
+
+    paragraph('Playbook issues', 'Heading1'),
+    ...(issues.length === 0
+      ? [paragraph(contract.findings.length > 0 ? 'All playbook rules passed.' : 'Not scored.')]
+      : issues.flatMap((finding) => [
+          paragraph([
+            { text: `[${finding.severity}] ${finding.description}`, bold: true },
+            { text: finding.status === 'unknown' ? ' (needs review)' : '' },
+          ]),
+          paragraph(finding.detail),
+          field('Fallback position', finding.fallback),
+        ])),
+
+    paragraph('Clauses', 'Heading1'),
+    ...(contract.clauses.length === 0
+      ? [paragraph('No clauses have been extracted.')]
+      : contract.clauses.flatMap((clause) => clauseXml(contract, clause))),
+  ];
+
+  return `${XML_DECLARATION}
+<w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main">
+<w:body>${body.join('')}<w:sectPr><w:pgSz w:w="11906" w:h="16838"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="708" w:footer="708" w:gutter="0"/></w:sectPr></w:body>
+</w:document>`;
+}
+
+export function writeMemo(contract: ExportContract, exportedAt: Date): Buffer {
+  return writePackage({
+    '[Content_Types].xml': CONTENT_TYPES,
+    '_rels/.rels': ROOT_RELS,
+    'word/_rels/document.xml.rels': DOCUMENT_RELS,
+    'word/styles.xml': STYLES,
+    'word/document.xml': documentXml(contract, exportedAt),
+  });
+}
@@ -0,0 +1,176 @@
+import { strFromU8, unzipSync } from 'fflate';
+import { describe, expect, it, vi } from 'vitest';
+import { ExportContract } from './contracts';
+import { writeCsv } from './csv';
+import { EXPORT_SCHEMA_VERSION, exportContracts } from '.';
+import { buildClauseMatrix } from './matrix';
+
+vi.mock('@/lib/prisma', () => ({ prisma: {} }));
+
+const EXPORTED_AT = new Date('2026-03-01T12:00:00Z');
+const WORKSPACE = { id: 'workspace-1', name: 'Acme Legal' };
+
+const clause = (type: string, label: string, overrides: Record<string, unknown> = {}) => ({
+  type,
+  label,
+  found: true,
+  text: `${label} text`,
+  reviewedText: null,
+  reviewStatus: 'unreviewed',
+  reviewComment: null,
+  reviewedBy: null,
+  reviewedAt: null,
+  pageStart: 2,
+  pageEnd: 3,
+  attributes: null,
+  model: 'gpt-4o',
+  promptVersion: 'v3',
+  passages: [],
+  ...overrides,
+});
+
+const finding = (ruleId: string, status: string) => ({
+  ruleId,
+  clauseType: 'limitation_of_liability',
+  description: `Rule ${ruleId}`,
+  severity: 'high',
+  status,
+  detail: `Detail of ${ruleId}`,
+  fallback: `Fallback for ${ruleId}`,
+});
+
+const contract = (fileName: string, clauses: ReturnType<typeof clause>[] = []) =>
+  ({
+    id: `${fileName}-id`,
+    fileName,
+    documentType: 'pdf',
+    pageCount: 4,
+    uploadedAt: new Date('2026-02-01T09:00:00Z'),
+    status: 'completed',
+    reviewStatus: 'in_review',
+    reviewCompletedBy: null,
+    reviewCompletedAt: null,
+    riskScore: 40,
+    findings: [finding('cap', 'fail'), finding('law', 'pass')],
+    clauses,
+  }) as unknown as ExportContract;
+
+const CONTRACTS = [
+  contract('lease.pdf', [
+    clause('termination', 'Termination', {
+      reviewStatus: 'edited',
+      reviewedText: '=SUM(A1) on notice',
+      attributes: { notice_days: 30, exceptions: ['insolvency', 'breach'] },
+    }),
+  ]),
+  contract('nda.pdf', [
+    clause('governing_law', 'Governing law', { reviewStatus: 'rejected', pageEnd: 2 }),
+  ]),
+];
+
+describe('buildClauseMatrix', () => {
+  it('has a column group per clause type, in label order, with the reviewed text', () => {
+    const { header, rows } = buildClauseMatrix(CONTRACTS);
+
+    expect(header.slice(6)).toEqual([
+      'Governing law',
+      'Governing law: pages',
+      'Governing law: review',
+      'Termination',
+      'Termination: pages',
+      'Termination: review',
+      'Termination: notice_days',
+      'Termination: exceptions',
+    ]);
+    expect(rows[0]).toEqual([
+      'lease.pdf',
+      '2026-02-01T09:00:00.000Z',
+      'completed',
+      'in_review',
+      40,
+      1,
+      null,
+      null,
+      null,
+      '=SUM(A1) on notice',
+      '2-3',
+      'Edited',
+      30,
+      'insolvency; breach',
+    ]);
+    expect(rows[1].slice(6, 9)).toEqual([null, '2', 'Rejected']);
+  });
+});
+
+describe('writeCsv', () => {
+  it('quotes fields and defuses formulas', () => {
+    expect(
+      writeCsv({
+        header: ['Contract', 'Term'],
+        rows: [
+          ['a, b.pdf', '=1+1'],
+          ['c.pdf', true],
+        ],
+      }),
+    ).toBe('\uFEFFContract,Term\r\n"a, b.pdf",\'=1+1\r\nc.pdf,Yes\r\n');
+  });
+});
+
+describe('exportContracts', () => {
+  it('writes the clause matrix as CSV', () => {
+    const file = exportContracts(WORKSPACE, CONTRACTS, 'csv', EXPORTED_AT);
+
+    expect(file.fileName).toBe('contracts-2026-03-01.csv');
+    expect(file.data).toContain("'=SUM(A1) on notice");
+  });
+
+  it('writes an XLSX workbook with the matrix on its sheet', () => {
+    const file = exportContracts(WORKSPACE, CONTRACTS, 'xlsx', EXPORTED_AT);
+    const parts = unzipSync(file.data as Buffer);
+
+    expect(Object.keys(parts)).toContain('[Content_Types].xml');
+    const sheet = strFromU8(parts['xl/worksheets/sheet1.xml']);
+    expect(sheet).toContain('<c r="A2" s="2" t="inlineStr"><is><t xml:space="preserve">lease.pdf');
+    expect(sheet).toContain('<c r="E2" s="2"><v>40</v></c>');
+  });
+
+  it('writes one memo as a DOCX file and several as a ZIP archive of them', () => {
+    const single = exportContracts(WORKSPACE, CONTRACTS.slice(0, 1), 'docx', EXPORTED_AT);
+    expect(single.fileName).toBe('lease-memo.docx');
+    const memo = strFromU8(unzipSync(single.data as Buffer)['word/document.xml']);
+    expect(memo).toContain('Contract review memo: lease.pdf');
+    expect(memo).toContain('[high] Rule cap');
+    expect(memo).not.toContain('Rule law');
+    expect(memo).toContain('notice days');
+
+    const several = exportContracts(
+      WORKSPACE,
+      [...CONTRACTS, contract('lease.docx')],
+      'docx',
+      EXPORTED_AT,
+    );
+    expect(several.fileName).toBe('contracts-2026-03-01-memos.zip');
+    expect(Object.keys(unzipSync(several.data as Buffer))).toEqual([
+      'lease-memo.docx',
+      'nda-memo.docx',
+      'lease-memo-2.docx',
+    ]);
+  });
+
+  it('writes the versioned JSON document', () => {
+    const file = exportContracts(WORKSPACE, CONTRACTS, 'json', EXPORTED_AT);
+    const document = JSON.parse(file.data as string);
+
+    expect(document).toMatchObject({
+      schemaVersion: EXPORT_SCHEMA_VERSION,
+      exportedAt: '2026-03-01T12:00:00.000Z',
+      workspace: WORKSPACE,
+    });
+    expect(document.contracts[0].clauses[0]).toMatchObject({
+      text: '=SUM(A1) on notice',
+      extractedText: 'Termination text',
+      review: { status: 'edited' },
+    });
+    expect(document.contracts[1].clauses[0].text).toBeNull();
+  });
+});
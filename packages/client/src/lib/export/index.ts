@@ -0,0 +1,99 @@
+import { zipSync } from 'fflate';
+import type { Workspace } from '@prisma/client';
+import { ExportContract } from './contracts';
+import { writeCsv } from './csv';
+import { writeMemo } from './docx';
+import { exportJson } from './json';
+import { buildClauseMatrix } from './matrix';
+import { writeXlsx } from './xlsx';
+
+/**
+ * Export
+ *
+ * Review results for delivery outside the application:
+ *
+ *   - csv, xlsx: the clause matrix, one row per contract
+ *   - docx: a review memo per contract, zipped when there is more than one
+ *   - json: the versioned document in json.ts, for downstream systems
+ */
+
+export { MAX_EXPORT_CONTRACTS, loadExportContracts } from './contracts';
+export type { ExportSelection } from './contracts';
+export { EXPORT_SCHEMA_VERSION } from './json';
+
+export const EXPORT_FORMATS = ['csv', 'xlsx', 'docx', 'json'] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export interface ExportFile {
+  fileName: string;
+  contentType: string;
+  data: Buffer | string;
+}
+
+const DOCX_CONTENT_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+// "lease.pdf" -> "lease-memo.docx", numbered when two contracts share a name
+function memoNames(contracts: ExportContract[]): string[] {
+  const used = new Set<string>();
+  return contracts.map((contract) => {
+    const base = `${contract.fileName.replace(/\.[^.]+$/, '')}-memo`;
+    let name = `${base}.docx`;
+    for (let n = 2; used.has(name); n++) {
+      name = `${base}-${n}.docx`;
+    }
+    used.add(name);
+    return name;
+  });
+}
+
+export function exportContracts(
+  workspace: Pick<Workspace, 'id' | 'name'>,
+  contracts: ExportContract[],
+  format: ExportFormat,
+  exportedAt = new Date(),
+): ExportFile {
+  const baseName = `contracts-${exportedAt.toISOString().slice(0, 10)}`;
+
+  switch (format) {
+    case 'csv':
+      return {
+        fileName: `${baseName}.csv`,
+        contentType: 'text/csv; charset=utf-8',
+        data: writeCsv(buildClauseMatrix(contracts)),
+      };
+    case 'xlsx':
+      return {
+        fileName: `${baseName}.xlsx`,
+        contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+        data: writeXlsx(buildClauseMatrix(contracts)),
+      };
+    case 'docx': {
+      const names = memoNames(contracts);
+      if (contracts.length === 1) {
+        return {
+          fileName: names[0],
+          contentType: DOCX_CONTENT_TYPE,
+          data: writeMemo(contracts[0], exportedAt),
+        };
+      }
+      // Memos are already compressed
+      const memos = Object.fromEntries(
+        contracts.map((contract, index) => [
+          names[index],
+          [writeMemo(contract, exportedAt), { level: 0 }] as [Uint8Array, { level: 0 }],
+        ]),
+      );
+      return {
+        fileName: `${baseName}-memos.zip`,
+        contentType: 'application/zip',
+        data: Buffer.from(zipSync(memos)),
+      };
+    }
+    case 'json':
+      return {
+        fileName: `${baseName}.json`,
+        contentType: 'application/json',
+        data: JSON.stringify(exportJson(workspace, contracts, exportedAt), null, 2),
+      };
+  }
+}
@@ -0,0 +1,141 @@
+import type { Workspace } from '@prisma/client';
+import { ExportClause, ExportContract, reviewedText } from './contracts';
+
+/**
+ * JSON export
+ *
+ * A stable document for downstream systems, independent of the database schema and of the
+ * API's own responses. schemaVersion is bumped when a field is removed, renamed or changes
+ * meaning; new fields may be added within a version. contract-export.v1.schema.json next to
+ * this file is the JSON Schema of version 1.
+ */
+
+export const EXPORT_SCHEMA_VERSION = 1;
+
+type Person = { id: string; name: string } | null;
+
+export interface ContractExportV1 {
+  schemaVersion: typeof EXPORT_SCHEMA_VERSION;
+  exportedAt: string;
+  workspace: { id: string; name: string };
+  contracts: ExportedContractV1[];
+}
+
+export interface ExportedContractV1 {
+  id: string;
+  fileName: string;
+  documentType: string;
+  pageCount: number | null;
+  uploadedAt: string;
+  // Processing status: pending, processing, extracting, completed or failed
+  status: string;
+  riskScore: number | null;
+  review: {
+    // unreviewed, in_review or complete
+    status: string;
+    completedBy: Person;
+    completedAt: string | null;
+  };
+  clauses: ExportedClauseV1[];
+  findings: ExportedFindingV1[];
+}
+
+export interface ExportedClauseV1 {
+  type: string;
+  label: string;
+  found: boolean;
+  // The text as reviewed: the reviewer's correction if edited, null if rejected or not found
+  text: string | null;
+  // The text as extracted, whatever the review decided
+  extractedText: string | null;
+  pageStart: number | null;
+  pageEnd: number | null;
+  attributes: Record<string, unknown> | null;
+  model: string | null;
+  promptVersion: string | null;
+  review: {
+    // unreviewed, accepted, edited or rejected
+    status: string;
+    comment: string | null;
+    reviewedBy: Person;
+    reviewedAt: string | null;
+  };
+  // The passages of the document the clause was extracted from, in document order
+  citations: { text: string; pageStart: number | null; pageEnd: number | null }[];
+}
+
+export interface ExportedFindingV1 {
+  ruleId: string;
+  clauseType: string;
+  description: string;
+  // low, medium, high or critical
+  severity: string;
+  // pass, fail, unknown or not_applicable
+  status: string;
+  detail: string;
+  fallback: string;
+}
+
+function exportClause(clause: ExportClause): ExportedClauseV1 {
+  return {
+    type: clause.type,
+    label: clause.label,
+    found: clause.found,
+    text: reviewedText(clause),
+    extractedText: clause.text,
+    pageStart: clause.pageStart,
+    pageEnd: clause.pageEnd,
+    attributes: clause.attributes as Record<string, unknown> | null,
+    model: clause.model,
+    promptVersion: clause.promptVersion,
+    review: {
+      status: clause.reviewStatus,
+      comment: clause.reviewComment,
+      reviewedBy: clause.reviewedBy,
+      reviewedAt: clause.reviewedAt?.toISOString() ?? null,
+    },
+    citations: clause.passages.map(({ text, pageStart, pageEnd }) => ({
+      text,
+      pageStart,
+      pageEnd,
+    })),
+  };
+}
+
+export function exportJson(
+  workspace: Pick<Workspace, 'id' | 'name'>,
+  contracts: ExportContract[],
+  exportedAt: Date,
+): ContractExportV1 {
+  return {
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    workspace: { id: workspace.id, name: workspace.name },
+    contracts: contracts.map((contract) => ({
+      id: contract.id,
+      fileName: contract.fileName,
+      documentType: contract.documentType,
+      pageCount: contract.pageCount,
+      uploadedAt: contract.uploadedAt.toISOString(),
+      status: contract.status,
+      riskScore: contract.riskScore,
+      review: {
+        status: contract.reviewStatus,
+        completedBy: contract.reviewCompletedBy,
+        completedAt: contract.reviewCompletedAt?.toISOString() ?? null,
+      },
+      clauses: contract.clauses.map(exportClause),
+      findings: contract.findings.map(
+        ({ ruleId, clauseType, description, severity, status, detail, fallback }) => ({
+          ruleId,
+          clauseType,
+          description,
+          severity,
+          status,
+          detail,
+          fallback,
+        }),
+      ),
+    })),
+  };
+}
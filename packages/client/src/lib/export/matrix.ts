@@ -0,0 +1,103 @@
+import { ExportClause, ExportContract, reviewedText } from './contracts';
+
+/**
+ * Clause matrix
+ *
+ * One row per contract and, for every clause type any of the contracts has, columns for the
+ * clause's text as reviewed, its pages, its review decision and each of its attributes. The
+ * CSV and XLSX exports are both written from it.
+ */
+
+export type Cell = string | number | boolean | null;
+
+export interface ClauseMatrix {
+  header: string[];
+  rows: Cell[][];
+}
+
+interface ClauseColumns {
+  type: string;
+  label: string;
+  // Attribute names in the order they were first seen
+  attributes: string[];
+}
+
+const REVIEW_LABELS: Record<ExportClause['reviewStatus'], string> = {
+  unreviewed: 'Not reviewed',
+  accepted: 'Accepted',
+  edited: 'Edited',
+  rejected: 'Rejected',
+};
+
+const pagesOf = ({ pageStart, pageEnd }: ExportClause) =>
+  pageStart === null ? null : pageStart === pageEnd ? String(pageStart) : `${pageStart}-${pageEnd}`;
+
+function attributeCell(value: unknown): Cell {
+  if (value === undefined || value === null) return null;
+  if (Array.isArray(value)) return value.join('; ');
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+function clauseColumns(contracts: ExportContract[]): ClauseColumns[] {
+  const columns = new Map<string, ClauseColumns>();
+  for (const clause of contracts.flatMap((contract) => contract.clauses)) {
+    const column = columns.get(clause.type) ?? {
+      type: clause.type,
+      label: clause.label,
+      attributes: [],
+    };
+    columns.set(clause.type, column);
+    for (const name of Object.keys((clause.attributes as Record<string, unknown> | null) ?? {})) {
+      if (!column.attributes.includes(name)) {
+        column.attributes.push(name);
+      }
+    }
+  }
+  return Array.from(columns.values()).sort((a, b) => a.label.localeCompare(b.label));
+}
+
+export function buildClauseMatrix(contracts: ExportContract[]): ClauseMatrix {
+  const columns = clauseColumns(contracts);
+
+  const header = [
+    'Contract',
+    'Uploaded',
+    'Status',
+    'Review',
+    'Risk score',
+    'Failed rules',
+    ...columns.flatMap(({ label, attributes }) => [
+      label,
+      `${label}: pages`,
+      `${label}: review`,
+      ...attributes.map((name) => `${label}: ${name}`),
+    ]),
+  ];
+
+  const rows = contracts.map((contract): Cell[] => [
+    contract.fileName,
+    contract.uploadedAt.toISOString(),
+    contract.status,
+    contract.reviewStatus,
+    contract.riskScore,
+    contract.findings.filter((finding) => finding.status === 'fail').length,
+    ...columns.flatMap(({ type, attributes }): Cell[] => {
+      const clause = contract.clauses.find((candidate) => candidate.type === type);
+      if (!clause) {
+        return [null, null, null, ...attributes.map(() => null)];
+      }
+      const values = (clause.attributes as Record<string, unknown> | null) ?? {};
+      return [
+        reviewedText(clause) ?? (clause.reviewStatus === 'rejected' ? null : 'Not found'),
+        pagesOf(clause),
+        REVIEW_LABELS[clause.reviewStatus],
+        ...attributes.map((name) => attributeCell(values[name])),
+      ];
+    }),
+  ]);
+
+  return { header, rows };
+}
@@ -0,0 +1,26 @@
+import { strToU8, zipSync } from 'fflate';
+
+// Office Open XML packages (XLSX, DOCX) are ZIP files of XML parts
+
+export const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+// Characters XML 1.0 does not allow, which OCR output occasionally contains
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000B\u000C\u000E-\u001F\uFFFE\uFFFF]/g;
+
+export function escapeXml(text: string): string {
+  return text
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+// Zip the parts, path -> XML; [Content_Types].xml must be among them
+export function writePackage(parts: Record<string, string>): Buffer {
+  return Buffer.from(
+    zipSync(Object.fromEntries(Object.entries(parts).map(([path, xml]) => [path, strToU8(xml)])), {
+      level: 6,
+    }),
+  );
+}
@@ -0,0 +1,99 @@
+import type { Cell, ClauseMatrix } from './matrix';
+import { XML_DECLARATION, escapeXml, writePackage } from './ooxml';
+
+const SHEET_NAME = 'Clauses';
+
+// Longest text a cell holds
+const MAX_CELL_LENGTH = 32767;
+
+const CONTENT_TYPES = `${XML_DECLARATION}
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+<Default Extension="xml" ContentType="application/xml"/>
+<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>
+<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>
+<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>
+</Types>`;
+
+const ROOT_RELS = `${XML_DECLARATION}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>
+</Relationships>`;
+
+const WORKBOOK = `${XML_DECLARATION}
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">
+<sheets><sheet name="${SHEET_NAME}" sheetId="1" r:id="rId1"/></sheets>
+</workbook>`;
+
+const WORKBOOK_RELS = `${XML_DECLARATION}
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>
+<Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>
+</Relationships>`;
+
+// Style 0 is the default, 1 the bold header, 2 wrapped text for the clause texts
+const STYLES = `${XML_DECLARATION}
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>
+<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>
+<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>
+<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>
+<cellXfs count="3">
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>
+<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>
+<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0" applyAlignment="1"><alignment vertical="top" wrapText="1"/></xf>
+</cellXfs>
+</styleSheet>`;
+
+// Column letters of a zero-based index: 0 -> A, 26 -> AA
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function cellXml(cell: Cell, reference: string, style: number): string {
+  if (cell === null) {
+    return '';
+  }
+  if (typeof cell === 'number') {
+    return `<c r="${reference}" s="${style}"><v>${cell}</v></c>`;
+  }
+  if (typeof cell === 'boolean') {
+    return `<c r="${reference}" s="${style}" t="b"><v>${cell ? 1 : 0}</v></c>`;
+  }
+  const text = escapeXml(cell.slice(0, MAX_CELL_LENGTH));
+  return `<c r="${reference}" s="${style}" t="inlineStr"><is><t xml:space="preserve">${text}</t></is></c>`;
+}
+
+function sheetXml({ header, rows }: ClauseMatrix): string {
+  const rowXml = (cells: Cell[], rowNumber: number, style: number) =>
+    `<row r="${rowNumber}">${cells
+      .map((cell, index) => cellXml(cell, `${columnName(index)}${rowNumber}`, style))
+      .join('')}</row>`;
+
+  return `${XML_DECLARATION}
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">
+<sheetViews><sheetView workbookViewId="0"><pane xSplit="1" ySplit="1" topLeftCell="B2" activePane="bottomRight" state="frozen"/></sheetView></sheetViews>
+<cols><col min="1" max="1" width="40" customWidth="1"/>${
+    header.length > 1 ? `<col min="2" max="${header.length}" width="30" customWidth="1"/>` : ''
+  }</cols>
+<sheetData>${[rowXml(header, 1, 1), ...rows.map((row, index) => rowXml(row, index + 2, 2))].join(
+    '',
+  )}</sheetData>
+</worksheet>`;
+}
+
+// A workbook with the matrix on one sheet, the header row and contract column frozen
+export function writeXlsx(matrix: ClauseMatrix): Buffer {
+  return writePackage({
+    '[Content_Types].xml': CONTENT_TYPES,
+    '_rels/.rels': ROOT_RELS,
+    'xl/workbook.xml': WORKBOOK,
+    'xl/_rels/workbook.xml.rels': WORKBOOK_RELS,
+    'xl/styles.xml': STYLES,
+    'xl/worksheets/sheet1.xml': sheetXml(matrix),
+  });
+}
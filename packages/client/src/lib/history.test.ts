@@ -0,0 +1,37 @@
+import type { Prisma } from '@prisma/client';
+import { describe, expect, it, vi } from 'vitest';
+import { joinDistinct, recordEvent } from './history';
+
+describe('recordEvent', () => {
+  it('creates the event through the transaction it is given', async () => {
+    const create = vi.fn(async () => ({ id: 'event-1' }));
+    const tx = { contractEvent: { create } } as unknown as Prisma.TransactionClient;
+
+    await recordEvent(tx, 'contract-1', 'status_changed', null, {
+      from: 'processing',
+      to: 'completed',
+      stage: null,
+    });
+
+    expect(create).toHaveBeenCalledWith({
+      data: {
+        contractId: 'contract-1',
+        type: 'status_changed',
+        actorId: null,
+        details: { from: 'processing', to: 'completed', stage: null },
+      },
+    });
+  });
+});
+
+describe('joinDistinct', () => {
+  it('splits joined values, drops duplicates and blanks and sorts the rest', () => {
+    expect(joinDistinct(['gpt-4o', 'keywords, gpt-4o', null, undefined, ''])).toBe(
+      'gpt-4o, keywords',
+    );
+  });
+
+  it('is empty when there are no values', () => {
+    expect(joinDistinct([null])).toBe('');
+  });
+});
@@ -0,0 +1,51 @@
+import { Prisma } from '@prisma/client';
+import type { ClauseReviewStatus, ContractEventType, ContractStatus } from '@prisma/client';
+import type { ReprocessMode } from '@/lib/pipeline';
+
+/**
+ * Contract history
+ *
+ * Every change to a contract is recorded as a ContractEvent in the same transaction
+ * as the change itself: status transitions and extraction results from the AI
+ * service (actor null), and uploads, reprocessing and review decisions by users. Each extraction
+ * also keeps its complete output as an ExtractionRun, so earlier results survive
+ * when a contract is extracted again.
+ */
+
+// Details stored with each event type
+export interface ContractEventDetails {
+  uploaded: { fileName: string; storageKey: string };
+  status_changed: { from: ContractStatus; to: ContractStatus; stage: string | null };
+  extraction_recorded: {
+    extractionRunId: string;
+    model: string;
+    promptVersion: string;
+    clausesFound: number;
+    clauseCount: number;
+  };
+  clause_reviewed: {
+    clauseId: string;
+    clauseType: string;
+    from: { status: ClauseReviewStatus; text: string | null; comment: string | null };
+    to: { status: ClauseReviewStatus; text: string | null; comment: string | null };
+  };
+  review_completed: Record<string, never>;
+  review_reopened: Record<string, never>;
+  reprocess_requested: { mode: ReprocessMode };
+}
+
+export function recordEvent<T extends ContractEventType>(
+  db: Prisma.TransactionClient,
+  contractId: string,
+  type: T,
+  actorId: string | null,
+  details: ContractEventDetails[T],
+) {
+  return db.contractEvent.create({
+    data: { contractId, type, actorId, details: details as Prisma.InputJsonObject },
+  });
+}
+
+// Distinct values joined the way the AI service joins a clause's models, e.g. "gpt-4o, keywords"
+export const joinDistinct = (values: (string | null | undefined)[]) =>
+  [...new Set(values.flatMap((value) => (value ? value.split(', ') : [])))].sort().join(', ');
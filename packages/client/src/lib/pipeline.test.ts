@@ -0,0 +1,238 @@
+import { PDFDocument } from 'pdf-lib';
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { AuthContext } from '@/lib/auth';
+import {
+  PAUSED_STAGE,
+  ReprocessError,
+  isReprocessMode,
+  reprocessContract,
+  submitDocument,
+} from './pipeline';
+
+const { tx, findUnique, publishProgress, blobStore, budgetStatus } = vi.hoisted(() => ({
+  tx: {
+    contract: { updateMany: vi.fn(), create: vi.fn(async () => ({ id: 'contract-2' })) },
+    contractEvent: { create: vi.fn() },
+  },
+  findUnique: vi.fn(),
+  publishProgress: vi.fn(),
+  blobStore: { put: vi.fn() },
+  budgetStatus: vi.fn(),
+}));
+
+vi.mock('@/lib/prisma', () => ({
+  prisma: {
+    $transaction: (run: (client: typeof tx) => unknown) => run(tx),
+    contract: { findUnique },
+  },
+}));
+vi.mock('@/lib/storage', () => ({ blobStore }));
+vi.mock('@/lib/progress', () => ({ publishProgress }));
+vi.mock('@/lib/webhooks', () => ({
+  enqueueWebhookEvent: vi.fn(),
+  wakeWebhookDispatcher: vi.fn(),
+  webhookContract: vi.fn(),
+}));
+vi.mock('@/lib/usage', () => ({ budgetStatus }));
+vi.mock('@/lib/signing', () => ({ signedHeaders: () => ({ 'x-signature': 'signed' }) }));
+
+const contract = {
+  id: 'contract-1',
+  workspaceId: 'workspace-1',
+  status: 'completed' as const,
+  progress: 100,
+  stage: null,
+  storageKey: 'uploads/contract-1.pdf',
+  batch: null,
+};
+
+describe('isReprocessMode', () => {
+  it('accepts the two modes only', () => {
+    expect(isReprocessMode('extraction')).toBe(true);
+    expect(isReprocessMode('ocr')).toBe(true);
+    expect(isReprocessMode('scoring')).toBe(false);
+    expect(isReprocessMode(undefined)).toBe(false);
+  });
+});
+
+describe('reprocessContract', () => {
+  const fetch = vi.fn();
+
+  beforeEach(() => {
+    vi.stubGlobal('fetch', fetch);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    tx.contract.updateMany.mockResolvedValue({ count: 1 });
+    budgetStatus.mockResolvedValue({ exceeded: false });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    vi.resetAllMocks();
+  });
+
+  it('refuses contracts that are still being processed', async () => {
+    await expect(
+      reprocessContract({ ...contract, status: 'extracting' }, 'extraction', 'user-1'),
+    ).rejects.toMatchObject({ status: 409, message: 'The contract is still being processed' });
+    expect(tx.contract.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('needs the stored upload to redo OCR', async () => {
+    await expect(
+      reprocessContract({ ...contract, storageKey: null }, 'ocr', 'user-1'),
+    ).rejects.toBeInstanceOf(ReprocessError);
+  });
+
+  it('refuses while the workspace has spent its monthly budget', async () => {
+    budgetStatus.mockResolvedValue({ exceeded: true });
+
+    await expect(reprocessContract(contract, 'extraction', 'user-1')).rejects.toMatchObject({
+      status: 409,
+      message: 'The workspace has spent its monthly budget',
+    });
+    expect(budgetStatus).toHaveBeenCalledWith('workspace-1');
+    expect(tx.contract.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('claims the contract in its restart status and queues it with the AI service', async () => {
+    fetch.mockResolvedValue(new Response('{}', { status: 202 }));
+
+    await reprocessContract(contract, 'ocr', 'user-1');
+
+    expect(tx.contract.updateMany).toHaveBeenCalledWith({
+      where: { id: 'contract-1', status: 'completed' },
+      data: { status: 'pending', progress: 5, stage: 'Queued for OCR' },
+    });
+    expect(tx.contractEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ type: 'reprocess_requested', details: { mode: 'ocr' } }),
+    });
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toMatch(/\/process_document$/);
+    expect(JSON.parse(init.body)).toEqual({ id: 'contract-1', key: 'uploads/contract-1.pdf' });
+    expect(publishProgress).toHaveBeenCalledWith(
+      'contract-1',
+      expect.objectContaining({ status: 'pending' }),
+    );
+  });
+
+  it("keeps a batch's contracts within the batch's concurrency", async () => {
+    fetch.mockResolvedValue(new Response('{}', { status: 202 }));
+
+    await reprocessContract(
+      { ...contract, batch: { id: 'batch-1', concurrency: 3 } },
+      'extraction',
+      'user-1',
+    );
+
+    expect(JSON.parse(fetch.mock.calls[0][1].body)).toEqual({
+      id: 'contract-1',
+      batch: { id: 'batch-1', concurrency: 3 },
+    });
+  });
+
+  it('gives up when another request changed the contract first', async () => {
+    tx.contract.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(reprocessContract(contract, 'extraction', 'user-1')).rejects.toMatchObject({
+      status: 409,
+      message: 'The contract was changed by another request',
+    });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('puts the contract back when the AI service cannot be reached', async () => {
+    fetch.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    await expect(reprocessContract(contract, 'extraction', 'user-1')).rejects.toMatchObject({
+      status: 502,
+    });
+    expect(tx.contract.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'contract-1', status: 'extracting' },
+      data: { status: 'completed', progress: 100, stage: null },
+    });
+  });
+});
+
+describe('submitDocument', () => {
+  const fetch = vi.fn();
+  const auth = { userId: 'user-1', workspaceId: 'workspace-1' } as AuthContext;
+  const document = { name: 'msa.pdf', data: Buffer.alloc(0) };
+
+  beforeAll(async () => {
+    const pdf = await PDFDocument.create();
+    pdf.addPage();
+    document.data = Buffer.from(await pdf.save());
+  });
+
+  beforeEach(() => {
+    findUnique.mockResolvedValue(null);
+    budgetStatus.mockResolvedValue({ exceeded: false });
+    vi.stubGlobal('fetch', fetch);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+    fetch.mockReset();
+    blobStore.put.mockReset();
+  });
+
+  it('stores documents of the same name under different keys', async () => {
+    fetch.mockResolvedValue(new Response('{}', { status: 202 }));
+
+    await submitDocument(auth, document);
+    await submitDocument(auth, document);
+
+    const [[first], [second]] = blobStore.put.mock.calls;
+    expect(first).toMatch(/^input\/\d+-[0-9a-f]{8}-msa\.pdf$/);
+    expect(second).not.toBe(first);
+  });
+
+  it('keeps the contract when the AI service is down', async () => {
+    fetch.mockRejectedValue(new Error('connect ECONNREFUSED'));
+
+    await expect(
+      submitDocument(auth, document, { id: 'batch-1', concurrency: 2 }),
+    ).resolves.toEqual({ contract: { id: 'contract-2' }, duplicate: false });
+    expect(JSON.parse(fetch.mock.calls[0][1].body).batch).toEqual({
+      id: 'batch-1',
+      concurrency: 2,
+    });
+  });
+
+  it('keeps new uploads paused while the workspace has spent its monthly budget', async () => {
+    budgetStatus.mockResolvedValue({ exceeded: true });
+
+    await expect(submitDocument(auth, document)).resolves.toEqual({
+      contract: { id: 'contract-2' },
+      duplicate: false,
+    });
+    expect(tx.contract.create).toHaveBeenLastCalledWith({
+      data: expect.objectContaining({ stage: PAUSED_STAGE, pausedAt: expect.any(Date) }),
+    });
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('returns the contract of a document the workspace already has', async () => {
+    findUnique.mockResolvedValue({ id: 'contract-1' });
+
+    await expect(submitDocument(auth, document)).resolves.toEqual({
+      contract: { id: 'contract-1' },
+      duplicate: true,
+    });
+    expect(findUnique.mock.calls[0][0].where.workspaceId_contentHash.workspaceId).toBe(
+      'workspace-1',
+    );
+    expect(blobStore.put).not.toHaveBeenCalled();
+    expect(fetch).not.toHaveBeenCalled();
+  });
+
+  it('refuses a file that is not a PDF or Word document', async () => {
+    await expect(
+      submitDocument(auth, { name: 'msa.pdf', data: Buffer.from('MZ') }),
+    ).rejects.toThrow('msa.pdf is neither a PDF nor a Word document');
+    expect(blobStore.put).not.toHaveBeenCalled();
+  });
+});
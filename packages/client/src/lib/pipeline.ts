@@ -0,0 +1,358 @@
+import { randomBytes } from 'crypto';
+import { Prisma } from '@prisma/client';
+import type { Batch, Contract, ContractStatus } from '@prisma/client';
+import { PROGRESS } from 'shared';
+import type { AuthContext } from '@/lib/auth';
+import { recordEvent } from '@/lib/history';
+import { prisma } from '@/lib/prisma';
+import { publishProgress } from '@/lib/progress';
+import { signedHeaders } from '@/lib/signing';
+import { blobStore } from '@/lib/storage';
+import { budgetStatus } from '@/lib/usage';
+import { validateDocument } from '@/lib/uploads';
+import { enqueueWebhookEvent, wakeWebhookDispatcher, webhookContract } from '@/lib/webhooks';
+
+// AI service URL
+const AI_SERVICE_URL = process.env.AI_SERVICE_URL || 'http://localhost:3000';
+
+// Send a signed JSON request to the AI service
+export async function callAiService(path: string, payload: object): Promise<Response> {
+  const url = `${AI_SERVICE_URL}${path}`;
+  const body = JSON.stringify(payload);
+  return fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...signedHeaders('POST', url, body),
+    },
+    body,
+  });
+}
+
+// Batch of a contract as the AI service needs it: its jobs share the batch's concurrency limit
+type BatchLimit = Pick<Batch, 'id' | 'concurrency'>;
+
+// Stage of contracts held back by the workspace's budget
+export const PAUSED_STAGE = 'Paused: the monthly budget is spent';
+
+// Queue an uploaded contract with the AI service, or only its extraction; if that fails the
+// contract stays where it is
+async function dispatchContract(
+  contract: Pick<Contract, 'id' | 'storageKey'>,
+  batch: BatchLimit | null,
+  path = '/process_document',
+): Promise<void> {
+  try {
+    const response = await callAiService(path, {
+      id: contract.id,
+      key: contract.storageKey, // The AI service reads the document from the same blob store
+      ...(batch && { batch: { id: batch.id, concurrency: batch.concurrency } }),
+    });
+
+    if (!response.ok) {
+      console.error('AI service responded with error:', await response.text());
+    }
+  } catch (aiError) {
+    console.error('Failed to communicate with AI service:', aiError);
+    // Continue execution - we don't want to fail the upload if AI service is down
+  }
+}
+
+// A file as received, before validation; name and content are untrusted
+export interface UploadedDocument {
+  name: string;
+  data: Buffer;
+}
+
+export interface SubmittedDocument {
+  contract: Contract;
+  // The workspace already had a contract for the same content, which is returned instead
+  duplicate: boolean;
+}
+
+const findDuplicate = (workspaceId: string, contentHash: string) =>
+  prisma.contract.findUnique({ where: { workspaceId_contentHash: { workspaceId, contentHash } } });
+
+/**
+ * Validate an uploaded PDF or Word document, store it, create its contract in the
+ * caller's workspace and queue it with the AI service. Throws an UploadError if the file
+ * is not acceptable. A document uploaded to the workspace before is not processed again.
+ * If the AI service cannot be reached the contract is kept, still pending; if the
+ * workspace has spent its monthly budget, it is kept paused until resumePausedContracts
+ * sends it.
+ */
+export async function submitDocument(
+  auth: AuthContext,
+  upload: UploadedDocument,
+  batch: BatchLimit | null = null,
+): Promise<SubmittedDocument> {
+  const document = await validateDocument(upload.name, upload.data);
+
+  const existing = await findDuplicate(auth.workspaceId, document.contentHash);
+  if (existing) {
+    return { contract: existing, duplicate: true };
+  }
+
+  // Unique even for files of the same name uploaded in the same millisecond, as in a batch
+  const storageKey = `input/${Date.now()}-${randomBytes(4).toString('hex')}-${document.name}`;
+
+  await blobStore.put(storageKey, document.data, {
+    contentType: document.contentType,
+    cacheControl: 'public, max-age=31536000',
+  });
+
+  const paused = (await budgetStatus(auth.workspaceId)).exceeded;
+
+  // Create a record in the database with status "pending"
+  let contract: Contract;
+  try {
+    contract = await prisma.$transaction(async (tx) => {
+      const created = await tx.contract.create({
+        data: {
+          workspaceId: auth.workspaceId,
+          batchId: batch?.id ?? null,
+          fileName: document.name,
+          storageKey,
+          documentType: document.documentType,
+          contentHash: document.contentHash,
+          pageCount: document.pageCount,
+          status: 'pending',
+          progress: PROGRESS.uploadReceived,
+          stage: paused ? PAUSED_STAGE : 'Upload received',
+          pausedAt: paused ? new Date() : null,
+          events: {
+            create: {
+              type: 'uploaded',
+              actorId: auth.userId,
+              details: { fileName: document.name, storageKey },
+            },
+          },
+        },
+      });
+      await enqueueWebhookEvent(tx, auth.workspaceId, 'contract.uploaded', {
+        contract: webhookContract(created),
+      });
+      return created;
+    });
+  } catch (error) {
+    // The same document was uploaded concurrently and the other upload won
+    if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+      await blobStore.delete(storageKey);
+      const winner = await findDuplicate(auth.workspaceId, document.contentHash);
+      if (winner) {
+        return { contract: winner, duplicate: true };
+      }
+    }
+    throw error;
+  }
+  wakeWebhookDispatcher();
+
+  if (!paused) {
+    await dispatchContract(contract, batch);
+  }
+  return { contract, duplicate: false };
+}
+
+// Send the paused contracts of workspaces that are now within their budget, oldest first;
+// those the AI service paused before extraction only go through extraction again. Returns how
+// many were sent.
+export async function resumePausedContracts(workspaceId?: string): Promise<number> {
+  const paused = await prisma.contract.findMany({
+    where: { pausedAt: { not: null }, ...(workspaceId && { workspaceId }) },
+    select: {
+      id: true,
+      workspaceId: true,
+      status: true,
+      storageKey: true,
+      batch: { select: { id: true, concurrency: true } },
+    },
+    orderBy: { uploadedAt: 'asc' },
+  });
+
+  const budgets = new Map<string, boolean>();
+  let resumed = 0;
+  for (const contract of paused) {
+    if (!budgets.has(contract.workspaceId)) {
+      budgets.set(contract.workspaceId, (await budgetStatus(contract.workspaceId)).exceeded);
+    }
+    if (budgets.get(contract.workspaceId)) {
+      continue;
+    }
+
+    // Claim the contract, so that it is sent once even if two resumes overlap
+    const { path, ...state } =
+      contract.status === 'extracting'
+        ? RESTART.extraction
+        : {
+            status: 'pending' as const,
+            progress: PROGRESS.uploadReceived,
+            stage: 'Upload received',
+            path: '/process_document',
+          };
+    const { count } = await prisma.contract.updateMany({
+      where: { id: contract.id, pausedAt: { not: null } },
+      data: { ...state, pausedAt: null },
+    });
+    if (count === 0) {
+      continue;
+    }
+    publishProgress(contract.id, state);
+    await dispatchContract(contract, contract.batch, path);
+    resumed++;
+  }
+  return resumed;
+}
+
+// One resumer per process, kept across hot reloads in development
+declare global {
+  // eslint-disable-next-line no-var
+  var pausedContractResumer: NodeJS.Timeout | undefined;
+}
+
+// Contracts paused in one month are sent once the next begins; check every few minutes
+const RESUME_INTERVAL_MS = 5 * 60 * 1000;
+
+export function startPausedContractResumer(): void {
+  if (global.pausedContractResumer) {
+    return;
+  }
+  const timer = setInterval(() => {
+    resumePausedContracts().catch((error) =>
+      console.error('Error resuming paused contracts:', error),
+    );
+  }, RESUME_INTERVAL_MS);
+  timer.unref();
+  global.pausedContractResumer = timer;
+}
+
+/**
+ * Reprocessing
+ *
+ * "extraction" runs only the LLM step again, on the OCR output the AI service kept
+ * under output/<contractId>/; "ocr" runs the whole pipeline on the stored upload.
+ * Either way the contract keeps its id, and the new results replace the clauses and
+ * findings while the history keeps the earlier runs.
+ */
+export const REPROCESS_MODES = ['extraction', 'ocr'] as const;
+
+export type ReprocessMode = (typeof REPROCESS_MODES)[number];
+
+export const isReprocessMode = (value: unknown): value is ReprocessMode =>
+  REPROCESS_MODES.includes(value as ReprocessMode);
+
+// Where the contract restarts in the pipeline for each mode
+const RESTART: Record<
+  ReprocessMode,
+  { status: ContractStatus; progress: number; stage: string; path: string }
+> = {
+  extraction: {
+    status: 'extracting',
+    progress: PROGRESS.textAssembled,
+    stage: 'Queued for extraction',
+    path: '/extract_document',
+  },
+  ocr: {
+    status: 'pending',
+    progress: PROGRESS.uploadReceived,
+    stage: 'Queued for OCR',
+    path: '/process_document',
+  },
+};
+
+export class ReprocessError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+  ) {
+    super(message);
+    this.name = 'ReprocessError';
+  }
+}
+
+type ReprocessedContract = Pick<
+  Contract,
+  'id' | 'workspaceId' | 'status' | 'progress' | 'stage' | 'storageKey'
+> & {
+  batch: BatchLimit | null;
+};
+
+// Move the contract from one pipeline state to another if it is still in the first
+async function moveContract(
+  contractId: string,
+  from: Pick<Contract, 'status' | 'progress' | 'stage'>,
+  to: Pick<Contract, 'status' | 'progress' | 'stage'>,
+  actorId: string,
+  mode?: ReprocessMode,
+): Promise<boolean> {
+  const state = { status: to.status, progress: to.progress, stage: to.stage };
+  const moved = await prisma.$transaction(async (tx) => {
+    const { count } = await tx.contract.updateMany({
+      where: { id: contractId, status: from.status },
+      data: state,
+    });
+    if (count === 0) {
+      return false;
+    }
+    if (mode) {
+      await recordEvent(tx, contractId, 'reprocess_requested', actorId, { mode });
+    }
+    await recordEvent(tx, contractId, 'status_changed', actorId, {
+      from: from.status,
+      to: to.status,
+      stage: to.stage,
+    });
+    return true;
+  });
+
+  if (moved) {
+    publishProgress(contractId, state);
+  }
+  return moved;
+}
+
+// Send a finished contract through the pipeline again; throws a ReprocessError if it cannot be
+export async function reprocessContract(
+  contract: ReprocessedContract,
+  mode: ReprocessMode,
+  actorId: string,
+): Promise<void> {
+  if (contract.status !== 'completed' && contract.status !== 'failed') {
+    throw new ReprocessError('The contract is still being processed', 409);
+  }
+  if (mode === 'ocr' && !contract.storageKey) {
+    throw new ReprocessError('The uploaded document of this contract is not stored', 409);
+  }
+  if ((await budgetStatus(contract.workspaceId)).exceeded) {
+    throw new ReprocessError('The workspace has spent its monthly budget', 409);
+  }
+
+  const { path, ...restart } = RESTART[mode];
+
+  // Claim the contract first, so the AI service's updates find it in the restarted status
+  if (!(await moveContract(contract.id, contract, restart, actorId, mode))) {
+    throw new ReprocessError('The contract was changed by another request', 409);
+  }
+
+  let response: Response | null = null;
+  try {
+    const { id, storageKey, batch } = contract;
+    response = await callAiService(path, {
+      id,
+      ...(mode === 'ocr' && { key: storageKey }),
+      ...(batch && { batch: { id: batch.id, concurrency: batch.concurrency } }),
+    });
+  } catch (aiError) {
+    console.error('Failed to communicate with AI service:', aiError);
+  }
+  if (response?.ok) {
+    return;
+  }
+
+  // Nothing was queued, so put the contract back the way it was
+  const details = response ? await response.json().catch(() => null) : null;
+  await moveContract(contract.id, restart, contract, actorId);
+  throw new ReprocessError(
+    details?.details ?? 'The AI service could not be reached',
+    response?.status === 409 ? 409 : 502,
+  );
+}
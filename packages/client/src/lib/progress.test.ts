@@ -0,0 +1,34 @@
+import type { ContractProgress } from 'shared';
+import { describe, expect, it, vi } from 'vitest';
+import { publishProgress, subscribeProgress } from './progress';
+
+const update: ContractProgress = {
+  status: 'processing',
+  progress: 20,
+  stage: 'Reading page 2 of 8',
+};
+
+describe('progress events', () => {
+  it("delivers a contract's updates to its subscribers only", () => {
+    const listener = vi.fn();
+    const other = vi.fn();
+    const unsubscribe = subscribeProgress('contract-1', listener);
+    subscribeProgress('contract-2', other);
+
+    publishProgress('contract-1', update);
+
+    expect(listener).toHaveBeenCalledWith(update);
+    expect(other).not.toHaveBeenCalled();
+    unsubscribe();
+  });
+
+  it('stops delivering once the subscriber unsubscribes', () => {
+    const listener = vi.fn();
+    const unsubscribe = subscribeProgress('contract-1', listener);
+
+    unsubscribe();
+    publishProgress('contract-1', update);
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,28 @@
+import { EventEmitter } from 'events';
+import type { ContractProgress } from 'shared';
+
+// Progress updates fan out in-process from the contracts API to the open event streams
+declare global {
+  // eslint-disable-next-line no-var
+  var progressEvents: EventEmitter | undefined;
+}
+
+// Kept on the global object in production too, so every route bundle shares one emitter
+const events = (global.progressEvents ??= new EventEmitter());
+// Every open event stream adds a listener, so there is no sensible maximum
+events.setMaxListeners(0);
+
+export function publishProgress(contractId: string, progress: ContractProgress): void {
+  events.emit(contractId, progress);
+}
+
+// Listen for a contract's progress updates; returns the function that stops listening
+export function subscribeProgress(
+  contractId: string,
+  listener: (progress: ContractProgress) => void,
+): () => void {
+  events.on(contractId, listener);
+  return () => {
+    events.off(contractId, listener);
+  };
+}
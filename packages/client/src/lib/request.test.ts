@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { describe, expect, it } from 'vitest';
+import { readJsonBody } from './request';
+
+const post = (body: string) =>
+  new NextRequest('http://localhost:3000/api/auth/login', { method: 'POST', body });
+
+describe('readJsonBody', () => {
+  it('returns the object sent', async () => {
+    await expect(readJsonBody(post('{"email":"ada@example.com"}'))).resolves.toEqual({
+      email: 'ada@example.com',
+    });
+  });
+
+  it.each([
+    ['malformed JSON', '{"email":', 'Body must be valid JSON'],
+    ['an empty body', '', 'Body must be valid JSON'],
+    ['null', 'null', 'Body must be a JSON object'],
+    ['an array', '[]', 'Body must be a JSON object'],
+  ])('answers 400 for %s', async (_, body, error) => {
+    const response = (await readJsonBody(post(body))) as NextResponse;
+
+    expect(response.status).toBe(400);
+    await expect(response.json()).resolves.toEqual({ error });
+  });
+});
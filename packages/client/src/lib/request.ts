@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// The JSON object sent as the request body; returns the error response to send if the body is
+// not valid JSON or not an object
+export async function readJsonBody(
+  request: NextRequest,
+): Promise<Record<string, unknown> | NextResponse> {
+  let body: unknown;
+  try {
+    body = await request.json();
+  } catch {
+    return NextResponse.json({ error: 'Body must be valid JSON' }, { status: 400 });
+  }
+
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return NextResponse.json({ error: 'Body must be a JSON object' }, { status: 400 });
+  }
+  return body as Record<string, unknown>;
+}
@@ -0,0 +1,148 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { filtersWhere, parseSearchFilters, searchContracts } from './search';
+
+const { prisma } = vi.hoisted(() => ({
+  prisma: { $queryRaw: vi.fn(), contract: { findMany: vi.fn() } },
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma }));
+
+describe('searchContracts', () => {
+  afterEach(() => {
+    vi.resetAllMocks();
+  });
+
+  it('scopes the query to the workspace and stops when nothing matches', async () => {
+    prisma.$queryRaw.mockResolvedValue([]);
+
+    await expect(searchContracts('workspace-1', 'lease')).resolves.toEqual([]);
+    expect(prisma.$queryRaw).toHaveBeenCalledTimes(1);
+    const [, ...values] = prisma.$queryRaw.mock.calls[0];
+    expect(values.flatMap((value) => value.values ?? [value])).toContain('workspace-1');
+  });
+
+  it('puts the snippets of each contract with it and splits out the matches', async () => {
+    prisma.$queryRaw
+      .mockResolvedValueOnce([
+        { id: 'contract-2', rank: 0.8 },
+        { id: 'contract-3', rank: 0.5 },
+        { id: 'contract-1', rank: 0.3 },
+      ])
+      .mockResolvedValueOnce([
+        { contractId: 'contract-2', pageNumber: 4, headline: 'The \u0002lease\u0003\n  ends' },
+      ])
+      .mockResolvedValueOnce([
+        { contractId: 'contract-1', type: 'term', label: 'Term', headline: '\u0002Lease\u0003' },
+      ]);
+    // contract-3 was deleted between the queries
+    prisma.contract.findMany.mockResolvedValue([{ id: 'contract-1' }, { id: 'contract-2' }]);
+
+    expect(await searchContracts('workspace-1', 'lease')).toEqual([
+      {
+        contract: { id: 'contract-2' },
+        rank: 0.8,
+        pages: [
+          {
+            pageNumber: 4,
+            snippet: [
+              { text: 'The ', match: false },
+              { text: 'lease', match: true },
+              { text: ' ends', match: false },
+            ],
+          },
+        ],
+        clauses: [],
+      },
+      {
+        contract: { id: 'contract-1' },
+        rank: 0.3,
+        pages: [],
+        clauses: [{ type: 'term', label: 'Term', snippet: [{ text: 'Lease', match: true }] }],
+      },
+    ]);
+  });
+});
+
+describe('filtersWhere', () => {
+  it('scopes to the workspace and counts only clauses the review kept', () => {
+    const where = filtersWhere('workspace-1', {
+      status: ['completed'],
+      withClauses: ['termination'],
+      withoutClauses: ['non_compete'],
+      uploadedBefore: new Date('2026-01-01'),
+    });
+
+    expect(where).toMatchObject({
+      workspaceId: 'workspace-1',
+      status: { in: ['completed'] },
+      uploadedAt: { gte: undefined, lt: new Date('2026-01-01') },
+    });
+    expect(where.AND).toEqual([
+      { clauses: { some: expect.objectContaining({ type: 'termination' }) } },
+      {
+        clauses: {
+          none: {
+            type: 'non_compete',
+            reviewStatus: { not: 'rejected' },
+            OR: [{ reviewStatus: 'edited' }, { text: { not: null } }],
+          },
+        },
+      },
+    ]);
+  });
+
+  it('leaves out the filters that are not set', () => {
+    expect(filtersWhere('workspace-1')).toEqual({ workspaceId: 'workspace-1', AND: [] });
+  });
+});
+
+describe('parseSearchFilters', () => {
+  it('reads lists, dates and the metadata filters', () => {
+    const params = new URLSearchParams(
+      'status=completed,failed&clause=term&contractType=nda&contractType=msa&currency=usd' +
+        '&party=%20Acme%20&minValue=1000&effectiveAfter=2025-01-01&expiresBefore=2027-03-01',
+    );
+
+    expect(parseSearchFilters(params)).toEqual({
+      status: ['completed', 'failed'],
+      withClauses: ['term'],
+      withoutClauses: [],
+      contractType: ['nda', 'msa'],
+      currency: ['USD'],
+      party: 'Acme',
+      minValue: 1000,
+      effectiveAfter: new Date('2025-01-01T00:00:00Z'),
+      expiresBefore: new Date('2027-03-01T00:00:00Z'),
+    });
+  });
+
+  it.each([
+    ['status=archived', 'status must be one of'],
+    ['contractType=lease', 'contractType must be one of'],
+    ['currency=dollars', 'currency must be a three-letter ISO 4217 code'],
+    ['maxValue=lots', 'maxValue must be a number'],
+    ['expiresAfter=2026-02-30', 'expiresAfter must be a date as YYYY-MM-DD'],
+  ])('explains what is wrong with %s', (query, message) => {
+    expect(parseSearchFilters(new URLSearchParams(query))).toContain(message);
+  });
+});
+
+describe('filtersWhere with metadata', () => {
+  it('matches parties, law and jurisdiction by part of the name, ignoring case', () => {
+    expect(
+      filtersWhere('workspace-1', {
+        contractType: ['nda'],
+        party: 'acme',
+        governingLaw: 'new york',
+        maxValue: 50000,
+        expiresAfter: new Date('2026-01-01'),
+      }),
+    ).toMatchObject({
+      contractType: { in: ['nda'] },
+      parties: { some: { name: { contains: 'acme', mode: 'insensitive' } } },
+      governingLaw: { contains: 'new york', mode: 'insensitive' },
+      contractValue: { gte: undefined, lte: 50000 },
+      expirationDate: { gte: new Date('2026-01-01'), lt: undefined },
+    });
+  });
+});
@@ -0,0 +1,347 @@
+import { Prisma } from '@prisma/client';
+import type { Contract, ContractStatus, ContractType } from '@prisma/client';
+import { CONTRACT_TYPES, isCalendarDate, isCurrencyCode } from 'shared';
+import { prisma } from '@/lib/prisma';
+
+/**
+ * Contract search
+ *
+ * Postgres full-text search over the pages of each contract (ContractPage, stored by the AI
+ * service once it has read the document) and the text of its clauses as reviewed. Queries
+ * use web search syntax: "quoted phrases", OR, and -excluded words. Contracts are ranked
+ * by how well their best page and clause match, and each result carries highlighted snippets
+ * of its best matching pages and of its matching clauses.
+ */
+
+// The expressions of the full-text indexes in the add_contract_search migration; the
+// queries below must repeat them exactly for Postgres to use the indexes, so the page length
+// is written out rather than passed as a parameter. Only the start of an overly long page is
+// indexed, as a tsvector cannot exceed 1 MB
+const PAGE_VECTOR = Prisma.sql`to_tsvector('english', left(p."text", 250000))`;
+// A clause's text as reviewed: the reviewer's correction, nothing if rejected, else the AI's text
+export const CLAUSE_TEXT = Prisma.sql`CASE cl."reviewStatus" WHEN 'edited' THEN cl."reviewedText" WHEN 'rejected' THEN NULL ELSE cl."text" END`;
+const CLAUSE_VECTOR = Prisma.sql`to_tsvector('english', coalesce(${CLAUSE_TEXT}, ''))`;
+
+// Matches are marked with control characters, which contract text does not use, and split
+// into segments here, so snippets never carry markup for the browser to render
+const MATCH_START = '\u0002';
+const MATCH_END = '\u0003';
+const HEADLINE_OPTIONS = `StartSel=${MATCH_START}, StopSel=${MATCH_END}, MaxWords=30, MinWords=10, MaxFragments=2, FragmentDelimiter=" … "`;
+
+// Best matching pages shown per contract
+const PAGES_PER_RESULT = 3;
+
+export const MAX_SEARCH_RESULTS = 100;
+
+// A snippet of text, split into the parts that matched the query and those that did not
+export type Snippet = { text: string; match: boolean }[];
+
+export interface SearchFilters {
+  status?: ContractStatus[];
+  // Clause types the contract must have, or must not have, a clause for
+  withClauses?: string[];
+  withoutClauses?: string[];
+  uploadedAfter?: Date;
+  uploadedBefore?: Date;
+  // Metadata read by the AI service; contracts it has not been read for match none of these
+  contractType?: ContractType[];
+  // Part of a party's name, of the governing law or of the jurisdiction, ignoring case
+  party?: string;
+  governingLaw?: string;
+  jurisdiction?: string;
+  currency?: string[];
+  // Contract value bounds, both inclusive, in whatever currency the contract is in
+  minValue?: number;
+  maxValue?: number;
+  effectiveAfter?: Date;
+  effectiveBefore?: Date;
+  expiresAfter?: Date;
+  expiresBefore?: Date;
+}
+
+export interface SearchResult {
+  contract: Pick<
+    Contract,
+    'id' | 'fileName' | 'status' | 'reviewStatus' | 'riskScore' | 'uploadedAt'
+  >;
+  rank: number;
+  pages: { pageNumber: number; snippet: Snippet }[];
+  clauses: { type: string; label: string; snippet: Snippet }[];
+}
+
+const STATUSES: ContractStatus[] = ['pending', 'processing', 'extracting', 'completed', 'failed'];
+
+// Repeated parameters and comma-separated lists both work: ?status=completed&status=failed
+export const listParam = (params: URLSearchParams, name: string) =>
+  params
+    .getAll(name)
+    .flatMap((value) => value.split(','))
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+// Read the filters from the query string; returns the problem if one is not valid
+export function parseSearchFilters(params: URLSearchParams): SearchFilters | string {
+  const status = listParam(params, 'status');
+  if (!status.every((value) => STATUSES.includes(value as ContractStatus))) {
+    return `status must be one of ${STATUSES.join(', ')}`;
+  }
+
+  const filters: SearchFilters = {
+    status: status as ContractStatus[],
+    withClauses: listParam(params, 'clause'),
+    withoutClauses: listParam(params, 'missingClause'),
+  };
+  for (const name of ['uploadedAfter', 'uploadedBefore'] as const) {
+    const value = params.get(name);
+    if (value) {
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        return `${name} must be a date`;
+      }
+      filters[name] = date;
+    }
+  }
+
+  const contractType = listParam(params, 'contractType');
+  if (!contractType.every((value) => CONTRACT_TYPES.includes(value as ContractType))) {
+    return `contractType must be one of ${CONTRACT_TYPES.join(', ')}`;
+  }
+  filters.contractType = contractType as ContractType[];
+  const currency = listParam(params, 'currency').map((value) => value.toUpperCase());
+  if (!currency.every(isCurrencyCode)) {
+    return 'currency must be a three-letter ISO 4217 code';
+  }
+  filters.currency = currency;
+  for (const name of ['party', 'governingLaw', 'jurisdiction'] as const) {
+    const value = params.get(name)?.trim();
+    if (value) {
+      filters[name] = value;
+    }
+  }
+  for (const name of ['minValue', 'maxValue'] as const) {
+    const value = params.get(name);
+    if (value) {
+      const amount = Number(value);
+      if (!Number.isFinite(amount)) {
+        return `${name} must be a number`;
+      }
+      filters[name] = amount;
+    }
+  }
+  // Metadata dates have no time of day, so these take calendar dates only
+  for (const name of [
+    'effectiveAfter',
+    'effectiveBefore',
+    'expiresAfter',
+    'expiresBefore',
+  ] as const) {
+    const value = params.get(name);
+    if (value) {
+      if (!isCalendarDate(value)) {
+        return `${name} must be a date as YYYY-MM-DD`;
+      }
+      filters[name] = new Date(`${value}T00:00:00Z`);
+    }
+  }
+  return filters;
+}
+
+// A LIKE pattern matching text that contains the value
+const containing = (value: string) => `%${value.replace(/[\\%_]/g, '\\$&')}%`;
+
+function toSnippet(headline: string): Snippet {
+  // Splitting on a capturing pattern puts the matched words at the odd indexes
+  return headline
+    .replace(/\s+/g, ' ')
+    .split(new RegExp(`${MATCH_START}([^${MATCH_END}]*)${MATCH_END}`))
+    .map((text, index) => ({ text, match: index % 2 === 1 }))
+    .filter((segment) => segment.text.length > 0);
+}
+
+const hasClause = (type: string) =>
+  Prisma.sql`EXISTS (SELECT 1 FROM "Clause" cl WHERE cl."contractId" = c."id" AND cl."type" = ${type} AND ${CLAUSE_TEXT} IS NOT NULL)`;
+
+// The filters as a Prisma condition, for listing contracts without a query
+export function filtersWhere(
+  workspaceId: string,
+  filters: SearchFilters = {},
+): Prisma.ContractWhereInput {
+  // A clause the contract has: text as reviewed, i.e. not rejected and either found or edited
+  const present = (type: string): Prisma.ClauseWhereInput => ({
+    type,
+    reviewStatus: { not: 'rejected' },
+    OR: [{ reviewStatus: 'edited' }, { text: { not: null } }],
+  });
+  return {
+    workspaceId,
+    ...(filters.status?.length && { status: { in: filters.status } }),
+    ...((filters.uploadedAfter || filters.uploadedBefore) && {
+      uploadedAt: { gte: filters.uploadedAfter, lt: filters.uploadedBefore },
+    }),
+    ...(filters.contractType?.length && { contractType: { in: filters.contractType } }),
+    ...(filters.currency?.length && { currency: { in: filters.currency } }),
+    ...(filters.party && {
+      parties: { some: { name: { contains: filters.party, mode: 'insensitive' } } },
+    }),
+    ...(filters.governingLaw && {
+      governingLaw: { contains: filters.governingLaw, mode: 'insensitive' },
+    }),
+    ...(filters.jurisdiction && {
+      jurisdiction: { contains: filters.jurisdiction, mode: 'insensitive' },
+    }),
+    ...((filters.minValue !== undefined || filters.maxValue !== undefined) && {
+      contractValue: { gte: filters.minValue, lte: filters.maxValue },
+    }),
+    ...((filters.effectiveAfter || filters.effectiveBefore) && {
+      effectiveDate: { gte: filters.effectiveAfter, lt: filters.effectiveBefore },
+    }),
+    ...((filters.expiresAfter || filters.expiresBefore) && {
+      expirationDate: { gte: filters.expiresAfter, lt: filters.expiresBefore },
+    }),
+    AND: [
+      ...(filters.withClauses ?? []).map((type) => ({ clauses: { some: present(type) } })),
+      ...(filters.withoutClauses ?? []).map((type) => ({ clauses: { none: present(type) } })),
+    ],
+  };
+}
+
+// The metadata filters as SQL conditions on c, the Contract
+function metadataConditions(filters: SearchFilters): Prisma.Sql[] {
+  const conditions: Prisma.Sql[] = [];
+  if (filters.contractType?.length) {
+    conditions.push(Prisma.sql`c."contractType"::text IN (${Prisma.join(filters.contractType)})`);
+  }
+  if (filters.currency?.length) {
+    conditions.push(Prisma.sql`c."currency" IN (${Prisma.join(filters.currency)})`);
+  }
+  if (filters.party) {
+    conditions.push(
+      Prisma.sql`EXISTS (SELECT 1 FROM "ContractParty" cp WHERE cp."contractId" = c."id" AND cp."name" ILIKE ${containing(filters.party)})`,
+    );
+  }
+  if (filters.governingLaw) {
+    conditions.push(Prisma.sql`c."governingLaw" ILIKE ${containing(filters.governingLaw)}`);
+  }
+  if (filters.jurisdiction) {
+    conditions.push(Prisma.sql`c."jurisdiction" ILIKE ${containing(filters.jurisdiction)}`);
+  }
+  if (filters.minValue !== undefined) {
+    conditions.push(Prisma.sql`c."contractValue" >= ${filters.minValue}`);
+  }
+  if (filters.maxValue !== undefined) {
+    conditions.push(Prisma.sql`c."contractValue" <= ${filters.maxValue}`);
+  }
+  const dates = [
+    ['effectiveDate', filters.effectiveAfter, filters.effectiveBefore],
+    ['expirationDate', filters.expiresAfter, filters.expiresBefore],
+  ] as const;
+  for (const [column, from, to] of dates) {
+    if (from) {
+      conditions.push(Prisma.sql`c.${Prisma.raw(`"${column}"`)} >= ${from}::date`);
+    }
+    if (to) {
+      conditions.push(Prisma.sql`c.${Prisma.raw(`"${column}"`)} < ${to}::date`);
+    }
+  }
+  return conditions;
+}
+
+// Search the workspace's contracts; results are ordered by rank, best first
+export async function searchContracts(
+  workspaceId: string,
+  query: string,
+  filters: SearchFilters = {},
+  limit = 20,
+): Promise<SearchResult[]> {
+  const tsquery = Prisma.sql`websearch_to_tsquery('english', ${query})`;
+
+  const conditions = [
+    Prisma.sql`c."workspaceId" = ${workspaceId}`,
+    Prisma.sql`(EXISTS (SELECT 1 FROM "ContractPage" p WHERE p."contractId" = c."id" AND ${PAGE_VECTOR} @@ ${tsquery}) OR EXISTS (SELECT 1 FROM "Clause" cl WHERE cl."contractId" = c."id" AND ${CLAUSE_VECTOR} @@ ${tsquery}))`,
+    ...(filters.status?.length
+      ? [Prisma.sql`c."status"::text IN (${Prisma.join(filters.status)})`]
+      : []),
+    ...(filters.withClauses ?? []).map(hasClause),
+    ...(filters.withoutClauses ?? []).map((type) => Prisma.sql`NOT ${hasClause(type)}`),
+    ...(filters.uploadedAfter ? [Prisma.sql`c."uploadedAt" >= ${filters.uploadedAfter}`] : []),
+    ...(filters.uploadedBefore ? [Prisma.sql`c."uploadedAt" < ${filters.uploadedBefore}`] : []),
+    ...metadataConditions(filters),
+  ];
+
+  const ranked = await prisma.$queryRaw<{ id: string; rank: number }[]>`
+    SELECT c."id",
+      coalesce((
+        SELECT max(ts_rank_cd(${PAGE_VECTOR}, ${tsquery}))
+        FROM "ContractPage" p WHERE p."contractId" = c."id" AND ${PAGE_VECTOR} @@ ${tsquery}
+      ), 0) + coalesce((
+        SELECT max(ts_rank_cd(${CLAUSE_VECTOR}, ${tsquery}))
+        FROM "Clause" cl WHERE cl."contractId" = c."id"
+      ), 0) AS "rank"
+    FROM "Contract" c
+    WHERE ${Prisma.join(conditions, ' AND ')}
+    ORDER BY "rank" DESC, c."uploadedAt" DESC
+    LIMIT ${limit}`;
+  if (ranked.length === 0) {
+    return [];
+  }
+  const ids = ranked.map((row) => row.id);
+
+  // Headlines are costly, so only the best pages of each contract get one
+  const pages = await prisma.$queryRaw<
+    { contractId: string; pageNumber: number; headline: string }[]
+  >`
+    SELECT "contractId", "pageNumber", ts_headline('english', "text", ${tsquery}, ${HEADLINE_OPTIONS}) AS "headline"
+    FROM (
+      SELECT p."contractId", p."pageNumber", p."text", row_number() OVER (
+        PARTITION BY p."contractId" ORDER BY ts_rank_cd(${PAGE_VECTOR}, ${tsquery}) DESC, p."pageNumber"
+      ) AS "position"
+      FROM "ContractPage" p
+      WHERE p."contractId" IN (${Prisma.join(ids)}) AND ${PAGE_VECTOR} @@ ${tsquery}
+    ) best
+    WHERE "position" <= ${PAGES_PER_RESULT}
+    ORDER BY "contractId", "position"`;
+
+  const clauses = await prisma.$queryRaw<
+    { contractId: string; type: string; label: string; headline: string }[]
+  >`
+    SELECT cl."contractId", cl."type", cl."label", ts_headline('english', ${CLAUSE_TEXT}, ${tsquery}, ${HEADLINE_OPTIONS}) AS "headline"
+    FROM "Clause" cl
+    WHERE cl."contractId" IN (${Prisma.join(ids)}) AND ${CLAUSE_VECTOR} @@ ${tsquery}
+    ORDER BY cl."label"`;
+
+  const contracts = await prisma.contract.findMany({
+    where: { id: { in: ids } },
+    select: {
+      id: true,
+      fileName: true,
+      status: true,
+      reviewStatus: true,
+      riskScore: true,
+      uploadedAt: true,
+    },
+  });
+
+  return ranked.flatMap(({ id, rank }) => {
+    const contract = contracts.find((candidate) => candidate.id === id);
+    // Deleted between the queries
+    if (!contract) {
+      return [];
+    }
+    return [
+      {
+        contract,
+        rank,
+        pages: pages
+          .filter((page) => page.contractId === id)
+          .map((page) => ({ pageNumber: page.pageNumber, snippet: toSnippet(page.headline) })),
+        clauses: clauses
+          .filter((clause) => clause.contractId === id)
+          .map((clause) => ({
+            type: clause.type,
+            label: clause.label,
+            snippet: toSnippet(clause.headline),
+          })),
+      },
+    ];
+  });
+}
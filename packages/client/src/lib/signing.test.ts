@@ -0,0 +1,52 @@
+import { NextRequest } from 'next/server';
+import { signRequest } from 'shared';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { rejectUnsigned } from './signing';
+
+const URL = 'http://localhost:3000/api/contracts/contract-1';
+const BODY = '{"status":"processing"}';
+
+const request = (headers: Record<string, string>) =>
+  new NextRequest(URL, { method: 'PUT', body: BODY, headers });
+
+describe('rejectUnsigned', () => {
+  beforeEach(() => {
+    vi.stubEnv('SERVICE_SIGNING_SECRET', 'test-secret');
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('lets a request signed by the AI service through', () => {
+    const headers = signRequest('test-secret', {
+      method: 'PUT',
+      path: '/api/contracts/contract-1',
+      body: BODY,
+    });
+
+    expect(rejectUnsigned(request(headers), BODY)).toBeNull();
+  });
+
+  it('answers 401 for a request signed over another body', async () => {
+    const headers = signRequest('test-secret', {
+      method: 'PUT',
+      path: '/api/contracts/contract-1',
+      body: '{"status":"completed"}',
+    });
+
+    const response = rejectUnsigned(request(headers), BODY);
+
+    expect(response?.status).toBe(401);
+    await expect(response?.json()).resolves.toEqual({ error: 'Invalid signature' });
+  });
+
+  it('answers 500 when no signing secret is configured', () => {
+    vi.stubEnv('SERVICE_SIGNING_SECRET', '');
+    global.requestVerifier = undefined;
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    expect(rejectUnsigned(request({}), BODY)?.status).toBe(500);
+  });
+});
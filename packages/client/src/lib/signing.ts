@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { RequestVerifier, SignatureError, serviceSigningSecret, signRequest } from 'shared';
+
+// One verifier per process, so a nonce accepted by any route is rejected by all of them
+declare global {
+  // eslint-disable-next-line no-var
+  var requestVerifier: RequestVerifier | undefined;
+}
+
+// Headers that sign a request to the AI service
+export function signedHeaders(method: string, url: string, body: string): Record<string, string> {
+  return signRequest(serviceSigningSecret(), { method, path: new URL(url).pathname, body });
+}
+
+// Check that a request was signed by the AI service; returns the error response to send if not
+export function rejectUnsigned(request: NextRequest, body: string): NextResponse | null {
+  try {
+    global.requestVerifier ??= new RequestVerifier(serviceSigningSecret());
+    global.requestVerifier.verify(
+      { method: request.method, path: request.nextUrl.pathname, body },
+      (name) => request.headers.get(name),
+    );
+    return null;
+  } catch (error) {
+    if (error instanceof SignatureError) {
+      return NextResponse.json({ error: error.message }, { status: 401 });
+    }
+    console.error('Error checking request signature:', error);
+    return NextResponse.json({ error: 'Failed to check the request signature' }, { status: 500 });
+  }
+}
@@ -0,0 +1,4 @@
+import { createBlobStore } from 'shared';
+
+// Blob store for uploaded documents, selected by STORAGE_DRIVER (gcs, s3 or local)
+export const blobStore = createBlobStore();
@@ -0,0 +1,91 @@
+import { strToU8, zipSync } from 'fflate';
+import { PDFDocument } from 'pdf-lib';
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_UPLOAD_BYTES,
+  UploadError,
+  contentHash,
+  contentTypeOf,
+  sanitizeFileName,
+  validateDocument,
+} from './uploads';
+
+const pdfWithPages = async (pages: number) => {
+  const pdf = await PDFDocument.create();
+  for (let page = 0; page < pages; page++) {
+    pdf.addPage();
+  }
+  return Buffer.from(await pdf.save());
+};
+
+describe('sanitizeFileName', () => {
+  it.each([
+    ['Lease (2023).PDF', 'Lease (2023).pdf'],
+    ['../../etc/passwd', 'passwd.pdf'],
+    ['C:\\Users\\me\\NDA v2.pdf', 'NDA v2.pdf'],
+    ['Lease*final?.pdf', 'Lease_final.pdf'],
+    ['Vertrag   über  Miete.pdf', 'Vertrag über Miete.pdf'],
+    ['...', 'document.pdf'],
+  ])('turns %j into %j', (name, expected) => {
+    expect(sanitizeFileName(name, 'pdf')).toBe(expected);
+  });
+
+  it('keeps long names within the limit, extension included', () => {
+    const name = sanitizeFileName(`${'a'.repeat(300)}.pdf`, 'pdf');
+
+    expect(name).toHaveLength(200);
+    expect(name.endsWith('a.pdf')).toBe(true);
+  });
+});
+
+describe('validateDocument', () => {
+  it('returns the sanitized name, page count and content hash', async () => {
+    const data = await pdfWithPages(2);
+
+    await expect(validateDocument('../MSA.PDF', data)).resolves.toEqual({
+      name: 'MSA.pdf',
+      data,
+      documentType: 'pdf',
+      contentType: 'application/pdf',
+      contentHash: contentHash(data),
+      pageCount: 2,
+    });
+  });
+
+  it('accepts Word documents, whose pages are only known once they are read', async () => {
+    const data = Buffer.from(zipSync({ 'word/document.xml': strToU8('<w:document/>') }));
+
+    await expect(validateDocument('NDA.docx', data)).resolves.toMatchObject({
+      name: 'NDA.docx',
+      documentType: 'docx',
+      contentType: contentTypeOf('docx'),
+      pageCount: null,
+    });
+  });
+
+  it('refuses files that are not documents or do not parse', async () => {
+    await expect(validateDocument('msa.pdf', Buffer.from('MZ'))).rejects.toThrow(
+      'msa.pdf is neither a PDF nor a Word document',
+    );
+    await expect(validateDocument('msa.pdf', Buffer.from('%PDF-1.7 truncated'))).rejects.toThrow(
+      'msa.pdf is not a readable PDF document',
+    );
+  });
+
+  it('refuses files over the size limit with a 413', async () => {
+    const error = await validateDocument('msa.pdf', Buffer.alloc(MAX_UPLOAD_BYTES + 1)).catch(
+      (caught: unknown) => caught,
+    );
+
+    expect(error).toBeInstanceOf(UploadError);
+    expect(error).toMatchObject({ status: 413 });
+  });
+});
+
+describe('contentHash', () => {
+  it('is the hex SHA-256 of the content', () => {
+    expect(contentHash(Buffer.from('abc'))).toBe(
+      'ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+    );
+  });
+});
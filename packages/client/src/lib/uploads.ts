@@ -0,0 +1,108 @@
+import { createHash } from 'crypto';
+import path from 'path';
+import type { DocumentType } from '@prisma/client';
+import { PDFDocument } from 'pdf-lib';
+import { detectFileKind } from 'shared';
+
+/**
+ * Upload validation
+ *
+ * Uploads are identified by their content, never by the name or MIME type the browser
+ * sent (see detectFileKind in the shared package): a PDF, a Word document or a ZIP
+ * archive of documents. Documents must parse and stay within the size and page limits,
+ * and names are reduced to a safe subset before they reach the database or a storage
+ * key. The SHA-256 of the content identifies a document for deduplication within a
+ * workspace.
+ */
+
+const megabytes = (value: string | undefined, fallback: number) =>
+  (Number(value) || fallback) * 1024 * 1024;
+
+// Largest file accepted, whether uploaded directly or unpacked from an archive
+export const MAX_UPLOAD_BYTES = megabytes(process.env.MAX_UPLOAD_MB, 50);
+
+export const MAX_UPLOAD_PAGES = Number(process.env.MAX_UPLOAD_PAGES) || 500;
+
+const MAX_FILE_NAME_LENGTH = 200;
+
+export class UploadError extends Error {
+  constructor(
+    message: string,
+    // 400 for files that are not acceptable, 413 for files over a limit
+    public readonly status: 400 | 413 = 400,
+  ) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+const CONTENT_TYPES: Record<DocumentType, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+};
+
+export const contentTypeOf = (documentType: DocumentType) => CONTENT_TYPES[documentType];
+
+// Keep letters, digits and a few separators of the base name, and force the extension
+export function sanitizeFileName(name: string, extension: string): string {
+  const base = path.posix
+    .basename(name.replace(/\\/g, '/'))
+    .replace(/\.[^.]*$/, '')
+    .normalize('NFC')
+    .replace(/[^\p{L}\p{N} ._()-]+/gu, '_')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s._-]+|[\s._-]+$/g, '')
+    .slice(0, MAX_FILE_NAME_LENGTH - extension.length - 1);
+  return `${base || 'document'}.${extension}`;
+}
+
+export const contentHash = (data: Buffer) => createHash('sha256').update(data).digest('hex');
+
+export interface ValidatedDocument {
+  name: string;
+  data: Buffer;
+  documentType: DocumentType;
+  contentType: string;
+  contentHash: string;
+  // Only PDFs have a fixed page count; Word documents are paginated when they are read
+  pageCount: number | null;
+}
+
+// Check a PDF or Word document against the limits; throws an UploadError if it is not acceptable
+export async function validateDocument(name: string, data: Buffer): Promise<ValidatedDocument> {
+  if (data.length > MAX_UPLOAD_BYTES) {
+    throw new UploadError(`${name} is larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`, 413);
+  }
+
+  const kind = detectFileKind(data);
+  if (kind !== 'pdf' && kind !== 'docx') {
+    throw new UploadError(`${name} is neither a PDF nor a Word document`);
+  }
+
+  return {
+    name: sanitizeFileName(name, kind),
+    data,
+    documentType: kind,
+    contentType: contentTypeOf(kind),
+    contentHash: contentHash(data),
+    pageCount: kind === 'pdf' ? await countPdfPages(name, data) : null,
+  };
+}
+
+async function countPdfPages(name: string, data: Buffer): Promise<number> {
+  let pageCount: number;
+  try {
+    // Encrypted PDFs still have a readable page tree
+    const pdf = await PDFDocument.load(data, { ignoreEncryption: true, updateMetadata: false });
+    pageCount = pdf.getPageCount();
+  } catch {
+    throw new UploadError(`${name} is not a readable PDF document`);
+  }
+  if (pageCount === 0) {
+    throw new UploadError(`${name} has no pages`);
+  }
+  if (pageCount > MAX_UPLOAD_PAGES) {
+    throw new UploadError(`${name} has more than ${MAX_UPLOAD_PAGES} pages`, 413);
+  }
+  return pageCount;
+}
@@ -0,0 +1,87 @@
+import { Prisma } from '@prisma/client';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { budgetStatus, monthStart, recordUsage } from './usage';
+
+const prisma = vi.hoisted(() => ({
+  workspace: { findUniqueOrThrow: vi.fn() },
+  usageRecord: { aggregate: vi.fn(), createMany: vi.fn() },
+}));
+
+vi.mock('@/lib/prisma', () => ({ prisma }));
+
+const NOW = new Date('2026-10-19T15:30:00Z');
+
+const spend = (budget: string | null, spent: string | null) => {
+  prisma.workspace.findUniqueOrThrow.mockResolvedValue({
+    monthlyBudgetUsd: budget === null ? null : new Prisma.Decimal(budget),
+  });
+  prisma.usageRecord.aggregate.mockResolvedValue({
+    _sum: { costUsd: spent === null ? null : new Prisma.Decimal(spent) },
+  });
+};
+
+beforeEach(() => {
+  vi.clearAllMocks();
+});
+
+describe('monthStart', () => {
+  it('is midnight UTC on the first of the month', () => {
+    expect(monthStart(NOW)).toEqual(new Date('2026-10-01T00:00:00Z'));
+    expect(monthStart(new Date('2026-12-31T23:59:59Z'))).toEqual(new Date('2026-12-01T00:00:00Z'));
+  });
+});
+
+describe('budgetStatus', () => {
+  it('sums the spend since the start of the month', async () => {
+    spend('100', '42.5');
+
+    await expect(budgetStatus('workspace-1', NOW)).resolves.toEqual({
+      month: '2026-10',
+      monthlyBudgetUsd: 100,
+      spentUsd: 42.5,
+      exceeded: false,
+    });
+    expect(prisma.usageRecord.aggregate).toHaveBeenCalledWith({
+      where: { workspaceId: 'workspace-1', createdAt: { gte: new Date('2026-10-01T00:00:00Z') } },
+      _sum: { costUsd: true },
+    });
+  });
+
+  it('is exceeded once the spend reaches the budget', async () => {
+    spend('100', '100');
+
+    await expect(budgetStatus('workspace-1', NOW)).resolves.toMatchObject({ exceeded: true });
+  });
+
+  it('is never exceeded without a budget, and counts no usage as nothing spent', async () => {
+    spend(null, null);
+
+    await expect(budgetStatus('workspace-1', NOW)).resolves.toMatchObject({
+      monthlyBudgetUsd: null,
+      spentUsd: 0,
+      exceeded: false,
+    });
+  });
+});
+
+describe('recordUsage', () => {
+  it('stores each record under its owner', async () => {
+    const record = {
+      kind: 'ocr' as const,
+      provider: 'google',
+      model: null,
+      pages: 3,
+      inputTokens: 0,
+      outputTokens: 0,
+      costUsd: 0.0045,
+    };
+
+    await recordUsage(prisma as never, { workspaceId: 'workspace-1', contractId: 'contract-1' }, [
+      record,
+    ]);
+
+    expect(prisma.usageRecord.createMany).toHaveBeenCalledWith({
+      data: [{ workspaceId: 'workspace-1', contractId: 'contract-1', batchId: null, ...record }],
+    });
+  });
+});
@@ -0,0 +1,148 @@
+import { Prisma } from '@prisma/client';
+import type { UsageRecord as ReportedUsage } from 'shared';
+import { prisma } from '@/lib/prisma';
+
+/**
+ * Usage and budgets
+ *
+ * The AI service reports the OCR pages and model tokens each pipeline stage used,
+ * already priced with its rate table (packages/ai-service/config/rates.json), and
+ * they are kept as UsageRecord rows of the contract's workspace and batch. A
+ * workspace may set a monthly budget: once the calendar month's (UTC) spend
+ * reaches it, new uploads wait with pausedAt set, extractions under way pause
+ * before their next model stage and reprocessing is refused, until the budget is
+ * raised or the next month begins (see resumePausedContracts).
+ */
+
+export const USAGE_GROUPINGS = ['month', 'contract', 'batch'] as const;
+
+export type UsageGrouping = (typeof USAGE_GROUPINGS)[number];
+
+// Totals of one month, contract or batch
+export interface UsageRow {
+  // "2026-10" by month, else the contract or batch id; null for usage outside any contract or batch
+  key: string | null;
+  // File name of the contract or name of the batch
+  label: string | null;
+  pages: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  // Records the rate table had no price for; costUsd leaves them out
+  unpricedRecords: number;
+}
+
+export interface BudgetStatus {
+  // "2026-10"
+  month: string;
+  monthlyBudgetUsd: number | null;
+  spentUsd: number;
+  exceeded: boolean;
+}
+
+export interface UsageOwner {
+  workspaceId: string;
+  contractId?: string | null;
+  batchId?: string | null;
+}
+
+// Midnight UTC on the first of the date's month
+export const monthStart = (date = new Date()) =>
+  new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+// Store usage reported by the AI service (or returned with a query embedding) for the owner
+export function recordUsage(
+  db: Prisma.TransactionClient,
+  { workspaceId, contractId = null, batchId = null }: UsageOwner,
+  records: ReportedUsage[],
+) {
+  return db.usageRecord.createMany({
+    data: records.map((record) => ({ workspaceId, contractId, batchId, ...record })),
+  });
+}
+
+// The workspace's spend this month against its budget
+export async function budgetStatus(workspaceId: string, now = new Date()): Promise<BudgetStatus> {
+  const [workspace, spent] = await Promise.all([
+    prisma.workspace.findUniqueOrThrow({
+      where: { id: workspaceId },
+      select: { monthlyBudgetUsd: true },
+    }),
+    prisma.usageRecord.aggregate({
+      where: { workspaceId, createdAt: { gte: monthStart(now) } },
+      _sum: { costUsd: true },
+    }),
+  ]);
+
+  const monthlyBudgetUsd = workspace.monthlyBudgetUsd?.toNumber() ?? null;
+  const spentUsd = spent._sum.costUsd?.toNumber() ?? 0;
+  return {
+    month: monthStart(now).toISOString().slice(0, 7),
+    monthlyBudgetUsd,
+    spentUsd,
+    exceeded: monthlyBudgetUsd !== null && spentUsd >= monthlyBudgetUsd,
+  };
+}
+
+const GROUP_COLUMNS: Record<UsageGrouping, { key: Prisma.Sql; label: Prisma.Sql }> = {
+  month: {
+    key: Prisma.sql`to_char(date_trunc('month', u."createdAt"), 'YYYY-MM')`,
+    label: Prisma.sql`NULL`,
+  },
+  contract: { key: Prisma.sql`u."contractId"`, label: Prisma.sql`c."fileName"` },
+  batch: { key: Prisma.sql`u."batchId"`, label: Prisma.sql`b."name"` },
+};
+
+// The workspace's usage from `from` up to `to`, totalled by month (newest first) or by contract
+// or batch (most expensive first)
+export async function usageReport(
+  workspaceId: string,
+  grouping: UsageGrouping,
+  from: Date | null,
+  to: Date | null,
+): Promise<UsageRow[]> {
+  const { key, label } = GROUP_COLUMNS[grouping];
+  const conditions = [Prisma.sql`u."workspaceId" = ${workspaceId}`];
+  if (from) {
+    conditions.push(Prisma.sql`u."createdAt" >= ${from}`);
+  }
+  if (to) {
+    conditions.push(Prisma.sql`u."createdAt" < ${to}`);
+  }
+  const order =
+    grouping === 'month' ? Prisma.sql`1 DESC` : Prisma.sql`SUM(u."costUsd") DESC NULLS LAST`;
+
+  const rows = await prisma.$queryRaw<
+    {
+      key: string | null;
+      label: string | null;
+      pages: bigint;
+      inputTokens: bigint;
+      outputTokens: bigint;
+      costUsd: Prisma.Decimal | null;
+      unpricedRecords: bigint;
+    }[]
+  >`
+    SELECT ${key} AS "key", ${label} AS "label",
+      SUM(u."pages") AS "pages",
+      SUM(u."inputTokens") AS "inputTokens",
+      SUM(u."outputTokens") AS "outputTokens",
+      SUM(u."costUsd") AS "costUsd",
+      COUNT(*) FILTER (WHERE u."costUsd" IS NULL) AS "unpricedRecords"
+    FROM "UsageRecord" u
+    LEFT JOIN "Contract" c ON c."id" = u."contractId"
+    LEFT JOIN "Batch" b ON b."id" = u."batchId"
+    WHERE ${Prisma.join(conditions, ' AND ')}
+    GROUP BY 1, 2
+    ORDER BY ${order}`;
+
+  return rows.map((row) => ({
+    key: row.key,
+    label: row.label,
+    pages: Number(row.pages),
+    inputTokens: Number(row.inputTokens),
+    outputTokens: Number(row.outputTokens),
+    costUsd: row.costUsd === null ? 0 : Number(row.costUsd),
+    unpricedRecords: Number(row.unpricedRecords),
+  }));
+}
@@ -0,0 +1,464 @@
+import { createHmac, randomBytes, randomUUID } from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP } from 'net';
+import { Prisma } from '@prisma/client';
+import type { Contract, WebhookDelivery, WebhookSubscription } from '@prisma/client';
+import type { Deadline } from '@/lib/deadlines';
+import { prisma } from '@/lib/prisma';
+
+/**
+ * Outbound webhooks
+ *
+ * Admins subscribe URLs of their workspace to event types. An event is written as one
+ * WebhookDelivery row per matching subscription in the same transaction as the change it
+ * reports, so no event is lost or sent for a change that was rolled back. The dispatcher,
+ * started with the server (src/instrumentation.ts), claims due deliveries with FOR UPDATE
+ * SKIP LOCKED and POSTs them; failed attempts are retried with exponential backoff until
+ * WEBHOOK_MAX_ATTEMPTS. The rows are the delivery log, and a finished delivery can be sent
+ * again as a new delivery of the same event.
+ *
+ * Payloads are signed as in the Standard Webhooks specification: the webhook-signature
+ * header is "v1,<base64 HMAC-SHA256 of '<webhook-id>.<webhook-timestamp>.<body>'>", keyed
+ * with the base64-decoded part of the subscription's "whsec_" secret.
+ *
+ * Endpoints must resolve to public addresses, so that webhooks cannot be pointed at the
+ * server's own network or a cloud metadata service. Hostnames are checked when a
+ * subscription is saved and again as each attempt connects, to the address it connects to,
+ * as DNS can change in between. WEBHOOK_ALLOW_PRIVATE_URLS=true lifts this for development.
+ * Response bodies are not read: the log keeps the status code only.
+ */
+
+export const WEBHOOK_EVENTS = [
+  'contract.uploaded',
+  'contract.completed',
+  'contract.failed',
+  'review.completed',
+  'deadline.approaching',
+] as const;
+
+export type WebhookEvent = (typeof WEBHOOK_EVENTS)[number];
+
+// A contract as webhook payloads describe it
+export type WebhookContract = Pick<
+  Contract,
+  | 'id'
+  | 'fileName'
+  | 'documentType'
+  | 'status'
+  | 'reviewStatus'
+  | 'riskScore'
+  | 'uploadedAt'
+  | 'batchId'
+>;
+
+// Data sent with each event type
+export interface WebhookEventData {
+  'contract.uploaded': { contract: WebhookContract };
+  'contract.completed': { contract: WebhookContract };
+  // stage is where processing stopped
+  'contract.failed': { contract: WebhookContract; stage: string | null };
+  'review.completed': { contract: WebhookContract; completedBy: { id: string; name: string } };
+  // Sent at each of the workspace's reminder lead times before the deadline
+  'deadline.approaching': { contract: WebhookContract; deadline: Deadline; daysLeft: number };
+}
+
+export interface WebhookOptions {
+  pollIntervalMs: number;
+  // Deliveries claimed, and sent concurrently, per poll
+  batchSize: number;
+  maxAttempts: number;
+  backoffBaseMs: number;
+  backoffMaxMs: number;
+  timeoutMs: number;
+}
+
+const DEFAULT_OPTIONS: WebhookOptions = {
+  pollIntervalMs: 5000,
+  batchSize: 10,
+  maxAttempts: 8,
+  backoffBaseMs: 30 * 1000,
+  backoffMaxMs: 6 * 60 * 60 * 1000,
+  timeoutMs: 10 * 1000,
+};
+
+// Loopback, private, link-local (cloud metadata), shared, reserved and multicast ranges
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 127],
+  ['64:ff9b::', 96],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+// The block list checks IPv4-mapped IPv6 addresses (::ffff:a.b.c.d) against the IPv4 ranges
+export const isPrivateAddress = (address: string) =>
+  isIP(address) === 6
+    ? PRIVATE_ADDRESSES.check(address, 'ipv6')
+    : PRIVATE_ADDRESSES.check(address, 'ipv4');
+
+const allowPrivateUrls = () => process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true';
+
+export function webhookOptionsFromEnv(): WebhookOptions {
+  const read = (name: string, fallback: number) => Number(process.env[name]) || fallback;
+  return {
+    pollIntervalMs: read('WEBHOOK_POLL_INTERVAL_MS', DEFAULT_OPTIONS.pollIntervalMs),
+    batchSize: DEFAULT_OPTIONS.batchSize,
+    maxAttempts: read('WEBHOOK_MAX_ATTEMPTS', DEFAULT_OPTIONS.maxAttempts),
+    backoffBaseMs: read('WEBHOOK_BACKOFF_BASE_MS', DEFAULT_OPTIONS.backoffBaseMs),
+    backoffMaxMs: read('WEBHOOK_BACKOFF_MAX_MS', DEFAULT_OPTIONS.backoffMaxMs),
+    timeoutMs: read('WEBHOOK_TIMEOUT_MS', DEFAULT_OPTIONS.timeoutMs),
+  };
+}
+
+export const webhookContract = ({
+  id,
+  fileName,
+  documentType,
+  status,
+  reviewStatus,
+  riskScore,
+  uploadedAt,
+  batchId,
+}: WebhookContract): WebhookContract => ({
+  id,
+  fileName,
+  documentType,
+  status,
+  reviewStatus,
+  riskScore,
+  uploadedAt,
+  batchId,
+});
+
+// Endpoints must be absolute http(s) URLs; credentials in the URL would end up in the log
+export function isWebhookUrl(value: unknown): value is string {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  try {
+    const url = new URL(value);
+    return (
+      (url.protocol === 'https:' || url.protocol === 'http:') && !url.username && !url.password
+    );
+  } catch {
+    return false;
+  }
+}
+
+// Why webhooks cannot be sent to the URL's host, or null if they can
+export async function webhookUrlProblem(url: string): Promise<string | null> {
+  // IPv6 literals keep their brackets in URL.hostname
+  const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname)
+      ? [hostname]
+      : (await dns.promises.lookup(hostname, { all: true })).map(({ address }) => address);
+  } catch {
+    return `${hostname} could not be resolved`;
+  }
+  const blocked = addresses.find(isPrivateAddress);
+  return blocked && !allowPrivateUrls()
+    ? `${hostname} resolves to the private address ${blocked}`
+    : null;
+}
+
+// dns.lookup for webhook requests, failing for hostnames with a private address so that the
+// connection goes to an address that was checked
+const publicLookup: typeof dns.lookup = ((
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: Error | null, address: string | dns.LookupAddress[], family?: number) => void,
+) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      return callback(error, []);
+    }
+    const blocked = addresses.find(({ address }) => isPrivateAddress(address));
+    if (blocked && !allowPrivateUrls()) {
+      return callback(
+        new Error(`${hostname} resolves to the private address ${blocked.address}`),
+        [],
+      );
+    }
+    if (options.all) {
+      return callback(null, addresses);
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+}) as typeof dns.lookup;
+
+// POST the body and return the response status; the response body is discarded, and
+// redirects are not followed, as they would resend the signed payload to a URL nobody
+// subscribed
+async function post(
+  url: string,
+  headers: Record<string, string>,
+  body: string,
+  timeoutMs: number,
+): Promise<number> {
+  const problem = await webhookUrlProblem(url);
+  if (problem) {
+    throw new Error(problem);
+  }
+  const client = new URL(url).protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.request(
+      url,
+      {
+        method: 'POST',
+        headers: { ...headers, 'Content-Length': Buffer.byteLength(body) },
+        lookup: publicLookup,
+        signal: AbortSignal.timeout(timeoutMs),
+      },
+      (response) => {
+        response.resume();
+        response.on('end', () => resolve(response.statusCode ?? 0));
+        response.on('error', reject);
+      },
+    );
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+export const isWebhookEvents = (value: unknown): value is WebhookEvent[] =>
+  Array.isArray(value) &&
+  value.length > 0 &&
+  value.every((event) => WEBHOOK_EVENTS.includes(event));
+
+// A subscription as the API returns it; the secret is only shown when it is created or rotated
+export const publicSubscription = (subscription: WebhookSubscription) => ({
+  id: subscription.id,
+  workspaceId: subscription.workspaceId,
+  url: subscription.url,
+  events: subscription.events,
+  description: subscription.description,
+  active: subscription.active,
+  createdAt: subscription.createdAt,
+  updatedAt: subscription.updatedAt,
+});
+
+export const generateWebhookSecret = () => `whsec_${randomBytes(24).toString('base64')}`;
+
+// The webhook-signature header for a payload
+export function signWebhook(
+  secret: string,
+  messageId: string,
+  timestamp: number,
+  body: string,
+): string {
+  const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+  const signature = createHmac('sha256', key)
+    .update(`${messageId}.${timestamp}.${body}`)
+    .digest('base64');
+  return `v1,${signature}`;
+}
+
+// Queue the event for every active subscription of the workspace to it; call inside the
+// transaction that makes the change, then wake the dispatcher once it has committed
+export async function enqueueWebhookEvent<T extends WebhookEvent>(
+  db: Prisma.TransactionClient,
+  workspaceId: string,
+  event: T,
+  data: WebhookEventData[T],
+): Promise<void> {
+  const subscriptions = await db.webhookSubscription.findMany({
+    where: { workspaceId, active: true, events: { has: event } },
+    select: { id: true },
+  });
+  if (subscriptions.length === 0) {
+    return;
+  }
+
+  const eventId = randomUUID();
+  const payload = {
+    id: eventId,
+    type: event,
+    timestamp: new Date().toISOString(),
+    workspaceId,
+    data,
+  };
+  await db.webhookDelivery.createMany({
+    data: subscriptions.map((subscription) => ({
+      subscriptionId: subscription.id,
+      eventId,
+      event,
+      payload: payload as unknown as Prisma.InputJsonObject,
+    })),
+  });
+}
+
+// Send a finished delivery again, to the subscription's current URL, as a new delivery
+export async function redeliver(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+  const copy = await prisma.webhookDelivery.create({
+    data: {
+      subscriptionId: delivery.subscriptionId,
+      eventId: delivery.eventId,
+      event: delivery.event,
+      payload: delivery.payload as Prisma.InputJsonObject,
+      redeliveryOfId: delivery.id,
+    },
+  });
+  wakeWebhookDispatcher();
+  return copy;
+}
+
+function backoff(options: WebhookOptions, attempts: number): number {
+  const delay = options.backoffBaseMs * 2 ** (attempts - 1);
+  // Add up to 20% jitter so that retries to an endpoint that was down spread out
+  const jitter = delay * 0.2 * Math.random();
+  return Math.min(Math.round(delay + jitter), options.backoffMaxMs);
+}
+
+// POST one delivery and record the outcome
+async function attempt(
+  delivery: WebhookDelivery & { subscription: WebhookSubscription },
+  options: WebhookOptions,
+): Promise<void> {
+  const body = JSON.stringify(delivery.payload);
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempts = delivery.attempts + 1;
+
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+  try {
+    responseStatus = await post(
+      delivery.subscription.url,
+      {
+        'Content-Type': 'application/json',
+        'webhook-id': delivery.eventId,
+        'webhook-timestamp': String(timestamp),
+        'webhook-signature': signWebhook(
+          delivery.subscription.secret,
+          delivery.eventId,
+          timestamp,
+          body,
+        ),
+      },
+      body,
+      options.timeoutMs,
+    );
+    if (responseStatus < 200 || responseStatus >= 300) {
+      error = `The endpoint responded with HTTP ${responseStatus}`;
+    }
+  } catch (requestError) {
+    error = requestError instanceof Error ? requestError.message : String(requestError);
+  }
+
+  const succeeded = error === null;
+  const exhausted = !succeeded && attempts >= options.maxAttempts;
+  if (!succeeded) {
+    console.warn(
+      `Webhook delivery ${delivery.id} to ${delivery.subscription.url} failed (attempt ${attempts}): ${error}`,
+    );
+  }
+  await prisma.webhookDelivery.update({
+    where: { id: delivery.id },
+    data: {
+      status: succeeded ? 'succeeded' : exhausted ? 'failed' : 'pending',
+      attempts,
+      lockedAt: null,
+      responseStatus,
+      lastError: error,
+      ...(succeeded && { deliveredAt: new Date() }),
+      ...(!succeeded &&
+        !exhausted && { nextAttemptAt: new Date(Date.now() + backoff(options, attempts)) }),
+    },
+  });
+}
+
+// Send the deliveries that are due; returns how many were attempted
+export async function deliverDueWebhooks(options = webhookOptionsFromEnv()): Promise<number> {
+  const now = new Date();
+
+  // Attempts outlive the request timeout only if the process stopped during one
+  await prisma.webhookDelivery.updateMany({
+    where: {
+      status: 'delivering',
+      lockedAt: { lt: new Date(now.getTime() - 2 * options.timeoutMs - 60 * 1000) },
+    },
+    data: { status: 'pending', lockedAt: null },
+  });
+
+  const claimed = await prisma.$queryRaw<{ id: string }[]>`
+    UPDATE "WebhookDelivery" SET "status" = 'delivering', "lockedAt" = ${now}
+    WHERE "id" IN (
+      SELECT d."id" FROM "WebhookDelivery" d
+      JOIN "WebhookSubscription" s ON s."id" = d."subscriptionId"
+      WHERE d."status" = 'pending' AND d."nextAttemptAt" <= ${now} AND s."active"
+      ORDER BY d."nextAttemptAt"
+      LIMIT ${options.batchSize}
+      FOR UPDATE OF d SKIP LOCKED
+    )
+    RETURNING "id"`;
+  if (claimed.length === 0) {
+    return 0;
+  }
+
+  const deliveries = await prisma.webhookDelivery.findMany({
+    where: { id: { in: claimed.map((row) => row.id) } },
+    include: { subscription: true },
+  });
+  await Promise.all(deliveries.map((delivery) => attempt(delivery, options)));
+  return deliveries.length;
+}
+
+// One dispatcher per process, kept across hot reloads in development
+declare global {
+  // eslint-disable-next-line no-var
+  var webhookDispatcher: { timer: NodeJS.Timeout; poll: () => Promise<void> } | undefined;
+}
+
+// Poll for due deliveries every WEBHOOK_POLL_INTERVAL_MS until the process exits
+export function startWebhookDispatcher(): void {
+  if (global.webhookDispatcher) {
+    return;
+  }
+  const options = webhookOptionsFromEnv();
+  let polling = false;
+
+  const poll = async () => {
+    if (polling) {
+      return;
+    }
+    polling = true;
+    try {
+      // Keep going while full batches are claimed
+      while ((await deliverDueWebhooks(options)) === options.batchSize);
+    } catch (error) {
+      console.error('Error delivering webhooks:', error);
+    } finally {
+      polling = false;
+    }
+  };
+
+  const timer = setInterval(poll, options.pollIntervalMs);
+  timer.unref();
+  global.webhookDispatcher = { timer, poll };
+}
+
+// Deliver newly queued events now rather than at the next poll
+export function wakeWebhookDispatcher(): void {
+  void global.webhookDispatcher?.poll();
+}
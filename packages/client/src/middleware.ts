@@ -0,0 +1,19 @@
+import { NextRequest, NextResponse } from 'next/server';
+
+// Send visitors without a session cookie to the login page. Middleware runs on the edge
+// runtime without database access, so the API routes check the session itself.
+export function middleware(request: NextRequest) {
+  // Same name as SESSION_COOKIE in lib/auth, which cannot be imported on the edge runtime
+  if (!request.cookies.has('session')) {
+    const url = request.nextUrl.clone();
+    url.pathname = '/login';
+    url.search = '';
+    return NextResponse.redirect(url);
+  }
+  return NextResponse.next();
+}
+
+export const config = {
+  // Pages only: API routes answer 401 themselves, and the login page must stay reachable
+  matcher: ['/((?!api|login|_next|favicon.ico).*)'],
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { isBoundingRegion } from './citations';
+
+const square = [
+  { x: 0.1, y: 0.1 },
+  { x: 0.5, y: 0.1 },
+  { x: 0.5, y: 0.2 },
+  { x: 0.1, y: 0.2 },
+];
+
+describe('isBoundingRegion', () => {
+  it('accepts a polygon of normalized vertices on a page', () => {
+    expect(isBoundingRegion({ pageNumber: 1, vertices: square })).toBe(true);
+  });
+
+  it.each([
+    ['a missing value', null],
+    ['page 0', { pageNumber: 0, vertices: square }],
+    ['a fractional page', { pageNumber: 1.5, vertices: square }],
+    ['fewer than three vertices', { pageNumber: 1, vertices: square.slice(0, 2) }],
+    ['a vertex off the page', { pageNumber: 1, vertices: [...square, { x: 1.2, y: 0.5 }] }],
+    ['a vertex without coordinates', { pageNumber: 1, vertices: [...square, { x: 0.5 }] }],
+    ['a missing vertex', { pageNumber: 1, vertices: [...square, null] }],
+  ])('rejects %s', (_, value) => {
+    expect(isBoundingRegion(value)).toBe(false);
+  });
+});
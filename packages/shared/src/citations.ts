@@ -0,0 +1,41 @@
+/**
+ * Source citation types
+ *
+ * Every extracted clause passage points back at the regions of the PDF it was
+ * read from. Coordinates are normalized to the page (0-1, origin at the top
+ * left) so they can be drawn over the page at any render size.
+ */
+
+export interface NormalizedVertex {
+  x: number;
+  y: number;
+}
+
+// One highlighted area, usually a line of the passage
+export interface BoundingRegion {
+  pageNumber: number;
+  vertices: NormalizedVertex[];
+}
+
+function isNormalizedVertex(value: unknown): value is NormalizedVertex {
+  const vertex = value as NormalizedVertex;
+  return (
+    Number.isFinite(vertex?.x) &&
+    Number.isFinite(vertex.y) &&
+    vertex.x >= 0 &&
+    vertex.x <= 1 &&
+    vertex.y >= 0 &&
+    vertex.y <= 1
+  );
+}
+
+export function isBoundingRegion(value: unknown): value is BoundingRegion {
+  const region = value as BoundingRegion;
+  return (
+    Number.isInteger(region?.pageNumber) &&
+    region.pageNumber > 0 &&
+    Array.isArray(region.vertices) &&
+    region.vertices.length >= 3 &&
+    region.vertices.every(isNormalizedVertex)
+  );
+}
@@ -0,0 +1,32 @@
+import { strToU8, zipSync } from 'fflate';
+import { describe, expect, it } from 'vitest';
+import { DOCX_BODY_PART, detectFileKind } from './documents';
+
+const zip = (entries: Record<string, string>) =>
+  Buffer.from(
+    zipSync(
+      Object.fromEntries(Object.entries(entries).map(([name, text]) => [name, strToU8(text)])),
+    ),
+  );
+
+describe('detectFileKind', () => {
+  it('recognizes PDFs by their header, even after some leading bytes', () => {
+    expect(detectFileKind(Buffer.from('%PDF-1.7\n'))).toBe('pdf');
+    expect(detectFileKind(Buffer.from(`${' '.repeat(100)}%PDF-1.4`))).toBe('pdf');
+    expect(detectFileKind(Buffer.from(`${' '.repeat(1100)}%PDF-1.4`))).toBeNull();
+  });
+
+  it('tells Word documents from other ZIP archives by their body part', () => {
+    expect(detectFileKind(zip({ [DOCX_BODY_PART]: '<w:document/>' }))).toBe('docx');
+    expect(detectFileKind(zip({ 'lease.pdf': '%PDF-1.7' }))).toBe('zip');
+  });
+
+  it('leaves a damaged archive to be reported when it is unpacked', () => {
+    expect(detectFileKind(Buffer.from('PK\x03\x04\x00\x00', 'latin1'))).toBe('zip');
+  });
+
+  it('refuses anything else', () => {
+    expect(detectFileKind(Buffer.from('MZ\x90\x00', 'latin1'))).toBeNull();
+    expect(detectFileKind(Buffer.alloc(0))).toBeNull();
+  });
+});
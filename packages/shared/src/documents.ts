@@ -0,0 +1,44 @@
+import { unzipSync } from 'fflate';
+
+/**
+ * Document types
+ *
+ * Files are identified by their content, never by their name or the MIME type they came
+ * with: the first bytes decide whether a file is a PDF, a Word document (a ZIP package
+ * with a word/document.xml part) or some other ZIP archive. The client checks uploads
+ * this way and the AI service picks the reader for a stored document with it.
+ */
+
+export type DocumentType = 'pdf' | 'docx';
+
+// A ZIP archive that is not a Word document, which only uploads may be
+export type FileKind = DocumentType | 'zip';
+
+// Part of a Word document package that holds the body text
+export const DOCX_BODY_PART = 'word/document.xml';
+
+// Identify a file by its magic bytes; null for anything that is neither a PDF nor a ZIP archive
+export function detectFileKind(data: Buffer): FileKind | null {
+  // PDF readers accept the header anywhere in the first kilobyte
+  if (data.subarray(0, 1024).includes('%PDF-')) {
+    return 'pdf';
+  }
+  if (!data.subarray(0, 4).equals(Buffer.from('PK\x03\x04', 'latin1'))) {
+    return null;
+  }
+
+  // Word documents are ZIP packages too; list the entries without unpacking any of them
+  let isDocx = false;
+  try {
+    unzipSync(data, {
+      filter: (entry) => {
+        isDocx ||= entry.name === DOCX_BODY_PART;
+        return false;
+      },
+    });
+  } catch {
+    // Reported as an unreadable archive when it is unpacked
+    return 'zip';
+  }
+  return isDocx ? 'docx' : 'zip';
+}
@@ -0,0 +1,7 @@
+export * from './citations';
+export * from './documents';
+export * from './metadata';
+export * from './progress';
+export * from './signing';
+export * from './storage';
+export * from './usage';
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { ContractMetadata, isCalendarDate, isContractMetadata, isCurrencyCode } from './metadata';
+
+const METADATA: ContractMetadata = {
+  parties: [{ name: 'Acme Corporation', role: 'customer' }],
+  contractType: 'msa',
+  effectiveDate: '2025-03-01',
+  expirationDate: null,
+  renewalTerms: 'Renews for one year unless either party gives 60 days notice.',
+  contractValue: 120000,
+  currency: 'USD',
+  governingLaw: 'State of New York',
+  jurisdiction: null,
+  model: 'gpt-4o',
+};
+
+describe('isCalendarDate', () => {
+  it('accepts real dates as YYYY-MM-DD only', () => {
+    expect(isCalendarDate('2024-02-29')).toBe(true);
+    expect(isCalendarDate('2026-02-29')).toBe(false);
+    expect(isCalendarDate('2026-13-01')).toBe(false);
+    expect(isCalendarDate('2026-3-1')).toBe(false);
+    expect(isCalendarDate('2026-03-01T00:00:00Z')).toBe(false);
+    expect(isCalendarDate(20260301)).toBe(false);
+  });
+});
+
+describe('isCurrencyCode', () => {
+  it('accepts three upper-case letters', () => {
+    expect(isCurrencyCode('EUR')).toBe(true);
+    expect(isCurrencyCode('eur')).toBe(false);
+    expect(isCurrencyCode('EURO')).toBe(false);
+  });
+});
+
+describe('isContractMetadata', () => {
+  it('accepts complete metadata and metadata the contract does not state', () => {
+    expect(isContractMetadata(METADATA)).toBe(true);
+    expect(
+      isContractMetadata({
+        parties: [],
+        contractType: null,
+        effectiveDate: null,
+        expirationDate: null,
+        renewalTerms: null,
+        contractValue: null,
+        currency: null,
+        governingLaw: null,
+        jurisdiction: null,
+        model: 'gpt-4o',
+      }),
+    ).toBe(true);
+  });
+
+  it.each([
+    ['a party without a name', { parties: [{ name: ' ', role: null }] }],
+    ['an unknown contract type', { contractType: 'lease' }],
+    ['a date that is not a calendar date', { effectiveDate: '2025-02-30' }],
+    ['a negative value', { contractValue: -1 }],
+    ['a value too large for its column', { contractValue: 1e16 }],
+    ['a currency that is not a code', { currency: 'dollars' }],
+    ['a missing model', { model: undefined }],
+  ])('rejects %s', (_, change) => {
+    expect(isContractMetadata({ ...METADATA, ...change })).toBe(false);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Contract metadata
+ *
+ * Facts about the deal that the AI service reads from a contract's text, so that
+ * contracts can be filtered and sorted by them rather than by file name: who the
+ * parties are, what kind of agreement it is, when it runs, what it is worth and
+ * which law governs it. A field is null when the contract does not state it.
+ */
+
+export const CONTRACT_TYPES = ['msa', 'sow', 'nda', 'dpa', 'other'] as const;
+
+export type ContractType = (typeof CONTRACT_TYPES)[number];
+
+export interface ContractParty {
+  name: string;
+  // The party's role in the contract, e.g. "customer", "supplier" or "licensor"
+  role: string | null;
+}
+
+export interface ContractMetadata {
+  parties: ContractParty[];
+  contractType: ContractType | null;
+  // Calendar dates, YYYY-MM-DD
+  effectiveDate: string | null;
+  expirationDate: string | null;
+  // How and when the contract renews, in a sentence
+  renewalTerms: string | null;
+  // Total value over the contract's term, in `currency`
+  contractValue: number | null;
+  // ISO 4217 code, e.g. "USD"
+  currency: string | null;
+  governingLaw: string | null;
+  // Courts or venue for disputes
+  jurisdiction: string | null;
+  // Model that read the metadata
+  model: string;
+}
+
+// A real date, so "2026-02-30" is not one
+export function isCalendarDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+export const isCurrencyCode = (value: unknown): value is string =>
+  typeof value === 'string' && /^[A-Z]{3}$/.test(value);
+
+const isOptionalString = (value: unknown) => value === null || typeof value === 'string';
+
+function isContractParty(value: unknown): value is ContractParty {
+  const party = value as ContractParty;
+  return (
+    typeof party?.name === 'string' && party.name.trim() !== '' && isOptionalString(party.role)
+  );
+}
+
+// Largest value the contract value column holds, DECIMAL(18,2)
+const MAX_CONTRACT_VALUE = 1e16;
+
+export function isContractMetadata(value: unknown): value is ContractMetadata {
+  const metadata = value as ContractMetadata;
+  return (
+    Array.isArray(metadata?.parties) &&
+    metadata.parties.every(isContractParty) &&
+    (metadata.contractType === null || CONTRACT_TYPES.includes(metadata.contractType)) &&
+    (metadata.effectiveDate === null || isCalendarDate(metadata.effectiveDate)) &&
+    (metadata.expirationDate === null || isCalendarDate(metadata.expirationDate)) &&
+    isOptionalString(metadata.renewalTerms) &&
+    (metadata.contractValue === null ||
+      (Number.isFinite(metadata.contractValue) &&
+        metadata.contractValue >= 0 &&
+        metadata.contractValue < MAX_CONTRACT_VALUE)) &&
+    (metadata.currency === null || isCurrencyCode(metadata.currency)) &&
+    isOptionalString(metadata.governingLaw) &&
+    isOptionalString(metadata.jurisdiction) &&
+    typeof metadata.model === 'string'
+  );
+}
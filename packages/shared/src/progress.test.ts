@@ -0,0 +1,19 @@
+import { describe, expect, it } from 'vitest';
+import { PROGRESS, progressWithin } from './progress';
+
+describe('progressWithin', () => {
+  it('spreads the steps evenly over the band', () => {
+    expect(progressWithin(PROGRESS.ocr, PROGRESS.textAssembled, 0, 4)).toBe(10);
+    expect(progressWithin(PROGRESS.ocr, PROGRESS.textAssembled, 1, 4)).toBe(20);
+    expect(progressWithin(PROGRESS.ocr, PROGRESS.textAssembled, 4, 4)).toBe(50);
+  });
+
+  it('rounds to whole percentages', () => {
+    expect(progressWithin(55, 95, 1, 3)).toBe(68);
+  });
+
+  it('never leaves the band', () => {
+    expect(progressWithin(55, 95, 5, 3)).toBe(95);
+    expect(progressWithin(55, 95, 0, 0)).toBe(55);
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Processing progress
+ *
+ * The pipeline reports how far a contract has got as a 0-100 percentage plus a
+ * short description of the current stage. Each stage owns a fixed band of the
+ * bar, so progress only moves forward as the AI service works through it.
+ */
+
+export type ContractStatus = 'pending' | 'processing' | 'extracting' | 'completed' | 'failed';
+
+// Payload of the progress events streamed to the browser
+export interface ContractProgress {
+  status: ContractStatus;
+  progress: number;
+  stage: string | null;
+}
+
+// Start of each stage's band; OCR runs from ocr to textAssembled, extraction up to scoring
+export const PROGRESS = {
+  uploadReceived: 5,
+  ocr: 10,
+  textAssembled: 50,
+  extraction: 55,
+  scoring: 95,
+  completed: 100,
+} as const;
+
+// Position within a band after `done` of `total` steps
+export function progressWithin(from: number, to: number, done: number, total: number): number {
+  return total > 0 ? from + Math.round(((to - from) * Math.min(done, total)) / total) : from;
+}
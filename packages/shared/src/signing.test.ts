@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import {
+  MAX_CLOCK_SKEW_SECONDS,
+  RequestVerifier,
+  SignatureError,
+  SignedRequest,
+  serviceSigningSecret,
+  signRequest,
+} from './signing';
+
+const SECRET = 'test-secret';
+const NOW = Date.UTC(2025, 2, 1, 12);
+
+const request: SignedRequest = {
+  method: 'post',
+  path: '/extract_document',
+  body: '{"id":"contract-1"}',
+};
+
+const headerOf = (headers: Record<string, string>) => (name: string) => headers[name];
+
+describe('RequestVerifier', () => {
+  it('accepts a correctly signed request', () => {
+    const headers = signRequest(SECRET, request, NOW);
+
+    expect(() => new RequestVerifier(SECRET).verify(request, headerOf(headers), NOW)).not.toThrow();
+  });
+
+  it('rejects a request whose method, path or body was changed', () => {
+    const headers = signRequest(SECRET, request, NOW);
+
+    for (const tampered of [
+      { ...request, method: 'PUT' },
+      { ...request, path: '/jobs' },
+      { ...request, body: '{"id":"contract-2"}' },
+    ]) {
+      expect(() => new RequestVerifier(SECRET).verify(tampered, headerOf(headers), NOW)).toThrow(
+        'Invalid signature',
+      );
+    }
+  });
+
+  it('rejects a request signed with another secret', () => {
+    const headers = signRequest('other-secret', request, NOW);
+
+    expect(() => new RequestVerifier(SECRET).verify(request, headerOf(headers), NOW)).toThrow(
+      SignatureError,
+    );
+  });
+
+  it('rejects a replayed request', () => {
+    const verifier = new RequestVerifier(SECRET);
+    const headers = signRequest(SECRET, request, NOW);
+
+    verifier.verify(request, headerOf(headers), NOW);
+    expect(() => verifier.verify(request, headerOf(headers), NOW + 1000)).toThrow(
+      'Request has already been received',
+    );
+  });
+
+  it('rejects a request signed outside the allowed clock skew', () => {
+    const headers = signRequest(SECRET, request, NOW - (MAX_CLOCK_SKEW_SECONDS + 1) * 1000);
+
+    expect(() => new RequestVerifier(SECRET).verify(request, headerOf(headers), NOW)).toThrow(
+      'outside the allowed window',
+    );
+  });
+
+  it('rejects a request without signature headers', () => {
+    expect(() => new RequestVerifier(SECRET).verify(request, () => undefined, NOW)).toThrow(
+      'Missing signature headers',
+    );
+  });
+});
+
+describe('serviceSigningSecret', () => {
+  it('reads SERVICE_SIGNING_SECRET', () => {
+    expect(serviceSigningSecret({ SERVICE_SIGNING_SECRET: SECRET })).toBe(SECRET);
+  });
+
+  it('fails when the secret is not set', () => {
+    expect(() => serviceSigningSecret({})).toThrow('SERVICE_SIGNING_SECRET must be set');
+  });
+});
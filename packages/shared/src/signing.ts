@@ -0,0 +1,118 @@
+import { createHmac, randomUUID, timingSafeEqual } from 'crypto';
+
+/**
+ * Service-to-service request signing
+ *
+ * The contracts API and the AI service sign the requests they send each other
+ * with HMAC-SHA256 over the method, path, timestamp, a random nonce and the raw
+ * body, keyed with the shared SERVICE_SIGNING_SECRET. The receiver rejects
+ * requests whose timestamp is more than MAX_CLOCK_SKEW_SECONDS away from its
+ * own clock, and remembers the nonces it accepted for that long so a captured
+ * request cannot be replayed.
+ */
+
+export const SIGNATURE_HEADER = 'x-signature';
+export const TIMESTAMP_HEADER = 'x-signature-timestamp';
+export const NONCE_HEADER = 'x-signature-nonce';
+
+export const MAX_CLOCK_SKEW_SECONDS = 5 * 60;
+
+export interface SignedRequest {
+  method: string;
+  // Path of the request URL, without the query string
+  path: string;
+  // Raw request body, exactly as sent
+  body: string;
+}
+
+export class SignatureError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SignatureError';
+  }
+}
+
+// The shared secret, read lazily so that dotenv has loaded by then
+export function serviceSigningSecret(env: NodeJS.ProcessEnv = process.env): string {
+  const secret = env.SERVICE_SIGNING_SECRET;
+  if (!secret) {
+    throw new Error('SERVICE_SIGNING_SECRET must be set to sign and verify service requests');
+  }
+  return secret;
+}
+
+function computeSignature(
+  secret: string,
+  { method, path, body }: SignedRequest,
+  timestamp: string,
+  nonce: string,
+): string {
+  return createHmac('sha256', secret)
+    .update(`${method.toUpperCase()}\n${path}\n${timestamp}\n${nonce}\n${body}`)
+    .digest('hex');
+}
+
+// Headers to send with a request
+export function signRequest(
+  secret: string,
+  request: SignedRequest,
+  now = Date.now(),
+): Record<string, string> {
+  const timestamp = String(Math.floor(now / 1000));
+  const nonce = randomUUID();
+  return {
+    [TIMESTAMP_HEADER]: timestamp,
+    [NONCE_HEADER]: nonce,
+    [SIGNATURE_HEADER]: computeSignature(secret, request, timestamp, nonce),
+  };
+}
+
+// Checks signed requests and remembers their nonces; keep one per process
+export class RequestVerifier {
+  // Nonce -> time (ms) after which its timestamp is too old to be accepted anyway
+  private readonly seen = new Map<string, number>();
+
+  constructor(
+    private readonly secret: string,
+    private readonly maxSkewSeconds = MAX_CLOCK_SKEW_SECONDS,
+  ) {}
+
+  // Throws a SignatureError unless the request is correctly signed, fresh and not a replay
+  verify(
+    request: SignedRequest,
+    header: (name: string) => string | null | undefined,
+    now = Date.now(),
+  ): void {
+    const timestamp = header(TIMESTAMP_HEADER);
+    const nonce = header(NONCE_HEADER);
+    const signature = header(SIGNATURE_HEADER);
+    if (!timestamp || !nonce || !signature) {
+      throw new SignatureError('Missing signature headers');
+    }
+
+    const issuedAt = Number(timestamp) * 1000;
+    if (!Number.isInteger(issuedAt) || Math.abs(now - issuedAt) > this.maxSkewSeconds * 1000) {
+      throw new SignatureError('Signature timestamp is missing or outside the allowed window');
+    }
+
+    const expected = Buffer.from(computeSignature(this.secret, request, timestamp, nonce));
+    const actual = Buffer.from(signature);
+    if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+      throw new SignatureError('Invalid signature');
+    }
+
+    this.forgetExpired(now);
+    if (this.seen.has(nonce)) {
+      throw new SignatureError('Request has already been received');
+    }
+    this.seen.set(nonce, issuedAt + this.maxSkewSeconds * 1000);
+  }
+
+  private forgetExpired(now: number): void {
+    for (const [nonce, expiresAt] of this.seen) {
+      if (expiresAt < now) {
+        this.seen.delete(nonce);
+      }
+    }
+  }
+}
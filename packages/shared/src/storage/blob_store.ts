@@ -0,0 +1,57 @@
+/**
+ * Storage-agnostic blob access
+ *
+ * Documents and OCR output are addressed by keys such as "input/<name>.pdf" or
+ * "output/<contractId>/output-1-to-50.json". Each driver maps keys onto its own
+ * backend (a GCS bucket, an S3/MinIO bucket or a local directory).
+ */
+
+export interface PutOptions {
+  contentType?: string;
+  cacheControl?: string;
+}
+
+export interface SignedUrlOptions {
+  // Lifetime of the URL in seconds
+  expiresIn?: number;
+  // "read" (default) to download the object, "write" to upload it with a PUT request
+  action?: 'read' | 'write';
+  contentType?: string;
+}
+
+export interface BlobInfo {
+  key: string;
+  size: number;
+  updatedAt?: Date;
+}
+
+export interface BlobStore {
+  readonly driver: string;
+  put(key: string, data: Buffer | string, options?: PutOptions): Promise<void>;
+  get(key: string): Promise<Buffer>;
+  exists(key: string): Promise<boolean>;
+  // All objects whose key starts with prefix, sorted by key
+  list(prefix: string): Promise<BlobInfo[]>;
+  getSignedUrl(key: string, options?: SignedUrlOptions): Promise<string>;
+  delete(key: string): Promise<void>;
+  // Backend-specific location (gs://, s3:// or file://) for services that read it directly
+  nativeUri(key: string): string;
+}
+
+export class BlobNotFoundError extends Error {
+  constructor(public readonly key: string) {
+    super(`Blob not found: ${key}`);
+    this.name = 'BlobNotFoundError';
+  }
+}
+
+export const DEFAULT_SIGNED_URL_EXPIRY_SECONDS = 15 * 60;
+
+// Reject keys that could escape the store's root, e.g. "../secrets"
+export function normalizeKey(key: string): string {
+  const normalized = key.replace(/\\/g, '/').replace(/^\/+/, '');
+  if (!normalized || normalized.split('/').some((segment) => segment === '..')) {
+    throw new Error(`Invalid blob key: ${key}`);
+  }
+  return normalized;
+}
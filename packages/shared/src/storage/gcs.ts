@@ -0,0 +1,79 @@
+import { Storage } from '@google-cloud/storage';
+import {
+  BlobInfo,
+  BlobNotFoundError,
+  BlobStore,
+  DEFAULT_SIGNED_URL_EXPIRY_SECONDS,
+  PutOptions,
+  SignedUrlOptions,
+  normalizeKey,
+} from './blob_store';
+
+export class GcsBlobStore implements BlobStore {
+  readonly driver = 'gcs';
+  private readonly storage: Storage;
+
+  constructor(
+    private readonly bucketName: string,
+    storage?: Storage,
+  ) {
+    this.storage = storage ?? new Storage();
+  }
+
+  private file(key: string) {
+    return this.storage.bucket(this.bucketName).file(normalizeKey(key));
+  }
+
+  async put(key: string, data: Buffer | string, options: PutOptions = {}): Promise<void> {
+    await this.file(key).save(data, {
+      contentType: options.contentType,
+      metadata: options.cacheControl ? { cacheControl: options.cacheControl } : undefined,
+    });
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      const [content] = await this.file(key).download();
+      return content;
+    } catch (error) {
+      if ((error as { code?: number }).code === 404) {
+        throw new BlobNotFoundError(key);
+      }
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    const [exists] = await this.file(key).exists();
+    return exists;
+  }
+
+  async list(prefix: string): Promise<BlobInfo[]> {
+    const [files] = await this.storage.bucket(this.bucketName).getFiles({ prefix });
+    return files
+      .map((file) => ({
+        key: file.name,
+        size: Number(file.metadata.size ?? 0),
+        updatedAt: file.metadata.updated ? new Date(file.metadata.updated) : undefined,
+      }))
+      .sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+    const [url] = await this.file(key).getSignedUrl({
+      version: 'v4',
+      action: options.action === 'write' ? 'write' : 'read',
+      contentType: options.contentType,
+      expires: Date.now() + (options.expiresIn ?? DEFAULT_SIGNED_URL_EXPIRY_SECONDS) * 1000,
+    });
+    return url;
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.file(key).delete({ ignoreNotFound: true });
+  }
+
+  nativeUri(key: string): string {
+    return `gs://${this.bucketName}/${normalizeKey(key)}`;
+  }
+}
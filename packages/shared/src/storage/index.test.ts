@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { GcsBlobStore, LocalBlobStore, S3BlobStore, createBlobStore, normalizeKey } from './index';
+
+describe('normalizeKey', () => {
+  it('turns backslashes into slashes and drops leading slashes', () => {
+    expect(normalizeKey('/input\\contract.pdf')).toBe('input/contract.pdf');
+  });
+
+  it.each(['', '/', '../secrets', 'input/../../secrets', '..\\secrets'])('rejects %j', (key) => {
+    expect(() => normalizeKey(key)).toThrow('Invalid blob key');
+  });
+
+  it('allows names that merely contain dots', () => {
+    expect(normalizeKey('input/..contract..pdf')).toBe('input/..contract..pdf');
+  });
+});
+
+describe('createBlobStore', () => {
+  it('uses GCS by default', () => {
+    const store = createBlobStore({ GCS_BUCKET_NAME: 'contracts' });
+
+    expect(store).toBeInstanceOf(GcsBlobStore);
+    expect(store.nativeUri('/input/a.pdf')).toBe('gs://contracts/input/a.pdf');
+  });
+
+  it('creates the S3 and local drivers from their variables', () => {
+    const s3 = createBlobStore({ STORAGE_DRIVER: 's3', S3_BUCKET: 'contracts' });
+    expect(s3).toBeInstanceOf(S3BlobStore);
+    expect(s3.nativeUri('input/a.pdf')).toBe('s3://contracts/input/a.pdf');
+
+    expect(
+      createBlobStore({ STORAGE_DRIVER: 'local', LOCAL_STORAGE_DIR: '/var/blobs' }),
+    ).toBeInstanceOf(LocalBlobStore);
+  });
+
+  it('requires the variables each driver needs', () => {
+    expect(() => createBlobStore({ STORAGE_DRIVER: 's3' })).toThrow('S3_BUCKET must be set');
+    expect(() => createBlobStore({ STORAGE_DRIVER: 'local' })).toThrow(
+      'LOCAL_STORAGE_DIR must be set',
+    );
+    expect(() => createBlobStore({ STORAGE_DRIVER: 'azure' })).toThrow(
+      'Unknown STORAGE_DRIVER "azure"',
+    );
+  });
+});
@@ -0,0 +1,47 @@
+import { BlobStore } from './blob_store';
+import { GcsBlobStore } from './gcs';
+import { LocalBlobStore } from './local';
+import { S3BlobStore } from './s3';
+
+export * from './blob_store';
+export { GcsBlobStore } from './gcs';
+export { LocalBlobStore, LocalBlobStoreOptions } from './local';
+export { S3BlobStore } from './s3';
+
+/**
+ * Create the BlobStore selected by STORAGE_DRIVER:
+ *
+ * - gcs (default): GCS_BUCKET_NAME
+ * - s3: S3_BUCKET, plus S3_REGION, S3_ENDPOINT and S3_FORCE_PATH_STYLE=true for MinIO.
+ *   Credentials come from the usual AWS_* environment variables.
+ * - local: LOCAL_STORAGE_DIR, plus LOCAL_STORAGE_PUBLIC_URL and LOCAL_STORAGE_SIGNING_SECRET
+ *   for signed URLs
+ */
+export function createBlobStore(env: NodeJS.ProcessEnv = process.env): BlobStore {
+  const driver = env.STORAGE_DRIVER || 'gcs';
+
+  switch (driver) {
+    case 'gcs':
+      return new GcsBlobStore(env.GCS_BUCKET_NAME || 'fb_dioptra_process');
+    case 's3':
+      if (!env.S3_BUCKET) {
+        throw new Error('S3_BUCKET must be set when STORAGE_DRIVER=s3');
+      }
+      return new S3BlobStore(env.S3_BUCKET, {
+        region: env.S3_REGION || env.AWS_REGION || 'us-east-1',
+        endpoint: env.S3_ENDPOINT || undefined,
+        forcePathStyle: env.S3_FORCE_PATH_STYLE === 'true',
+      });
+    case 'local':
+      if (!env.LOCAL_STORAGE_DIR) {
+        throw new Error('LOCAL_STORAGE_DIR must be set when STORAGE_DRIVER=local');
+      }
+      return new LocalBlobStore({
+        rootDir: env.LOCAL_STORAGE_DIR,
+        publicBaseUrl: env.LOCAL_STORAGE_PUBLIC_URL,
+        signingSecret: env.LOCAL_STORAGE_SIGNING_SECRET,
+      });
+    default:
+      throw new Error(`Unknown STORAGE_DRIVER "${driver}". Expected "gcs", "s3" or "local"`);
+  }
+}
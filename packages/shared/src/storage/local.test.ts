@@ -0,0 +1,86 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { BlobNotFoundError } from './blob_store';
+import { LocalBlobStore } from './local';
+
+describe('LocalBlobStore', () => {
+  let rootDir: string;
+  let store: LocalBlobStore;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'blobs-'));
+    store = new LocalBlobStore({
+      rootDir,
+      publicBaseUrl: 'http://localhost:3000/api/blobs/',
+      signingSecret: 'test-secret',
+    });
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('stores, reads and deletes blobs as files under its root', async () => {
+    await store.put('input/contract.pdf', Buffer.from('%PDF-1.7'));
+
+    expect(fs.existsSync(path.join(rootDir, 'input', 'contract.pdf'))).toBe(true);
+    expect((await store.get('input/contract.pdf')).toString()).toBe('%PDF-1.7');
+    expect(await store.exists('input/contract.pdf')).toBe(true);
+    expect(store.nativeUri('input/contract.pdf')).toBe(
+      `file://${path.join(rootDir, 'input', 'contract.pdf')}`,
+    );
+
+    await store.delete('input/contract.pdf');
+    expect(await store.exists('input/contract.pdf')).toBe(false);
+    await expect(store.get('input/contract.pdf')).rejects.toBeInstanceOf(BlobNotFoundError);
+  });
+
+  it('lists the blobs under a prefix, sorted by key', async () => {
+    await store.put('output/c1/output-51-to-60.json', '{}');
+    await store.put('output/c1/output-1-to-50.json', '{}');
+    await store.put('output/c10/output-1-to-5.json', '{}');
+    await store.put('input/c1.pdf', '');
+
+    expect((await store.list('output/c1/')).map((blob) => blob.key)).toEqual([
+      'output/c1/output-1-to-50.json',
+      'output/c1/output-51-to-60.json',
+    ]);
+    expect((await store.list('output/c1')).map((blob) => blob.key)).toHaveLength(3);
+    expect(await store.list('missing/')).toEqual([]);
+  });
+
+  it('refuses keys that would leave its root', async () => {
+    await expect(store.put('../outside.txt', 'x')).rejects.toThrow('Invalid blob key');
+    await expect(store.get('input/../../outside.txt')).rejects.toThrow('Invalid blob key');
+  });
+
+  it('signs URLs that verify until they expire', async () => {
+    const url = new URL(
+      await store.getSignedUrl('input/my contract.pdf', { action: 'write', expiresIn: 60 }),
+    );
+    const expires = Number(url.searchParams.get('expires'));
+    const signature = url.searchParams.get('signature')!;
+
+    expect(url.pathname).toBe('/api/blobs/input/my%20contract.pdf');
+    expect(store.verifySignedUrl('input/my contract.pdf', 'write', expires, signature)).toBe(true);
+    expect(store.verifySignedUrl('input/my contract.pdf', 'read', expires, signature)).toBe(false);
+    expect(store.verifySignedUrl('input/other.pdf', 'write', expires, signature)).toBe(false);
+    expect(
+      store.verifySignedUrl(
+        'input/my contract.pdf',
+        'write',
+        expires,
+        signature,
+        (expires + 1) * 1000,
+      ),
+    ).toBe(false);
+  });
+
+  it('cannot sign URLs without a public URL', async () => {
+    await expect(new LocalBlobStore({ rootDir }).getSignedUrl('input/c1.pdf')).rejects.toThrow(
+      'needs publicBaseUrl',
+    );
+  });
+});
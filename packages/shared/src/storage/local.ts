@@ -0,0 +1,134 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  BlobInfo,
+  BlobNotFoundError,
+  BlobStore,
+  DEFAULT_SIGNED_URL_EXPIRY_SECONDS,
+  PutOptions,
+  SignedUrlOptions,
+  normalizeKey,
+} from './blob_store';
+
+export interface LocalBlobStoreOptions {
+  rootDir: string;
+  // URL the blobs are served from, e.g. http://localhost:3000/api/blobs
+  publicBaseUrl?: string;
+  // Secret used to sign and verify URLs handed out by getSignedUrl
+  signingSecret?: string;
+}
+
+// Stores blobs as files under a local directory; signed URLs point at an app route that
+// checks the signature with verifySignedUrl before serving the file
+export class LocalBlobStore implements BlobStore {
+  readonly driver = 'local';
+  private readonly rootDir: string;
+
+  constructor(private readonly options: LocalBlobStoreOptions) {
+    this.rootDir = path.resolve(options.rootDir);
+  }
+
+  private filePath(key: string): string {
+    return path.join(this.rootDir, normalizeKey(key));
+  }
+
+  async put(key: string, data: Buffer | string, _options: PutOptions = {}): Promise<void> {
+    const filePath = this.filePath(key);
+    await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.promises.writeFile(filePath, data);
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      return await fs.promises.readFile(this.filePath(key));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        throw new BlobNotFoundError(key);
+      }
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    return fs.existsSync(this.filePath(key));
+  }
+
+  async list(prefix: string): Promise<BlobInfo[]> {
+    const blobs: BlobInfo[] = [];
+
+    const walk = async (directory: string) => {
+      if (!fs.existsSync(directory)) {
+        return;
+      }
+      for (const entry of await fs.promises.readdir(directory, { withFileTypes: true })) {
+        const entryPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+          await walk(entryPath);
+          continue;
+        }
+
+        const key = path.relative(this.rootDir, entryPath).split(path.sep).join('/');
+        if (key.startsWith(prefix)) {
+          const stats = await fs.promises.stat(entryPath);
+          blobs.push({ key, size: stats.size, updatedAt: stats.mtime });
+        }
+      }
+    };
+
+    // Only walk the part of the tree that can contain the prefix
+    const prefixDirectory = prefix.includes('/') ? prefix.slice(0, prefix.lastIndexOf('/')) : '';
+    await walk(path.join(this.rootDir, prefixDirectory ? normalizeKey(prefixDirectory) : ''));
+
+    return blobs.sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+    const { publicBaseUrl } = this.options;
+    if (!publicBaseUrl) {
+      throw new Error('LocalBlobStore needs publicBaseUrl to create signed URLs');
+    }
+
+    const action = options.action ?? 'read';
+    const expires =
+      Math.floor(Date.now() / 1000) + (options.expiresIn ?? DEFAULT_SIGNED_URL_EXPIRY_SECONDS);
+    const signature = this.sign(normalizeKey(key), action, expires);
+    const encodedKey = normalizeKey(key).split('/').map(encodeURIComponent).join('/');
+
+    return `${publicBaseUrl.replace(/\/+$/, '')}/${encodedKey}?action=${action}&expires=${expires}&signature=${signature}`;
+  }
+
+  // Check a signature produced by getSignedUrl; the URL must not have expired
+  verifySignedUrl(
+    key: string,
+    action: string,
+    expires: number,
+    signature: string,
+    now = Date.now(),
+  ): boolean {
+    if (!Number.isFinite(expires) || expires * 1000 < now) {
+      return false;
+    }
+
+    const expected = Buffer.from(this.sign(normalizeKey(key), action, expires));
+    const actual = Buffer.from(signature);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.promises.rm(this.filePath(key), { force: true });
+  }
+
+  nativeUri(key: string): string {
+    return `file://${this.filePath(key)}`;
+  }
+
+  private sign(key: string, action: string, expires: number): string {
+    if (!this.options.signingSecret) {
+      throw new Error('LocalBlobStore needs signingSecret to sign URLs');
+    }
+    return createHmac('sha256', this.options.signingSecret)
+      .update(`${action}\n${key}\n${expires}`)
+      .digest('hex');
+  }
+}
@@ -0,0 +1,118 @@
+import {
+  DeleteObjectCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  PutObjectCommand,
+  S3Client,
+  S3ClientConfig,
+} from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import {
+  BlobInfo,
+  BlobNotFoundError,
+  BlobStore,
+  DEFAULT_SIGNED_URL_EXPIRY_SECONDS,
+  PutOptions,
+  SignedUrlOptions,
+  normalizeKey,
+} from './blob_store';
+
+// S3 and S3-compatible stores such as MinIO (set endpoint and forcePathStyle for the latter)
+export class S3BlobStore implements BlobStore {
+  readonly driver = 's3';
+  private readonly client: S3Client;
+
+  constructor(
+    private readonly bucketName: string,
+    config: S3ClientConfig = {},
+  ) {
+    this.client = new S3Client(config);
+  }
+
+  async put(key: string, data: Buffer | string, options: PutOptions = {}): Promise<void> {
+    await this.client.send(
+      new PutObjectCommand({
+        Bucket: this.bucketName,
+        Key: normalizeKey(key),
+        Body: data,
+        ContentType: options.contentType,
+        CacheControl: options.cacheControl,
+      }),
+    );
+  }
+
+  async get(key: string): Promise<Buffer> {
+    try {
+      const response = await this.client.send(
+        new GetObjectCommand({ Bucket: this.bucketName, Key: normalizeKey(key) }),
+      );
+      return Buffer.from(await response.Body!.transformToByteArray());
+    } catch (error) {
+      if ((error as { name?: string }).name === 'NoSuchKey') {
+        throw new BlobNotFoundError(key);
+      }
+      throw error;
+    }
+  }
+
+  async exists(key: string): Promise<boolean> {
+    try {
+      await this.client.send(
+        new HeadObjectCommand({ Bucket: this.bucketName, Key: normalizeKey(key) }),
+      );
+      return true;
+    } catch (error) {
+      if ((error as { name?: string }).name === 'NotFound') {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async list(prefix: string): Promise<BlobInfo[]> {
+    const blobs: BlobInfo[] = [];
+    let continuationToken: string | undefined;
+
+    do {
+      const response = await this.client.send(
+        new ListObjectsV2Command({
+          Bucket: this.bucketName,
+          Prefix: prefix,
+          ContinuationToken: continuationToken,
+        }),
+      );
+      for (const object of response.Contents ?? []) {
+        blobs.push({ key: object.Key!, size: object.Size ?? 0, updatedAt: object.LastModified });
+      }
+      continuationToken = response.IsTruncated ? response.NextContinuationToken : undefined;
+    } while (continuationToken);
+
+    return blobs.sort((a, b) => a.key.localeCompare(b.key));
+  }
+
+  async getSignedUrl(key: string, options: SignedUrlOptions = {}): Promise<string> {
+    const command =
+      options.action === 'write'
+        ? new PutObjectCommand({
+            Bucket: this.bucketName,
+            Key: normalizeKey(key),
+            ContentType: options.contentType,
+          })
+        : new GetObjectCommand({ Bucket: this.bucketName, Key: normalizeKey(key) });
+
+    return getSignedUrl(this.client, command, {
+      expiresIn: options.expiresIn ?? DEFAULT_SIGNED_URL_EXPIRY_SECONDS,
+    });
+  }
+
+  async delete(key: string): Promise<void> {
+    await this.client.send(
+      new DeleteObjectCommand({ Bucket: this.bucketName, Key: normalizeKey(key) }),
+    );
+  }
+
+  nativeUri(key: string): string {
+    return `s3://${this.bucketName}/${normalizeKey(key)}`;
+  }
+}
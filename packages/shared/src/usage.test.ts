@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { isUsageRecord, UsageRecord } from './usage';
+
+const RECORD: UsageRecord = {
+  kind: 'llm',
+  provider: 'openai',
+  model: 'gpt-4o',
+  pages: 0,
+  inputTokens: 1200,
+  outputTokens: 300,
+  costUsd: 0.006,
+};
+
+describe('isUsageRecord', () => {
+  it('accepts priced and unpriced records', () => {
+    expect(isUsageRecord(RECORD)).toBe(true);
+    expect(isUsageRecord({ ...RECORD, kind: 'ocr', model: null, pages: 3, costUsd: null })).toBe(
+      true,
+    );
+  });
+
+  it.each([
+    ['an unknown kind', { kind: 'speech' }],
+    ['a missing provider', { provider: undefined }],
+    ['fractional counts', { inputTokens: 1.5 }],
+    ['negative counts', { pages: -1 }],
+    ['a negative cost', { costUsd: -0.01 }],
+    ['a cost that is not a number', { costUsd: '0.01' }],
+  ])('rejects %s', (_, change) => {
+    expect(isUsageRecord({ ...RECORD, ...change })).toBe(false);
+  });
+
+  it('rejects values that are not records', () => {
+    expect(isUsageRecord(null)).toBe(false);
+    expect(isUsageRecord([RECORD])).toBe(false);
+  });
+});
@@ -0,0 +1,40 @@
+/**
+ * Usage accounting
+ *
+ * The AI service reports what processing a contract cost: pages sent to the OCR
+ * provider and tokens sent to and returned by each model, priced with its rate
+ * table. Records are totals per kind, provider and model for one pipeline stage.
+ */
+
+export const USAGE_KINDS = ['ocr', 'llm', 'embedding'] as const;
+
+export type UsageKind = (typeof USAGE_KINDS)[number];
+
+export interface UsageRecord {
+  kind: UsageKind;
+  provider: string;
+  // Model that answered; null for OCR engines
+  model: string | null;
+  // Pages recognized by OCR
+  pages: number;
+  inputTokens: number;
+  outputTokens: number;
+  // In US dollars; null when the rate table has no price for the provider and model
+  costUsd: number | null;
+}
+
+const isCount = (value: unknown): value is number =>
+  Number.isInteger(value) && (value as number) >= 0;
+
+export function isUsageRecord(value: unknown): value is UsageRecord {
+  const record = value as UsageRecord;
+  return (
+    USAGE_KINDS.includes(record?.kind) &&
+    typeof record.provider === 'string' &&
+    (record.model === null || typeof record.model === 'string') &&
+    isCount(record.pages) &&
+    isCount(record.inputTokens) &&
+    isCount(record.outputTokens) &&
+    (record.costUsd === null || (Number.isFinite(record.costUsd) && record.costUsd >= 0))
+  );
+}